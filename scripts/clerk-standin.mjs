@@ -0,0 +1,75 @@
+// Local stand-in for the two Clerk Backend API endpoints the VendHub
+// verifier reads (src/lib/verifier-vendhub.ts):
+//
+//   GET /v1/users?email_address=...
+//   GET /v1/users/:id/organization_memberships
+//
+// Users come from a JSON file (default scripts/clerk-standin.json if it
+// exists, else two built-in users):
+//   [{ "id": "user_1", "email": "a@b.com", "last_sign_in_at": 1730000000000, "organizations": ["org_1"] }]
+//
+// Usage:
+//   node scripts/clerk-standin.mjs [users.json]     (PORT defaults to 4010)
+//   CLERK_API_URL=http://localhost:4010/v1 CLERK_VENDHUB_SECRET_KEY=sk_test_local npm run dev
+
+import { createServer } from 'http';
+import { existsSync, readFileSync } from 'fs';
+
+const PORT = Number(process.env.PORT || 4010);
+const file = process.argv[2] || new URL('./clerk-standin.json', import.meta.url).pathname;
+
+const users = existsSync(file)
+  ? JSON.parse(readFileSync(file, 'utf-8'))
+  : [
+      { id: 'user_standin_active', email: 'active@example.com', last_sign_in_at: Date.now() - 864e5, organizations: ['org_standin'] },
+      { id: 'user_standin_no_org', email: 'signed-up@example.com', last_sign_in_at: null, organizations: [] },
+    ];
+
+function toClerkUser(u) {
+  const emailId = `idn_${u.id}`;
+  return {
+    object: 'user',
+    id: u.id,
+    primary_email_address_id: emailId,
+    email_addresses: [{ id: emailId, object: 'email_address', email_address: u.email }],
+    last_sign_in_at: u.last_sign_in_at ?? null,
+  };
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+createServer((req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  console.log(req.method, url.pathname + url.search);
+
+  if (req.method !== 'GET') return send(res, 405, { errors: [{ code: 'method_not_allowed' }] });
+  if (!(req.headers.authorization || '').startsWith('Bearer ')) {
+    return send(res, 401, { errors: [{ code: 'authentication_invalid' }] });
+  }
+
+  if (url.pathname === '/v1/users') {
+    const wanted = url.searchParams.getAll('email_address').map((e) => e.toLowerCase());
+    const matches = users.filter((u) => wanted.length === 0 || wanted.includes(u.email.toLowerCase()));
+    return send(res, 200, matches.map(toClerkUser));
+  }
+
+  const memberships = url.pathname.match(/^\/v1\/users\/([^/]+)\/organization_memberships$/);
+  if (memberships) {
+    const user = users.find((u) => u.id === decodeURIComponent(memberships[1]));
+    if (!user) return send(res, 404, { errors: [{ code: 'resource_not_found' }] });
+    const data = user.organizations.map((orgId) => ({
+      object: 'organization_membership',
+      id: `orgmem_${user.id}_${orgId}`,
+      role: 'org:admin',
+      organization: { object: 'organization', id: orgId, name: orgId },
+    }));
+    return send(res, 200, { data, total_count: data.length });
+  }
+
+  send(res, 404, { errors: [{ code: 'resource_not_found' }] });
+}).listen(PORT, () => {
+  console.log(`Clerk stand-in on http://localhost:${PORT}/v1 — ${users.length} users`);
+});
@@ -0,0 +1,35 @@
+-- =====================================================================
+-- Shared cache backend (CACHE_BACKEND=supabase)
+--
+-- Lets every serverless instance share cached Airtable reads and see the
+-- same invalidations. Safe to re-run.
+--
+-- Hosted:  SQL Editor → paste this file → Run.
+-- Local:   supabase start, then
+--            psql "$(supabase status -o env | grep DB_URL | cut -d= -f2- | tr -d '"')" -f scripts/supabase/002_cache.sql
+--          and point SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY at the
+--          local API URL + service_role key printed by `supabase status`.
+-- =====================================================================
+
+create table if not exists cache_entries (
+  key          text primary key,
+  value        jsonb not null,
+  -- e.g. {"table:tblXXXX"} — invalidateTableCache deletes by tag
+  tags         text[] not null default '{}',
+  expires_at   timestamptz not null,
+  -- stale-while-revalidate window; rows past this are dead
+  stale_until  timestamptz not null,
+  updated_at   timestamptz not null default now()
+);
+
+create index if not exists cache_entries_tags_idx on cache_entries using gin (tags);
+create index if not exists cache_entries_stale_idx on cache_entries (stale_until);
+
+-- Dead rows are never served (reads filter on stale_until) but would pile
+-- up. Call from pg_cron or any scheduled job:
+--   select prune_cache_entries();
+create or replace function prune_cache_entries() returns integer
+language sql as $$
+  with d as (delete from cache_entries where stale_until < now() returning 1)
+  select count(*)::integer from d;
+$$;
@@ -0,0 +1,31 @@
+-- =====================================================================
+-- Versioned onboarding classification rules
+--
+-- Edited from the dashboard Settings page. Rows are append-only: saving
+-- inserts a new version and the highest version is the active one. Every
+-- LeadPipeline records the version that classified it (rulesVersion).
+-- Version 0 is the built-in default set in src/lib/classification-rules.ts
+-- and is never stored. Safe to re-run.
+-- =====================================================================
+
+create table if not exists classification_rules (
+  version     integer generated always as identity primary key,
+  -- ClassificationRulesInput: mightyNetworks / email / intercom / vendhub / activeStatus / sla / tiers
+  rules       jsonb not null,
+  note        text,
+  created_by  text,
+  created_at  timestamptz not null default now()
+);
+
+-- Keep history immutable — restoring an old version saves it again.
+create or replace function classification_rules_immutable() returns trigger
+language plpgsql as $$
+begin
+  raise exception 'classification_rules is append-only; insert a new version instead';
+end;
+$$;
+
+drop trigger if exists classification_rules_no_update on classification_rules;
+create trigger classification_rules_no_update
+  before update or delete on classification_rules
+  for each row execute function classification_rules_immutable();
@@ -0,0 +1,58 @@
+-- =====================================================================
+-- Pipeline snapshot history + step transitions
+--
+-- /api/onboarding/pipeline/snapshot (cron) classifies every lead, diffs
+-- the result against the previous snapshot and writes one `events` row
+-- per step / overall status change. Per-lead step durations are read
+-- back from those events by /api/onboarding/pipeline/history.
+--
+-- pipeline_snapshots keeps a compact copy of every run
+-- ({ leadId: { o: overallStatus, s: { stepId: status } } }) so the next
+-- run has something to diff against and old runs can be inspected.
+-- Each snapshot records the id of the snapshot it was diffed against, and
+-- only one may: two overlapping runs (cron plus a manual POST, a retried
+-- cron) would otherwise both write every transition. The second stops
+-- before writing any events. See src/lib/pipeline-history.ts.
+-- Requires 001_init.sql (events). Safe to re-run.
+-- =====================================================================
+
+create table if not exists pipeline_snapshots (
+  id             bigserial primary key,
+  taken_at       timestamptz not null default now(),
+  rules_version  integer,
+  lead_count     integer not null default 0,
+  -- number of events this snapshot wrote (0 for the first baseline run)
+  transitions    integer not null default 0,
+  duration_ms    integer,
+  states         jsonb not null,
+  -- null for a baseline (nothing to diff against). No foreign key:
+  -- prune_pipeline_snapshots() deletes old snapshots.
+  previous_id    bigint
+);
+create index if not exists pipeline_snapshots_recent_idx on pipeline_snapshots(taken_at desc);
+create unique index if not exists pipeline_snapshots_previous_idx on pipeline_snapshots(previous_id);
+
+-- The dashboard keys leads by Airtable record id (ghost leads by their
+-- Onboarding Errors record id), and not every lead has a `leads` row yet,
+-- so step transitions carry that id and lead_id is filled when known.
+alter table events add column if not exists pipeline_lead_id text;
+alter table events add column if not exists step_id          text;   -- null for overall-status changes
+alter table events add column if not exists from_step_status text;   -- StepStatus / overallStatus
+alter table events add column if not exists to_step_status   text;
+alter table events add column if not exists snapshot_id      bigint references pipeline_snapshots(id) on delete set null;
+create index if not exists events_pipeline_lead_idx on events(pipeline_lead_id, created_at);
+
+-- Snapshots are only needed for diffing and short-term inspection; the
+-- events table is the durable history. Keep the last 30 days.
+create or replace function prune_pipeline_snapshots(p_keep interval default interval '30 days')
+returns integer
+language plpgsql as $$
+declare
+  v_deleted integer;
+begin
+  delete from pipeline_snapshots
+  where taken_at < now() - p_keep
+    and id <> (select max(id) from pipeline_snapshots);
+  get diagnostics v_deleted = row_count;
+  return v_deleted;
+end $$;
@@ -0,0 +1,177 @@
+-- =====================================================================
+-- Durable background job queue
+--
+-- Work that used to be fired as un-awaited fetches (verifier sweeps,
+-- single-lead Supabase resyncs, n8n resubmits) is written here first and
+-- run by /api/jobs/worker, which claims due jobs, runs them and retries
+-- failures with exponential backoff. See src/lib/jobs.ts.
+--
+-- The worker starts on an enqueue or a Vercel cron (4 a day), so a retry
+-- backed off for a few minutes could otherwise wait hours. pg_cron checks
+-- every minute for a queued job that is due and, when one is and no
+-- worker is busy, pg_net POSTs to the worker. Needs the pg_cron and
+-- pg_net extensions (Hosted: Database → Extensions). After running this
+-- file, point it at the deployment once:
+--   insert into jobs_worker_endpoint (url, cron_secret)
+--   values ('https://<app>/api/jobs/worker', '<CRON_SECRET>')
+--   on conflict (id) do update set url = excluded.url, cron_secret = excluded.cron_secret;
+-- (url http://host.docker.internal:3000/api/jobs/worker for `npm run dev`)
+--
+-- Hosted:  SQL Editor → paste this file → Run.
+-- Local:   supabase start, then
+--            psql "$(supabase status -o env | grep DB_URL | cut -d= -f2- | tr -d '"')" -f scripts/supabase/005_jobs.sql
+-- Safe to re-run.
+-- =====================================================================
+
+create table if not exists jobs (
+  id            bigserial primary key,
+  kind          text not null check (kind in ('resubmit_step', 'resubmit_all', 'verify_email', 'sync_lead')),
+  payload       jsonb not null default '{}',
+  -- queued → running → done, or back to queued (retry) / failed (gave up)
+  status        text not null default 'queued' check (status in ('queued', 'running', 'failed', 'done')),
+  attempts      integer not null default 0,
+  max_attempts  integer not null default 5,
+  -- not claimed before this (backoff for retries)
+  run_at        timestamptz not null default now(),
+  locked_at     timestamptz,
+  locked_by     text,
+  last_error    text,
+  result        jsonb,
+  created_at    timestamptz not null default now(),
+  updated_at    timestamptz not null default now(),
+  finished_at   timestamptz
+);
+create index if not exists jobs_due_idx on jobs(run_at) where status = 'queued';
+create index if not exists jobs_status_idx on jobs(status, updated_at desc);
+
+-- Claim up to p_limit due jobs for one worker. Jobs stuck in "running"
+-- longer than p_lock_timeout (the worker died mid-run) are claimed again.
+-- SKIP LOCKED lets overlapping workers run without double-claiming.
+create or replace function claim_jobs(
+  p_worker text,
+  p_limit integer default 1,
+  p_lock_timeout interval default interval '10 minutes'
+)
+returns setof jobs
+language sql as $$
+  update jobs j
+  set status = 'running',
+      attempts = j.attempts + 1,
+      locked_at = now(),
+      locked_by = p_worker,
+      updated_at = now()
+  where j.id in (
+    select id from jobs
+    where (status = 'queued' and run_at <= now())
+       or (status = 'running' and locked_at < now() - p_lock_timeout)
+    order by run_at, id
+    limit p_limit
+    for update skip locked
+  )
+  returning j.*;
+$$;
+
+-- Record the outcome of a claimed job:
+--   p_error null         → done
+--   p_retry_at not null  → back to queued, not before p_retry_at
+--   otherwise            → failed (no retries left, or not retryable)
+create or replace function finish_job(
+  p_id bigint,
+  p_error text default null,
+  p_result jsonb default null,
+  p_retry_at timestamptz default null
+)
+returns jobs
+language sql as $$
+  update jobs
+  set status = case
+        when p_error is null then 'done'
+        when p_retry_at is not null then 'queued'
+        else 'failed'
+      end,
+      run_at = coalesce(p_retry_at, run_at),
+      last_error = p_error,
+      result = coalesce(p_result, result),
+      locked_at = null,
+      locked_by = null,
+      updated_at = now(),
+      finished_at = case when p_error is null or p_retry_at is null then now() else null end
+  where id = p_id
+  returning *;
+$$;
+
+-- Manual retry from the jobs view: a fresh set of attempts, due now.
+create or replace function requeue_job(p_id bigint)
+returns jobs
+language sql as $$
+  update jobs
+  set status = 'queued',
+      attempts = 0,
+      run_at = now(),
+      locked_at = null,
+      locked_by = null,
+      updated_at = now(),
+      finished_at = null
+  where id = p_id and status in ('failed', 'done')
+  returning *;
+$$;
+
+-- Finished jobs are only interesting for a while. Call from pg_cron or
+-- any scheduled job:
+--   select prune_jobs();
+create or replace function prune_jobs(p_keep interval default interval '14 days')
+returns integer
+language sql as $$
+  with d as (
+    delete from jobs
+    where status in ('done', 'failed') and finished_at < now() - p_keep
+    returning 1
+  )
+  select count(*)::integer from d;
+$$;
+
+-- ---------------------------------------------------------------------
+-- Run job retries when their backoff ends
+-- ---------------------------------------------------------------------
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+-- Single row: where the worker lives and the CRON_SECRET it expects.
+create table if not exists jobs_worker_endpoint (
+  id           boolean primary key default true check (id),
+  url          text not null,
+  cron_secret  text
+);
+-- Holds a secret: service role only, never exposed through the API.
+alter table jobs_worker_endpoint enable row level security;
+
+-- POST to the worker when a queued job is due. Returns whether it did.
+create or replace function kick_jobs_worker()
+returns boolean
+language plpgsql as $$
+declare
+  e jobs_worker_endpoint;
+begin
+  select * into e from jobs_worker_endpoint where id;
+  if e.url is null then
+    return false;
+  end if;
+  if not exists (select 1 from jobs where status = 'queued' and run_at <= now()) then
+    return false;
+  end if;
+  -- A worker that claimed a job in the last two minutes is still running
+  -- (maxDuration 120s) and claims due jobs itself.
+  if exists (select 1 from jobs where status = 'running' and locked_at > now() - interval '2 minutes') then
+    return false;
+  end if;
+  perform net.http_post(
+    url := e.url,
+    body := '{}'::jsonb,
+    headers := jsonb_build_object('content-type', 'application/json', 'x-cron-secret', coalesce(e.cron_secret, ''))
+  );
+  return true;
+end;
+$$;
+
+-- Scheduling under the same name replaces the existing job.
+select cron.schedule('kick-jobs-worker', '* * * * *', 'select kick_jobs_worker()');
@@ -0,0 +1,23 @@
+-- =====================================================================
+-- Per-lead retry history
+--
+-- Every call to /api/onboarding/resubmit and /api/onboarding/resubmit-all
+-- writes an `events` row (event_type = 'resubmit') keyed by the
+-- dashboard lead id (pipeline_lead_id), with the step, the Onboarding
+-- Errors record, n8n's answer and the actor in payload. The drawer reads
+-- them back as a retry timeline; vw_lead_retry_counts feeds the retry
+-- counts on the board and error views.
+-- Requires 004_pipeline_history.sql. Safe to re-run.
+-- =====================================================================
+
+create index if not exists events_resubmit_idx on events(pipeline_lead_id, created_at desc)
+  where event_type = 'resubmit';
+
+create or replace view vw_lead_retry_counts as
+select
+  pipeline_lead_id,
+  count(*)::integer  as retries,
+  max(created_at)    as last_retry_at
+from events
+where event_type = 'resubmit' and pipeline_lead_id is not null
+group by pipeline_lead_id;
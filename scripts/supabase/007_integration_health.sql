@@ -0,0 +1,64 @@
+-- =====================================================================
+-- Integration health
+--
+-- Every run of the Close, Intercom and Mighty Networks verifiers writes
+-- one verifier_runs row (how many emails it looked up, how many lookups
+-- the platform API failed). /api/onboarding/integration-health reads the
+-- daily rollup for the Integrations view, next to daily error counts from
+-- Onboarding Errors and the last time each step went to "success" (from
+-- the step transitions recorded by 004_pipeline_history.sql).
+--
+-- Hosted:  SQL Editor → paste this file → Run.
+-- Local:   supabase start, then
+--            psql "$(supabase status -o env | grep DB_URL | cut -d= -f2- | tr -d '"')" -f scripts/supabase/007_integration_health.sql
+-- Requires 004_pipeline_history.sql. Safe to re-run.
+-- =====================================================================
+
+create table if not exists verifier_runs (
+  id              bigserial primary key,
+  -- pipeline step the verifier checks: close_crm | intercom | mighty_networks | vendhub
+  step_id         text not null,
+  started_at      timestamptz not null default now(),
+  duration_ms     integer,
+  -- emails looked up / found on the platform / not found
+  checked         integer not null default 0,
+  found           integer not null default 0,
+  missing         integer not null default 0,
+  -- lookups the platform API failed, and Airtable write-back batches that failed
+  api_errors      integer not null default 0,
+  write_failures  integer not null default 0,
+  -- true for the per-lead { email } runs, false for sweeps
+  single_email    boolean not null default false
+);
+create index if not exists verifier_runs_step_idx on verifier_runs(step_id, started_at desc);
+
+create or replace view vw_verifier_daily as
+select
+  step_id,
+  (started_at at time zone 'utc')::date  as day,
+  count(*)::integer                      as runs,
+  sum(checked)::integer                  as checked,
+  sum(found)::integer                    as found,
+  sum(api_errors)::integer               as api_errors,
+  sum(write_failures)::integer           as write_failures
+from verifier_runs
+group by step_id, (started_at at time zone 'utc')::date;
+
+create index if not exists events_step_success_idx on events(step_id, created_at desc)
+  where event_type = 'step_transition' and to_step_status = 'success';
+
+create or replace view vw_step_last_success as
+select step_id, max(created_at) as last_success_at
+from events
+where event_type = 'step_transition' and to_step_status = 'success' and step_id is not null
+group by step_id;
+
+-- Verifier runs are only read for the last few weeks.
+create or replace function prune_verifier_runs(p_keep interval default interval '90 days')
+returns integer
+language sql as $$
+  with d as (
+    delete from verifier_runs where started_at < now() - p_keep returning 1
+  )
+  select count(*)::integer from d;
+$$;
@@ -0,0 +1,127 @@
+-- =====================================================================
+-- Idempotent resubmit / resolve requests
+--
+-- /api/onboarding/resubmit, /resubmit-all and /errors/resolve claim a row
+-- here before doing any work (see src/lib/idempotency.ts):
+--   * a repeated Idempotency-Key gets the original response back;
+--   * a second request for the same (lead, step) lock while the first is
+--     running waits for it and gets its response; within the dedupe
+--     window after a successful run it gets that response too.
+-- Failed runs don't hold the lock, so a real retry goes through. A claim
+-- is a lease: one still in_progress after p_stale belongs to a function
+-- that died, and the next request (a replay of its key included) takes
+-- it over.
+--
+-- Hosted:  SQL Editor → paste this file → Run.
+-- Local:   supabase start, then
+--            psql "$(supabase status -o env | grep DB_URL | cut -d= -f2- | tr -d '"')" -f scripts/supabase/008_idempotency.sql
+-- Safe to re-run.
+-- =====================================================================
+
+create table if not exists idempotent_requests (
+  id            bigserial primary key,
+  -- Idempotency-Key header, when the caller sent one
+  idem_key      text,
+  route         text not null,
+  -- e.g. "resubmit:recXXX:intercom"
+  lock_key      text not null,
+  -- in_progress → done (success, holds the lock for the window) | failed
+  status        text not null default 'in_progress' check (status in ('in_progress', 'done', 'failed')),
+  status_code   integer,
+  response      jsonb,
+  created_at    timestamptz not null default now(),
+  finished_at   timestamptz
+);
+create unique index if not exists idempotent_requests_key_idx on idempotent_requests(idem_key) where idem_key is not null;
+create index if not exists idempotent_requests_lock_idx on idempotent_requests(lock_key, created_at desc);
+
+-- Claim a request. Returns one row:
+--   outcome 'claimed'     → run it, then finish_idempotent_request(request_id, …)
+--   outcome 'existing'    → an earlier request (same key, or same lock within
+--                           the window) — replay it, or wait while in_progress
+--   outcome 'key_reused'  → the key was already used for a different lock
+-- In-progress rows older than p_stale (the function died) don't block; a
+-- replay of such a row's key claims that row again.
+create or replace function claim_idempotent_request(
+  p_key text,
+  p_route text,
+  p_lock text,
+  p_window interval,
+  p_stale interval default interval '2 minutes'
+)
+returns table (outcome text, request_id bigint, status text, status_code integer, response jsonb)
+language plpgsql as $$
+#variable_conflict use_column
+declare
+  -- (the OUT columns share names with table columns; queries mean the table's)
+  r idempotent_requests;
+  v_takeover bigint;
+begin
+  -- One claim at a time per lock; the transaction ends with this call.
+  perform pg_advisory_xact_lock(hashtext(p_lock));
+
+  if p_key is not null then
+    select * into r from idempotent_requests i where i.idem_key = p_key;
+    if found then
+      if r.lock_key <> p_lock then
+        return query select 'key_reused'::text, r.id, r.status, r.status_code, null::jsonb;
+        return;
+      end if;
+      if r.status <> 'in_progress' or r.created_at > now() - p_stale then
+        return query select 'existing'::text, r.id, r.status, r.status_code, r.response;
+        return;
+      end if;
+      -- Its run died: claim the row again unless another request holds the lock.
+      v_takeover := r.id;
+    end if;
+  end if;
+
+  select * into r from idempotent_requests i
+  where i.lock_key = p_lock
+    and ((i.status = 'in_progress' and i.created_at > now() - p_stale)
+      or (i.status = 'done' and i.finished_at > now() - p_window))
+  order by i.created_at desc
+  limit 1;
+  if found then
+    return query select 'existing'::text, r.id, r.status, r.status_code, r.response;
+    return;
+  end if;
+
+  if v_takeover is not null then
+    update idempotent_requests set created_at = now() where id = v_takeover
+    returning * into r;
+  else
+    insert into idempotent_requests (idem_key, route, lock_key)
+    values (p_key, p_route, p_lock)
+    returning * into r;
+  end if;
+  return query select 'claimed'::text, r.id, r.status, null::integer, null::jsonb;
+end $$;
+
+create or replace function finish_idempotent_request(
+  p_id bigint,
+  p_ok boolean,
+  p_status_code integer,
+  p_response jsonb
+)
+returns void
+language sql as $$
+  update idempotent_requests
+  set status = case when p_ok then 'done' else 'failed' end,
+      status_code = p_status_code,
+      response = p_response,
+      finished_at = now()
+  where id = p_id;
+$$;
+
+-- Keys only need to outlive client retries. Call from pg_cron or any
+-- scheduled job:
+--   select prune_idempotent_requests();
+create or replace function prune_idempotent_requests(p_keep interval default interval '24 hours')
+returns integer
+language sql as $$
+  with d as (
+    delete from idempotent_requests where created_at < now() - p_keep returning 1
+  )
+  select count(*)::integer from d;
+$$;
@@ -0,0 +1,35 @@
+-- =====================================================================
+-- Snoozed leads
+--
+-- The bulk bar on the board, table and error views can snooze leads:
+-- until snoozed_until passes, a lead's errors are hidden from the error
+-- views (it still shows on the board, tagged). One row per dashboard
+-- lead id; snoozing again moves the deadline. See src/lib/snooze.ts.
+--
+-- Hosted:  SQL Editor → paste this file → Run.
+-- Local:   supabase start, then
+--            psql "$(supabase status -o env | grep DB_URL | cut -d= -f2- | tr -d '"')" -f scripts/supabase/009_lead_snoozes.sql
+-- Safe to re-run.
+-- =====================================================================
+
+create table if not exists lead_snoozes (
+  pipeline_lead_id  text primary key,
+  snoozed_until     timestamptz not null,
+  note              text,
+  -- "dashboard", "bulk", … (same as the x-actor header)
+  snoozed_by        text,
+  created_at        timestamptz not null default now()
+);
+
+create index if not exists lead_snoozes_until_idx on lead_snoozes(snoozed_until);
+
+-- Expired snoozes are ignored on read; this just keeps the table small.
+create or replace function prune_lead_snoozes(p_keep interval default interval '30 days')
+returns integer
+language sql
+as $$
+  with gone as (
+    delete from lead_snoozes where snoozed_until < now() - p_keep returning 1
+  )
+  select count(*)::integer from gone;
+$$;
@@ -0,0 +1,37 @@
+-- =====================================================================
+-- Versioned remediation playbook catalog
+--
+-- Edited from the dashboard Settings page. Each playbook matches
+-- Onboarding Errors rows by Error Type / Error Node / Error Message
+-- pattern and says what to do about them (src/lib/playbooks.ts). Rows
+-- are append-only, like classification_rules: saving inserts a new
+-- version and the highest version is the active catalog. Version 0 is
+-- the built-in DEFAULT_PLAYBOOKS and is never stored.
+--
+-- Hosted:  SQL Editor → paste this file → Run.
+-- Local:   supabase start, then
+--            psql "$(supabase status -o env | grep DB_URL | cut -d= -f2- | tr -d '"')" -f scripts/supabase/010_error_playbooks.sql
+-- Safe to re-run.
+-- =====================================================================
+
+create table if not exists error_playbooks (
+  version     integer generated always as identity primary key,
+  -- Playbook[]: { id, title, match: { errorType?, node?, message? }, explanation, cause, action, links }
+  playbooks   jsonb not null,
+  note        text,
+  created_by  text,
+  created_at  timestamptz not null default now()
+);
+
+-- Keep history immutable — restoring an old catalog saves it again.
+create or replace function error_playbooks_immutable() returns trigger
+language plpgsql as $$
+begin
+  raise exception 'error_playbooks is append-only; insert a new version instead';
+end;
+$$;
+
+drop trigger if exists error_playbooks_no_update on error_playbooks;
+create trigger error_playbooks_no_update
+  before update or delete on error_playbooks
+  for each row execute function error_playbooks_immutable();
@@ -0,0 +1,62 @@
+-- =====================================================================
+-- Resumable verifier passes
+--
+-- A pass walks every Clients email for one platform verifier in sorted
+-- order, a time-budgeted step at a time. Each step saves the last email
+-- it reached (cursor) and the running counts here, so the next step —
+-- a verify_pass job, or a caller POSTing the continuation token (the
+-- pass id) — carries on where it stopped. See src/lib/verifier-passes.ts.
+--
+-- Hosted:  SQL Editor → paste this file → Run.
+-- Local:   supabase start, then
+--            psql "$(supabase status -o env | grep DB_URL | cut -d= -f2- | tr -d '"')" -f scripts/supabase/011_verifier_passes.sql
+-- Safe to re-run.
+-- =====================================================================
+
+create table if not exists verifier_passes (
+  id            uuid primary key default gen_random_uuid(),
+  -- verifier slug (/api/verify/<platform>) and the pipeline step it checks
+  platform      text not null,
+  step_id       text not null,
+  -- re-verify rows that already have an answer
+  force         boolean not null default false,
+  status        text not null default 'running' check (status in ('running', 'done', 'cancelled')),
+  -- last email reached; null until the first step
+  cursor        text,
+  -- emails done + emails still to check, as of the last step
+  total         integer not null default 0,
+  checked       integer not null default 0,
+  found         integer not null default 0,
+  missing       integer not null default 0,
+  api_errors    integer not null default 0,
+  steps         integer not null default 0,
+  -- a step holds the pass until then, so two steps never overlap
+  locked_until  timestamptz,
+  started_by    text,
+  started_at    timestamptz not null default now(),
+  updated_at    timestamptz not null default now(),
+  finished_at   timestamptz
+);
+
+-- One running pass per platform; starting another resumes it.
+create unique index if not exists verifier_passes_running_idx on verifier_passes(platform) where status = 'running';
+create index if not exists verifier_passes_platform_idx on verifier_passes(platform, started_at desc);
+
+-- Hold a running pass for one step. Returns no row when it isn't running
+-- or another step holds it.
+create or replace function claim_verifier_pass(p_id uuid, p_lease interval default interval '2 minutes')
+returns setof verifier_passes
+language sql as $$
+  update verifier_passes
+  set locked_until = now() + p_lease,
+      updated_at = now()
+  where id = p_id
+    and status = 'running'
+    and (locked_until is null or locked_until < now())
+  returning *;
+$$;
+
+-- verify_pass jobs drive passes (src/lib/jobs.ts).
+alter table jobs drop constraint if exists jobs_kind_check;
+alter table jobs add constraint jobs_kind_check
+  check (kind in ('resubmit_step', 'resubmit_all', 'verify_email', 'sync_lead', 'verify_pass'));
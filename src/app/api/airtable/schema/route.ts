@@ -0,0 +1,74 @@
+/**
+ * GET /api/airtable/schema
+ *
+ * Schema registry diagnostics. Compares the live Airtable base (metadata
+ * API) with the checked-in snapshot for every table in TABLE_IDS, so
+ * renamed / removed columns and changed select options show up before
+ * fetchTable starts silently dropping fields.
+ *
+ * Query params:
+ *   format - "report" (default) or "snapshot" to return the live schema of
+ *            the TABLE_IDS tables in snapshot format, ready to save as
+ *            src/lib/airtable-schema.snapshot.json (502 if the base lacks
+ *            any of them)
+ *
+ * The report answers 500, listing them in `snapshotMissing`, while the
+ * snapshot is empty or lacks a table in TABLE_IDS: those tables' field
+ * names aren't validated whenever the live schema is unavailable.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { TABLE_IDS } from "@/lib/airtable";
+import { diffSchemas, fetchLiveSchema, getSnapshotSchema, snapshotGaps } from "@/lib/airtable-schema";
+
+export async function GET(request: NextRequest) {
+  const format = request.nextUrl.searchParams.get("format") || "report";
+
+  let live;
+  try {
+    live = await fetchLiveSchema();
+  } catch (err) {
+    return NextResponse.json(
+      {
+        error: "Live schema unavailable (AIRTABLE_PAT needs the schema.bases:read scope)",
+        detail: err instanceof Error ? err.message : String(err),
+      },
+      { status: 502 }
+    );
+  }
+
+  const tableIds = Object.values(TABLE_IDS);
+  const tableNames = Object.fromEntries(Object.entries(TABLE_IDS).map(([name, id]) => [id, name]));
+
+  if (format === "snapshot") {
+    const absent = tableIds.filter((id) => !live.tables[id]);
+    if (absent.length) {
+      return NextResponse.json(
+        { error: "The base is missing tables in TABLE_IDS", missing: absent.map((id) => tableNames[id] ?? id) },
+        { status: 502 }
+      );
+    }
+    return NextResponse.json({ ...live, tables: Object.fromEntries(tableIds.map((id) => [id, live.tables[id]])) });
+  }
+
+  const snapshot = getSnapshotSchema();
+  const tables = diffSchemas(snapshot, live, tableIds).map((d) => ({
+    ...d,
+    name: tableNames[d.tableId],
+  }));
+  const snapshotMissing = snapshotGaps(tableIds).map((id) => tableNames[id] ?? id);
+
+  return NextResponse.json(
+    {
+      ...(snapshotMissing.length
+        ? { error: `Schema snapshot is missing ${snapshotMissing.length} of ${tableIds.length} tables — regenerate it with ?format=snapshot` }
+        : {}),
+      snapshotGeneratedAt: snapshot.generatedAt,
+      liveFetchedAt: live.generatedAt,
+      drifted: tables.some((t) => t.status !== "unchanged"),
+      snapshotMissing,
+      tables,
+    },
+    { status: snapshotMissing.length ? 500 : 200 }
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * POST /api/jobs/retry   { id }
+ *
+ * Queue a failed (or finished) job again with a fresh set of attempts and
+ * kick the worker. Used by the jobs view.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requeueJob, scheduleWorkerRun } from "@/lib/jobs";
+import { isSupabaseConfigured } from "@/lib/supabase";
+
+export const maxDuration = 15;
+
+export async function POST(req: NextRequest) {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json(
+      { error: "Supabase not configured (SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY missing)" },
+      { status: 503 }
+    );
+  }
+  let body: { id?: number };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const id = Number(body.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  try {
+    const job = await requeueJob(id);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found, or still queued / running" }, { status: 409 });
+    }
+    scheduleWorkerRun(req.nextUrl.origin);
+    return NextResponse.json({ ok: true, job });
+  } catch (err) {
+    console.error("[jobs/retry] Error:", err);
+    const message = err instanceof Error ? err.message : "unknown";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * GET  /api/jobs?status=failed&kind=sync_lead&limit=100
+ *   → { jobs, counts: { queued, running, failed, done } }
+ *
+ * POST /api/jobs   { kind, payload }
+ *   Queue a job (see JobPayloads in src/lib/jobs.ts) and kick the worker.
+ *   → { ok: true, job }
+ *
+ * Needs scripts/supabase/005_jobs.sql.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { countJobs, dispatchJob, JOB_KINDS, listJobs, type JobKind, type JobPayloads, type JobStatus } from "@/lib/jobs";
+import { isSupabaseConfigured } from "@/lib/supabase";
+
+export const maxDuration = 15;
+
+const STATUSES = new Set<JobStatus>(["queued", "running", "failed", "done"]);
+
+function notConfigured() {
+  return NextResponse.json(
+    { error: "Supabase not configured (SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY missing)" },
+    { status: 503 }
+  );
+}
+
+export async function GET(req: NextRequest) {
+  if (!isSupabaseConfigured()) return notConfigured();
+  const sp = req.nextUrl.searchParams;
+  const status = sp.get("status") as JobStatus | null;
+  const kind = sp.get("kind") as JobKind | null;
+  const limit = Math.min(500, Math.max(1, Number(sp.get("limit")) || 100));
+
+  if (status && !STATUSES.has(status)) {
+    return NextResponse.json({ error: `status must be one of ${[...STATUSES].join(", ")}` }, { status: 400 });
+  }
+  if (kind && !JOB_KINDS.includes(kind)) {
+    return NextResponse.json({ error: `kind must be one of ${JOB_KINDS.join(", ")}` }, { status: 400 });
+  }
+
+  try {
+    const [jobs, counts] = await Promise.all([
+      listJobs({ status: status ?? undefined, kind: kind ?? undefined, limit }),
+      countJobs(),
+    ]);
+    return NextResponse.json({ jobs, counts }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    console.error("[jobs] Error:", err);
+    const message = err instanceof Error ? err.message : "unknown";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  if (!isSupabaseConfigured()) return notConfigured();
+  let body: { kind?: JobKind; payload?: JobPayloads[JobKind] };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (!body.kind || !JOB_KINDS.includes(body.kind)) {
+    return NextResponse.json({ error: `kind must be one of ${JOB_KINDS.join(", ")}` }, { status: 400 });
+  }
+  if (!body.payload || typeof body.payload !== "object") {
+    return NextResponse.json({ error: "payload is required" }, { status: 400 });
+  }
+
+  const job = await dispatchJob(req.nextUrl.origin, body.kind, body.payload);
+  if (!job) {
+    return NextResponse.json(
+      { error: "Could not queue the job — it was run once without retries" },
+      { status: 502 }
+    );
+  }
+  return NextResponse.json({ ok: true, job });
+}
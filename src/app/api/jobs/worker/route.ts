@@ -0,0 +1,52 @@
+/**
+ * POST /api/jobs/worker
+ *
+ * Claims due jobs from the Supabase queue (src/lib/jobs.ts) and runs them
+ * one at a time until the queue is empty or the time budget runs out.
+ * Failed jobs are retried with exponential backoff, up to each job's
+ * max_attempts. Wired to cron, kicked right after every dispatchJob() and,
+ * by the minutely pg_cron kick, whenever a retry is due.
+ *
+ * Needs scripts/supabase/005_jobs.sql.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { processDueJobs } from "@/lib/jobs";
+import { isSupabaseConfigured } from "@/lib/supabase";
+
+export const maxDuration = 120;
+
+const CRON_SECRET = process.env.CRON_SECRET || "";
+
+function authOk(req: NextRequest): boolean {
+  if (!CRON_SECRET) return true;
+  if (req.headers.get("x-cron-secret") === CRON_SECRET) return true;
+  if (req.headers.get("x-vercel-cron")) return true;
+  return false;
+}
+
+export async function POST(req: NextRequest) {
+  if (!authOk(req)) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json(
+      { error: "Supabase not configured (SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY missing)" },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const result = await processDueJobs({
+      origin: req.nextUrl.origin,
+      worker: `worker:${Date.now().toString(36)}`,
+    });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err) {
+    console.error("[jobs/worker] Error:", err);
+    const message = err instanceof Error ? err.message : "unknown";
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
+
+export const GET = POST;
@@ -0,0 +1,63 @@
+/**
+ * POST /api/onboarding/bulk
+ *
+ * Runs one action over a selection of leads (src/lib/bulk-actions.ts):
+ *
+ *   { action: "resubmit", leadIds: ["rec…", …], step: "intercom" | … | "failed" }
+ *   { action: "resolve",  leadIds: [...] }                 // every open error step
+ *   { action: "snooze",   leadIds: [...], snoozeHours: 24 }
+ *
+ * Up to 200 leads. The response is NDJSON, one event per line, so the
+ * bulk bar can show progress as it happens:
+ *
+ *   {"type":"start","action":"resubmit","total":60}
+ *   {"type":"item","item":{"leadId":"rec…","status":"running",…}}
+ *   {"type":"item","item":{"leadId":"rec…","status":"ok","attempts":1,…}}
+ *   {"type":"summary","summary":{"ok":58,"failed":2,…},"items":[…]}
+ *
+ * A failure before the run starts (pipeline didn't load) ends the stream
+ * with {"type":"error","message":…}. Otherwise it always ends with the
+ * summary: leads not started before the run's deadline are skipped and
+ * counted in summary.notStarted.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { runBulkAction, validateBulkRequest, type BulkEvent, type BulkRequest } from "@/lib/bulk-actions";
+
+// 200 leads × a few seconds per n8n call, four at a time. The run stops
+// starting leads well before this (RUN_DEADLINE_MS in bulk-actions.ts).
+export const maxDuration = 300;
+
+export async function POST(req: NextRequest) {
+  let body: Partial<BulkRequest>;
+  try {
+    body = (await req.json()) as Partial<BulkRequest>;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const invalid = validateBulkRequest(body);
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+  const origin = req.nextUrl.origin;
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit = (event: BulkEvent) => controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      try {
+        await runBulkAction(origin, body as BulkRequest, emit);
+      } catch (err) {
+        console.error("[onboarding/bulk] Error:", err);
+        emit({ type: "error", message: err instanceof Error ? err.message : "Bulk action failed" });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
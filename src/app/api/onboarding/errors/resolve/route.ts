@@ -9,36 +9,47 @@
  *   B) Lead + step sweep (RECOMMENDED from the UI):
  *      { leadRecordId?: string, email?: string, leadId?: string,
  *        step: "close_crm"|"email_validation"|"airtable_record"|"mighty_networks"|"intercom"|"vendhub",
- *        note?: string }
+ *        note?: string, batchId?: "rb-…" }
  *      Resolves EVERY open ("New" or "Investigating") error row that maps to the
  *      given step for that lead (match by Lead ID or Email). This is what the
  *      dashboard button uses, because the same underlying failure is often
  *      logged multiple times by n8n retries — resolving only one row
  *      leaves duplicates behind.
  *
+ *      With batchId (the bulk bar sends one per run), each row keeps its
+ *      previous notes and is tagged for /api/onboarding/resolve-all/undo
+ *      (src/lib/resolve-batches.ts).
+ *
  * Response:
  *   { success: true, resolved: <count>, ids: [...] }
+ *
+ * Idempotent per row / lead + step — see src/lib/idempotency.ts.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { fetchTable, invalidateTableCache } from "@/lib/airtable";
+import { fetchTable, invalidateTableCache, updateRecords } from "@/lib/airtable";
+import { withIdempotency } from "@/lib/idempotency";
+import { batchResolutionNote, isBatchId } from "@/lib/resolve-batches";
 import type { StepId } from "@/lib/pipeline";
 
 export const maxDuration = 30;
 
-const AIRTABLE_PAT = process.env.AIRTABLE_PAT || "";
-const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID || "";
 const ERROR_TABLE_ID = "tblaQ6fpHGhRs56sH";
 
+/** A successful resolve answers any repeat for the same lead + step this long. */
+const DEDUPE_WINDOW_MS = 30 * 1000;
+
 // Inverse of ERROR_TYPE_TO_STEP in pipeline.ts — one step can have multiple
 // Airtable error type strings pointing at it.
 const STEP_TO_ERROR_TYPES: Record<StepId, string[]> = {
   close_crm: ["Close CRM Update", "Close CRM Fields Empty"],
   email_validation: ["Email Validation"],
   airtable_record: ["Airtable Client Record", "Airtable Student Record"],
+  welcome_email: ["Welcome Email"],
   mighty_networks: ["Mighty Networks invite", "Skool Invite"],
   intercom: ["Intercom Contact"],
   vendhub: ["VendHub Activation", "VendHub Subscription"],
+  kickoff_call: ["Kickoff Call"],
 };
 
 interface Body {
@@ -48,21 +59,7 @@ interface Body {
   email?: string;
   step?: StepId;
   note?: string;
-}
-
-async function patchOne(id: string, fields: Record<string, unknown>) {
-  const res = await fetch(
-    `https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${ERROR_TABLE_ID}/${id}`,
-    {
-      method: "PATCH",
-      headers: {
-        Authorization: `Bearer ${AIRTABLE_PAT}`,
-        "content-type": "application/json",
-      },
-      body: JSON.stringify({ fields, typecast: true }),
-    }
-  );
-  return res;
+  batchId?: string;
 }
 
 export async function POST(req: NextRequest) {
@@ -73,23 +70,14 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ success: false, message: "Invalid JSON body" }, { status: 400 });
   }
 
-  const note =
-    body.note ||
-    `Manually marked resolved from dashboard at ${new Date().toISOString()}`;
-
   // --- Mode A: single row by id ---
   if (body.errorRecordId && !body.step) {
-    const res = await patchOne(body.errorRecordId, { Status: "Resolved", "Resolution Notes": note });
-    if (!res.ok) {
-      const text = await res.text().catch(() => "");
-      return NextResponse.json(
-        { success: false, message: `Airtable returned ${res.status}`, raw: text.slice(0, 500) },
-        { status: 502 }
-      );
-    }
-    invalidateTableCache("onboardingErrors");
-    invalidateTableCache("clients");
-    return NextResponse.json({ success: true, resolved: 1, ids: [body.errorRecordId] });
+    const errorRecordId = body.errorRecordId;
+    return withIdempotency(
+      req,
+      { route: "errors_resolve", lock: `resolve:${errorRecordId}:row`, windowMs: DEDUPE_WINDOW_MS },
+      () => resolveRow(errorRecordId, resolutionNote(body))
+    );
   }
 
   // --- Mode B: sweep all open rows for (lead, step) ---
@@ -111,16 +99,47 @@ export async function POST(req: NextRequest) {
       { status: 400 }
     );
   }
+  const step = body.step;
+  const lead = body.leadRecordId || body.email?.toLowerCase().trim() || body.leadId;
+  return withIdempotency(
+    req,
+    { route: "errors_resolve", lock: `resolve:${lead}:${step}`, windowMs: DEDUPE_WINDOW_MS },
+    () => resolveStep(body, step)
+  );
+}
+
+function resolutionNote(body: Body): string {
+  return body.note || `Manually marked resolved from dashboard at ${new Date().toISOString()}`;
+}
+
+async function resolveRow(errorRecordId: string, note: string): Promise<NextResponse> {
+  const result = await updateRecords(
+    ERROR_TABLE_ID,
+    [{ id: errorRecordId, fields: { Status: "Resolved", "Resolution Notes": note } }],
+    { typecast: true }
+  );
+  if (result.failures.length > 0) {
+    return NextResponse.json(
+      { success: false, message: `Airtable returned ${result.failures[0].status}`, raw: result.failures[0].error.slice(0, 500) },
+      { status: 502 }
+    );
+  }
+  await invalidateTableCache("clients");
+  return NextResponse.json({ success: true, resolved: 1, ids: [errorRecordId] });
+}
+
+async function resolveStep(body: Body, step: StepId): Promise<NextResponse> {
+  const note = resolutionNote(body);
 
   // Build the list of Error Type strings for this step.
-  const types = STEP_TO_ERROR_TYPES[body.step];
+  const types = STEP_TO_ERROR_TYPES[step];
   const emailLower = body.email?.toLowerCase().trim() || "";
   const leadIdMatch = body.leadId || "";
 
   try {
     // Pull every error row, bypassing cache so we include ones just logged.
     const errors = await fetchTable("onboardingErrors", {
-      fields: ["Error Type", "Status", "Lead ID", "Email"],
+      fields: ["Error Type", "Status", "Lead ID", "Email", "Resolution Notes"],
       cacheTtl: 0,
     });
 
@@ -140,50 +159,43 @@ export async function POST(req: NextRequest) {
     });
 
     // Add the explicit errorRecordId too, even if it doesn't match (it still
-    // should be swept). This handles the UI case where we pass both.
+    // should be swept). This handles the UI case where we pass both. Its
+    // row comes from the same read, so a batch records its real previous
+    // Status and Resolution Notes for undo.
     if (body.errorRecordId && !candidates.find((c) => c.id === body.errorRecordId)) {
-      candidates.push({ id: body.errorRecordId, fields: {} });
+      const row = errors.find((r) => r.id === body.errorRecordId);
+      if (row) candidates.push(row);
     }
 
     if (candidates.length === 0) {
       return NextResponse.json({ success: true, resolved: 0, ids: [], message: "No open rows matched" });
     }
 
-    const resolvedIds: string[] = [];
-    const failures: { id: string; error: string }[] = [];
-
-    // Airtable PATCH in batches of 10 to respect rate limits.
-    for (let i = 0; i < candidates.length; i += 10) {
-      const chunk = candidates.slice(i, i + 10);
-      const payload = {
-        records: chunk.map((r) => ({
-          id: r.id,
-          fields: { Status: "Resolved", "Resolution Notes": note },
-        })),
-        typecast: true,
-      };
-      const res = await fetch(
-        `https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${ERROR_TABLE_ID}`,
-        {
-          method: "PATCH",
-          headers: {
-            Authorization: `Bearer ${AIRTABLE_PAT}`,
-            "content-type": "application/json",
-          },
-          body: JSON.stringify(payload),
-        }
-      );
-      if (res.ok) {
-        for (const r of chunk) resolvedIds.push(r.id);
-      } else {
-        const text = await res.text().catch(() => "");
-        for (const r of chunk) failures.push({ id: r.id, error: `${res.status}: ${text.slice(0, 120)}` });
-      }
-      await new Promise((r) => setTimeout(r, 200));
-    }
+    const batchId = isBatchId(body.batchId) ? body.batchId : null;
+    const notesFor = (r: (typeof candidates)[number]) =>
+      batchId
+        ? batchResolutionNote({
+            batchId,
+            note,
+            previousStatus: r.fields["Status"] as string,
+            previousNotes: r.fields["Resolution Notes"] as string | undefined,
+          })
+        : note;
+
+    const result = await updateRecords(
+      ERROR_TABLE_ID,
+      candidates.map((r) => ({
+        id: r.id,
+        fields: { Status: "Resolved", "Resolution Notes": notesFor(r) },
+      })),
+      { typecast: true }
+    );
+    const resolvedIds = result.records.map((r) => r.id);
+    const failures = result.failures.flatMap((f) =>
+      f.ids.map((id) => ({ id, error: f.error.slice(0, 160) }))
+    );
 
-    invalidateTableCache("onboardingErrors");
-    invalidateTableCache("clients");
+    await invalidateTableCache("clients");
 
     return NextResponse.json({
       success: failures.length === 0,
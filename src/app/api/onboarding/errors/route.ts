@@ -0,0 +1,32 @@
+/**
+ * GET /api/onboarding/errors?step=intercom&days=14
+ *
+ * Onboarding Errors history, newest first — resolved rows included.
+ * `step` narrows to one pipeline step (by Error Type, unknown types count
+ * as close_crm like the pipeline does); `days` to the last N days.
+ * Backs "View logs" on the Integrations view.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { listErrorLog } from "@/lib/integration-health";
+import { STEP_ORDER, type StepId } from "@/lib/pipeline";
+
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const stepParam = params.get("step")?.trim() || undefined;
+  if (stepParam && !STEP_ORDER.includes(stepParam as StepId)) {
+    return NextResponse.json({ error: `Unknown step "${stepParam}"` }, { status: 400 });
+  }
+  const step = stepParam as StepId | undefined;
+  const days = Number(params.get("days")) || undefined;
+  const limit = Math.min(500, Number(params.get("limit")) || 200);
+
+  try {
+    const errors = await listErrorLog({ step, days, limit });
+    return NextResponse.json({ step: step ?? null, days: days ?? null, errors }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    console.error("[onboarding/errors] Error:", err);
+    const message = err instanceof Error ? err.message : "unknown";
+    return NextResponse.json({ error: "Failed to load error history", detail: message }, { status: 500 });
+  }
+}
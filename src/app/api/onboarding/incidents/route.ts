@@ -0,0 +1,81 @@
+/**
+ * /api/onboarding/incidents
+ *
+ * GET  ?minLeads=2&fresh=1
+ *      Open Onboarding Errors grouped into incidents by root-cause
+ *      signature (src/lib/incidents.ts), most leads affected first.
+ *
+ * POST { incidentId, action: "resolve", note?: string }
+ *      Resolves every open row of the incident as one batch — undo with
+ *      /api/onboarding/resolve-all/undo { batchId }.
+ * POST { incidentId, action: "note", note: string }
+ *      Appends the note to every open row's Resolution Notes.
+ *
+ * Retrying an incident goes through /api/onboarding/bulk with the
+ * incident's pipelineLeadIds and step.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { addIncidentNote, listIncidents, resolveIncident } from "@/lib/incidents";
+
+export const maxDuration = 60;
+
+interface Body {
+  incidentId?: string;
+  action?: "resolve" | "note";
+  note?: string;
+}
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = req.nextUrl;
+  const minLeads = Math.max(1, parseInt(searchParams.get("minLeads") || "1", 10) || 1);
+  try {
+    const incidents = await listIncidents({ minLeads, fresh: searchParams.get("fresh") === "1" });
+    return NextResponse.json(
+      { incidents, generatedAt: new Date().toISOString() },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (err) {
+    console.error("[onboarding/incidents] Error:", err);
+    const message = err instanceof Error ? err.message : "unknown";
+    return NextResponse.json({ error: "Failed to load incidents", detail: message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  let body: Body = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ success: false, message: "Invalid JSON body" }, { status: 400 });
+  }
+  if (!body.incidentId) {
+    return NextResponse.json({ success: false, message: "incidentId is required" }, { status: 400 });
+  }
+  const note = body.note?.trim();
+
+  try {
+    if (body.action === "resolve") {
+      const result = await resolveIncident(body.incidentId, note);
+      if (!result) {
+        return NextResponse.json({ success: false, message: "Incident has no open errors left" }, { status: 404 });
+      }
+      return NextResponse.json({ success: result.failures.length === 0, ...result });
+    }
+    if (body.action === "note") {
+      if (!note) return NextResponse.json({ success: false, message: "note is required" }, { status: 400 });
+      const result = await addIncidentNote(body.incidentId, note);
+      if (!result) {
+        return NextResponse.json({ success: false, message: "Incident has no open errors left" }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, ...result });
+    }
+    return NextResponse.json({ success: false, message: "action must be resolve or note" }, { status: 400 });
+  } catch (err) {
+    console.error("[onboarding/incidents] Error:", err);
+    return NextResponse.json(
+      { success: false, message: err instanceof Error ? err.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
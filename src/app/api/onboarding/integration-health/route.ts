@@ -0,0 +1,29 @@
+/**
+ * GET /api/onboarding/integration-health?days=14
+ *
+ * Per pipeline step, over the last `days` days (UTC, default 14, max 90):
+ * daily Onboarding Errors counts, open errors, error-free days, the last
+ * time a lead reached "success" on the step and — for Close, Intercom and
+ * Mighty Networks — daily verifier lookup success rates and the last
+ * clean verifier run. Feeds the Integrations view.
+ *
+ * Verifier and success history need scripts/supabase/007_integration_health.sql;
+ * without Supabase the response carries error counts only
+ * (historyRecorded: false).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getIntegrationHealth } from "@/lib/integration-health";
+
+export async function GET(req: NextRequest) {
+  const days = Number(req.nextUrl.searchParams.get("days")) || 14;
+
+  try {
+    const health = await getIntegrationHealth(days);
+    return NextResponse.json(health, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    console.error("[onboarding/integration-health] Error:", err);
+    const message = err instanceof Error ? err.message : "unknown";
+    return NextResponse.json({ error: "Failed to load integration health", detail: message }, { status: 500 });
+  }
+}
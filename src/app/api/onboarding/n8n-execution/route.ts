@@ -0,0 +1,41 @@
+/**
+ * GET /api/onboarding/n8n-execution?executionId=123[&node=Create%20Contact]
+ *
+ * The n8n execution behind an Onboarding Errors row, for the lead drawer:
+ * the failing node's input items, output items and error stack, with
+ * secrets redacted. `node` is the Error Node from the error row — used
+ * when n8n's own error doesn't name a node.
+ *
+ * Reads the n8n public REST API with N8N_API_KEY, or recorded executions
+ * from N8N_EXECUTION_FIXTURES_DIR in development.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { inspectExecution, isExecutionInspectorConfigured, N8nApiError } from "@/lib/n8n";
+
+export async function GET(req: NextRequest) {
+  if (!isExecutionInspectorConfigured()) {
+    return NextResponse.json(
+      { error: "n8n API not configured (N8N_API_KEY or N8N_EXECUTION_FIXTURES_DIR missing)" },
+      { status: 503 }
+    );
+  }
+
+  const executionId = req.nextUrl.searchParams.get("executionId")?.trim();
+  if (!executionId || !/^[A-Za-z0-9_-]{1,64}$/.test(executionId)) {
+    return NextResponse.json({ error: "executionId is required" }, { status: 400 });
+  }
+  const node = req.nextUrl.searchParams.get("node")?.trim() || undefined;
+
+  try {
+    const execution = await inspectExecution(executionId, node);
+    return NextResponse.json({ execution }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    if (err instanceof N8nApiError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("[onboarding/n8n-execution] Error:", err);
+    const message = err instanceof Error ? err.message : "unknown";
+    return NextResponse.json({ error: "Failed to load n8n execution", detail: message }, { status: 500 });
+  }
+}
@@ -16,14 +16,18 @@
  *     source?: string,          // e.g. "n8n:ma-resubmit-close" — purely for logs
  *   }
  *
- * No auth required — this endpoint only invalidates caches; it doesn't
- * mutate Airtable or expose data. Even if abused, the worst outcome is
+ * Follow-up verifier sweeps and Supabase resyncs are queued as durable
+ * jobs (src/lib/jobs.ts) rather than fired and forgotten.
+ *
+ * No auth required — this endpoint only invalidates caches and queues
+ * re-checks; it doesn't mutate Airtable or expose data. Even if abused, the worst outcome is
  * the cache stays cold and Airtable gets re-fetched. Rate limiting at
  * the edge handles the rest.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { invalidateTableCache } from "@/lib/airtable";
+import { dispatchJob, type Job } from "@/lib/jobs";
 
 export const maxDuration = 10;
 
@@ -43,38 +47,27 @@ export async function POST(req: NextRequest) {
 
   // Bust every cache the dashboard depends on. Cheap — just deletes
   // in-memory map entries.
-  invalidateTableCache("clients");
-  invalidateTableCache("studentOnboarding");
-  invalidateTableCache("onboardingErrors");
+  await invalidateTableCache("clients");
+  await invalidateTableCache("studentOnboarding");
+  await invalidateTableCache("onboardingErrors");
 
   const baseUrl = req.nextUrl.origin;
 
-  // Fire-and-forget downstream work. None of these are awaited so the
-  // notify endpoint always returns in <100ms — the caller (Airtable
-  // webhook, n8n, etc.) doesn't wait on the platform sync.
+  // Downstream work is queued, not run inline, so the notify endpoint
+  // returns quickly — the caller (Airtable webhook, n8n, etc.) doesn't
+  // wait on the platform sync. The worker starts after the response.
+  const jobs: (Job | null)[] = [];
   if (body.email) {
-    // Per-email path: kick all three verifiers + Supabase resync in parallel.
-    // Within ~5-10s the newly-added lead has its MN / Intercom / Close
-    // state on Airtable and the dashboard reflects it on next poll.
-    fetch(`${baseUrl}/api/verify/sweep`, {
-      method: "POST",
-      headers: { "content-type": "application/json", "x-cron-secret": process.env.CRON_SECRET || "" },
-      body: JSON.stringify({ email: body.email }),
-    }).catch(() => undefined);
-    fetch(`${baseUrl}/api/supabase/sync-lead`, {
-      method: "POST",
-      headers: { "content-type": "application/json" },
-      body: JSON.stringify({ email: body.email }),
-    }).catch(() => undefined);
+    // Per-email path: all three verifiers + Supabase resync. Within
+    // ~5-10s the newly-added lead has its MN / Intercom / Close state on
+    // Airtable and the dashboard reflects it on next poll.
+    jobs.push(await dispatchJob(baseUrl, "verify_email", { email: body.email }));
+    jobs.push(await dispatchJob(baseUrl, "sync_lead", { email: body.email }));
   } else {
     // No email known (typical for Airtable change webhooks). Sweep the
     // newest 20 rows — catches the very latest signups added since the
     // last cron without spending 24h waiting for the daily run.
-    fetch(`${baseUrl}/api/verify/sweep`, {
-      method: "POST",
-      headers: { "content-type": "application/json", "x-cron-secret": process.env.CRON_SECRET || "" },
-      body: JSON.stringify({ newestN: 20 }),
-    }).catch(() => undefined);
+    jobs.push(await dispatchJob(baseUrl, "verify_email", { newestN: 20 }));
   }
 
   return NextResponse.json({
@@ -83,6 +76,8 @@ export async function POST(req: NextRequest) {
     reason: body.reason || "unspecified",
     source: body.source || null,
     email: body.email || null,
+    // null = the queue was unavailable and the job ran once, unqueued
+    jobIds: jobs.map((j) => j?.id ?? null),
     receivedAt: new Date().toISOString(),
   });
 }
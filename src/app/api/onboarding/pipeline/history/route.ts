@@ -0,0 +1,43 @@
+/**
+ * GET /api/onboarding/pipeline/history
+ *
+ * Step-transition history recorded by /api/onboarding/pipeline/snapshot.
+ *
+ * Query params:
+ *   leadId? — LeadPipeline id (Airtable record id). Returns that lead's
+ *             per-step status segments and durations, e.g. when the
+ *             Mighty Networks step went waiting_for_customer → success
+ *             and how long the Intercom step took.
+ *   limit?  — without leadId: how many recent transitions to return
+ *             alongside the recent snapshots (default 100, max 1000).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getLeadStepHistory, listRecentTransitions, listSnapshots } from "@/lib/pipeline-history";
+import { isSupabaseConfigured } from "@/lib/supabase";
+
+export async function GET(req: NextRequest) {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json(
+      { error: "Supabase not configured (SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY missing)" },
+      { status: 503 }
+    );
+  }
+
+  const { searchParams } = req.nextUrl;
+  const leadId = searchParams.get("leadId")?.trim();
+
+  try {
+    if (leadId) {
+      const history = await getLeadStepHistory(leadId);
+      return NextResponse.json(history, { headers: { "Cache-Control": "no-store" } });
+    }
+    const limit = Math.max(1, Math.min(1000, parseInt(searchParams.get("limit") || "100", 10) || 100));
+    const [snapshots, transitions] = await Promise.all([listSnapshots(20), listRecentTransitions(limit)]);
+    return NextResponse.json({ snapshots, transitions }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    console.error("[pipeline/history] Error:", err);
+    const message = err instanceof Error ? err.message : "unknown";
+    return NextResponse.json({ error: "Failed to load pipeline history", detail: message }, { status: 500 });
+  }
+}
@@ -2,7 +2,10 @@
  * GET /api/onboarding/pipeline
  *
  * Returns the per-lead onboarding pipeline: one entry per row in
- * Student Onboarding, with derived status for each of the 5 steps.
+ * Student Onboarding, with derived status for each step and the lead's
+ * retry count (src/lib/retry-history.ts) and snooze (src/lib/snooze.ts),
+ * when Supabase is configured. Errored steps carry the matching
+ * remediation playbook (src/lib/playbooks.ts) as `error.playbook`.
  *
  * Query params:
  *   max?   — maximum leads to return (default 300)
@@ -11,6 +14,10 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { fetchPipeline, STEP_ORDER } from "@/lib/pipeline";
+import { attachPlaybooks, getActivePlaybooks } from "@/lib/playbooks";
+import { getRetryCounts } from "@/lib/retry-history";
+import { getActiveSnoozes } from "@/lib/snooze";
+import { isSupabaseConfigured } from "@/lib/supabase";
 
 // Fetching ~2000 rows paginated from Airtable can take 15–30s on a cold
 // cache run, so bump from the default 10s Vercel serverless timeout.
@@ -24,7 +31,35 @@ export async function GET(request: NextRequest) {
     const max = maxParam ? Math.max(1, Math.min(5000, parseInt(maxParam, 10) || 300)) : undefined;
     const fresh = searchParams.get("fresh") === "1";
 
-    const data = await fetchPipeline({ max, cacheTtl: fresh ? 0 : undefined });
+    const [pipeline, playbooks] = await Promise.all([
+      fetchPipeline({ max, cacheTtl: fresh ? 0 : undefined }),
+      getActivePlaybooks(),
+    ]);
+    let data = attachPlaybooks(pipeline, playbooks);
+
+    // Retry counts come from Supabase; the pipeline still loads without them.
+    if (isSupabaseConfigured()) {
+      try {
+        const counts = await getRetryCounts();
+        data = data.map((lead) => {
+          const c = counts.get(lead.id);
+          return c ? { ...lead, retries: c.retries, lastRetryAt: c.lastRetryAt } : lead;
+        });
+      } catch (err) {
+        console.warn("[pipeline] Retry counts unavailable:", err instanceof Error ? err.message : err);
+      }
+      try {
+        const snoozes = await getActiveSnoozes();
+        if (snoozes.size) {
+          data = data.map((lead) => {
+            const s = snoozes.get(lead.id);
+            return s ? { ...lead, snoozedUntil: s.until } : lead;
+          });
+        }
+      } catch (err) {
+        console.warn("[pipeline] Snoozes unavailable:", err instanceof Error ? err.message : err);
+      }
+    }
 
     // Aggregate summary for KPI cards
     const waiting = data.filter((l) => l.overallStatus === "waiting_for_customer");
@@ -42,15 +77,22 @@ export async function GET(request: NextRequest) {
         intercom: waiting.filter((l) => l.waitingOnIntercom).length,
         vendhub: waiting.filter((l) => l.waitingOnVendhub).length,
       },
+      // Current-step SLA standing (rules.sla); leads without an SLA aren't counted.
+      sla: {
+        breached: data.filter((l) => l.sla?.status === "breached").length,
+        atRisk: data.filter((l) => l.sla?.status === "at_risk").length,
+      },
       byStep: Object.fromEntries(
         STEP_ORDER.map((step) => {
-          const counts = { success: 0, error: 0, pending: 0, waiting: 0 };
+          // Skipped = the step isn't part of the lead's tier (rules.tiers).
+          const counts = { success: 0, error: 0, pending: 0, waiting: 0, skipped: 0 };
           for (const lead of data) {
             const s = lead.steps.find((st) => st.id === step);
             if (!s) continue;
             if (s.status === "success") counts.success++;
             else if (s.status === "error") counts.error++;
             else if (s.status === "waiting_for_customer") counts.waiting++;
+            else if (s.status === "skipped") counts.skipped++;
             else counts.pending++;
           }
           return [step, counts];
@@ -59,7 +101,14 @@ export async function GET(request: NextRequest) {
     };
 
     return NextResponse.json(
-      { leads: data, summary, generatedAt: new Date().toISOString() },
+      {
+        leads: data,
+        summary,
+        // Every lead carries its own rulesVersion; this is the version used
+        // for this response (they only differ if rules were passed in).
+        rulesVersion: data[0]?.rulesVersion ?? null,
+        generatedAt: new Date().toISOString(),
+      },
       {
         headers: {
           "Cache-Control": fresh
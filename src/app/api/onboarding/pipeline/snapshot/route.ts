@@ -0,0 +1,54 @@
+/**
+ * POST /api/onboarding/pipeline/snapshot
+ *
+ * Classify every lead (fresh Airtable read), save the result as a
+ * pipeline snapshot in Supabase and record each step / overall status
+ * change since the previous snapshot in `events`. Wired to cron — the
+ * snapshot interval is the resolution of every recorded transition.
+ * A run that overlaps another answers 409 without writing anything.
+ *
+ * Needs scripts/supabase/004_pipeline_history.sql.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { fetchPipeline } from "@/lib/pipeline";
+import { recordPipelineSnapshot, SnapshotBusyError } from "@/lib/pipeline-history";
+import { isSupabaseConfigured } from "@/lib/supabase";
+
+export const maxDuration = 90;
+
+const CRON_SECRET = process.env.CRON_SECRET || "";
+
+function authOk(req: NextRequest): boolean {
+  if (!CRON_SECRET) return true;
+  if (req.headers.get("x-cron-secret") === CRON_SECRET) return true;
+  if (req.headers.get("x-vercel-cron")) return true;
+  return false;
+}
+
+export async function POST(req: NextRequest) {
+  if (!authOk(req)) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json(
+      { error: "Supabase not configured (SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY missing)" },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const leads = await fetchPipeline({ cacheTtl: 0 });
+    const snapshot = await recordPipelineSnapshot(leads);
+    return NextResponse.json({ ok: true, snapshot });
+  } catch (err) {
+    if (err instanceof SnapshotBusyError) {
+      return NextResponse.json({ ok: false, error: err.message }, { status: 409 });
+    }
+    console.error("[pipeline/snapshot] Error:", err);
+    const message = err instanceof Error ? err.message : "unknown";
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
+
+export const GET = POST;
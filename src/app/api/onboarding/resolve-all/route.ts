@@ -5,14 +5,22 @@
  * stale errors from past workflow runs are polluting the Step Health counts.
  *
  * Body:
- *   { olderThanHours?: number, errorType?: string, dryRun?: boolean }
+ *   { olderThanHours?: number, errorType?: string, dryRun?: boolean, recordIds?: string[] }
  *
  * Defaults: no time filter, no type filter → resolve everything that is
  * currently New or Investigating.
+ *
+ * dryRun answers with the candidates, counted by Error Type, and every
+ * candidate's id in `recordIds`, without writing. Send those ids back to
+ * resolve exactly what was previewed: rows opened since are left alone,
+ * and so are previewed rows that are no longer open. A real run tags every row it resolves with a batch id in
+ * Resolution Notes (src/lib/resolve-batches.ts) and returns it;
+ * POST /api/onboarding/resolve-all/undo { batchId } reopens the batch.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { fetchTable, invalidateTableCache } from "@/lib/airtable";
+import { resolveRowsAsBatch } from "@/lib/resolve-batches";
 
 export const maxDuration = 60;
 
@@ -20,11 +28,11 @@ interface Body {
   olderThanHours?: number;
   errorType?: string;
   dryRun?: boolean;
+  recordIds?: string[];
 }
 
-const AIRTABLE_PAT = process.env.AIRTABLE_PAT || "";
-const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID || "";
-const ERROR_TABLE_ID = "tblaQ6fpHGhRs56sH";
+/** Candidate rows listed in a dry run; the counts cover all of them. */
+const DRY_RUN_SAMPLE = 100;
 
 function hoursSince(iso?: string): number {
   if (!iso) return Infinity;
@@ -38,17 +46,22 @@ export async function POST(req: NextRequest) {
   try { body = await req.json(); } catch {}
 
   const { olderThanHours, errorType, dryRun } = body;
+  if (body.recordIds !== undefined && (!Array.isArray(body.recordIds) || !body.recordIds.every((id) => typeof id === "string"))) {
+    return NextResponse.json({ success: false, message: "recordIds must be a list of record ids" }, { status: 400 });
+  }
+  const previewed = body.recordIds ? new Set(body.recordIds) : null;
 
   try {
     // Read every error row. The table is small so no paging concern.
     const errors = await fetchTable("onboardingErrors", {
-      fields: ["Error Type", "Status", "Timestamp", "Resolution Notes"],
+      fields: ["Error Type", "Status", "Timestamp", "Resolution Notes", "Lead Name", "Email"],
       cacheTtl: 0,
     });
 
     const candidates = errors.filter((r) => {
       const s = (r.fields["Status"] as string) || "";
       if (s !== "New" && s !== "Investigating") return false;
+      if (previewed && !previewed.has(r.id)) return false;
       if (errorType && (r.fields["Error Type"] as string) !== errorType) return false;
       if (olderThanHours !== undefined) {
         const ts = r.fields["Timestamp"] as string | undefined;
@@ -58,59 +71,39 @@ export async function POST(req: NextRequest) {
     });
 
     if (dryRun) {
+      const byErrorType: Record<string, number> = {};
+      for (const r of candidates) {
+        const type = (r.fields["Error Type"] as string) || "Unknown";
+        byErrorType[type] = (byErrorType[type] ?? 0) + 1;
+      }
       return NextResponse.json({
         success: true,
         wouldResolve: candidates.length,
         total: errors.length,
+        byErrorType,
+        recordIds: candidates.map((r) => r.id),
+        candidates: candidates.slice(0, DRY_RUN_SAMPLE).map((r) => ({
+          id: r.id,
+          errorType: (r.fields["Error Type"] as string) || "Unknown",
+          status: r.fields["Status"] as string,
+          leadName: (r.fields["Lead Name"] as string) || "",
+          email: (r.fields["Email"] as string) || "",
+          timestamp: r.fields["Timestamp"] as string | undefined,
+        })),
       });
     }
 
-    // Airtable PATCH in batches of 10
-    let updated = 0;
-    const failures: { id: string; error: string }[] = [];
     const nowIso = new Date().toISOString();
-    const note = `Bulk-resolved from dashboard at ${nowIso}`;
-
-    for (let i = 0; i < candidates.length; i += 10) {
-      const chunk = candidates.slice(i, i + 10);
-      const payload = {
-        records: chunk.map((r) => ({
-          id: r.id,
-          fields: {
-            Status: "Resolved",
-            "Resolution Notes": note,
-          },
-        })),
-        typecast: true,
-      };
-      const res = await fetch(
-        `https://api.airtable.com/v0/${AIRTABLE_BASE_ID}/${ERROR_TABLE_ID}`,
-        {
-          method: "PATCH",
-          headers: {
-            Authorization: `Bearer ${AIRTABLE_PAT}`,
-            "content-type": "application/json",
-          },
-          body: JSON.stringify(payload),
-        }
-      );
-      if (res.ok) {
-        updated += chunk.length;
-      } else {
-        const text = await res.text().catch(() => "");
-        for (const r of chunk) {
-          failures.push({ id: r.id, error: `${res.status}: ${text.slice(0, 120)}` });
-        }
-      }
-      // small delay to respect 5 req/s
-      await new Promise((r) => setTimeout(r, 220));
-    }
+    const { batchId, resolved: updated, failures } = await resolveRowsAsBatch(
+      candidates,
+      `Bulk-resolved from dashboard at ${nowIso}`
+    );
 
-    invalidateTableCache("onboardingErrors");
-    invalidateTableCache("clients");
+    await invalidateTableCache("clients");
 
     return NextResponse.json({
       success: true,
+      batchId,
       resolved: updated,
       total: errors.length,
       candidates: candidates.length,
@@ -0,0 +1,59 @@
+/**
+ * /api/onboarding/resolve-all/undo
+ *
+ * GET  — recent bulk-resolve batches (newest first), with how many of
+ *        each batch's rows are still Resolved.
+ * POST — { batchId: "rb-…", dryRun?: boolean }
+ *        Reopens every row of the batch that is still Resolved, restoring
+ *        its previous Status and Resolution Notes. Rows changed since the
+ *        batch are left alone and counted as skipped.
+ *
+ * Batches are read back from Resolution Notes — see
+ * src/lib/resolve-batches.ts.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isBatchId, listResolveBatches, undoResolveBatch } from "@/lib/resolve-batches";
+
+export const maxDuration = 60;
+
+export async function GET(req: NextRequest) {
+  const limit = Math.min(50, Math.max(1, parseInt(req.nextUrl.searchParams.get("limit") || "10", 10) || 10));
+  try {
+    const batches = await listResolveBatches(limit);
+    return NextResponse.json({ success: true, batches }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    return NextResponse.json(
+      { success: false, message: err instanceof Error ? err.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  let body: { batchId?: unknown; dryRun?: boolean } = {};
+  try { body = await req.json(); } catch {}
+
+  if (!isBatchId(body.batchId)) {
+    return NextResponse.json(
+      { success: false, message: "batchId is required (e.g. rb-mgx2k1q0-4f7a)" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await undoResolveBatch(body.batchId, { dryRun: body.dryRun });
+    if (!body.dryRun && result.reopened === 0 && result.skipped === 0 && result.failures.length === 0) {
+      return NextResponse.json(
+        { success: false, message: `No rows found for batch ${body.batchId}`, ...result },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: result.failures.length === 0, ...result });
+  } catch (err) {
+    return NextResponse.json(
+      { success: false, message: err instanceof Error ? err.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
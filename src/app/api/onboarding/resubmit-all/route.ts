@@ -8,7 +8,11 @@
  * Used by the dashboard's "New Errors" section to retry ghost-leads
  * (errors that fired before a Clients row was ever created).
  *
- * Body: { errorRecordId, email, leadName?, leadId? }
+ * Body: { errorRecordId, email, leadName?, leadId?, pipelineLeadId? }
+ *
+ * pipelineLeadId is the dashboard lead id the retry is recorded under in
+ * the lead's retry history (src/lib/retry-history.ts); it defaults to
+ * errorRecordId, which is the id of a ghost lead.
  *
  * Flow:
  *  1. Fetches the error row from Airtable (canonical source for payload)
@@ -16,14 +20,23 @@
  *  3. On 2xx: marks the error row Resolved with note "Auto-resolved by
  *     dashboard resubmit at <ts>"
  *  4. Busts caches so the next dashboard poll shows the change
+ *
+ * Idempotent per lead (pipelineLeadId, else errorRecordId) — see
+ * src/lib/idempotency.ts and /api/onboarding/resubmit.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { invalidateTableCache } from "@/lib/airtable";
+import { invalidateTableCache, updateRecords } from "@/lib/airtable";
 import { resolveCloseLeadId } from "@/lib/close-lookup";
+import { withIdempotency } from "@/lib/idempotency";
+import { dispatchJob } from "@/lib/jobs";
+import { recordRetryAttempt, retryActor, type RetryAttempt } from "@/lib/retry-history";
 
 export const maxDuration = 60;
 
+/** A successful resubmit answers any repeat for the same lead this long. */
+const DEDUPE_WINDOW_MS = 2 * 60 * 1000;
+
 /** Returns true when the value looks like a Close lead id ("lead_xxxxx"). */
 function isValidCloseLeadId(v: unknown): boolean {
   return typeof v === "string" && /^lead_[A-Za-z0-9]+$/.test(v.trim());
@@ -52,20 +65,24 @@ async function getErrorRow(id: string): Promise<ErrRow | null> {
 }
 
 async function markResolved(id: string, note: string): Promise<boolean> {
-  const url = `https://api.airtable.com/v0/${AIRTABLE_BASE}/${ERROR_TABLE}/${id}`;
-  const res = await fetch(url, {
-    method: "PATCH",
-    headers: { Authorization: `Bearer ${AIRTABLE_PAT}`, "content-type": "application/json" },
-    body: JSON.stringify({
-      fields: { Status: "Resolved", "Resolution Notes": note },
-      typecast: true,
-    }),
-  });
-  return res.ok;
+  const result = await updateRecords(
+    ERROR_TABLE,
+    [{ id, fields: { Status: "Resolved", "Resolution Notes": note } }],
+    { typecast: true }
+  );
+  return result.failures.length === 0;
+}
+
+interface ResubmitAllBody {
+  errorRecordId?: string;
+  email?: string;
+  leadName?: string;
+  leadId?: string;
+  pipelineLeadId?: string;
 }
 
 export async function POST(req: NextRequest) {
-  let body: { errorRecordId?: string; email?: string; leadName?: string; leadId?: string };
+  let body: ResubmitAllBody;
   try {
     body = await req.json();
   } catch {
@@ -78,8 +95,21 @@ export async function POST(req: NextRequest) {
       { status: 400 }
     );
   }
+  const errorRecordId = body.errorRecordId;
+
+  return withIdempotency(
+    req,
+    {
+      route: "resubmit_all",
+      lock: `resubmit_all:${body.pipelineLeadId || errorRecordId}`,
+      windowMs: DEDUPE_WINDOW_MS,
+    },
+    () => resubmitAll(req, body, errorRecordId)
+  );
+}
 
-  const errRow = await getErrorRow(body.errorRecordId);
+async function resubmitAll(req: NextRequest, body: ResubmitAllBody, errorRecordId: string): Promise<NextResponse> {
+  const errRow = await getErrorRow(errorRecordId);
   if (!errRow) {
     return NextResponse.json(
       { success: false, message: "Error row not found in Airtable" },
@@ -88,6 +118,16 @@ export async function POST(req: NextRequest) {
   }
   const f = errRow.fields;
 
+  const recordAttempt = (response: Pick<RetryAttempt, "success" | "message"> & { status?: number; raw?: string }) =>
+    recordRetryAttempt({
+      leadId: body.pipelineLeadId || errRow.id,
+      step: null,
+      route: "resubmit_all",
+      errorRecordId: errRow.id,
+      response,
+      actor: retryActor(req),
+    });
+
   // Build the payload the n8n workflow expects.
   //
   // CRITICAL: the workflow's "Parse Airtable Record" node reads
@@ -153,7 +193,7 @@ export async function POST(req: NextRequest) {
   ) {
     const note = `Auto-resolved ${new Date().toISOString()} — malformed error row, no lead context (email/lead_id/lead_name all empty). n8n webhook skipped.`;
     const resolved = await markResolved(errRow.id, note);
-    invalidateTableCache("onboardingErrors");
+    await recordAttempt({ success: true, message: "Malformed error row auto-resolved; n8n webhook skipped" });
     return NextResponse.json({
       success: true,
       skippedWebhook: true,
@@ -190,8 +230,8 @@ export async function POST(req: NextRequest) {
           closeLookup.backfilledClients = r.backfill.clientsUpdated;
           closeLookup.backfilledStudents = r.backfill.studentsUpdated;
           if (r.backfill.clientsUpdated > 0 || r.backfill.studentsUpdated > 0) {
-            invalidateTableCache("clients");
-            invalidateTableCache("studentOnboarding");
+            await invalidateTableCache("clients");
+            await invalidateTableCache("studentOnboarding");
           }
         }
       }
@@ -213,10 +253,12 @@ export async function POST(req: NextRequest) {
     n8nStatus = res.status;
     n8nBody = (await res.text()).slice(0, 500);
   } catch (err) {
+    const message = `Failed to reach n8n: ${err instanceof Error ? err.message : "unknown"}`;
+    await recordAttempt({ success: false, message });
     return NextResponse.json(
       {
         success: false,
-        message: `Failed to reach n8n: ${err instanceof Error ? err.message : "unknown"}`,
+        message,
         webhook: N8N_WEBHOOK,
       },
       { status: 502 }
@@ -224,18 +266,14 @@ export async function POST(req: NextRequest) {
   }
 
   if (n8nStatus < 200 || n8nStatus >= 300) {
+    await recordAttempt({ success: false, message: `n8n returned ${n8nStatus}`, status: n8nStatus, raw: n8nBody });
     // Even on n8n failure, if we successfully backfilled a Close Lead ID
     // we still want to push that change to Supabase so the dashboard's
     // Cross-platform view picks it up on the next poll.
     if (closeLookup.discoveredId && payload.email) {
-      const baseUrl = req.nextUrl.origin;
-      fetch(`${baseUrl}/api/supabase/sync-lead`, {
-        method: "POST",
-        headers: { "content-type": "application/json" },
-        body: JSON.stringify({ email: payload.email }),
-      }).catch(() => undefined);
-      invalidateTableCache("clients");
-      invalidateTableCache("studentOnboarding");
+      await dispatchJob(req.nextUrl.origin, "sync_lead", { email: payload.email });
+      await invalidateTableCache("clients");
+      await invalidateTableCache("studentOnboarding");
     }
     return NextResponse.json(
       {
@@ -254,20 +292,16 @@ export async function POST(req: NextRequest) {
   // schedule; if anything fails the error log will refire.
   const note = `Auto-resolved by dashboard resubmit at ${new Date().toISOString()} — n8n ${n8nStatus}`;
   const resolved = await markResolved(errRow.id, note);
+  await recordAttempt({ success: true, message: `n8n accepted the resubmit (${n8nStatus})`, status: n8nStatus, raw: n8nBody });
 
   // Bust caches so the change shows up on the next poll.
-  invalidateTableCache("clients");
-  invalidateTableCache("studentOnboarding");
-  invalidateTableCache("onboardingErrors");
+  await invalidateTableCache("clients");
+  await invalidateTableCache("studentOnboarding");
+  await invalidateTableCache("onboardingErrors");
 
-  // Fire-and-forget Supabase resync if we have an email
+  // Queue a Supabase resync if we have an email
   if (payload.email) {
-    const baseUrl = req.nextUrl.origin;
-    fetch(`${baseUrl}/api/supabase/sync-lead`, {
-      method: "POST",
-      headers: { "content-type": "application/json" },
-      body: JSON.stringify({ email: payload.email }),
-    }).catch(() => undefined);
+    await dispatchJob(req.nextUrl.origin, "sync_lead", { email: payload.email });
   }
 
   return NextResponse.json({
@@ -13,16 +13,30 @@
  *
  * Response (proxied from n8n):
  *   { success, message, data? }
+ *
+ * Every call that reaches n8n is recorded in the lead's retry history
+ * (src/lib/retry-history.ts).
+ *
+ * Idempotent (src/lib/idempotency.ts): an Idempotency-Key header replays
+ * the original response, and a second request for the same lead + step
+ * while one is running — or within 2 minutes of a successful one — gets
+ * that response instead of firing n8n again.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { invalidateTableCache } from "@/lib/airtable";
 import { triggerResubmit, triggerStepResubmit } from "@/lib/n8n";
 import { resolveCloseLeadId } from "@/lib/close-lookup";
+import { withIdempotency } from "@/lib/idempotency";
+import { dispatchJob } from "@/lib/jobs";
+import { recordRetryAttempt, retryActor } from "@/lib/retry-history";
 import type { StepId } from "@/lib/pipeline";
 
 export const maxDuration = 30;
 
+/** A successful retry answers any repeat for the same lead + step this long. */
+const DEDUPE_WINDOW_MS = 2 * 60 * 1000;
+
 /** Returns true when the value looks like a Close lead id ("lead_xxxxx"). */
 function isValidCloseLeadId(v: unknown): boolean {
   return typeof v === "string" && /^lead_[A-Za-z0-9]+$/.test(v.trim());
@@ -66,7 +80,19 @@ export async function POST(req: NextRequest) {
       { status: 400 }
     );
   }
+  const valid = { ...body, leadRecordId: body.leadRecordId, step: body.step };
 
+  return withIdempotency(
+    req,
+    { route: "resubmit", lock: `resubmit:${valid.leadRecordId}:${valid.step}`, windowMs: DEDUPE_WINDOW_MS },
+    () => resubmit(req, valid)
+  );
+}
+
+async function resubmit(
+  req: NextRequest,
+  body: ResubmitBody & { leadRecordId: string; step: StepId }
+): Promise<NextResponse> {
   if (body.step === "vendhub") {
     return NextResponse.json(
       {
@@ -116,8 +142,8 @@ export async function POST(req: NextRequest) {
           closeLookup.backfilledClients = r.backfill.clientsUpdated;
           closeLookup.backfilledStudents = r.backfill.studentsUpdated;
           if (r.backfill.clientsUpdated > 0 || r.backfill.studentsUpdated > 0) {
-            invalidateTableCache("clients");
-            invalidateTableCache("studentOnboarding");
+            await invalidateTableCache("clients");
+            await invalidateTableCache("studentOnboarding");
           }
         }
       }
@@ -137,34 +163,43 @@ export async function POST(req: NextRequest) {
     closeLookup,
   };
 
-  // Fire-and-forget Supabase sync. Mirrors what /api/onboarding/resubmit-all
+  // Queued Supabase sync. Mirrors what /api/onboarding/resubmit-all
   // already does so per-step retries propagate the (possibly newly-backfilled)
   // Close Lead ID to Supabase immediately, instead of waiting on the
   // 5-minute cron or relying on the client-side triggerSupabaseSync call.
-  const fireSupabaseSync = () => {
+  const fireSupabaseSync = async () => {
     if (!incomingEmail) return;
-    const baseUrl = req.nextUrl.origin;
-    fetch(`${baseUrl}/api/supabase/sync-lead`, {
-      method: "POST",
-      headers: { "content-type": "application/json" },
-      body: JSON.stringify({ email: incomingEmail }),
-    }).catch(() => undefined);
+    await dispatchJob(req.nextUrl.origin, "sync_lead", { email: incomingEmail });
   };
 
+  const step = body.step;
+  const leadRecordId = body.leadRecordId;
+  const recordAttempt = (response: Parameters<typeof recordRetryAttempt>[0]["response"]) =>
+    recordRetryAttempt({
+      leadId: leadRecordId,
+      step,
+      route: "resubmit",
+      errorRecordId: body.errorRecordId,
+      response,
+      actor: retryActor(req),
+    });
+
   // Try the per-step webhook first, fall back to the legacy generic webhook.
   const result = await triggerStepResubmit(body.step, payload);
   if (result.success) {
-    invalidateTableCache("clients");
-    invalidateTableCache("onboardingErrors");
-    fireSupabaseSync();
+    await recordAttempt(result);
+    await invalidateTableCache("clients");
+    await invalidateTableCache("onboardingErrors");
+    await fireSupabaseSync();
     return NextResponse.json({ ...result, closeLookup }, { status: 200 });
   }
 
   const fallback = await triggerResubmit(payload);
   if (fallback.success) {
-    invalidateTableCache("clients");
-    invalidateTableCache("onboardingErrors");
-    fireSupabaseSync();
+    await recordAttempt({ ...fallback, message: `${fallback.message} (fallback generic webhook)` });
+    await invalidateTableCache("clients");
+    await invalidateTableCache("onboardingErrors");
+    await fireSupabaseSync();
     return NextResponse.json(
       {
         ...fallback,
@@ -179,11 +214,17 @@ export async function POST(req: NextRequest) {
   // push it to Supabase so the dashboard's Cross-platform view reflects
   // the new lookup result on the next poll.
   if (closeLookup.discoveredId) {
-    fireSupabaseSync();
+    await fireSupabaseSync();
   }
 
   // Return the richer of the two failures so the UI can explain why retry failed.
   const best = fallback.raw ? fallback : result;
+  await recordAttempt({
+    success: false,
+    message: best.message || fallback.message || result.message || "Resubmit failed",
+    status: best.status,
+    raw: best.raw,
+  });
   return NextResponse.json(
     {
       success: false,
@@ -0,0 +1,36 @@
+/**
+ * GET /api/onboarding/retries?leadId=rec…
+ *
+ * The lead's retry history, newest first: every call to
+ * /api/onboarding/resubmit and /api/onboarding/resubmit-all with the step,
+ * Onboarding Errors record, n8n's answer and who triggered it.
+ *
+ * Needs scripts/supabase/006_retry_history.sql.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getLeadRetryHistory } from "@/lib/retry-history";
+import { isSupabaseConfigured } from "@/lib/supabase";
+
+export async function GET(req: NextRequest) {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json(
+      { error: "Supabase not configured (SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY missing)" },
+      { status: 503 }
+    );
+  }
+
+  const leadId = req.nextUrl.searchParams.get("leadId")?.trim();
+  if (!leadId) {
+    return NextResponse.json({ error: "leadId is required" }, { status: 400 });
+  }
+
+  try {
+    const attempts = await getLeadRetryHistory(leadId);
+    return NextResponse.json({ leadId, attempts }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    console.error("[onboarding/retries] Error:", err);
+    const message = err instanceof Error ? err.message : "unknown";
+    return NextResponse.json({ error: "Failed to load retry history", detail: message }, { status: 500 });
+  }
+}
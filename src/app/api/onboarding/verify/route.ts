@@ -67,7 +67,7 @@ export async function POST(req: NextRequest) {
     };
   }
 
-  invalidateTableCache("clients");
+  await invalidateTableCache("clients");
 
   return NextResponse.json({
     success: true,
@@ -0,0 +1,72 @@
+/**
+ * /api/settings/classification-rules
+ *
+ * GET  — active rules, saved version history (newest first) and the
+ *        built-in defaults, for the Settings page editor.
+ * POST — save a new version and make it active.
+ *        Body: { rules: ClassificationRulesInput, note?: string, actor?: string }
+ *        400 with { errors } when the rules don't validate.
+ *
+ * The pipeline picks up a saved version within RULES_TTL_MS (30s) on every
+ * instance; the version shows up as `rulesVersion` on each lead.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DEFAULT_RULES,
+  getActiveRules,
+  listRuleVersions,
+  saveRules,
+  validateRules,
+  VENDHUB_SIGNALS,
+} from "@/lib/classification-rules";
+import { isSupabaseConfigured } from "@/lib/supabase";
+
+export async function GET() {
+  const configured = isSupabaseConfigured();
+  try {
+    const [active, versions] = await Promise.all([
+      getActiveRules(),
+      configured ? listRuleVersions(20) : Promise.resolve([]),
+    ]);
+    return NextResponse.json(
+      { active, versions, defaults: DEFAULT_RULES, vendhubSignals: VENDHUB_SIGNALS, editable: configured },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "unknown";
+    return NextResponse.json({ error: "Failed to load classification rules", detail: message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json(
+      { error: "Supabase not configured — rules can't be saved (SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY)" },
+      { status: 503 }
+    );
+  }
+
+  let body: { rules?: unknown; note?: string; actor?: string };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { rules, errors } = validateRules(body.rules);
+  if (!rules) {
+    return NextResponse.json({ error: "Invalid rules", errors }, { status: 400 });
+  }
+
+  try {
+    const saved = await saveRules(rules, {
+      note: typeof body.note === "string" ? body.note.slice(0, 500) : undefined,
+      actor: typeof body.actor === "string" ? body.actor.slice(0, 100) : undefined,
+    });
+    return NextResponse.json({ saved }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "unknown";
+    return NextResponse.json({ error: "Failed to save classification rules", detail: message }, { status: 502 });
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * /api/settings/classifier-shadow
+ *
+ * Shadow-mode comparison: classify one Airtable snapshot with the live
+ * classifier + active rules and with a candidate, and report every lead
+ * whose overallStatus or step status would change. Read-only.
+ *
+ * GET  — candidate is a saved rules version and/or registered classifier.
+ *        Query: version? (rules version, default active), classifier?
+ *        (default "live"), max?, fresh=1 to bypass the Airtable cache.
+ *        Without params, returns { classifiers } for the admin view.
+ * POST — candidate is an unsaved draft from the rules editor.
+ *        Body: { rules: ClassificationRulesInput, classifier?, max? }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DRAFT_RULES_VERSION,
+  getRuleVersion,
+  validateRules,
+  type ClassificationRules,
+} from "@/lib/classification-rules";
+import { CLASSIFIERS, runShadowComparison } from "@/lib/shadow-classifier";
+
+// Same Airtable read as /api/onboarding/pipeline, classified twice.
+export const maxDuration = 90;
+
+function classifierList() {
+  return Object.entries(CLASSIFIERS).map(([name, c]) => ({ name, label: c.label, description: c.description }));
+}
+
+function parseMax(raw: string | number | null | undefined): number | undefined {
+  if (raw === null || raw === undefined || raw === "") return undefined;
+  const n = typeof raw === "number" ? raw : parseInt(raw, 10);
+  return Number.isFinite(n) ? Math.max(1, Math.min(5000, n)) : undefined;
+}
+
+async function respond(options: {
+  candidateRules?: ClassificationRules;
+  candidateClassifier?: string;
+  max?: number;
+  fresh?: boolean;
+}) {
+  if (options.candidateClassifier && !Object.hasOwn(CLASSIFIERS, options.candidateClassifier)) {
+    return NextResponse.json(
+      { error: `Unknown classifier "${options.candidateClassifier}"`, classifiers: classifierList() },
+      { status: 400 }
+    );
+  }
+  try {
+    const report = await runShadowComparison({
+      candidateRules: options.candidateRules,
+      candidateClassifier: options.candidateClassifier,
+      max: options.max,
+      cacheTtl: options.fresh ? 0 : undefined,
+    });
+    return NextResponse.json(report, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    console.error("[classifier-shadow] Error:", err);
+    const message = err instanceof Error ? err.message : "unknown";
+    return NextResponse.json({ error: "Shadow comparison failed", detail: message }, { status: 500 });
+  }
+}
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = req.nextUrl;
+  const versionParam = searchParams.get("version");
+  const classifier = searchParams.get("classifier") || undefined;
+
+  if (versionParam === null && !classifier) {
+    return NextResponse.json({ classifiers: classifierList() });
+  }
+
+  let candidateRules: ClassificationRules | undefined;
+  if (versionParam !== null && versionParam !== "") {
+    const version = parseInt(versionParam, 10);
+    if (!Number.isInteger(version) || version < 0) {
+      return NextResponse.json({ error: "version must be a non-negative integer" }, { status: 400 });
+    }
+    try {
+      candidateRules = await getRuleVersion(version);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "unknown";
+      return NextResponse.json({ error: "Failed to load rules version", detail: message }, { status: 502 });
+    }
+    if (!candidateRules) {
+      return NextResponse.json({ error: `Rules version ${version} not found` }, { status: 404 });
+    }
+  }
+
+  return respond({
+    candidateRules,
+    candidateClassifier: classifier,
+    max: parseMax(searchParams.get("max")),
+    fresh: searchParams.get("fresh") === "1",
+  });
+}
+
+export async function POST(req: NextRequest) {
+  let body: { rules?: unknown; classifier?: string; max?: number };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { rules, errors } = validateRules(body.rules);
+  if (!rules) {
+    return NextResponse.json({ error: "Invalid rules", errors }, { status: 400 });
+  }
+
+  return respond({
+    candidateRules: { ...rules, version: DRAFT_RULES_VERSION },
+    candidateClassifier: typeof body.classifier === "string" ? body.classifier : undefined,
+    max: parseMax(body.max),
+  });
+}
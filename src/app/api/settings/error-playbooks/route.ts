@@ -0,0 +1,72 @@
+/**
+ * /api/settings/error-playbooks
+ *
+ * GET  — the active remediation playbook catalog, saved version history
+ *        (newest first) and the built-in defaults, for the Settings page.
+ * POST — save a new catalog version and make it active.
+ *        Body: { playbooks: Playbook[], note?: string, actor?: string }
+ *        400 with { errors } when a playbook doesn't validate (bad regex,
+ *        unknown action, duplicate id…).
+ *
+ * The pipeline route picks up a saved catalog within 30s on every instance.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DEFAULT_PLAYBOOKS,
+  getActivePlaybooks,
+  listPlaybookVersions,
+  PLAYBOOK_ACTIONS,
+  savePlaybooks,
+  validatePlaybooks,
+} from "@/lib/playbooks";
+import { isSupabaseConfigured } from "@/lib/supabase";
+
+export async function GET() {
+  const configured = isSupabaseConfigured();
+  try {
+    const [active, versions] = await Promise.all([
+      getActivePlaybooks(),
+      configured ? listPlaybookVersions(20) : Promise.resolve([]),
+    ]);
+    return NextResponse.json(
+      { active, versions, defaults: DEFAULT_PLAYBOOKS, actions: PLAYBOOK_ACTIONS, editable: configured },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "unknown";
+    return NextResponse.json({ error: "Failed to load error playbooks", detail: message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  if (!isSupabaseConfigured()) {
+    return NextResponse.json(
+      { error: "Supabase not configured — playbooks can't be saved (SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY)" },
+      { status: 503 }
+    );
+  }
+
+  let body: { playbooks?: unknown; note?: string; actor?: string };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { playbooks, errors } = validatePlaybooks(body.playbooks);
+  if (!playbooks) {
+    return NextResponse.json({ error: "Invalid playbooks", errors }, { status: 400 });
+  }
+
+  try {
+    const saved = await savePlaybooks(playbooks, {
+      note: typeof body.note === "string" ? body.note.slice(0, 500) : undefined,
+      actor: typeof body.actor === "string" ? body.actor.slice(0, 100) : undefined,
+    });
+    return NextResponse.json({ saved }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "unknown";
+    return NextResponse.json({ error: "Failed to save error playbooks", detail: message }, { status: 502 });
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * GET /api/settings/n8n-workflows
+ *
+ * The n8n workflow registry: every workflow the dashboard POSTs to
+ * (per-step resubmits, resubmit-onboarding, the CRM audit), checked
+ * against the live instance — found or missing, active, whether its
+ * webhook path still matches, and its last execution.
+ *
+ * Needs N8N_API_KEY; without it the expected list comes back with
+ * health "unknown" and apiConfigured: false.
+ */
+
+import { NextResponse } from "next/server";
+import { checkWorkflowRegistry } from "@/lib/n8n";
+
+export async function GET() {
+  try {
+    const registry = await checkWorkflowRegistry();
+    return NextResponse.json(registry, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    console.error("[settings/n8n-workflows] Error:", err);
+    const message = err instanceof Error ? err.message : "unknown";
+    return NextResponse.json({ error: "Failed to check n8n workflows", detail: message }, { status: 500 });
+  }
+}
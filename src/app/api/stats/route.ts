@@ -22,6 +22,7 @@ import { fetchTable, TABLE_IDS } from "@/lib/airtable";
 import { cache } from "@/lib/cache";
 import {
   countByField,
+  countValues,
   sumField,
   avgField,
   filterRecords,
@@ -32,6 +33,13 @@ import {
   formatCurrency,
 } from "@/lib/utils";
 import type { AirtableRecord } from "@/lib/utils";
+import {
+  decodeClient,
+  decodeClientLevelLog,
+  decodeStudentOnboarding,
+  decodeWarmLead,
+  decodeWarmLeadQA,
+} from "@/lib/records";
 
 // Allow up to 60 seconds for this endpoint (fetches 12 tables)
 export const maxDuration = 60;
@@ -73,7 +81,7 @@ export async function GET(request: Request) {
 
     // Return cached stats if available (unless force refresh)
     if (!forceRefresh) {
-      const cached = cache.get<Record<string, unknown>>(STATS_CACHE_KEY);
+      const cached = await cache.get<Record<string, unknown>>(STATS_CACHE_KEY);
       if (cached) {
         return NextResponse.json(cached, {
           headers: {
@@ -121,8 +129,11 @@ export async function GET(request: Request) {
       ...countByField(clients, "Program Stages"),
     };
     // Count active clients by checking multiple possible status values
-    const activeClients = clients.filter((r) => {
-      const status = String(r.fields["Status"] ?? "");
+    // Typed views for the fields read directly below; the countByField /
+    // sumField aggregates keep working on the raw records.
+    const clientModels = clients.map(decodeClient);
+    const activeClients = clientModels.filter((c) => {
+      const status = c.status ?? "";
       return (
         status &&
         status !== "Churned" &&
@@ -179,21 +190,19 @@ export async function GET(request: Request) {
                      recentRecords(studentOnboarding, "Created", 30);
 
     // Onboarding phases from clients in stage 1
-    const onboardingClients = clients.filter((r) =>
-      String(r.fields["Program Stages"] ?? "").includes("Onboarding")
+    const onboardingClients = clients.filter((_, i) =>
+      (clientModels[i].programStages ?? "").includes("Onboarding")
     );
     const onboardingByPhase = countByField(onboardingClients, "Current Phase");
 
     // Pending student records (Skool not granted)
-    const pendingSkool = studentOnboarding.filter(
-      (r) => !r.fields["Skool Granted"] && !r.fields["Skool granted"]
-    ).length;
+    const pendingSkool = studentOnboarding
+      .map(decodeStudentOnboarding)
+      .filter((s) => !s.skoolGranted).length;
 
     // Compute avg days to complete onboarding from client level log
     const obLevelRecords = clientLevelLog.filter((r) =>
-      String(r.fields["Program Level"] ?? r.fields["Level"] ?? "")
-        .toLowerCase()
-        .includes("onboarding")
+      (decodeClientLevelLog(r).programLevel ?? "").toLowerCase().includes("onboarding")
     );
     const avgDaysToComplete =
       obLevelRecords.length > 0
@@ -246,8 +255,8 @@ export async function GET(request: Request) {
                             currentMonthRecords(clients, "Created");
 
     const avgDaysInProgram = avgField(clients, "Days in Program");
-    const churnedCount = clients.filter((r) =>
-      String(r.fields["Status"] ?? "").toLowerCase().includes("churn")
+    const churnedCount = clientModels.filter((c) =>
+      (c.status ?? "").toLowerCase().includes("churn")
     ).length;
     const dialPriorityCounts = countByField(clients, "Dial Priority");
 
@@ -275,15 +284,15 @@ export async function GET(request: Request) {
     const leadTempCounts = countByField(warmLeads, "Lead Temperature");
     const leadStatusCounts = countByField(warmLeads, "Status");
     const leadOutcomeCounts = countByField(warmLeads, "Final Outcome");
-    const leadSourceCounts = countByField(warmLeads, "Lead Source") ||
-                            countByField(warmLeads, "Source");
+    // "Lead Source" with a per-record fallback to the older "Source" column.
+    const leadSourceCounts = countValues(warmLeads.map(decodeWarmLead), (l) => l.source);
     const leadTypeCounts = countByField(warmLeads, "Lead Type");
     const leadLocationCounts = countByField(warmLeads, "Location Type");
     const leadsByMonth = groupByMonth(warmLeads, "Lead Date") ||
                         groupByMonth(warmLeads, "Created");
     const leadOwnerCounts = countByField(warmLeads, "Lead Owner");
 
-    const qaScores = warmLeadQA.map((r) => Number(r.fields["Final Score"] ?? 0)).filter(Boolean);
+    const qaScores = warmLeadQA.map((r) => decodeWarmLeadQA(r).finalScore ?? 0).filter(Boolean);
     const avgLeadScore = qaScores.length > 0
       ? Math.round((qaScores.reduce((a, b) => a + b, 0) / qaScores.length) * 10) / 10
       : 0;
@@ -429,7 +438,7 @@ export async function GET(request: Request) {
     };
 
     // Cache the assembled stats
-    cache.set(STATS_CACHE_KEY, stats, STATS_TTL_MS);
+    await cache.set(STATS_CACHE_KEY, stats, STATS_TTL_MS);
 
     return NextResponse.json(stats, {
       headers: {
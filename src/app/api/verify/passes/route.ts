@@ -0,0 +1,137 @@
+/**
+ * GET  /api/verify/passes
+ *   → { passes: VerifierPass[], platforms: PassPlatform[] }
+ *     the latest pass per platform and every verifier that can run one,
+ *     for the progress bars in the Integrations view
+ *
+ * POST /api/verify/passes
+ *   { platform, force? }   start a pass over every row for one verifier
+ *                          (or resume a stalled one) and queue its steps
+ *                          → { ok: true, pass, created }
+ *   { continuation, step? } run the next step and queue the one after —
+ *                          what verify_pass jobs call (cron auth). With
+ *                          `step`, a pass that has moved past it is left
+ *                          alone (a duplicate job), so chains never fork.
+ *                          → { success: true, ...report, pass, continuation }
+ *   { cancel: passId }     stop a running pass → { ok: true, pass }
+ *
+ * Each step's lookups and write-back fit in PASS_STEP_BUDGET_MS (the step
+ * takes only as many emails as that allows), inside the job worker's
+ * per-job timeout, so a pass over ~2000 rows is a chain of short jobs
+ * rather than one call that can't finish. See src/lib/verifier-passes.ts.
+ *
+ * Needs scripts/supabase/011_verifier_passes.sql.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isSupabaseConfigured } from "@/lib/supabase";
+import { cronAuthOk, PassBusyError, runVerifierPass } from "@/lib/verifier";
+import {
+  cancelPass,
+  continuationToken,
+  drivePass,
+  getPass,
+  latestPasses,
+  startPass,
+  type PassPlatform,
+} from "@/lib/verifier-passes";
+import { VERIFIERS } from "@/lib/verifiers";
+
+export const maxDuration = 60;
+
+// Lookups plus write-back per step. The Clients / Student Onboarding read
+// (~10s for ~2000 rows) fits in the rest of maxDuration.
+const PASS_STEP_BUDGET_MS = 25_000;
+
+function notConfigured() {
+  return NextResponse.json(
+    { error: "Supabase not configured (SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY missing)" },
+    { status: 503 }
+  );
+}
+
+export async function GET() {
+  if (!isSupabaseConfigured()) return notConfigured();
+  try {
+    const passes = await latestPasses();
+    const platforms: PassPlatform[] = VERIFIERS.map((v) => ({
+      platform: v.platform,
+      step: v.step,
+      label: v.label,
+      configured: v.missingConfig() === null,
+    }));
+    return NextResponse.json({ passes, platforms }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    console.error("[verify/passes] Error:", err);
+    const message = err instanceof Error ? err.message : "unknown";
+    return NextResponse.json({ error: "Failed to load verifier passes", detail: message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  if (!isSupabaseConfigured()) return notConfigured();
+  let body: { platform?: string; force?: boolean; continuation?: string; step?: number; cancel?: string };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const origin = req.nextUrl.origin;
+
+  try {
+    if (typeof body.cancel === "string") {
+      const pass = await cancelPass(body.cancel);
+      if (!pass) return NextResponse.json({ error: "Unknown verifier pass" }, { status: 404 });
+      return NextResponse.json({ ok: true, pass });
+    }
+
+    if (typeof body.continuation === "string") {
+      if (!cronAuthOk(req)) {
+        return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+      }
+      const pass = await getPass(body.continuation);
+      const verifier = pass && VERIFIERS.find((v) => v.platform === pass.platform);
+      if (!pass || !verifier) {
+        return NextResponse.json({ error: "Unknown continuation token" }, { status: 404 });
+      }
+      const missingConfig = verifier.missingConfig();
+      if (missingConfig) return NextResponse.json({ error: missingConfig }, { status: 503 });
+      const step = await runVerifierPass(verifier, pass.id, {
+        budgetMs: PASS_STEP_BUDGET_MS,
+        expectedStep: typeof body.step === "number" ? body.step : undefined,
+      });
+      // No report: finished, or a duplicate job — whoever ran the step drives the next.
+      if (step.report) await drivePass(origin, step.pass);
+      return NextResponse.json({
+        success: true,
+        ...step.report,
+        pass: step.pass,
+        continuation: continuationToken(step.pass),
+      });
+    }
+
+    const verifier = VERIFIERS.find((v) => v.platform === body.platform);
+    if (!verifier) {
+      return NextResponse.json(
+        { error: `platform must be one of ${VERIFIERS.map((v) => v.platform).join(", ")}` },
+        { status: 400 }
+      );
+    }
+    const missingConfig = verifier.missingConfig();
+    if (missingConfig) return NextResponse.json({ error: missingConfig }, { status: 503 });
+    const { pass, created } = await startPass(verifier, {
+      force: Boolean(body.force),
+      by: req.headers.get("x-actor") || "dashboard",
+    });
+    // A running pass that isn't stalled already has a job chain behind it.
+    if (created || pass.stalled) await drivePass(origin, pass);
+    return NextResponse.json({ ok: true, pass, created });
+  } catch (err) {
+    if (err instanceof PassBusyError) {
+      return NextResponse.json({ error: err.message, continuation: err.passId }, { status: 409 });
+    }
+    console.error("[verify/passes] Error:", err);
+    const message = err instanceof Error ? err.message : "unknown";
+    return NextResponse.json({ error: "Verifier pass failed", detail: message }, { status: 500 });
+  }
+}
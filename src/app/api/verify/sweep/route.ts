@@ -1,8 +1,8 @@
 /**
  * POST /api/verify/sweep
  *
- * Run all three platform verifiers (MN, Intercom, Close) in parallel
- * for either:
+ * Run every platform verifier (src/lib/verifiers.ts) in parallel,
+ * in-process through the shared runner, for either:
  *   - A single email passed in the body  → fast, catches a brand-new
  *     lead within seconds of being added.
  *   - The latest N rows added to the Clients table   → daily-cron mode,
@@ -15,24 +15,26 @@
  * Why: Vercel Hobby plan limits crons to daily. The dedicated daily
  * verifiers (04:00, 04:30, 05:00 UTC) ensure full coverage, but new
  * leads added between cron runs are stuck "Awaiting verification" for
- * up to 24h. This sweep endpoint runs all three verifiers concurrently
+ * up to 24h. This sweep endpoint runs the verifiers concurrently
  * so any newly-added active client can be caught up in a single ~10s
  * call. Wired to: the Airtable change webhook (per-lead) and a daily
  * sweep cron (defensive backstop).
+ *
+ * Sweep mode also restarts resumable verifier passes whose job chain
+ * stalled (src/lib/verifier-passes.ts).
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { isSupabaseConfigured } from "@/lib/supabase";
+import { cronAuthOk, runVerifier, type Verifier, type VerifierOptions } from "@/lib/verifier";
+import { resumeStalledPasses } from "@/lib/verifier-passes";
+import { VERIFIERS } from "@/lib/verifiers";
 
 export const maxDuration = 60;
 
-const CRON_SECRET = process.env.CRON_SECRET || "";
-
-function authOk(req: NextRequest): boolean {
-  if (!CRON_SECRET) return true;
-  if (req.headers.get("x-cron-secret") === CRON_SECRET) return true;
-  if (req.headers.get("x-vercel-cron")) return true;
-  return false;
-}
+// Each verifier stops starting lookups after this, leaving time for the
+// Airtable write-back inside the 60s envelope.
+const SWEEP_BUDGET_MS = 40_000;
 
 interface VerifierResult {
   platform: string;
@@ -41,40 +43,26 @@ interface VerifierResult {
   body?: unknown;
 }
 
-async function callVerifier(
-  origin: string,
-  path: string,
-  payload: Record<string, unknown>
-): Promise<VerifierResult> {
-  const platform = path.split("/").pop() || path;
+async function runOne(verifier: Verifier, options: VerifierOptions): Promise<VerifierResult> {
+  const platform = verifier.platform;
+  const missingConfig = verifier.missingConfig();
+  if (missingConfig) return { platform, ok: false, status: 503, body: { error: missingConfig } };
   try {
-    const res = await fetch(`${origin}${path}`, {
-      method: "POST",
-      headers: {
-        "content-type": "application/json",
-        "x-cron-secret": CRON_SECRET,
-      },
-      body: JSON.stringify(payload),
-    });
-    let body: unknown = undefined;
-    try {
-      body = await res.json();
-    } catch {
-      /* ignore */
-    }
-    return { platform, ok: res.ok, status: res.status, body };
+    const report = await runVerifier(verifier, { ...options, budgetMs: SWEEP_BUDGET_MS });
+    return { platform, ok: true, status: 200, body: { success: true, ...report } };
   } catch (err) {
+    console.error(`[verify/sweep] ${verifier.label} failed:`, err);
     return {
       platform,
       ok: false,
-      status: 0,
+      status: 500,
       body: { error: err instanceof Error ? err.message : "unknown" },
     };
   }
 }
 
 export async function POST(req: NextRequest) {
-  if (!authOk(req)) {
+  if (!cronAuthOk(req)) {
     return NextResponse.json({ error: "unauthorized" }, { status: 401 });
   }
 
@@ -85,19 +73,13 @@ export async function POST(req: NextRequest) {
     /* empty body OK — defaults to newestN=50 */
   }
 
-  const origin = req.nextUrl.origin;
   const started = Date.now();
   const email = body.email?.trim().toLowerCase();
   const newestN = body.newestN ?? 50;
 
-  // Per-email fast path: hits all three verifiers in parallel for one
-  // email. Each verifier supports `email` in its payload to scope the run.
+  // Per-email fast path: every verifier in parallel, scoped to one email.
   if (email) {
-    const results = await Promise.all([
-      callVerifier(origin, "/api/verify/mighty-networks", { email }),
-      callVerifier(origin, "/api/verify/intercom", { email }),
-      callVerifier(origin, "/api/verify/close", { email }),
-    ]);
+    const results = await Promise.all(VERIFIERS.map((v) => runOne(v, { email })));
     return NextResponse.json({
       ok: results.every((r) => r.ok),
       mode: "single-email",
@@ -109,18 +91,21 @@ export async function POST(req: NextRequest) {
 
   // Sweep mode: each verifier already skips rows with populated state
   // (force=false), so this is cheap — only newly-added leads + anything
-  // the daily cron missed get checked. We bound `max` so the function
-  // always returns within the 60s envelope.
-  const results = await Promise.all([
-    callVerifier(origin, "/api/verify/mighty-networks", { max: newestN }),
-    callVerifier(origin, "/api/verify/intercom", { max: newestN }),
-    callVerifier(origin, "/api/verify/close", { max: newestN }),
-  ]);
+  // the daily cron missed get checked. We bound `max` and the time budget
+  // so the function always returns within the 60s envelope.
+  const results = await Promise.all(VERIFIERS.map((v) => runOne(v, { max: newestN })));
+  const resumedPasses = isSupabaseConfigured()
+    ? await resumeStalledPasses(req.nextUrl.origin).catch((err) => {
+        console.warn("[verify/sweep] resuming passes failed:", err instanceof Error ? err.message : err);
+        return 0;
+      })
+    : 0;
   return NextResponse.json({
     ok: results.every((r) => r.ok),
     mode: "sweep",
     newestN,
     results,
+    resumedPasses,
     durationMs: Date.now() - started,
   });
 }
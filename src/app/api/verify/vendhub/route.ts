@@ -0,0 +1,24 @@
+/**
+ * POST /api/verify/vendhub
+ *
+ * Verify each Clients row against VendHub's Clerk instance through the
+ * Clerk Backend API (src/lib/verifier-vendhub.ts), run by the shared
+ * verifier runner. Read-only on the Clerk side.
+ *
+ * Body: { force?: boolean, max?: number, email?: string }
+ *   - email: verify only this single email
+ *   - force: re-verify even rows that already have a VendHub User ID
+ *   - max:   cap how many rows to process this run
+ *
+ * Or { resumable: true, force? } / { continuation } for a pass over every
+ * row that resumes across calls (see verifierRoute in src/lib/verifier.ts).
+ */
+
+import { verifierRoute } from "@/lib/verifier";
+import { vendhubVerifier } from "@/lib/verifier-vendhub";
+
+export const maxDuration = 300;
+
+export const POST = verifierRoute(vendhubVerifier);
+
+export const GET = POST;
@@ -21,7 +21,8 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import crypto from "crypto";
-import { invalidateTableCache } from "@/lib/airtable";
+import { invalidateTableCache, updateRecords } from "@/lib/airtable";
+import { dispatchJob } from "@/lib/jobs";
 
 export const maxDuration = 30;
 
@@ -87,14 +88,13 @@ async function findRowsByEmail(tableId: string, emailField: string, email: strin
   return json.records || [];
 }
 
-async function patchRow(tableId: string, recordId: string, fields: Record<string, unknown>): Promise<boolean> {
-  const url = `https://api.airtable.com/v0/${AIRTABLE_BASE}/${tableId}/${recordId}`;
-  const res = await fetch(url, {
-    method: "PATCH",
-    headers: { Authorization: `Bearer ${AIRTABLE_PAT}`, "content-type": "application/json" },
-    body: JSON.stringify({ fields, typecast: true }),
-  });
-  return res.ok;
+async function patchRows(tableId: string, rows: ClientRow[], fields: Record<string, unknown>): Promise<number> {
+  const result = await updateRecords(
+    tableId,
+    rows.map((r) => ({ id: r.id, fields })),
+    { typecast: true }
+  );
+  return result.records.length;
 }
 
 async function applyToBothTables(email: string, fields: Record<string, unknown>): Promise<{ clients: number; students: number }> {
@@ -103,13 +103,8 @@ async function applyToBothTables(email: string, fields: Record<string, unknown>)
     findRowsByEmail(CLIENTS_TABLE, "Personal Email", email),
     findRowsByEmail(STUDENT_TABLE, "Best Email", email),
   ]);
-  let cOk = 0, sOk = 0;
-  for (const r of clientsRows) {
-    if (await patchRow(CLIENTS_TABLE, r.id, fields)) cOk++;
-  }
-  for (const r of studentRows) {
-    if (await patchRow(STUDENT_TABLE, r.id, fields)) sOk++;
-  }
+  const cOk = await patchRows(CLIENTS_TABLE, clientsRows, fields);
+  const sOk = await patchRows(STUDENT_TABLE, studentRows, fields);
   return { clients: cOk, students: sOk };
 }
 
@@ -216,11 +211,8 @@ export async function POST(req: NextRequest) {
       const url = `https://api.airtable.com/v0/${AIRTABLE_BASE}/${CLIENTS_TABLE}?filterByFormula=${encodeURIComponent(formula)}&maxRecords=5`;
       const res = await fetch(url, { headers: { Authorization: `Bearer ${AIRTABLE_PAT}` }, cache: "no-store" });
       const matches = res.ok ? ((await res.json()) as { records?: ClientRow[] }).records || [] : [];
-      let updated = 0;
       const lastSignIn = new Date().toISOString();
-      for (const r of matches) {
-        if (await patchRow(CLIENTS_TABLE, r.id, { "VendHub Last Sign In": lastSignIn })) updated++;
-      }
+      const updated = await patchRows(CLIENTS_TABLE, matches, { "VendHub Last Sign In": lastSignIn });
       summary = { event: eventType, email: userId, tablesUpdated: { clients: updated, students: 0 } };
       break;
     }
@@ -276,18 +268,13 @@ export async function POST(req: NextRequest) {
   }
 
   // Bust caches so the dashboard picks up new state on next poll.
-  invalidateTableCache("clients");
-  invalidateTableCache("studentOnboarding");
+  await invalidateTableCache("clients");
+  await invalidateTableCache("studentOnboarding");
 
   // Optional: nudge Supabase resync for this one lead so platform_presence
-  // reflects the new state within a couple seconds. Fire-and-forget.
+  // reflects the new state within a couple seconds. Queued (src/lib/jobs.ts).
   if (summary.email && (summary.tablesUpdated?.clients || 0) > 0) {
-    const baseUrl = req.nextUrl.origin;
-    fetch(`${baseUrl}/api/supabase/sync-lead`, {
-      method: "POST",
-      headers: { "content-type": "application/json" },
-      body: JSON.stringify({ email: summary.email }),
-    }).catch(() => undefined);
+    await dispatchJob(req.nextUrl.origin, "sync_lead", { email: summary.email });
   }
 
   return NextResponse.json({ ok: true, ...summary });
@@ -0,0 +1,16 @@
+import { JobsView } from "@/components/jobs/JobsView";
+
+export default function JobsPage() {
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight text-text-primary">Jobs</h1>
+        <p className="text-sm text-text-secondary">
+          Background resubmits, verifier sweeps and Supabase syncs. Failed jobs retry with backoff
+          before they land here.
+        </p>
+      </div>
+      <JobsView />
+    </div>
+  );
+}
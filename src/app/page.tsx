@@ -17,11 +17,12 @@ import {
 } from "@/components/design/DashboardShell";
 import { PipelineBoard } from "@/components/design/Board";
 import { LeadDrawer } from "@/components/design/LeadDrawer";
-import { OperatorsView, ErrorsView, AnalyticsView } from "@/components/design/Views";
+import { OperatorsView, ErrorsView, IntegrationsView, AnalyticsView } from "@/components/design/Views";
 import { CrossPlatformView } from "@/components/design/CrossPlatformView";
 import { LeadsTableView } from "@/components/design/LeadsTableView";
 import { NewErrorsView } from "@/components/design/NewErrorsView";
 import { RealErrorsStrip } from "@/components/design/RealErrorsStrip";
+import { BulkBar } from "@/components/design/BulkBar";
 
 interface PipelineResponse {
   leads: LeadPipeline[];
@@ -36,7 +37,8 @@ interface PipelineResponse {
       intercom: number;
       vendhub: number;
     };
-    byStep: Record<StepId, { success: number; error: number; pending: number; waiting?: number }>;
+    byStep: Record<StepId, { success: number; error: number; pending: number; waiting?: number; skipped?: number }>;
+    sla?: { breached: number; atRisk: number };
   };
   generatedAt: string;
 }
@@ -49,7 +51,7 @@ interface PipelineResponse {
 const POLL_INTERVAL_MS = 8_000;
 
 export default function OnboardingPipelinePage() {
-  const [activeNav, setActiveNav] = useState<"pipeline" | "operators" | "errors" | "analytics" | "cross-platform" | "new-errors">("pipeline");
+  const [activeNav, setActiveNav] = useState<"pipeline" | "operators" | "errors" | "integrations" | "analytics" | "cross-platform" | "new-errors">("pipeline");
   /** Pipeline tab can render either the Kanban board (default) or a flat table view. */
   const [boardView, setBoardView] = useState<BoardView>("kanban");
   const [dark, setDark] = useState(false);
@@ -70,6 +72,8 @@ export default function OnboardingPipelinePage() {
   const [resolvingKeys, setResolvingKeys] = useState<Set<string>>(new Set());
   const [toasts, setToasts] = useState<Toast[]>([]);
   const [resolvingAll, setResolvingAll] = useState(false);
+  /** Leads ticked on the board, table or errors view for the bulk bar. */
+  const [bulkIds, setBulkIds] = useState<Set<string>>(new Set());
 
   const [data, setData] = useState<PipelineResponse | null>(null);
   const [loading, setLoading] = useState(true);
@@ -111,15 +115,16 @@ export default function OnboardingPipelinePage() {
     setTimeout(() => setToasts((ts) => ts.filter((t) => t.id !== id)), 5500);
   };
 
-  // Fire-and-forget: nudges Supabase to re-sync ONE lead's current Airtable
-  // state. Called right after retry/resolve actions so the Cross-platform
-  // tab + SQL views reflect the change within 1–2 seconds.
+  // Queues a sync_lead job that re-syncs ONE lead's current Airtable state
+  // to Supabase. Called right after retry/resolve actions so the
+  // Cross-platform tab + SQL views reflect the change within seconds; the
+  // job queue retries it if the sync fails.
   const triggerSupabaseSync = (airtableId: string) => {
     try {
-      fetch("/api/supabase/sync-lead", {
+      fetch("/api/jobs", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ airtableId }),
+        body: JSON.stringify({ kind: "sync_lead", payload: { airtableId } }),
         keepalive: true,
       }).catch(() => { /* background — never block UI on this */ });
     } catch { /* no-op */ }
@@ -128,6 +133,26 @@ export default function OnboardingPipelinePage() {
   const adapted = useMemo<DesignLead[]>(() => adaptLeads(data?.leads ?? []), [data]);
   useEffect(() => { adaptedRef.current = adapted; }, [adapted]);
 
+  const toggleBulk = useCallback((id: string) => {
+    setBulkIds((prev) => {
+      const n = new Set(prev);
+      if (n.has(id)) n.delete(id);
+      else n.add(id);
+      return n;
+    });
+  }, []);
+  const selectBulk = useCallback((ids: string[], on: boolean) => {
+    setBulkIds((prev) => {
+      const n = new Set(prev);
+      for (const id of ids) {
+        if (on) n.add(id);
+        else n.delete(id);
+      }
+      return n;
+    });
+  }, []);
+  const bulkLeads = useMemo(() => adapted.filter((l) => bulkIds.has(l.id)), [adapted, bulkIds]);
+
   const owners = useMemo(() => {
     // Build a count-per-rep map so the filter is both exhaustive and ordered
     // by load. Dedupe on the full name (not initials — different reps can
@@ -215,6 +240,10 @@ export default function OnboardingPipelinePage() {
             return (statusRank[a.status] ?? 9) - (statusRank[b.status] ?? 9);
           case "owner":
             return (a.realSalesRep || "zzz").localeCompare(b.realSalesRep || "zzz");
+          case "breachingSoon":
+            // Leads without an SLA (done, waiting on customer, no target) sink to the bottom.
+            if (!a.sla || !b.sla) return Number(!a.sla) - Number(!b.sla);
+            return a.sla.remainingHours - b.sla.remainingHours;
           default:
             return 0;
         }
@@ -264,6 +293,10 @@ export default function OnboardingPipelinePage() {
     [adapted, activeOnly]
   );
 
+  // Snoozed leads (bulk bar → Snooze) stay on the board but drop out of the
+  // error lists until the snooze runs out.
+  const unsnoozed = useMemo(() => adaptedForStats.filter((l) => !l.snoozedUntil), [adaptedForStats]);
+
   // Recompute Integration Health byStep counts from the active-filtered set
   // so the totals on the rail match what the user actually sees on the board.
   const byStepFiltered = useMemo(() => {
@@ -278,7 +311,7 @@ export default function OnboardingPipelinePage() {
         if (s.status === "success") slot.success++;
         else if (s.status === "error") slot.error++;
         else if (s.status === "waiting_for_customer") slot.waiting++;
-        else slot.pending++;
+        else if (s.status !== "skipped") slot.pending++;
       }
     }
     return m;
@@ -291,7 +324,9 @@ export default function OnboardingPipelinePage() {
     const live = adaptedForStats.filter((l) => l.status === "done").length;
     const waiting = adaptedForStats.filter((l) => l.status === "waiting").length;
     const newWaiting = adaptedForStats.filter((l) => l.activeStatus === "new_waiting").length;
-    return { total, inFlight, stuck, live, waiting, newWaiting };
+    const slaBreached = adaptedForStats.filter((l) => l.sla?.status === "breached").length;
+    const slaAtRisk = adaptedForStats.filter((l) => l.sla?.status === "at_risk").length;
+    return { total, inFlight, stuck, live, waiting, newWaiting, slaBreached, slaAtRisk };
   }, [adaptedForStats]);
 
   // Per-stage lead lists for the Integration Health drill-through.
@@ -310,7 +345,7 @@ export default function OnboardingPipelinePage() {
         if (step.status === "success") m[stage.stepId].success.push(l);
         else if (step.status === "error") m[stage.stepId].error.push(l);
         else if (step.status === "waiting_for_customer") m[stage.stepId].waiting.push(l);
-        else m[stage.stepId].pending.push(l);
+        else if (step.status !== "skipped") m[stage.stepId].pending.push(l);
         void tStatus;
       }
     }
@@ -354,7 +389,7 @@ export default function OnboardingPipelinePage() {
       try {
         const res = await fetch("/api/onboarding/resubmit", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: { "Content-Type": "application/json", "Idempotency-Key": crypto.randomUUID() },
           body: JSON.stringify({
             leadRecordId: lead.id,
             step: stage.stepId,
@@ -368,7 +403,9 @@ export default function OnboardingPipelinePage() {
         });
         const body = await res.json().catch(() => ({} as Record<string, unknown>));
         if (res.ok && (body as { success?: boolean }).success !== false) {
-          pushToast("success", `${lead.company} · ${stage.title} retry triggered`);
+          // A replay means another tab or operator already retried this step.
+          const replayed = res.headers.get("Idempotent-Replayed") === "true";
+          pushToast("success", `${lead.company} · ${stage.title} retry ${replayed ? "already triggered" : "triggered"}`);
           setTimeout(() => load(true), 1500);
           // Nudge Supabase to reflect the new state for this lead immediately.
           triggerSupabaseSync(lead.id);
@@ -391,28 +428,53 @@ export default function OnboardingPipelinePage() {
     [load]
   );
 
-  const handleResolveAll = useCallback(async () => {
+  // Resolves the previewed open errors as one batch; returns the batch id for undo.
+  const handleResolveAll = useCallback(async (recordIds: string[]): Promise<string | null> => {
     setResolvingAll(true);
     try {
       const res = await fetch("/api/onboarding/resolve-all", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({}),
+        body: JSON.stringify({ recordIds }),
       });
       const body = await res.json();
       if (res.ok && body.success) {
-        pushToast("success", `Marked ${body.resolved} error${body.resolved === 1 ? "" : "s"} as Resolved`);
+        pushToast("success", `Marked ${body.resolved} error${body.resolved === 1 ? "" : "s"} as Resolved · batch ${body.batchId}`);
         setTimeout(() => load(true), 1200);
         // Bulk action — trigger a full resync so Supabase picks up all changes.
         fetch("/api/supabase/sync", { method: "POST", keepalive: true }).catch(() => {});
-      } else {
-        pushToast("error", body.message || `Could not resolve (HTTP ${res.status})`);
+        return (body.batchId as string) ?? null;
       }
+      pushToast("error", body.message || `Could not resolve (HTTP ${res.status})`);
     } catch (err) {
       pushToast("error", err instanceof Error ? err.message : "Network error");
     } finally {
       setResolvingAll(false);
     }
+    return null;
+  }, [load]);
+
+  // Reopens every row of a bulk-resolve batch (resolve-all or the bulk bar).
+  const handleUndoBatch = useCallback(async (batchId: string): Promise<boolean> => {
+    try {
+      const res = await fetch("/api/onboarding/resolve-all/undo", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ batchId }),
+      });
+      const body = await res.json().catch(() => ({} as Record<string, unknown>));
+      if (res.ok && body.success) {
+        const skipped = body.skipped ? ` · ${body.skipped} changed since, left alone` : "";
+        pushToast("success", `Reopened ${body.reopened} error${body.reopened === 1 ? "" : "s"} from ${batchId}${skipped}`);
+        setTimeout(() => load(true), 1200);
+        fetch("/api/supabase/sync", { method: "POST", keepalive: true }).catch(() => {});
+        return true;
+      }
+      pushToast("error", `Could not undo ${batchId} — ${body.message || `HTTP ${res.status}`}`);
+    } catch (err) {
+      pushToast("error", err instanceof Error ? err.message : "Network error");
+    }
+    return false;
   }, [load]);
 
   // Resolve every open error row tied to a lead+step combo. Sweeps dupes so
@@ -444,7 +506,7 @@ export default function OnboardingPipelinePage() {
       try {
         const res = await fetch("/api/onboarding/errors/resolve", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: { "Content-Type": "application/json", "Idempotency-Key": crypto.randomUUID() },
           body: JSON.stringify({
             leadRecordId: lead.id,
             email: lead.email,
@@ -505,7 +567,7 @@ export default function OnboardingPipelinePage() {
       try {
         const res = await fetch("/api/onboarding/errors/resolve", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: { "Content-Type": "application/json", "Idempotency-Key": crypto.randomUUID() },
           body: JSON.stringify({ errorRecordId }),
         });
         const body = await res.json().catch(() => ({} as Record<string, unknown>));
@@ -570,6 +632,7 @@ export default function OnboardingPipelinePage() {
             stuck={counts.stuck}
             live={counts.live}
             waiting={data?.summary.waitingForCustomer}
+            sla={{ breached: counts.slaBreached, atRisk: counts.slaAtRisk }}
           />
           <IntegrationsRail
             stages={DESIGN_STAGES}
@@ -583,7 +646,7 @@ export default function OnboardingPipelinePage() {
               "real" workflow failures appear here (not platform-missing
               classifications); Resubmit fires the all-platforms n8n workflow. */}
           <RealErrorsStrip
-            leads={adaptedForStats}
+            leads={unsnoozed}
             onSelect={setSelected}
             onToast={(t) => setToasts((ts) => [...ts, { ...t, id: Date.now() + Math.random() }])}
             onAfterChange={() => load(true)}
@@ -615,7 +678,7 @@ export default function OnboardingPipelinePage() {
                         <div className="lead-name" style={{ height: 14, background: "var(--ma-line)", borderRadius: 3, width: "60%" }} />
                         <div className="lead-email" style={{ height: 10, background: "var(--ma-line)", borderRadius: 3, width: "80%" }} />
                         <div className="lead-progress">
-                          {[0, 1, 2, 3, 4, 5].map((j) => <span key={j} className="step" />)}
+                          {DESIGN_STAGES.map((st) => <span key={st.id} className="step" />)}
                         </div>
                       </div>
                     ))}
@@ -624,7 +687,14 @@ export default function OnboardingPipelinePage() {
               ))}
             </div>
           ) : boardView === "table" ? (
-            <LeadsTableView leads={filtered} stages={DESIGN_STAGES} onSelect={setSelected} />
+            <LeadsTableView
+              leads={filtered}
+              stages={DESIGN_STAGES}
+              onSelect={setSelected}
+              selectedIds={bulkIds}
+              onToggleSelect={toggleBulk}
+              onSelectMany={selectBulk}
+            />
           ) : (
             <PipelineBoard
               stages={DESIGN_STAGES}
@@ -632,6 +702,9 @@ export default function OnboardingPipelinePage() {
               onCardClick={setSelected}
               onRetry={handleRetry}
               retryingKeys={retryingKeys}
+              selectedIds={bulkIds}
+              onToggleSelect={toggleBulk}
+              onSelectMany={selectBulk}
             />
           )}
         </main>
@@ -640,7 +713,7 @@ export default function OnboardingPipelinePage() {
       {activeNav === "new-errors" && (
         <main className="main">
           <NewErrorsView
-            leads={adaptedForStats}
+            leads={unsnoozed}
             stages={DESIGN_STAGES}
             onSelect={setSelected}
             onToast={(t) =>
@@ -660,19 +733,31 @@ export default function OnboardingPipelinePage() {
       {activeNav === "errors" && (
         <main className="main">
           <ErrorsView
-            leads={adaptedForStats}
+            leads={unsnoozed}
             stages={DESIGN_STAGES}
             onRetry={handleRetry}
             retryingKeys={retryingKeys}
             onSelect={setSelected}
             onResolveAll={handleResolveAll}
             resolvingAll={resolvingAll}
+            onUndoBatch={handleUndoBatch}
             onResolveOne={handleResolveOneFromList}
             resolvingKeys={resolvingKeys}
+            selectedIds={bulkIds}
+            onToggleSelect={toggleBulk}
+            onSelectMany={selectBulk}
+            onToast={(t) => setToasts((ts) => [...ts, { ...t, id: Date.now() + Math.random() }])}
+            onAfterChange={() => load(true)}
           />
         </main>
       )}
 
+      {activeNav === "integrations" && (
+        <main className="main">
+          <IntegrationsView leads={adaptedForStats} stages={DESIGN_STAGES} byStep={byStepFiltered} />
+        </main>
+      )}
+
       {activeNav === "cross-platform" && (
         <main className="main">
           <CrossPlatformView />
@@ -685,6 +770,18 @@ export default function OnboardingPipelinePage() {
         </main>
       )}
 
+      {(activeNav === "pipeline" || activeNav === "errors") && (
+        <BulkBar
+          leads={bulkLeads}
+          stages={DESIGN_STAGES}
+          onClear={() => setBulkIds(new Set())}
+          onSelectOnly={(ids) => setBulkIds(new Set(ids))}
+          onToast={(t) => setToasts((ts) => [...ts, { ...t, id: Date.now() + Math.random() }])}
+          onAfterChange={() => load(true)}
+          onUndoBatch={handleUndoBatch}
+        />
+      )}
+
       <LeadDrawer
         lead={selected}
         stages={DESIGN_STAGES}
@@ -0,0 +1,19 @@
+import Link from "next/link";
+import { ClassifierShadowPanel } from "@/components/settings/ClassifierShadowPanel";
+
+export default function ClassifierShadowPage() {
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="space-y-1">
+        <Link href="/settings" className="text-xs text-text-muted hover:text-text-primary">
+          ← Settings
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight text-text-primary">Classifier shadow run</h1>
+        <p className="text-sm text-text-secondary">
+          See which leads a rules version or candidate classifier would reclassify before it goes live.
+        </p>
+      </div>
+      <ClassifierShadowPanel />
+    </div>
+  );
+}
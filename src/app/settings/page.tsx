@@ -1,11 +1,24 @@
-import { ComingSoon } from "@/components/ComingSoon";
+import Link from "next/link";
+import { ClassificationRulesEditor } from "@/components/settings/ClassificationRulesEditor";
+import { ErrorPlaybooksEditor } from "@/components/settings/ErrorPlaybooksEditor";
+import { N8nWorkflowRegistry } from "@/components/settings/N8nWorkflowRegistry";
 
 export default function SettingsPage() {
   return (
-    <ComingSoon
-      title="Settings"
-      subtitle="Configure verification schedules, error thresholds, and team access."
-      description="This area will house n8n workflow toggles, Airtable field mapping, retry cadences, and Slack alert preferences."
-    />
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight text-text-primary">Settings</h1>
+        <p className="text-sm text-text-secondary">
+          Onboarding policy the dashboard classifies leads with, what to do about known errors, and
+          the n8n workflows it depends on. Rule and playbook changes apply without a deploy.
+        </p>
+        <Link href="/settings/classifier-shadow" className="text-xs text-text-muted hover:text-text-primary">
+          Compare a rules version or candidate classifier against the live one →
+        </Link>
+      </div>
+      <ClassificationRulesEditor />
+      <ErrorPlaybooksEditor />
+      <N8nWorkflowRegistry />
+    </div>
   );
 }
@@ -2,7 +2,7 @@
 
 import { Icon } from "./DashboardIcons";
 import { PlatformLogos } from "./PlatformLogos";
-import type { DesignLead, DesignStage } from "@/lib/design-adapter";
+import { canResubmit, type DesignLead, type DesignStage } from "@/lib/design-adapter";
 import {
   closeLink,
   airtableLink,
@@ -17,12 +17,16 @@ function LeadCard({
   onClick,
   onRetry,
   retrying,
+  selected,
+  onToggleSelect,
 }: {
   lead: DesignLead;
   stageIdx: number;
   onClick: () => void;
   onRetry: (lead: DesignLead, stageIdx: number) => void;
   retrying: boolean;
+  selected: boolean;
+  onToggleSelect: (id: string) => void;
 }) {
   const cls =
     lead.status === "error"   ? "error" :
@@ -43,11 +47,20 @@ function LeadCard({
 
   return (
     <div
-      className={`lead-card ${cls}${isNewWaiting ? " lead-card--new" : ""}`}
+      className={`lead-card ${cls}${isNewWaiting ? " lead-card--new" : ""}${selected ? " selected" : ""}`}
       onClick={onClick}
       style={isNewWaiting ? { boxShadow: "inset 0 0 0 2px rgba(234, 179, 8, 0.55)" } : undefined}
     >
       <div className="lead-card-top">
+        <input
+          type="checkbox"
+          className="bulk-check"
+          checked={selected}
+          onChange={() => onToggleSelect(lead.id)}
+          onClick={(e) => e.stopPropagation()}
+          title="Select for bulk actions"
+          style={{ marginTop: 2 }}
+        />
         <div style={{ minWidth: 0, flex: 1 }}>
           <div className="lead-name">{lead.company}</div>
           <div className="lead-email">{lead.email}</div>
@@ -69,6 +82,32 @@ function LeadCard({
         {!isNewWaiting && lead.status === "waiting" && <span className="lead-tag tag-waiting">Waiting</span>}
         {!isNewWaiting && lead.status === "processing" && <span className="lead-tag tag-processing">Live</span>}
         {!isNewWaiting && lead.status === "done" && <span className="lead-tag tag-success">Done</span>}
+        {lead.sla?.status === "breached" && (
+          <span
+            className="lead-tag tag-error"
+            title={`SLA breached ${Math.abs(lead.sla.remainingHours)}h ago · due ${new Date(lead.sla.dueAt).toLocaleString()}`}
+          >
+            SLA
+          </span>
+        )}
+        {lead.sla?.status === "at_risk" && (
+          <span
+            className="lead-tag tag-warn"
+            title={`SLA at risk · ${lead.sla.remainingHours}h left · due ${new Date(lead.sla.dueAt).toLocaleString()}`}
+          >
+            SLA {lead.sla.remainingHours}h
+          </span>
+        )}
+        {lead.snoozedUntil && (
+          <span className="lead-tag" title={`Snoozed until ${new Date(lead.snoozedUntil).toLocaleString()} — hidden from the error views`}>
+            Snoozed
+          </span>
+        )}
+        {lead.retries > 0 && (
+          <span className="lead-tag" title={`Resubmitted ${lead.retries}× — see the retry history in the drawer`}>
+            ↻ {lead.retries}
+          </span>
+        )}
       </div>
 
       <div className="lead-meta">
@@ -150,7 +189,7 @@ function LeadCard({
           <span className="mini-avatar">{lead.owner}</span>
           <Icon.Clock /> {lead.timeline[stageIdx]?.at || lead.createdAt}
         </div>
-        {lead.status === "error" && (
+        {lead.status === "error" && canResubmit(lead.timeline[stageIdx]?.stepId) && (
           <button
             className={`retry-btn ${retrying ? "retrying" : ""}`}
             disabled={retrying}
@@ -181,12 +220,19 @@ export function PipelineBoard({
   onCardClick,
   onRetry,
   retryingKeys,
+  selectedIds,
+  onToggleSelect,
+  onSelectMany,
 }: {
   stages: DesignStage[];
   leadsByStage: Record<string, DesignLead[]>;
   onCardClick: (lead: DesignLead) => void;
   onRetry: (lead: DesignLead, stageIdx: number) => void;
   retryingKeys: Set<string>;
+  selectedIds: Set<string>;
+  onToggleSelect: (id: string) => void;
+  /** Select (or, with `on` false, deselect) every lead in a column. */
+  onSelectMany: (ids: string[], on: boolean) => void;
 }) {
   return (
     <div className="board">
@@ -194,10 +240,20 @@ export function PipelineBoard({
         const Logo = PlatformLogos[s.platform];
         const leads = leadsByStage[s.id] ?? [];
         const errorCount = leads.filter((l) => l.status === "error").length;
+        const allSelected = leads.length > 0 && leads.every((l) => selectedIds.has(l.id));
         return (
           <div key={s.id} className="col">
             <div className="col-head">
               <div className="col-head-l">
+                {leads.length > 0 && (
+                  <input
+                    type="checkbox"
+                    className="bulk-check"
+                    checked={allSelected}
+                    onChange={() => onSelectMany(leads.map((l) => l.id), !allSelected)}
+                    title={allSelected ? "Deselect this column" : `Select all ${leads.length} in this column`}
+                  />
+                )}
                 <span className="col-platform-logo"><Logo size={18} /></span>
                 <div className="col-title">
                   <span className="stage-num">Stage {s.num}</span>
@@ -238,6 +294,8 @@ export function PipelineBoard({
                       onClick={() => onCardClick(lead)}
                       onRetry={onRetry}
                       retrying={retryingKeys.has(retryKey)}
+                      selected={selectedIds.has(lead.id)}
+                      onToggleSelect={onToggleSelect}
                     />
                   );
                 })
@@ -0,0 +1,319 @@
+"use client";
+
+/**
+ * Bulk bar — shown at the bottom of the page while leads are selected on
+ * the board, the table or the errors view. Runs resubmit / resolve /
+ * snooze through /api/onboarding/bulk, which streams one line per lead,
+ * so the bar shows progress live and ends with a success / failure
+ * summary. A bulk resolve can be undone from the summary. Export
+ * downloads the selection as CSV without a server call.
+ */
+
+import { useState } from "react";
+import { Icon } from "./DashboardIcons";
+import { RESUBMIT_STEPS, type DesignLead, type DesignStage } from "@/lib/design-adapter";
+import type { BulkAction, BulkEvent, BulkItem, BulkRequest, BulkSummary } from "@/lib/bulk-actions";
+import type { StepId } from "@/lib/pipeline";
+
+interface Toast { type: "success" | "error" | "info"; text: string }
+
+interface BulkRun {
+  action: BulkAction;
+  total: number;
+  items: Record<string, BulkItem>;
+  summary?: BulkSummary;
+  error?: string;
+  undone?: boolean;
+}
+
+const SNOOZE_OPTIONS = [
+  { hours: 4, label: "4 hours" },
+  { hours: 24, label: "1 day" },
+  { hours: 72, label: "3 days" },
+  { hours: 168, label: "1 week" },
+];
+
+const ACTION_LABEL: Record<BulkAction, string> = {
+  resubmit: "Resubmit",
+  resolve: "Resolve",
+  snooze: "Snooze",
+};
+
+function csvCell(v: unknown): string {
+  const s = v === undefined || v === null ? "" : String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function exportCsv(leads: DesignLead[], stages: DesignStage[]) {
+  const header = ["Lead ID", "Name", "Company", "Email", "Status", "Stage", "Error", "Error message", "Retries", "Sales rep", "Created", "Snoozed until"];
+  const rows = leads.map((l) => [
+    l.id,
+    l.name,
+    l.company,
+    l.email,
+    l.status,
+    stages[l.currentStage]?.title,
+    l.statusError?.code,
+    l.statusError?.msg,
+    l.retries,
+    l.realSalesRep,
+    l.createdAtRaw,
+    l.snoozedUntil,
+  ]);
+  const csv = [header, ...rows].map((r) => r.map(csvCell).join(",")).join("\n");
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `leads-${new Date().toISOString().slice(0, 10)}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * POST a bulk action and feed each streamed event to `onEvent`. Resolves
+ * with the summary; throws when the request fails, the run errors out or
+ * the stream ends without a summary (the function was cut off).
+ */
+export async function streamBulkAction(
+  request: BulkRequest,
+  onEvent: (event: BulkEvent) => void
+): Promise<BulkSummary> {
+  const res = await fetch("/api/onboarding/bulk", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  if (!res.ok || !res.body) {
+    const body = await res.json().catch(() => ({} as { error?: string }));
+    throw new Error(body.error || `HTTP ${res.status}`);
+  }
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let summary: BulkSummary | undefined;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let nl: number;
+    while ((nl = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, nl).trim();
+      buffer = buffer.slice(nl + 1);
+      if (!line) continue;
+      const event = JSON.parse(line) as BulkEvent;
+      onEvent(event);
+      if (event.type === "summary") summary = event.summary;
+      if (event.type === "error") throw new Error(event.message);
+    }
+  }
+  if (!summary) throw new Error("The run stopped before it finished — refresh to see which leads it reached");
+  return summary;
+}
+
+export function BulkBar({
+  leads,
+  stages,
+  onClear,
+  onSelectOnly,
+  onToast,
+  onAfterChange,
+  onUndoBatch,
+}: {
+  /** The selected leads. */
+  leads: DesignLead[];
+  stages: DesignStage[];
+  onClear: () => void;
+  /** Replace the selection, e.g. with the leads that failed. */
+  onSelectOnly: (ids: string[]) => void;
+  onToast: (t: Toast) => void;
+  /** Called once a run finishes so the parent can refetch. */
+  onAfterChange?: () => void;
+  /** Reopen a bulk-resolve batch; resolves true when it worked. */
+  onUndoBatch: (batchId: string) => Promise<boolean>;
+}) {
+  const [step, setStep] = useState<StepId | "failed">("failed");
+  const [snoozeHours, setSnoozeHours] = useState(24);
+  const [run, setRun] = useState<BulkRun | null>(null);
+  const [running, setRunning] = useState(false);
+  const [undoing, setUndoing] = useState(false);
+
+  if (leads.length === 0 && !run) return null;
+
+  const errored = leads.filter((l) => l.status === "error").length;
+
+  const start = async (action: BulkAction) => {
+    if (running || leads.length === 0) return;
+    const what =
+      action === "resubmit"
+        ? `Resubmit ${step === "failed" ? "each lead's failed steps" : stages.find((s) => s.stepId === step)?.title} for ${leads.length} lead${leads.length === 1 ? "" : "s"}?`
+        : action === "resolve"
+        ? `Mark every open error resolved for ${leads.length} lead${leads.length === 1 ? "" : "s"}?`
+        : `Snooze ${leads.length} lead${leads.length === 1 ? "" : "s"} for ${SNOOZE_OPTIONS.find((o) => o.hours === snoozeHours)?.label}?`;
+    if (!confirm(what)) return;
+
+    setRunning(true);
+    setRun({ action, total: leads.length, items: {} });
+    const apply = (event: BulkEvent) =>
+      setRun((prev) => {
+        if (!prev) return prev;
+        if (event.type === "start") return { ...prev, total: event.total };
+        if (event.type === "item") return { ...prev, items: { ...prev.items, [event.item.leadId]: event.item } };
+        if (event.type === "summary") return { ...prev, summary: event.summary };
+        return { ...prev, error: event.message };
+      });
+
+    try {
+      const summary = await streamBulkAction(
+        {
+          action,
+          leadIds: leads.map((l) => l.id),
+          step: action === "resubmit" ? step : undefined,
+          snoozeHours: action === "snooze" ? snoozeHours : undefined,
+        },
+        apply
+      );
+      onToast({
+        type: summary.failed ? "error" : "success",
+        text: `${ACTION_LABEL[action]}: ${summary.ok} done · ${summary.failed} failed · ${summary.skipped} skipped`,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Network error";
+      apply({ type: "error", message });
+      onToast({ type: "error", text: `${ACTION_LABEL[action]} failed — ${message}` });
+    } finally {
+      setRunning(false);
+      onAfterChange?.();
+    }
+  };
+
+  const items = run ? Object.values(run.items) : [];
+  const finished = items.filter((i) => i.status !== "running").length;
+  const failedIds = items.filter((i) => i.status === "failed").map((i) => i.leadId);
+
+  return (
+    <div className="bulk-bar">
+      <div className="bulk-bar-row">
+        <span className="bulk-count">
+          {leads.length} selected{errored > 0 && <span className="bulk-sub"> · {errored} in error</span>}
+        </span>
+
+        <select
+          className="bulk-select"
+          value={step}
+          onChange={(e) => setStep(e.target.value as StepId | "failed")}
+          disabled={running}
+          title="Step to resubmit"
+        >
+          <option value="failed">Each lead&apos;s failed steps</option>
+          {stages.filter((s) => RESUBMIT_STEPS.has(s.stepId)).map((s) => (
+            <option key={s.stepId} value={s.stepId}>{s.title}</option>
+          ))}
+        </select>
+        <button className="btn btn--dark btn--xs" disabled={running || leads.length === 0} onClick={() => start("resubmit")}>
+          <Icon.Refresh size={11} /> Resubmit
+        </button>
+        <button className="btn btn--ghost btn--xs" disabled={running || leads.length === 0} onClick={() => start("resolve")}>
+          <Icon.Check size={11} /> Resolve
+        </button>
+
+        <select
+          className="bulk-select"
+          value={snoozeHours}
+          onChange={(e) => setSnoozeHours(Number(e.target.value))}
+          disabled={running}
+          title="Snooze for"
+        >
+          {SNOOZE_OPTIONS.map((o) => (
+            <option key={o.hours} value={o.hours}>{o.label}</option>
+          ))}
+        </select>
+        <button className="btn btn--ghost btn--xs" disabled={running || leads.length === 0} onClick={() => start("snooze")}>
+          <Icon.Clock size={11} /> Snooze
+        </button>
+
+        <button className="btn btn--ghost btn--xs" disabled={leads.length === 0} onClick={() => exportCsv(leads, stages)}>
+          <Icon.Download size={11} /> Export CSV
+        </button>
+
+        <span style={{ flex: 1 }} />
+        <button
+          className="btn btn--ghost btn--xs"
+          disabled={running}
+          onClick={() => {
+            setRun(null);
+            onClear();
+          }}
+          title="Clear selection"
+        >
+          <Icon.X size={11} /> Clear
+        </button>
+      </div>
+
+      {run && (
+        <div className="bulk-progress">
+          <div className="bulk-progress-head">
+            {running ? <Icon.Loader size={12} className="spin-slow" /> : null}
+            <span>
+              {ACTION_LABEL[run.action]} · {finished}/{run.total}
+              {run.summary && (
+                <>
+                  {" "}· <b>{run.summary.ok} ok</b> · <b style={{ color: run.summary.failed ? "var(--err)" : undefined }}>{run.summary.failed} failed</b>
+                  {run.summary.skipped > 0 && <> · {run.summary.skipped} skipped</>}
+                  {run.summary.notStarted > 0 && <> ({run.summary.notStarted} not reached in time)</>}
+                  {run.summary.throttled > 0 && <> · paused {run.summary.throttled}× for rate limits</>}
+                  {" "}· {(run.summary.durationMs / 1000).toFixed(1)}s
+                </>
+              )}
+            </span>
+            {run.summary?.batchId && run.summary.ok > 0 && (
+              <button
+                className="btn btn--ghost btn--xs"
+                disabled={undoing || run.undone}
+                title={`Reopen every error resolved in batch ${run.summary.batchId}`}
+                onClick={async () => {
+                  const batchId = run.summary?.batchId;
+                  if (!batchId || !confirm(`Reopen the errors resolved in ${batchId}?`)) return;
+                  setUndoing(true);
+                  const ok = await onUndoBatch(batchId);
+                  setUndoing(false);
+                  if (ok) setRun((prev) => (prev ? { ...prev, undone: true } : prev));
+                }}
+              >
+                {undoing ? <Icon.Loader size={11} className="spin-slow" /> : null}
+                {run.undone ? "Undone" : "Undo resolve"}
+              </button>
+            )}
+            {run.summary && failedIds.length > 0 && (
+              <button className="btn btn--ghost btn--xs" onClick={() => onSelectOnly(failedIds)}>
+                Select the {failedIds.length} failed
+              </button>
+            )}
+            {run.summary && (
+              <button className="btn btn--ghost btn--xs" onClick={() => setRun(null)}>Dismiss</button>
+            )}
+          </div>
+          <div className="bulk-progress-track">
+            <span style={{ width: `${run.total ? (finished / run.total) * 100 : 0}%` }} />
+          </div>
+          {run.error && <div className="retry-msg" style={{ color: "var(--err)" }}>{run.error}</div>}
+          {items.length > 0 && (
+            <div className="retry-list bulk-items">
+              {items.map((i) => (
+                <div key={i.leadId} className={`retry-item ${i.status === "ok" ? "ok" : i.status === "failed" ? "fail" : ""}`}>
+                  <span className="retry-dot" />
+                  <div>
+                    <div className="retry-msg">
+                      <b>{i.label}</b> · {i.status}
+                      {i.attempts && i.attempts > (i.steps?.length ?? 1) ? ` · ${i.attempts} calls` : ""}
+                    </div>
+                    {i.message && <div className="retry-meta">{i.message}</div>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
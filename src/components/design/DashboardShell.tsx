@@ -28,6 +28,7 @@ export function TopBar({
     ["operators", "Clients"],
     ["new-errors", "New errors"],
     ["errors", "Errors & retries"],
+    ["integrations", "Integrations"],
     ["cross-platform", "Cross-platform"],
     ["analytics", "Analytics"],
   ];
@@ -208,18 +209,25 @@ export interface WaitingBreakdown {
   vendhub: number;
 }
 
+export interface SlaCounts {
+  breached: number;
+  atRisk: number;
+}
+
 export function KPIStrip({
   total,
   inFlight,
   stuck,
   live,
   waiting,
+  sla,
 }: {
   total: number;
   inFlight: number;
   stuck: number;
   live: number;
   waiting?: WaitingBreakdown;
+  sla?: SlaCounts;
 }) {
   return (
     <div className="kpi-strip">
@@ -235,6 +243,15 @@ export function KPIStrip({
         </span>
         <span className="kpi-delta down">Needs attention</span>
       </div>
+      <div className={`kpi ${sla?.breached ? "kpi--alert" : ""}`}>
+        <span className="kpi-label">SLA breaches</span>
+        <span className="kpi-value">
+          {sla?.breached ?? 0} <span className="unit">leads</span>
+        </span>
+        <span className="kpi-delta" title="Current step will pass its SLA target soon">
+          {sla?.atRisk ?? 0} at risk
+        </span>
+      </div>
       <div className="kpi">
         <span className="kpi-label">Clients live</span>
         <span className="kpi-value">{live}</span>
@@ -417,7 +434,8 @@ export type SortKey =
   | "stageDesc"    // furthest along
   | "stageAsc"     // earliest stage
   | "status"       // errors → waiting → in flight → live
-  | "owner";       // alphabetical by sales rep
+  | "owner"        // alphabetical by sales rep
+  | "breachingSoon"; // least SLA time remaining first (breached at the top)
 
 export type BoardView = "kanban" | "table";
 
@@ -533,6 +551,7 @@ export function BoardToolbar({
           <option value="stageAsc">Earliest stage</option>
           <option value="status">By status</option>
           <option value="owner">By REP</option>
+          <option value="breachingSoon">Breaching soon</option>
         </select>
       </div>
     </div>
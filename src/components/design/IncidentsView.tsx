@@ -0,0 +1,253 @@
+"use client";
+
+/**
+ * Incidents — the Errors tab's root-cause view. Open Onboarding Errors
+ * rows with the same Error Type, node and normalized message are one
+ * incident (src/lib/incidents.ts), so a 40-lead Intercom outage is one
+ * card: retry every affected lead, resolve every row as one undoable
+ * batch, or leave a note on all of them.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { Icon } from "./DashboardIcons";
+import { streamBulkAction } from "./BulkBar";
+import { canResubmit, type DesignLead, type DesignStage } from "@/lib/design-adapter";
+import type { Incident } from "@/lib/incidents";
+import { timeAgo } from "@/lib/format";
+
+interface Toast { type: "success" | "error" | "info"; text: string }
+
+type Busy = { incidentId: string; label: string } | null;
+
+export function IncidentsView({
+  leads,
+  stages,
+  onSelect,
+  onToast,
+  onAfterChange,
+  onUndoBatch,
+}: {
+  leads: DesignLead[];
+  stages: DesignStage[];
+  onSelect: (l: DesignLead) => void;
+  onToast: (t: Toast) => void;
+  /** Called after any action so the parent can refetch the pipeline. */
+  onAfterChange: () => void;
+  onUndoBatch: (batchId: string) => Promise<boolean>;
+}) {
+  const [incidents, setIncidents] = useState<Incident[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [multiOnly, setMultiOnly] = useState(true);
+  const [busy, setBusy] = useState<Busy>(null);
+  const [lastBatch, setLastBatch] = useState<{ incidentId: string; batchId: string } | null>(null);
+
+  const load = useCallback(async (fresh = false) => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/onboarding/incidents${fresh ? "?fresh=1" : ""}`, { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.detail || json.error || `HTTP ${res.status}`);
+      setIncidents(json.incidents as Incident[]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load incidents");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const leadById = new Map(leads.map((l) => [l.id, l]));
+  const shown = (incidents ?? []).filter((i) => !multiOnly || i.leadCount > 1);
+  const stepTitle = (i: Incident) => stages.find((s) => s.stepId === i.step)?.title ?? i.step;
+
+  const retryAll = async (i: Incident) => {
+    if (i.pipelineLeadIds.length === 0) {
+      onToast({ type: "error", text: "None of this incident's rows match a lead on the board" });
+      return;
+    }
+    if (!confirm(`Resubmit ${stepTitle(i)} for ${i.pipelineLeadIds.length} lead${i.pipelineLeadIds.length === 1 ? "" : "s"}?`)) return;
+    let done = 0;
+    setBusy({ incidentId: i.id, label: `Retrying 0/${i.pipelineLeadIds.length}` });
+    try {
+      const summary = await streamBulkAction(
+        { action: "resubmit", leadIds: i.pipelineLeadIds, step: i.step },
+        (event) => {
+          if (event.type === "item" && event.item.status !== "running") {
+            done++;
+            setBusy({ incidentId: i.id, label: `Retrying ${done}/${i.pipelineLeadIds.length}` });
+          }
+        }
+      );
+      onToast({
+        type: summary.failed ? "error" : "success",
+        text: `${i.errorType}: ${summary.ok} retried · ${summary.failed} failed · ${summary.skipped} skipped`,
+      });
+    } catch (err) {
+      onToast({ type: "error", text: `Retry failed — ${err instanceof Error ? err.message : "Network error"}` });
+    } finally {
+      setBusy(null);
+      onAfterChange();
+      load(true);
+    }
+  };
+
+  const post = async (i: Incident, action: "resolve" | "note", note?: string) => {
+    setBusy({ incidentId: i.id, label: action === "resolve" ? "Resolving…" : "Saving note…" });
+    try {
+      const res = await fetch("/api/onboarding/incidents", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ incidentId: i.id, action, note }),
+      });
+      const body = await res.json().catch(() => ({} as Record<string, unknown>));
+      if (!res.ok || !body.success) throw new Error((body.message as string) || `HTTP ${res.status}`);
+      if (action === "resolve") {
+        setLastBatch({ incidentId: i.id, batchId: body.batchId as string });
+        onToast({ type: "success", text: `Resolved ${body.resolved} error${body.resolved === 1 ? "" : "s"} · batch ${body.batchId}` });
+      } else {
+        onToast({ type: "success", text: `Note added to ${body.updated} error${body.updated === 1 ? "" : "s"}` });
+      }
+    } catch (err) {
+      onToast({ type: "error", text: `Could not ${action === "resolve" ? "resolve" : "add the note"} — ${err instanceof Error ? err.message : "Network error"}` });
+    } finally {
+      setBusy(null);
+      onAfterChange();
+      load(true);
+    }
+  };
+
+  return (
+    <div className="error-list">
+      <div style={{ display: "flex", alignItems: "center", gap: 12, marginBottom: 12 }}>
+        <h4 style={{ margin: 0 }}>
+          {incidents ? `${shown.length} incident${shown.length === 1 ? "" : "s"}` : "Incidents"}
+        </h4>
+        <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12, color: "var(--fg-2)" }}>
+          <input type="checkbox" checked={multiOnly} onChange={(e) => setMultiOnly(e.target.checked)} />
+          Affecting 2+ leads
+        </label>
+        <span style={{ flex: 1 }} />
+        {lastBatch && (
+          <button
+            className="btn btn--ghost btn--xs"
+            onClick={async () => {
+              if (!confirm(`Reopen the errors resolved in ${lastBatch.batchId}?`)) return;
+              if (await onUndoBatch(lastBatch.batchId)) {
+                setLastBatch(null);
+                load(true);
+              }
+            }}
+          >
+            Undo last resolve
+          </button>
+        )}
+        <button className="btn btn--ghost btn--xs" onClick={() => load(true)} disabled={loading}>
+          {loading ? <Icon.Loader size={11} className="spin-slow" /> : <Icon.Refresh size={11} />} Refresh
+        </button>
+      </div>
+
+      {error && <div style={{ fontSize: 12, color: "var(--err)" }}>{error}</div>}
+      {incidents && shown.length === 0 && (
+        <div style={{ padding: 24, textAlign: "center", color: "var(--fg-3)", fontSize: 13 }}>
+          {multiOnly ? "No error affects more than one lead right now." : "No open errors."}
+        </div>
+      )}
+
+      {shown.map((i) => {
+        const isBusy = busy?.incidentId === i.id;
+        return (
+          <div key={i.id} className="error-row" style={{ alignItems: "flex-start" }}>
+            <div className="error-row-l" style={{ alignItems: "flex-start" }}>
+              <div>
+                <div style={{ fontWeight: 700, color: "var(--fg-1)", fontSize: 15 }}>
+                  {i.leadCount} lead{i.leadCount === 1 ? "" : "s"}
+                  <span style={{ fontWeight: 500, fontSize: 12, color: "var(--fg-3)" }}> · {i.rows.length} row{i.rows.length === 1 ? "" : "s"}</span>
+                </div>
+                <div style={{ fontSize: 12, color: "var(--fg-3)" }}>
+                  {stepTitle(i)}{i.errorNode ? ` · ${i.errorNode}` : ""}
+                </div>
+                <div className="retry-meta">
+                  first {i.firstSeen ? timeAgo(i.firstSeen) : "—"} · last {i.lastSeen ? timeAgo(i.lastSeen) : "—"}
+                </div>
+              </div>
+            </div>
+            <div className="error-row-m" style={{ minWidth: 0 }}>
+              <div className="error-code">{i.errorType}</div>
+              <div className="error-msg-inline">{i.sampleMessage || "(no message)"}</div>
+              {i.notes.length > 0 && (
+                <div className="retry-list" style={{ marginTop: 6 }}>
+                  {i.notes.map((n) => (
+                    <div key={`${n.at}-${n.text}`} className="retry-msg">
+                      <b>{timeAgo(n.at)}</b> · {n.text}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <details style={{ marginTop: 6 }}>
+                <summary style={{ fontSize: 12, color: "var(--fg-2)", cursor: "pointer" }}>Affected leads</summary>
+                <div className="retry-list" style={{ marginTop: 6 }}>
+                  {i.rows.map((r) => {
+                    const lead = r.pipelineLeadId ? leadById.get(r.pipelineLeadId) : undefined;
+                    return (
+                      <div key={r.errorRecordId} className="retry-msg">
+                        {lead ? (
+                          <button className="btn btn--ghost btn--xs" onClick={() => onSelect(lead)}>
+                            {r.leadName || r.email || lead.company}
+                          </button>
+                        ) : (
+                          <span>{r.leadName || r.email || r.errorRecordId}</span>
+                        )}
+                        <span className="retry-meta"> {r.email} · {r.timestamp ? timeAgo(r.timestamp) : "—"} · {r.status}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </details>
+            </div>
+            <div className="error-row-r" style={{ flexWrap: "wrap", justifyContent: "flex-end" }}>
+              {isBusy && (
+                <span style={{ fontSize: 12, color: "var(--fg-3)", display: "inline-flex", alignItems: "center", gap: 4 }}>
+                  <Icon.Loader size={11} className="spin-slow" /> {busy.label}
+                </span>
+              )}
+              <button
+                className="btn btn--ghost btn--xs"
+                disabled={busy !== null}
+                onClick={() => {
+                  const note = prompt(`Note for all ${i.rows.length} rows of this incident:`);
+                  if (note?.trim()) post(i, "note", note.trim());
+                }}
+              >
+                <Icon.Plus size={11} /> Add note
+              </button>
+              <button
+                className="btn btn--ghost btn--xs"
+                disabled={busy !== null}
+                onClick={() => {
+                  if (confirm(`Mark all ${i.rows.length} open rows of this incident resolved? You can undo it afterwards.`)) post(i, "resolve");
+                }}
+              >
+                <Icon.Check size={11} /> Resolve all
+              </button>
+              {canResubmit(i.step) && (
+                <button
+                  className="btn btn--dark btn--xs"
+                  disabled={busy !== null || i.pipelineLeadIds.length === 0}
+                  title={i.pipelineLeadIds.length ? `Resubmit ${stepTitle(i)} for every affected lead` : "No affected lead is on the board"}
+                  onClick={() => retryAll(i)}
+                >
+                  <Icon.Refresh size={11} /> Retry all
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,9 +1,14 @@
 "use client";
 
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { Icon } from "./DashboardIcons";
 import { PlatformLogos } from "./PlatformLogos";
-import type { DesignLead, DesignStage } from "@/lib/design-adapter";
+import { PlaybookCard } from "./PlaybookCard";
+import { canResubmit, type DesignLead, type DesignStage } from "@/lib/design-adapter";
+import type { StepId, StepTrace, TraceSignal } from "@/lib/pipeline";
+import type { ExecutionInspection } from "@/lib/n8n";
+import type { RetryAttempt } from "@/lib/retry-history";
+import { timeAgo } from "@/lib/format";
 import {
   closeLink,
   airtableLink,
@@ -13,6 +18,219 @@ import {
   emailLink,
 } from "@/lib/platform-links";
 
+function formatSignalValue(value: TraceSignal["value"]): string {
+  if (value === null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+function formatHours(h: number): string {
+  return h >= 48 ? `${Math.round((h / 24) * 10) / 10}d` : `${h}h`;
+}
+
+/** Collapsible "Why is this step in this state?" panel for one journey step. */
+function StepTracePanel({ trace, rulesVersion }: { trace: StepTrace; rulesVersion?: number }) {
+  const { grace } = trace;
+  return (
+    <details style={{ marginTop: 8, fontSize: 11, color: "var(--fg-2)" }}>
+      <summary style={{ cursor: "pointer", color: "var(--fg-3)" }}>Why is this step in this state?</summary>
+      <div style={{ marginTop: 6, display: "grid", gap: 6 }}>
+        <div>
+          <b>Rule:</b> {trace.rule}
+          {rulesVersion !== undefined && (
+            <span style={{ color: "var(--fg-3)" }}> · rules v{rulesVersion}</span>
+          )}
+        </div>
+        {grace && (
+          <div>
+            <b>Window:</b> {grace.rule} = {formatHours(grace.windowHours)}
+            {grace.elapsedHours === null
+              ? " · no Date Added on the row"
+              : grace.remainingHours > 0
+                ? ` · ${formatHours(grace.remainingHours)} remaining`
+                : ` · passed (${formatHours(Math.round(grace.elapsedHours))} since added)`}
+          </div>
+        )}
+        {trace.signals.length > 0 && (
+          <dl className="kv" style={{ fontFamily: "var(--font-mono)", fontSize: 11 }}>
+            {trace.signals.map((sig) => (
+              <div key={sig.field} style={{ display: "contents" }}>
+                <dt>{sig.field}</dt>
+                <dd>
+                  {formatSignalValue(sig.value)}
+                  {sig.note && <span style={{ color: "var(--fg-3)" }}> ({sig.note})</span>}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </div>
+    </details>
+  );
+}
+
+/**
+ * Every resubmit recorded for the lead, newest first. Refetches when the
+ * lead's retry count changes (i.e. after a retry and the next poll).
+ */
+function RetryTimeline({
+  leadId,
+  retries,
+  stages,
+}: {
+  leadId: string;
+  retries: number;
+  stages: DesignStage[];
+}) {
+  const [attempts, setAttempts] = useState<RetryAttempt[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/onboarding/retries?leadId=${encodeURIComponent(leadId)}`, { cache: "no-store" })
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+        if (!cancelled) {
+          setAttempts(json.attempts ?? []);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Could not load retries");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [leadId, retries]);
+
+  const stepTitle = (step: StepId | null) =>
+    step ? stages.find((s) => s.stepId === step)?.title ?? step : "Full onboarding";
+
+  return (
+    <div className="drawer-section">
+      <h4>Retry history{retries > 0 ? ` · ${retries}` : ""}</h4>
+      {error && <div style={{ fontSize: 12, color: "var(--fg-3)" }}>{error}</div>}
+      {!error && attempts === null && <div style={{ fontSize: 12, color: "var(--fg-3)" }}>Loading…</div>}
+      {attempts?.length === 0 && <div style={{ fontSize: 12, color: "var(--fg-3)" }}>Never retried.</div>}
+      {attempts && attempts.length > 0 && (
+        <div className="retry-list">
+          {attempts.map((a) => (
+            <div key={a.id} className={`retry-item ${a.success ? "ok" : "fail"}`}>
+              <span className="retry-dot" />
+              <div style={{ minWidth: 0 }}>
+                <div style={{ fontWeight: 600, fontSize: 12 }}>
+                  {stepTitle(a.step)} · {a.success ? "accepted" : "failed"}
+                  {a.n8nStatus ? ` (${a.n8nStatus})` : ""}
+                </div>
+                <div className="retry-meta">
+                  {timeAgo(a.at) || a.at} · {a.actor}
+                  {a.errorRecordId ? ` · ${a.errorRecordId}` : ""}
+                </div>
+                {a.message && <div className="retry-msg">{a.message}</div>}
+                {a.rawExcerpt && (
+                  <details style={{ marginTop: 4 }}>
+                    <summary style={{ cursor: "pointer", fontSize: 11, color: "var(--fg-3)" }}>n8n response</summary>
+                    <pre className="retry-raw">{a.rawExcerpt}</pre>
+                  </details>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatJson(value: unknown): string {
+  if (Array.isArray(value) && value.length === 0) return "(no items)";
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * The failing n8n node's input, output and error stack, fetched when the
+ * panel is first opened. Secrets are redacted server-side.
+ */
+function ExecutionInspector({ executionId, node }: { executionId: string; node?: string }) {
+  const [open, setOpen] = useState(false);
+  const [execution, setExecution] = useState<ExecutionInspection | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    const params = new URLSearchParams({ executionId });
+    if (node) params.set("node", node);
+    fetch(`/api/onboarding/n8n-execution?${params}`, { cache: "no-store" })
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+        if (!cancelled) {
+          setExecution(json.execution);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Could not load execution");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, executionId, node]);
+
+  return (
+    <details
+      style={{ marginTop: 8, fontSize: 11, color: "var(--fg-2)" }}
+      onToggle={(e) => setOpen((e.currentTarget as HTMLDetailsElement).open)}
+    >
+      <summary style={{ cursor: "pointer", color: "var(--fg-3)" }}>Inspect n8n execution</summary>
+      <div style={{ marginTop: 6, display: "grid", gap: 6 }}>
+        {error && <div style={{ color: "var(--fg-3)" }}>{error}</div>}
+        {!error && !execution && <div style={{ color: "var(--fg-3)" }}>Loading…</div>}
+        {execution && (
+          <>
+            <div className="retry-meta">
+              {execution.workflowName || execution.workflowId || "workflow"} · {execution.status}
+              {execution.stoppedAt ? ` · ${timeAgo(execution.stoppedAt) || execution.stoppedAt}` : ""}
+              {execution.source === "fixture" ? " · recorded fixture" : ""}
+            </div>
+            {execution.nodesRun.length > 0 && (
+              <div className="retry-meta">
+                {execution.nodesRun.map((n, idx) => (
+                  <span key={n}>
+                    {idx > 0 ? " → " : ""}
+                    <span style={n === execution.node ? { color: "var(--err)", fontWeight: 700 } : undefined}>{n}</span>
+                  </span>
+                ))}
+              </div>
+            )}
+            <div>
+              <b>Node:</b> {execution.node || "—"}
+            </div>
+            {execution.error && (
+              <div>
+                <b>Error:</b> {execution.error.message}
+                {execution.error.httpCode ? ` (HTTP ${execution.error.httpCode})` : ""}
+                {execution.error.description && <div className="retry-msg">{execution.error.description}</div>}
+                {execution.error.stack && <pre className="retry-raw">{execution.error.stack}</pre>}
+              </div>
+            )}
+            <div>
+              <b>Input</b>
+              <pre className="retry-raw">{formatJson(execution.input)}</pre>
+            </div>
+            <div>
+              <b>Output</b>
+              <pre className="retry-raw">{formatJson(execution.output)}</pre>
+            </div>
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
+
 export function LeadDrawer({
   lead,
   stages,
@@ -75,14 +293,16 @@ export function LeadDrawer({
                       {lead.statusError.node ? ` · node: ${lead.statusError.node}` : ""}
                       {lead.statusError.executionId ? ` · exec #${lead.statusError.executionId}` : ""}
                     </div>
+                    {lead.statusError.playbook && <PlaybookCard playbook={lead.statusError.playbook} />}
                   </div>
                 </div>
               )}
+
               {lead.status === "done" && (
                 <div className="callout callout--green" style={{ marginBottom: 20 }}>
                   <Icon.Check size={16} />
                   <div>
-                    <b>Client is live.</b> Close CRM closed · email validated · Airtable records created · Mighty Networks invited · Intercom synced · VendHub activated.
+                    <b>Client is live.</b> Close CRM closed · email validated · Airtable records created · welcome email sent · Mighty Networks invited · Intercom synced · VendHub activated · kickoff call held.
                   </div>
                 </div>
               )}
@@ -225,9 +445,9 @@ export function LeadDrawer({
                     const Logo = PlatformLogos[s.platform];
                     const retryKey = `${lead.id}-${i}`;
                     const retrying = retryingKeys.has(retryKey);
-                    const canRetry = t.status === "error" && s.stepId !== "vendhub";
+                    const canRetry = t.status === "error" && canResubmit(s.stepId);
                     return (
-                      <div key={s.id} className="journey-step">
+                      <div key={s.id} className={`journey-step${t.status === "skipped" ? " skipped" : ""}`}>
                         <div className={`journey-icon ${t.status}`}>
                           {t.status === "done" ? (
                             <Icon.Check size={16} />
@@ -246,6 +466,7 @@ export function LeadDrawer({
                             {t.status === "current" && `In progress${t.at ? ` · ${t.at}` : ""}`}
                             {t.status === "error" && `Failed${t.at ? ` · ${t.at}` : ""}`}
                             {t.status === "pending" && "Waiting"}
+                            {t.status === "skipped" && (t.detail || "Not part of this tier")}
                           </div>
                           {t.status === "error" && t.error && (
                             <>
@@ -271,6 +492,12 @@ export function LeadDrawer({
                                   </>
                                 )}
                               </div>
+                              {t.error.playbook && t.error.playbook.id !== lead.statusError?.playbook?.id && (
+                                <PlaybookCard playbook={t.error.playbook} compact />
+                              )}
+                              {t.error.executionId && (
+                                <ExecutionInspector executionId={t.error.executionId} node={t.error.node} />
+                              )}
                               <div style={{ display: "flex", gap: 6, marginTop: 8, flexWrap: "wrap" }}>
                                 {canRetry && (
                                   <button
@@ -308,6 +535,7 @@ export function LeadDrawer({
                               </div>
                             </>
                           )}
+                          {t.trace && <StepTracePanel trace={t.trace} rulesVersion={lead.rulesVersion} />}
                         </div>
                         <span className={`journey-status ${t.status}`}>{t.status}</span>
                       </div>
@@ -315,6 +543,8 @@ export function LeadDrawer({
                   })}
                 </div>
               </div>
+
+              <RetryTimeline leadId={lead.id} retries={lead.retries} stages={stages} />
             </div>
 
             <div className="drawer-foot">
@@ -331,12 +561,18 @@ export function LeadDrawer({
                   <Icon.External size={13} /> Open in Close
                 </a>
               )}
-              {lead.status === "error" && (
+              {lead.status === "error" && canResubmit(currentStage?.stepId) && (
                 <button
                   className="btn btn--dark btn--sm"
                   onClick={() => onRetry(lead, lead.currentStage)}
+                  title={
+                    lead.retries > 0
+                      ? `Already retried ${lead.retries}× (last ${timeAgo(lead.lastRetryAt) || "recently"}) — check the retry history first`
+                      : undefined
+                  }
                 >
                   <Icon.Refresh size={13} /> Retry current step
+                  {lead.retries > 0 && <span style={{ opacity: 0.7 }}> · tried {lead.retries}×</span>}
                 </button>
               )}
             </div>
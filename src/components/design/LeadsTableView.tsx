@@ -62,10 +62,17 @@ export function LeadsTableView({
   leads,
   stages,
   onSelect,
+  selectedIds,
+  onToggleSelect,
+  onSelectMany,
 }: {
   leads: DesignLead[];
   stages: DesignStage[];
   onSelect: (l: DesignLead) => void;
+  /** Bulk-action selection (see BulkBar). */
+  selectedIds: Set<string>;
+  onToggleSelect: (id: string) => void;
+  onSelectMany: (ids: string[], on: boolean) => void;
 }) {
   const [sort, setSort] = useState<SortKey>("missing");
   const [search, setSearch] = useState("");
@@ -121,6 +128,7 @@ export function LeadsTableView({
 
   // Summary header — how many leads, how many missing 2+ platforms.
   const missingTwoPlus = enriched.filter((e) => e.missingCount >= 2).length;
+  const allSelected = sorted.length > 0 && sorted.every(({ lead }) => selectedIds.has(lead.id));
 
   return (
     <div className="leads-table-view" style={{ width: "100%" }}>
@@ -192,10 +200,20 @@ export function LeadsTableView({
         <div
           className="op-row op-head"
           style={{
-            gridTemplateColumns: "2fr 1.5fr 1fr 0.7fr repeat(5, 60px) 100px 80px",
+            gridTemplateColumns: "24px 2fr 1.5fr 1fr 0.7fr repeat(5, 60px) 100px 80px",
             fontSize: 11,
           }}
         >
+          <span>
+            <input
+              type="checkbox"
+              className="bulk-check"
+              checked={allSelected}
+              disabled={sorted.length === 0}
+              onChange={() => onSelectMany(sorted.map(({ lead }) => lead.id), !allSelected)}
+              title={allSelected ? "Deselect all" : `Select all ${sorted.length} shown`}
+            />
+          </span>
           <span>Lead</span>
           <span>Email</span>
           <span>REP</span>
@@ -219,11 +237,19 @@ export function LeadsTableView({
             key={lead.id}
             className="op-row"
             style={{
-              gridTemplateColumns: "2fr 1.5fr 1fr 0.7fr repeat(5, 60px) 100px 80px",
+              gridTemplateColumns: "24px 2fr 1.5fr 1fr 0.7fr repeat(5, 60px) 100px 80px",
               cursor: "pointer",
             }}
             onClick={() => onSelect(lead)}
           >
+            <span onClick={(e) => e.stopPropagation()}>
+              <input
+                type="checkbox"
+                className="bulk-check"
+                checked={selectedIds.has(lead.id)}
+                onChange={() => onToggleSelect(lead.id)}
+              />
+            </span>
             <span>
               <div className="op-name">{lead.company}</div>
               <div className="op-sub" style={{ fontSize: 11, color: "var(--fg-3)" }}>
@@ -4,11 +4,13 @@
  * "New Errors" view — dedicated section for ghost-lead errors that fired
  * BEFORE the lead made it into the Clients table. Each row carries a
  * Resubmit button that fires the all-platforms n8n resubmit workflow
- * (the same one wired to the Airtable Resubmit Onboarding button).
+ * (the same one wired to the Airtable Resubmit Onboarding button). Rows
+ * with a known error pattern show the matching remediation playbook.
  */
 
 import { useMemo, useState } from "react";
 import { Icon } from "./DashboardIcons";
+import { PlaybookCard } from "./PlaybookCard";
 import type { DesignLead, DesignStage } from "@/lib/design-adapter";
 
 interface Toast { type: "success" | "error" | "info"; text: string }
@@ -46,12 +48,13 @@ export function NewErrorsView({
     try {
       const res = await fetch("/api/onboarding/resubmit-all", {
         method: "POST",
-        headers: { "content-type": "application/json" },
+        headers: { "content-type": "application/json", "Idempotency-Key": crypto.randomUUID() },
         body: JSON.stringify({
           errorRecordId,
           email: lead.email && lead.email !== "—" ? lead.email : undefined,
           leadName: lead.name,
           leadId: lead._closeLeadId || lead._clientId,
+          pipelineLeadId: lead.id,
         }),
       });
       const data = await res.json().catch(() => ({}));
@@ -142,10 +145,12 @@ export function NewErrorsView({
                     {stage?.title ? `${stage.title} · ` : ""}
                     {l.statusError?.msg || "(no message)"}
                   </div>
+                  {l.statusError?.playbook && <PlaybookCard playbook={l.statusError.playbook} compact />}
                 </div>
                 <div className="error-row-r">
                   <span style={{ fontSize: 11, color: "var(--fg-3)", marginRight: 8 }}>
                     {l.createdAt}
+                    {l.retries > 0 && ` · tried ${l.retries}×`}
                   </span>
                   <button className="btn btn--ghost btn--xs" onClick={() => onSelect(l)}>
                     Details
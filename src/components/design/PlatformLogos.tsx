@@ -16,9 +16,11 @@ export type PlatformId =
   | "close"
   | "email"
   | "airtable"
+  | "welcome"
   | "mighty"
   | "intercom"
-  | "vendhub";
+  | "vendhub"
+  | "kickoff";
 
 interface LogoProps {
   size?: number;
@@ -40,9 +42,11 @@ const SPECS: Record<PlatformId, LogoSpec> = {
   close:    { src: "/brand/close.svg",    bg: "#26be75", pad: 0.18, alt: "Close CRM" },
   email:    { src: "/brand/email.svg",    bg: "#ffffff", pad: 0.10, alt: "Email" },
   airtable: { src: "/brand/airtable.svg", bg: "#ffffff", pad: 0.08, alt: "Airtable" },
+  welcome:  { src: "/brand/welcome.svg",  bg: "#ffffff", pad: 0.10, alt: "Welcome email" },
   mighty:   { src: "/brand/mighty.avif",  bg: "#ffffff", pad: 0.06, alt: "Mighty Networks" },
   intercom: { src: "/brand/intercom.svg", bg: "#1f8ded", pad: 0.16, alt: "Intercom" },
   vendhub:  { src: "/brand/vendhub.svg",  bg: "#ffffff", pad: 0.08, alt: "VendHub" },
+  kickoff:  { src: "/brand/kickoff.svg",  bg: "#ffffff", pad: 0.10, alt: "Kickoff call" },
 };
 
 function makeLogo(id: PlatformId): ComponentType<LogoProps> {
@@ -108,7 +112,9 @@ export const PlatformLogos: Record<PlatformId, ComponentType<LogoProps>> = {
   close:    makeLogo("close"),
   email:    makeLogo("email"),
   airtable: makeLogo("airtable"),
+  welcome:  makeLogo("welcome"),
   mighty:   makeLogo("mighty"),
   intercom: makeLogo("intercom"),
   vendhub:  makeLogo("vendhub"),
+  kickoff:  makeLogo("kickoff"),
 };
@@ -0,0 +1,39 @@
+"use client";
+
+/**
+ * The remediation playbook matched to an error (src/lib/playbooks.ts):
+ * what happened, the likely cause, the recommended action and links.
+ * `compact` drops the explanation for list rows.
+ */
+
+import { Icon } from "./DashboardIcons";
+import type { PlaybookAction, PlaybookMatch } from "@/lib/playbooks";
+
+const ACTION_LABELS: Record<PlaybookAction, string> = {
+  retry: "Retry",
+  fix_in_close: "Fix data in Close",
+  contact_customer: "Contact customer",
+  investigate: "Investigate",
+};
+
+export function PlaybookCard({ playbook, compact = false }: { playbook: PlaybookMatch; compact?: boolean }) {
+  return (
+    <div className={`playbook${compact ? " playbook--compact" : ""}`}>
+      <div className="playbook-head">
+        <span className="lead-tag playbook-action">{ACTION_LABELS[playbook.action] ?? playbook.action}</span>
+        <span className="playbook-title">{playbook.title}</span>
+      </div>
+      {!compact && <p>{playbook.explanation}</p>}
+      {playbook.cause && <p><b>Likely cause:</b> {playbook.cause}</p>}
+      {!compact && playbook.links.length > 0 && (
+        <div className="playbook-links">
+          {playbook.links.map((l) => (
+            <a key={l.url} href={l.url} target="_blank" rel="noopener noreferrer">
+              <Icon.External size={11} /> {l.label}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -57,12 +57,13 @@ export function RealErrorsStrip({
     try {
       const res = await fetch("/api/onboarding/resubmit-all", {
         method: "POST",
-        headers: { "content-type": "application/json" },
+        headers: { "content-type": "application/json", "Idempotency-Key": crypto.randomUUID() },
         body: JSON.stringify({
           errorRecordId,
           email: lead.email && lead.email !== "—" ? lead.email : undefined,
           leadName: lead.name,
           leadId: lead._closeLeadId || lead._clientId,
+          pipelineLeadId: lead.id,
         }),
       });
       const data = await res.json().catch(() => ({}));
@@ -226,6 +227,11 @@ export function RealErrorsStrip({
                   >
                     Details
                   </button>
+                  {lead.retries > 0 && (
+                    <span style={{ fontSize: 11, color: "var(--fg-3)" }} title="Recorded resubmits for this lead">
+                      tried {lead.retries}×
+                    </span>
+                  )}
                   <button
                     className="btn btn--primary btn--xs"
                     disabled={isBusy}
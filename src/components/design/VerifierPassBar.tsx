@@ -0,0 +1,68 @@
+"use client";
+
+/**
+ * Progress of one platform's resumable verifier pass
+ * (src/lib/verifier-passes.ts) on its Integrations card, with the button
+ * that starts a full re-verify, stops it, or resumes a stalled one.
+ */
+
+import { Icon } from "./DashboardIcons";
+import type { PassPlatform, VerifierPass } from "@/lib/verifier-passes";
+import { timeAgo } from "@/lib/format";
+
+function summary(pass: VerifierPass | undefined): string {
+  if (!pass) return "Full re-verify · never run";
+  const counts = `${pass.checked.toLocaleString()}/${pass.total.toLocaleString()}`;
+  const errors = pass.apiErrors ? ` · ${pass.apiErrors} API errors` : "";
+  if (pass.status === "running") {
+    return pass.stalled ? `Re-verify stalled at ${counts}` : `Re-verifying · ${counts}${errors}`;
+  }
+  if (pass.status === "cancelled") return `Re-verify stopped ${timeAgo(pass.finishedAt)} at ${counts}`;
+  return `Last full re-verify ${timeAgo(pass.finishedAt)} · ${pass.found.toLocaleString()} found of ${pass.checked.toLocaleString()}${errors}`;
+}
+
+export function VerifierPassBar({
+  platform,
+  pass,
+  busy,
+  onStart,
+  onStop,
+}: {
+  platform: PassPlatform;
+  pass?: VerifierPass;
+  busy: boolean;
+  onStart: () => void;
+  onStop: () => void;
+}) {
+  const running = pass?.status === "running";
+  const pct = !pass ? 0 : pass.status === "done" ? 100 : pass.total ? (pass.checked / pass.total) * 100 : 0;
+
+  return (
+    <div className="bulk-progress">
+      <div className="bulk-progress-head">
+        {running && !pass.stalled ? <Icon.Loader size={12} className="spin-slow" /> : null}
+        <span>{summary(pass)}</span>
+        {running && pass.stalled && (
+          <button className="btn btn--ghost btn--xs" onClick={onStart} disabled={busy}>Resume</button>
+        )}
+        {running ? (
+          <button className="btn btn--ghost btn--xs" onClick={onStop} disabled={busy}>Stop</button>
+        ) : (
+          <button
+            className="btn btn--ghost btn--xs"
+            onClick={onStart}
+            disabled={busy || !platform.configured}
+            title={platform.configured ? `Check every row against ${platform.label} again` : `${platform.label} verifier isn't configured`}
+          >
+            Re-verify all
+          </button>
+        )}
+      </div>
+      {pass && (
+        <div className="bulk-progress-track">
+          <span style={{ width: `${pct}%` }} />
+        </div>
+      )}
+    </div>
+  );
+}
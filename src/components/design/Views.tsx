@@ -1,10 +1,16 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Icon } from "./DashboardIcons";
 import { PlatformLogos } from "./PlatformLogos";
 import { DonutChart, BarChart, Sparkline, AreaTrend } from "./Charts";
-import type { DesignLead, DesignStage } from "@/lib/design-adapter";
+import { IncidentsView } from "./IncidentsView";
+import { VerifierPassBar } from "./VerifierPassBar";
+import { canResubmit, type DesignLead, type DesignStage } from "@/lib/design-adapter";
+import type { ErrorLogEntry, IntegrationHealth } from "@/lib/integration-health";
+import type { ResolveBatch } from "@/lib/resolve-batches";
+import type { PassPlatform, VerifierPass } from "@/lib/verifier-passes";
+import { timeAgo } from "@/lib/format";
 import {
   closeLink,
   airtableLink,
@@ -161,6 +167,165 @@ export function OperatorsView({
 /* ========================================================
    Errors & retries — dashboard of stuck pipelines
    ======================================================== */
+interface ResolveAllPreview {
+  wouldResolve: number;
+  byErrorType: Record<string, number>;
+  /** Every candidate, sent back so the resolve covers exactly the preview. */
+  recordIds: string[];
+  candidates: { id: string; errorType: string; status: string; leadName: string; email: string; timestamp?: string }[];
+}
+
+/**
+ * "Mark all resolved" confirmation: the dry-run candidates by Error Type,
+ * then the resolve itself, plus recent batches with an Undo each.
+ */
+function ResolveAllDrawer({
+  onClose,
+  onResolveAll,
+  resolvingAll,
+  onUndoBatch,
+}: {
+  onClose: () => void;
+  onResolveAll: (recordIds: string[]) => Promise<string | null>;
+  resolvingAll: boolean;
+  onUndoBatch: (batchId: string) => Promise<boolean>;
+}) {
+  const [preview, setPreview] = useState<ResolveAllPreview | null>(null);
+  const [batches, setBatches] = useState<ResolveBatch[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [undoing, setUndoing] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [dry, recent] = await Promise.all([
+        fetch("/api/onboarding/resolve-all", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ dryRun: true }),
+        }).then((r) => r.json()),
+        fetch("/api/onboarding/resolve-all/undo", { cache: "no-store" }).then((r) => r.json()),
+      ]);
+      if (!dry.success) throw new Error(dry.message || "Dry run failed");
+      setPreview(dry as ResolveAllPreview);
+      setBatches(recent.success ? (recent.batches as ResolveBatch[]) : []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load the preview");
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const types = Object.entries(preview?.byErrorType ?? {}).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <>
+      <div className="drawer-backdrop open" onClick={onClose} />
+      <aside className="drawer open">
+        <div className="drawer-head">
+          <div className="drawer-head-l">
+            <span className="eyebrow">Mark all resolved · preview</span>
+            <h2>{preview ? `${preview.wouldResolve} open error${preview.wouldResolve === 1 ? "" : "s"}` : "Loading…"}</h2>
+            <span className="drawer-email">Resolved as one batch — undo reopens them with their previous status</span>
+          </div>
+          <button className="icon-btn" onClick={onClose} title="Close">
+            <Icon.X size={16} />
+          </button>
+        </div>
+        <div className="drawer-body">
+          {error && <div style={{ fontSize: 12, color: "var(--err)", marginBottom: 12 }}>{error}</div>}
+          {preview && (
+            <div className="drawer-section">
+              <h4>By error type</h4>
+              {types.length === 0 && <div style={{ fontSize: 12, color: "var(--fg-3)" }}>Nothing open to resolve.</div>}
+              {types.map(([type, n]) => (
+                <div key={type} style={{ display: "flex", justifyContent: "space-between", fontSize: 13, padding: "3px 0" }}>
+                  <span>{type}</span>
+                  <b>{n}</b>
+                </div>
+              ))}
+            </div>
+          )}
+          {preview && preview.candidates.length > 0 && (
+            <div className="drawer-section">
+              <h4>
+                Rows{preview.candidates.length < preview.wouldResolve ? ` · first ${preview.candidates.length}` : ""}
+              </h4>
+              <div className="retry-list">
+                {preview.candidates.map((c) => (
+                  <div key={c.id} className="retry-item fail">
+                    <span className="retry-dot" />
+                    <div style={{ minWidth: 0 }}>
+                      <div style={{ fontWeight: 600, fontSize: 12 }}>
+                        {c.leadName || c.email || c.id} · {c.errorType} · {c.status}
+                      </div>
+                      <div className="retry-meta">
+                        {c.timestamp ? timeAgo(c.timestamp) : "no timestamp"} · {c.id}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          {batches && batches.length > 0 && (
+            <div className="drawer-section">
+              <h4>Recent batches</h4>
+              <div className="retry-list">
+                {batches.map((b) => (
+                  <div key={b.batchId} className={`retry-item ${b.stillResolved ? "ok" : ""}`}>
+                    <span className="retry-dot" />
+                    <div style={{ minWidth: 0 }}>
+                      <div style={{ fontWeight: 600, fontSize: 12, display: "flex", alignItems: "center", gap: 8 }}>
+                        <span className="mono">{b.batchId}</span>
+                        <span style={{ flex: 1 }} />
+                        <button
+                          className="btn btn--ghost btn--xs"
+                          disabled={b.stillResolved === 0 || undoing !== null}
+                          onClick={async () => {
+                            if (!confirm(`Reopen the ${b.stillResolved} error${b.stillResolved === 1 ? "" : "s"} still resolved in ${b.batchId}?`)) return;
+                            setUndoing(b.batchId);
+                            if (await onUndoBatch(b.batchId)) await load();
+                            setUndoing(null);
+                          }}
+                        >
+                          {undoing === b.batchId ? <Icon.Loader size={11} className="spin-slow" /> : null} Undo
+                        </button>
+                      </div>
+                      <div className="retry-meta">
+                        {b.resolvedAt ? timeAgo(b.resolvedAt) : "—"} · {b.rows} row{b.rows === 1 ? "" : "s"} · {b.stillResolved} still resolved
+                      </div>
+                      <div className="retry-msg">
+                        {Object.entries(b.byErrorType).map(([t, n]) => `${t} ×${n}`).join(" · ")}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="drawer-foot">
+          <button className="btn btn--ghost btn--sm" onClick={onClose}>Cancel</button>
+          <button
+            className="btn btn--dark btn--sm"
+            disabled={!preview || preview.wouldResolve === 0 || resolvingAll}
+            onClick={async () => {
+              if (preview && (await onResolveAll(preview.recordIds))) await load();
+            }}
+          >
+            {resolvingAll
+              ? (<><Icon.Loader size={13} className="spin-slow" /> Resolving…</>)
+              : (<><Icon.Check size={13} /> Resolve {preview?.wouldResolve ?? ""}</>)}
+          </button>
+        </div>
+      </aside>
+    </>
+  );
+}
+
 export function ErrorsView({
   leads,
   stages,
@@ -169,20 +334,37 @@ export function ErrorsView({
   onSelect,
   onResolveAll,
   resolvingAll,
+  onUndoBatch,
   onResolveOne,
   resolvingKeys,
+  selectedIds,
+  onToggleSelect,
+  onSelectMany,
+  onToast,
+  onAfterChange,
 }: {
   leads: DesignLead[];
   stages: DesignStage[];
   onRetry: (lead: DesignLead, stageIdx: number) => void;
   retryingKeys: Set<string>;
   onSelect: (l: DesignLead) => void;
-  onResolveAll: () => void;
+  /** Resolves every open error as one batch; resolves with the batch id. */
+  onResolveAll: (recordIds: string[]) => Promise<string | null>;
   resolvingAll: boolean;
+  onUndoBatch: (batchId: string) => Promise<boolean>;
   onResolveOne: (lead: DesignLead) => void;
   resolvingKeys: Set<string>;
+  /** Bulk-action selection (see BulkBar). */
+  selectedIds: Set<string>;
+  onToggleSelect: (id: string) => void;
+  onSelectMany: (ids: string[], on: boolean) => void;
+  onToast: (t: { type: "success" | "error" | "info"; text: string }) => void;
+  onAfterChange: () => void;
 }) {
+  const [confirmingResolveAll, setConfirmingResolveAll] = useState(false);
+  const [listMode, setListMode] = useState<"leads" | "incidents">("leads");
   const errs = leads.filter((l) => l.status === "error");
+  const allSelected = errs.length > 0 && errs.every((l) => selectedIds.has(l.id));
 
   // Errors by monitored integration — bucket by the step that actually has
   // status="error" in the timeline, NOT by currentStage (currentStage is the
@@ -220,11 +402,7 @@ export function ErrorsView({
         <div style={{ display: "flex", gap: 8 }}>
           <button
             className="btn btn--dark btn--sm"
-            onClick={() => {
-              if (confirm("Mark all open errors as Resolved? This will sweep every error currently shown and cannot be undone from here.")) {
-                onResolveAll();
-              }
-            }}
+            onClick={() => setConfirmingResolveAll(true)}
             disabled={resolvingAll}
           >
             {resolvingAll ? (<><Icon.Loader size={13} className="spin-slow" /> Resolving…</>) : (<><Icon.Check size={13} /> Mark all resolved</>)}
@@ -251,83 +429,251 @@ export function ErrorsView({
         </div>
       )}
 
-      <div className="error-list">
-        <h4 style={{ marginTop: 24, marginBottom: 12 }}>Active errors</h4>
-        {errs.map((l) => {
-          const stage = stages[l.currentStage];
-          const Logo = PlatformLogos[stage.platform];
-          const retryKey = `${l.id}-${l.currentStage}`;
-          const isRetrying = retryingKeys.has(retryKey);
-          const resolveKey = l.statusError?.errorRecordId || `${l.id}-res`;
-          const isResolving = resolvingKeys.has(resolveKey);
-          const canResolve = Boolean(l.statusError?.errorRecordId);
-          return (
-            <div key={l.id} className="error-row">
-              <div className="error-row-l">
-                <span className="error-row-logo"><Logo size={20} /></span>
-                <div>
-                  <div style={{ fontWeight: 600, color: "var(--fg-1)" }}>{l.company}</div>
-                  <div style={{ fontSize: 12, color: "var(--fg-3)" }}>
-                    {l.name} · {l.id.slice(0, 12)}
+      {/* Per-lead list ↔ incidents (errors clustered by root cause) */}
+      <div
+        role="tablist"
+        aria-label="Error list"
+        style={{
+          display: "inline-flex",
+          border: "1px solid var(--ma-line)",
+          borderRadius: 6,
+          overflow: "hidden",
+          marginTop: 24,
+          marginBottom: 12,
+        }}
+      >
+        {([["leads", "Per lead"], ["incidents", "Incidents"]] as const).map(([mode, label]) => (
+          <button
+            key={mode}
+            role="tab"
+            aria-selected={listMode === mode}
+            onClick={() => setListMode(mode)}
+            style={{
+              padding: "5px 10px",
+              fontSize: 12,
+              background: listMode === mode ? "var(--ma-gold)" : "transparent",
+              color: listMode === mode ? "#000" : "var(--fg-2)",
+              border: 0,
+              cursor: "pointer",
+              fontWeight: 600,
+            }}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {listMode === "incidents" ? (
+        <IncidentsView
+          leads={leads}
+          stages={stages}
+          onSelect={onSelect}
+          onToast={onToast}
+          onAfterChange={onAfterChange}
+          onUndoBatch={onUndoBatch}
+        />
+      ) : (
+        <div className="error-list">
+          <h4 style={{ marginTop: 0, marginBottom: 12, display: "flex", alignItems: "center", gap: 8 }}>
+            {errs.length > 0 && (
+              <input
+                type="checkbox"
+                className="bulk-check"
+                checked={allSelected}
+                onChange={() => onSelectMany(errs.map((l) => l.id), !allSelected)}
+                title={allSelected ? "Deselect all" : `Select all ${errs.length} for bulk actions`}
+              />
+            )}
+            Active errors
+          </h4>
+          {errs.map((l) => {
+            const stage = stages[l.currentStage];
+            const Logo = PlatformLogos[stage.platform];
+            const retryKey = `${l.id}-${l.currentStage}`;
+            const isRetrying = retryingKeys.has(retryKey);
+            const resolveKey = l.statusError?.errorRecordId || `${l.id}-res`;
+            const isResolving = resolvingKeys.has(resolveKey);
+            const canResolve = Boolean(l.statusError?.errorRecordId);
+            return (
+              <div key={l.id} className="error-row">
+                <div className="error-row-l">
+                  <input
+                    type="checkbox"
+                    className="bulk-check"
+                    checked={selectedIds.has(l.id)}
+                    onChange={() => onToggleSelect(l.id)}
+                  />
+                  <span className="error-row-logo"><Logo size={20} /></span>
+                  <div>
+                    <div style={{ fontWeight: 600, color: "var(--fg-1)" }}>{l.company}</div>
+                    <div style={{ fontSize: 12, color: "var(--fg-3)" }}>
+                      {l.name} · {l.id.slice(0, 12)}
+                    </div>
                   </div>
                 </div>
+                <div className="error-row-m">
+                  <div className="error-code">{l.statusError?.code || "Unknown"}</div>
+                  <div className="error-msg-inline">{l.statusError?.msg}</div>
+                </div>
+                <div className="error-row-r">
+                  <span style={{ fontSize: 12, color: "var(--fg-3)", marginRight: 8 }}>{l.retries} {l.retries === 1 ? "retry" : "retries"}</span>
+                  <button className="btn btn--ghost btn--xs" onClick={() => onSelect(l)}>Details</button>
+                  {(() => {
+                    const link = deepLinkForStage(l, stage);
+                    if (!link) return null;
+                    return (
+                      <a
+                        className="btn btn--ghost btn--xs"
+                        href={link.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        title={`${link.label} · ${link.externalId || ""}`}
+                      >
+                        <Icon.External size={11} /> Open in {stage.platform}
+                      </a>
+                    );
+                  })()}
+                  <button
+                    className="btn btn--ghost btn--xs"
+                    disabled={!canResolve || isResolving}
+                    title={canResolve ? "Mark this error as resolved in Airtable" : "No Airtable error record to resolve"}
+                    onClick={() => { if (canResolve && !isResolving) onResolveOne(l); }}
+                  >
+                    {isResolving ? (<><Icon.Loader size={11} className="spin-slow" /> Resolving</>) : (<><Icon.Check size={11} /> Mark resolved</>)}
+                  </button>
+                  {canResubmit(stage.stepId) && (
+                    <button
+                      className={`btn btn--dark btn--xs ${isRetrying ? "retrying" : ""}`}
+                      disabled={isRetrying}
+                      onClick={() => { if (!isRetrying) onRetry(l, l.currentStage); }}
+                    >
+                      {isRetrying ? (<><Icon.Loader size={11} className="spin-slow" /> Retrying</>) : (<><Icon.Refresh size={11} /> Retry</>)}
+                    </button>
+                  )}
+                </div>
               </div>
-              <div className="error-row-m">
-                <div className="error-code">{l.statusError?.code || "Unknown"}</div>
-                <div className="error-msg-inline">{l.statusError?.msg}</div>
+            );
+          })}
+          {errs.length === 0 && (
+            <div style={{ padding: 40, textAlign: "center", color: "var(--fg-3)", border: "1px dashed var(--ma-line)", borderRadius: 8 }}>
+              <Icon.Check size={24} />
+              <div style={{ marginTop: 8, fontWeight: 600, color: "var(--fg-1)" }}>All pipelines healthy</div>
+              <div style={{ fontSize: 13 }}>No active errors across any integration.</div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {confirmingResolveAll && (
+        <ResolveAllDrawer
+          onClose={() => setConfirmingResolveAll(false)}
+          onResolveAll={onResolveAll}
+          resolvingAll={resolvingAll}
+          onUndoBatch={onUndoBatch}
+        />
+      )}
+    </div>
+  );
+}
+
+/* ========================================================
+   Integrations — big cards with real 14-day health
+   ======================================================== */
+const HEALTH_DAYS = 14;
+const PASS_POLL_MS = 5 * 1000;
+
+function formatRate(rate: number | null | undefined): string {
+  if (rate === null || rate === undefined) return "—";
+  return `${Math.round(rate * 1000) / 10}%`;
+}
+
+/** Onboarding Errors history for one step — opened by "View logs". */
+function IntegrationLogDrawer({ stage, onClose }: { stage: DesignStage | null; onClose: () => void }) {
+  // Keyed by step so switching cards never shows the previous step's rows.
+  const [result, setResult] = useState<{ stepId: string; entries?: ErrorLogEntry[]; error?: string } | null>(null);
+  const [openOnly, setOpenOnly] = useState(false);
+
+  useEffect(() => {
+    if (!stage) return;
+    let cancelled = false;
+    const stepId = stage.stepId;
+    fetch(`/api/onboarding/errors?step=${stepId}&days=${HEALTH_DAYS}`, { cache: "no-store" })
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+        if (!cancelled) setResult({ stepId, entries: json.errors ?? [] });
+      })
+      .catch((err) => {
+        if (!cancelled) setResult({ stepId, error: err instanceof Error ? err.message : "Could not load error history" });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [stage]);
+
+  const current = stage && result?.stepId === stage.stepId ? result : null;
+  const entries = current?.entries ?? null;
+  const error = current?.error ?? null;
+  const open = Boolean(stage);
+  const shown = (entries ?? []).filter((e) => !openOnly || e.status === "New" || e.status === "Investigating");
+
+  return (
+    <>
+      <div className={`drawer-backdrop ${open ? "open" : ""}`} onClick={onClose} />
+      <aside className={`drawer ${open ? "open" : ""}`} aria-hidden={!open}>
+        {stage && (
+          <>
+            <div className="drawer-head">
+              <div className="drawer-head-l">
+                <span className="eyebrow">Error history · last {HEALTH_DAYS} days</span>
+                <h2>{stage.title}</h2>
+                <span className="drawer-email">
+                  {entries ? `${shown.length} of ${entries.length} rows` : "Loading…"}
+                </span>
               </div>
-              <div className="error-row-r">
-                <span style={{ fontSize: 12, color: "var(--fg-3)", marginRight: 8 }}>{l.retries} retries</span>
-                <button className="btn btn--ghost btn--xs" onClick={() => onSelect(l)}>Details</button>
-                {(() => {
-                  const link = deepLinkForStage(l, stage);
-                  if (!link) return null;
+              <button className="icon-btn" onClick={onClose} title="Close">
+                <Icon.X size={16} />
+              </button>
+            </div>
+            <div className="drawer-body">
+              <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12, color: "var(--fg-2)", marginBottom: 12 }}>
+                <input type="checkbox" checked={openOnly} onChange={(e) => setOpenOnly(e.target.checked)} />
+                Open errors only
+              </label>
+              {error && <div style={{ fontSize: 12, color: "var(--fg-3)" }}>{error}</div>}
+              {entries?.length === 0 && (
+                <div style={{ fontSize: 12, color: "var(--fg-3)" }}>No Onboarding Errors rows for this step in the last {HEALTH_DAYS} days.</div>
+              )}
+              <div className="retry-list">
+                {shown.map((e) => {
+                  const isOpenRow = e.status === "New" || e.status === "Investigating";
                   return (
-                    <a
-                      className="btn btn--ghost btn--xs"
-                      href={link.url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      title={`${link.label} · ${link.externalId || ""}`}
-                    >
-                      <Icon.External size={11} /> Open in {stage.platform}
-                    </a>
+                    <div key={e.id} className={`retry-item ${isOpenRow ? "fail" : "ok"}`}>
+                      <span className="retry-dot" />
+                      <div style={{ minWidth: 0 }}>
+                        <div style={{ fontWeight: 600, fontSize: 12 }}>
+                          {e.leadName || e.email || e.id} · {e.errorType || "Unknown"} · {e.status || "—"}
+                        </div>
+                        <div className="retry-meta">
+                          {e.timestamp ? timeAgo(e.timestamp) : "no timestamp"}
+                          {e.errorNode ? ` · node: ${e.errorNode}` : ""}
+                          {e.executionId ? ` · exec #${e.executionId}` : ""}
+                          {` · ${e.id}`}
+                        </div>
+                        {e.errorMessage && <div className="retry-msg">{e.errorMessage}</div>}
+                      </div>
+                    </div>
                   );
-                })()}
-                <button
-                  className="btn btn--ghost btn--xs"
-                  disabled={!canResolve || isResolving}
-                  title={canResolve ? "Mark this error as resolved in Airtable" : "No Airtable error record to resolve"}
-                  onClick={() => { if (canResolve && !isResolving) onResolveOne(l); }}
-                >
-                  {isResolving ? (<><Icon.Loader size={11} className="spin-slow" /> Resolving</>) : (<><Icon.Check size={11} /> Mark resolved</>)}
-                </button>
-                <button
-                  className={`btn btn--dark btn--xs ${isRetrying ? "retrying" : ""}`}
-                  disabled={isRetrying}
-                  onClick={() => { if (!isRetrying) onRetry(l, l.currentStage); }}
-                >
-                  {isRetrying ? (<><Icon.Loader size={11} className="spin-slow" /> Retrying</>) : (<><Icon.Refresh size={11} /> Retry</>)}
-                </button>
+                })}
               </div>
             </div>
-          );
-        })}
-        {errs.length === 0 && (
-          <div style={{ padding: 40, textAlign: "center", color: "var(--fg-3)", border: "1px dashed var(--ma-line)", borderRadius: 8 }}>
-            <Icon.Check size={24} />
-            <div style={{ marginTop: 8, fontWeight: 600, color: "var(--fg-1)" }}>All pipelines healthy</div>
-            <div style={{ fontSize: 13 }}>No active errors across any integration.</div>
-          </div>
+          </>
         )}
-      </div>
-    </div>
+      </aside>
+    </>
   );
 }
 
-/* ========================================================
-   Integrations — big cards with sparklines
-   ======================================================== */
 export function IntegrationsView({
   leads,
   stages,
@@ -338,30 +684,108 @@ export function IntegrationsView({
   /** Authoritative per-step counts from the pipeline summary. */
   byStep?: Record<string, { success: number; error: number; pending: number; waiting?: number }>;
 }) {
+  const [health, setHealth] = useState<IntegrationHealth | null>(null);
+  const [healthError, setHealthError] = useState<string | null>(null);
+  const [logStage, setLogStage] = useState<DesignStage | null>(null);
+  const [passes, setPasses] = useState<{ passes: VerifierPass[]; platforms: PassPlatform[] } | null>(null);
+  const [passBusy, setPassBusy] = useState<string | null>(null);
+  const [passError, setPassError] = useState<string | null>(null);
+
+  // Resumable verifier passes need Supabase; without it the cards just
+  // don't get a progress bar.
+  const loadPasses = useCallback(async () => {
+    try {
+      const res = await fetch("/api/verify/passes", { cache: "no-store" });
+      if (res.ok) setPasses(await res.json());
+    } catch {
+      /* keep the last known progress */
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPasses();
+  }, [loadPasses]);
+
+  const passRunning = passes?.passes.some((p) => p.status === "running" && !p.stalled) ?? false;
+  useEffect(() => {
+    if (!passRunning) return;
+    const timer = setInterval(loadPasses, PASS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [passRunning, loadPasses]);
+
+  const passAction = async (platform: string, body: Record<string, unknown>) => {
+    setPassBusy(platform);
+    setPassError(null);
+    try {
+      const res = await fetch("/api/verify/passes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.detail || json.error || `HTTP ${res.status}`);
+      await loadPasses();
+    } catch (err) {
+      setPassError(err instanceof Error ? err.message : "Verifier pass request failed");
+    } finally {
+      setPassBusy(null);
+    }
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/onboarding/integration-health?days=${HEALTH_DAYS}`, { cache: "no-store" })
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+        if (!cancelled) setHealth(json);
+      })
+      .catch((err) => {
+        if (!cancelled) setHealthError(err instanceof Error ? err.message : "Could not load integration health");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   const cards = stages.map((s) => {
     const c = byStep?.[s.stepId];
     const errs = c ? c.error : leads.filter((l) => l.status === "error" && stages[l.currentStage]?.id === s.id).length;
     const passed = c ? c.success : leads.filter((l) => l.timeline.find((t) => t.stage === s.id && (t.status === "done" || t.status === "current"))).length;
     const waiting = c ? (c.waiting || 0) : 0;
     const pending = c ? c.pending : 0;
-    // gentle pseudo-random 14-day spark
-    const seed = s.num.charCodeAt(1) || 1;
-    const spark = Array.from({ length: 14 }, (_, i) => Math.max(1, Math.round(passed / 2 + Math.sin(i * 0.7 + seed * 0.3) * 2 + Math.random() * 2)));
-    const uptime = errs === 0 ? 100 : errs === 1 ? 98.2 : Math.max(85, 100 - errs * 2);
-    return { ...s, errs, passed, waiting, pending, spark, uptime };
+    return {
+      ...s,
+      errs,
+      passed,
+      waiting,
+      pending,
+      health: health?.steps[s.stepId],
+      passPlatform: passes?.platforms.find((p) => p.step === s.stepId),
+    };
   });
   return (
     <div className="view">
       <div className="view-head">
         <div>
           <span className="eyebrow eyebrow--green">Integrations</span>
-          <h2>6 systems in the onboarding chain</h2>
+          <h2>{stages.length} systems in the onboarding chain</h2>
         </div>
+        {health && !health.historyRecorded && (
+          <span style={{ fontSize: 12, color: "var(--fg-3)" }}>
+            Verifier and success history need Supabase — showing Onboarding Errors only.
+          </span>
+        )}
+        {healthError && <span style={{ fontSize: 12, color: "var(--fg-3)" }}>{healthError}</span>}
+        {passError && <span style={{ fontSize: 12, color: "var(--err)" }}>{passError}</span>}
       </div>
       <div className="integrations-grid">
         {cards.map((c) => {
           const Logo = PlatformLogos[c.platform];
           const healthy = c.errs === 0;
+          const h = c.health;
+          const pp = c.passPlatform;
+          const pass = pp && passes?.passes.find((p) => p.platform === pp.platform);
           return (
             <div key={c.id} className={`int-card ${healthy ? "" : "int-card--warn"}`}>
               <div className="int-card-head">
@@ -393,17 +817,53 @@ export function IntegrationsView({
                 </div>
               </div>
               <div className="int-spark">
-                <div style={{ fontSize: 11, color: "var(--fg-3)", marginBottom: 4, textTransform: "uppercase", letterSpacing: "0.08em", fontWeight: 600 }}>Throughput · 14d</div>
-                <Sparkline values={c.spark} color={healthy ? "#184010" : "#e8c020"} />
+                <div style={{ display: "flex", justifyContent: "space-between", fontSize: 11, color: "var(--fg-3)", marginBottom: 4, textTransform: "uppercase", letterSpacing: "0.08em", fontWeight: 600 }}>
+                  <span>New errors · {HEALTH_DAYS}d</span>
+                  {h && <span>{h.errorsInWindow} total · {h.errorFreeDays}/{h.days.length} days clean</span>}
+                </div>
+                {h ? (
+                  <Sparkline values={h.days.map((d) => d.errors)} color={h.errorsInWindow ? "#b02a1a" : "#184010"} />
+                ) : (
+                  <div style={{ height: 40, fontSize: 12, color: "var(--fg-3)" }}>{healthError ? "—" : "Loading…"}</div>
+                )}
               </div>
+              {h && (
+                <dl className="kv" style={{ fontSize: 12 }}>
+                  {h.verifier && (
+                    <>
+                      <dt>Lookups answered</dt>
+                      <dd>
+                        {formatRate(h.verifier.successRate)}
+                        <span style={{ color: "var(--fg-3)" }}> · {h.verifier.checks} checks</span>
+                      </dd>
+                      <dt>Last clean verifier run</dt>
+                      <dd>{timeAgo(h.verifier.lastSuccessfulRunAt)}</dd>
+                    </>
+                  )}
+                  <dt>Last success</dt>
+                  <dd>{timeAgo(h.lastSuccessAt)}</dd>
+                  <dt>Last error</dt>
+                  <dd>{timeAgo(h.lastErrorAt)}</dd>
+                </dl>
+              )}
+              {pp && (
+                <VerifierPassBar
+                  platform={pp}
+                  pass={pass}
+                  busy={passBusy === pp.platform}
+                  onStart={() => passAction(pp.platform, { platform: pp.platform, force: true })}
+                  onStop={() => pass && passAction(pp.platform, { cancel: pass.id })}
+                />
+              )}
               <div className="int-foot">
-                <button className="btn btn--ghost btn--xs">View logs</button>
-                <button className="btn btn--ghost btn--xs">Configure</button>
+                <button className="btn btn--ghost btn--xs" onClick={() => setLogStage(c)}>View logs</button>
+                <a className="btn btn--ghost btn--xs" href="/settings">Configure</a>
               </div>
             </div>
           );
         })}
       </div>
+      <IntegrationLogDrawer stage={logStage} onClose={() => setLogStage(null)} />
     </div>
   );
 }
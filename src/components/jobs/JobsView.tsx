@@ -0,0 +1,182 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, RefreshCw, RotateCcw } from "lucide-react";
+import type { Job, JobCounts, JobStatus } from "@/lib/jobs";
+
+const STATUS_TABS: { id: JobStatus; label: string; chip: string }[] = [
+  { id: "queued", label: "Queued", chip: "chip-info" },
+  { id: "running", label: "Running", chip: "chip-warning" },
+  { id: "failed", label: "Failed", chip: "chip-danger" },
+  { id: "done", label: "Done", chip: "chip-success" },
+];
+
+const KIND_LABELS: Record<Job["kind"], string> = {
+  resubmit_step: "Resubmit step",
+  resubmit_all: "Resubmit onboarding",
+  verify_email: "Verify",
+  sync_lead: "Supabase sync",
+  verify_pass: "Verifier pass",
+};
+
+const POLL_INTERVAL_MS = 10 * 1000;
+
+function fmtTime(iso?: string): string {
+  if (!iso) return "—";
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? iso : d.toLocaleString();
+}
+
+/** The lead / email a job is about, for the table. */
+function jobSubject(job: Job): string {
+  const p = job.payload as Record<string, unknown>;
+  const parts = [p.email, p.leadRecordId, p.airtableId, p.errorRecordId, p.step]
+    .filter((v): v is string => typeof v === "string" && v !== "");
+  if (typeof p.newestN === "number") parts.push(`newest ${p.newestN}`);
+  return parts.join(" · ") || "—";
+}
+
+/**
+ * Jobs → the durable background queue (src/lib/jobs.ts). Counts per
+ * status, the jobs in the selected status and a retry button for failed
+ * ones. Polls while open.
+ */
+export function JobsView() {
+  const [status, setStatus] = useState<JobStatus>("failed");
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [counts, setCounts] = useState<JobCounts | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [retrying, setRetrying] = useState<Set<number>>(new Set());
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/jobs?status=${status}`, { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      setJobs(json.jobs ?? []);
+      setCounts(json.counts ?? null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load jobs");
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    load();
+    const id = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, [load]);
+
+  const retry = async (id: number) => {
+    setRetrying((s) => new Set(s).add(id));
+    try {
+      const res = await fetch("/api/jobs/retry", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ id }),
+      });
+      const json = await res.json();
+      if (!res.ok) setError(json.error || `HTTP ${res.status}`);
+      await load();
+    } finally {
+      setRetrying((s) => {
+        const next = new Set(s);
+        next.delete(id);
+        return next;
+      });
+    }
+  };
+
+  return (
+    <section className="surface p-6 space-y-5">
+      <header className="flex items-center justify-between gap-4">
+        <div className="flex flex-wrap gap-2">
+          {STATUS_TABS.map((t) => (
+            <button
+              key={t.id}
+              type="button"
+              onClick={() => setStatus(t.id)}
+              className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-xl border text-sm transition-colors ${
+                status === t.id
+                  ? "bg-[#F4C71A]/10 text-[#FFD94D] border-[#F4C71A]/30"
+                  : "border-white/10 text-text-secondary hover:text-text-primary"
+              }`}
+            >
+              {t.label}
+              <span className={`chip ${t.chip} tabular`}>{counts ? counts[t.id] : "…"}</span>
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={load}
+          className="inline-flex items-center gap-1.5 text-xs text-text-secondary hover:text-text-primary"
+        >
+          {loading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+          Refresh
+        </button>
+      </header>
+
+      {error && <p className="text-xs text-danger-light">{error}</p>}
+
+      {jobs.length === 0 && !loading ? (
+        <p className="text-sm text-text-muted">No {status} jobs.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="text-left text-text-muted">
+              <tr>
+                <th className="py-2 pr-3 font-medium">#</th>
+                <th className="py-2 pr-3 font-medium">Kind</th>
+                <th className="py-2 pr-3 font-medium">Lead</th>
+                <th className="py-2 pr-3 font-medium">Attempts</th>
+                <th className="py-2 pr-3 font-medium">{status === "queued" ? "Runs at" : "Updated"}</th>
+                <th className="py-2 pr-3 font-medium">Last error</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {jobs.map((job) => (
+                <tr key={job.id} className="align-top">
+                  <td className="py-2 pr-3 text-text-muted tabular">{job.id}</td>
+                  <td className="py-2 pr-3 text-text-primary whitespace-nowrap">{KIND_LABELS[job.kind] ?? job.kind}</td>
+                  <td className="py-2 pr-3 text-text-secondary break-all">{jobSubject(job)}</td>
+                  <td className="py-2 pr-3 text-text-secondary tabular">
+                    {job.attempts}/{job.maxAttempts}
+                  </td>
+                  <td className="py-2 pr-3 text-text-secondary whitespace-nowrap">
+                    {fmtTime(status === "queued" ? job.runAt : job.updatedAt)}
+                  </td>
+                  <td className="py-2 pr-3 text-danger-light max-w-md">
+                    <span className="line-clamp-2" title={job.lastError}>{job.lastError ?? ""}</span>
+                  </td>
+                  <td className="py-2 text-right">
+                    {(job.status === "failed" || job.status === "done") && (
+                      <button
+                        type="button"
+                        onClick={() => retry(job.id)}
+                        disabled={retrying.has(job.id)}
+                        className="inline-flex items-center gap-1 text-text-secondary hover:text-text-primary disabled:opacity-50"
+                      >
+                        {retrying.has(job.id) ? (
+                          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                        ) : (
+                          <RotateCcw className="w-3.5 h-3.5" />
+                        )}
+                        {job.status === "failed" ? "Retry" : "Run again"}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
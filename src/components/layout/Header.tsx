@@ -9,6 +9,7 @@ import {
   Workflow,
   Activity,
   Users,
+  ListChecks,
   Settings,
   RefreshCw,
   Menu,
@@ -24,6 +25,7 @@ const NAV = [
   { label: "Pipeline", href: "/", icon: Workflow },
   { label: "Activity", href: "/onboarding", icon: Activity },
   { label: "Clients", href: "/clients", icon: Users },
+  { label: "Jobs", href: "/jobs", icon: ListChecks },
   { label: "Settings", href: "/settings", icon: Settings },
 ];
 
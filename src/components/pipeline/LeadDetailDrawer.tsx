@@ -20,6 +20,7 @@ import { useEffect, useState } from "react";
 import type { LeadPipeline, StepId, StepState } from "@/lib/pipeline";
 import { StepStatusIcon, OverallPill, statusBadgeClasses } from "./StepBadge";
 import { ProgressRing } from "./ProgressRing";
+import { canResubmit } from "@/lib/design-adapter";
 import { truncate, timeAgo } from "@/lib/format";
 
 interface StepMeta {
@@ -172,7 +173,7 @@ export function LeadDetailDrawer({
                         label={m.label}
                         describe={m.describe}
                         retrying={retrying}
-                        canRetry={s.status === "error" && s.id !== "vendhub"}
+                        canRetry={s.status === "error" && canResubmit(s.id)}
                         onRetry={() => onResubmit(lead, s.id)}
                       />
                     );
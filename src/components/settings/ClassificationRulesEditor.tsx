@@ -0,0 +1,497 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { FlaskConical, History, Loader2, Plus, RotateCcw, Save, Trash2 } from "lucide-react";
+import type {
+  ClassificationRules,
+  ClassificationRulesInput,
+  ClassificationRulesVersion,
+  MissOutcome,
+  TierPipeline,
+  VendhubSignal,
+} from "@/lib/classification-rules";
+import type { StepId } from "@/lib/pipeline";
+import type { ShadowReport } from "@/lib/shadow-classifier";
+import { ShadowReportView } from "./ShadowReportView";
+
+interface RulesResponse {
+  active: ClassificationRules;
+  versions: ClassificationRulesVersion[];
+  defaults: ClassificationRules;
+  vendhubSignals: VendhubSignal[];
+  editable: boolean;
+}
+
+const SIGNAL_LABELS: Record<VendhubSignal, string> = {
+  on_vendstack: "On Vendstack = Yes",
+  in_vendhub: "in_vendhub checked",
+  has_machine: "Has Machine = Yes",
+  machines_placed: "Machines Placed > 0",
+  participation: "Vendhub Participation > 0",
+  data_sync: "Linked VendHub Data Sync row",
+  app_access: "Should have access to App? set",
+};
+
+const STEP_NAMES: Record<StepId, string> = {
+  close_crm: "Close CRM",
+  email_validation: "Email validation",
+  airtable_record: "Airtable record",
+  welcome_email: "Welcome email",
+  mighty_networks: "Mighty Networks",
+  intercom: "Intercom",
+  vendhub: "VendHub",
+  kickoff_call: "Kickoff call",
+};
+
+const OUTCOME_LABELS: Record<MissOutcome, string> = {
+  error: "Error (ops must act)",
+  waiting_for_customer: "Waiting for customer",
+};
+
+function stripVersion(r: ClassificationRules): ClassificationRulesInput {
+  const { version, ...rest } = r;
+  void version;
+  return rest;
+}
+
+function fmtDate(iso?: string): string {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? iso : d.toLocaleString();
+}
+
+function HoursField({
+  label,
+  hint,
+  value,
+  onChange,
+}: {
+  label: string;
+  hint?: string;
+  value: number;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="text-sm font-medium text-text-primary">{label}</span>
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min={0}
+          max={8760}
+          value={value}
+          onChange={(e) => onChange(Number(e.target.value))}
+          className="w-28 rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-sm text-text-primary tabular"
+        />
+        <span className="text-xs text-text-muted">
+          hours{value >= 48 ? ` (${Math.round((value / 24) * 10) / 10} days)` : ""}
+        </span>
+      </div>
+      {hint && <span className="text-xs text-text-muted">{hint}</span>}
+    </label>
+  );
+}
+
+function OutcomeField({
+  label,
+  hint,
+  value,
+  onChange,
+}: {
+  label: string;
+  hint: string;
+  value: MissOutcome;
+  onChange: (v: MissOutcome) => void;
+}) {
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="text-sm font-medium text-text-primary">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as MissOutcome)}
+        className="w-60 rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-sm text-text-primary"
+      >
+        {(Object.keys(OUTCOME_LABELS) as MissOutcome[]).map((o) => (
+          <option key={o} value={o} className="bg-canvas">
+            {OUTCOME_LABELS[o]}
+          </option>
+        ))}
+      </select>
+      <span className="text-xs text-text-muted">{hint}</span>
+    </label>
+  );
+}
+
+/**
+ * Settings → Classification rules. Edits a draft of the active rules and
+ * saves it as a new version; older versions can be loaded back into the
+ * draft and re-saved to restore them.
+ */
+export function ClassificationRulesEditor() {
+  const [data, setData] = useState<RulesResponse | null>(null);
+  const [draft, setDraft] = useState<ClassificationRulesInput | null>(null);
+  const [note, setNote] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [preview, setPreview] = useState<ShadowReport | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/settings/classification-rules", { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.detail || json.error || `HTTP ${res.status}`);
+      setData(json as RulesResponse);
+      setDraft(stripVersion((json as RulesResponse).active));
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : "Failed to load rules"]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const save = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setErrors([]);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/settings/classification-rules", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ rules: draft, note: note.trim() || undefined }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setErrors(json.errors ?? [json.detail || json.error || `HTTP ${res.status}`]);
+        return;
+      }
+      setMessage(`Saved as version ${json.saved.version}. The pipeline picks it up within 30 seconds.`);
+      setNote("");
+      await load();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Shadow-run the draft against the live rules so a save can't silently
+  // reclassify leads.
+  const previewImpact = async () => {
+    if (!draft) return;
+    setPreviewing(true);
+    setErrors([]);
+    try {
+      const res = await fetch("/api/settings/classifier-shadow", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ rules: draft }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setErrors(json.errors ?? [json.detail || json.error || `HTTP ${res.status}`]);
+        return;
+      }
+      setPreview(json as ShadowReport);
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const update = <K extends keyof ClassificationRulesInput>(
+    section: K,
+    patch: Partial<ClassificationRulesInput[K]>
+  ) => {
+    setDraft((d) => (d ? { ...d, [section]: { ...d[section], ...patch } } : d));
+    setPreview(null);
+  };
+
+  // tiers is a list, so it's replaced wholesale rather than merged by update().
+  const setTiers = (tiers: TierPipeline[]) => {
+    setDraft((d) => (d ? { ...d, tiers } : d));
+    setPreview(null);
+  };
+
+  const updateTier = (index: number, patch: Partial<TierPipeline>) => {
+    if (!draft) return;
+    setTiers(draft.tiers.map((t, i) => (i === index ? { ...t, ...patch } : t)));
+  };
+
+  const toggleSignal = (sig: VendhubSignal) => {
+    if (!draft) return;
+    const current = draft.vendhub.successSignals;
+    update("vendhub", {
+      successSignals: current.includes(sig) ? current.filter((s) => s !== sig) : [...current, sig],
+    });
+  };
+
+  if (loading && !data) {
+    return (
+      <div className="surface p-6 flex items-center gap-2 text-sm text-text-muted">
+        <Loader2 className="w-4 h-4 animate-spin" /> Loading classification rules…
+      </div>
+    );
+  }
+
+  if (!data || !draft) {
+    return (
+      <div className="surface p-6 text-sm text-danger-light">
+        {errors[0] ?? "Classification rules unavailable"}
+      </div>
+    );
+  }
+
+  return (
+    <section className="surface p-6 space-y-6">
+      <header className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-text-primary">Classification rules</h2>
+          <p className="text-xs text-text-muted">
+            Active: {data.active.version === 0 ? "built-in defaults (version 0)" : `version ${data.active.version}`}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => { setDraft(stripVersion(data.defaults)); setPreview(null); }}
+          className="inline-flex items-center gap-1.5 text-xs text-text-secondary hover:text-text-primary"
+        >
+          <RotateCcw className="w-3.5 h-3.5" /> Load defaults
+        </button>
+      </header>
+
+      {!data.editable && (
+        <p className="text-xs text-warning-light">
+          Supabase isn&apos;t configured, so rules can&apos;t be saved — the built-in defaults are in use.
+        </p>
+      )}
+
+      <div className="grid gap-5 sm:grid-cols-2">
+        <HoursField
+          label="Mighty Networks grace window"
+          hint="A confirmed MN miss stays “waiting for customer” this long after signup, then becomes an error."
+          value={draft.mightyNetworks.graceHours}
+          onChange={(v) => update("mightyNetworks", { graceHours: v })}
+        />
+        <HoursField
+          label="New-client window"
+          hint="Rows younger than this count as “new_waiting” until Active Client? evaluates to Yes."
+          value={draft.activeStatus.newWaitingHours}
+          onChange={(v) => update("activeStatus", { newWaitingHours: v })}
+        />
+        <HoursField
+          label="Missing email becomes an error after"
+          hint="Leads with every email column empty."
+          value={draft.email.missingErrorAfterHours}
+          onChange={(v) => update("email", { missingErrorAfterHours: v })}
+        />
+        <HoursField
+          label="Intercom “Not Found” becomes an error after"
+          hint="Legacy Intercom Verified = Not Found rows stay pending until then."
+          value={draft.intercom.notFoundErrorAfterHours}
+          onChange={(v) => update("intercom", { notFoundErrorAfterHours: v })}
+        />
+        <OutcomeField
+          label="Intercom “Not imported”"
+          hint="How a confirmed Intercom miss from /api/verify/intercom is classified."
+          value={draft.intercom.notImported}
+          onChange={(v) => update("intercom", { notImported: v })}
+        />
+        <OutcomeField
+          label="VendHub “NOT FOUND”"
+          hint="How a VendHub Status of NOT FOUND is classified."
+          value={draft.vendhub.notFound}
+          onChange={(v) => update("vendhub", { notFound: v })}
+        />
+      </div>
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium text-text-primary">Signals that count as “on VendHub”</legend>
+        <div className="grid gap-2 sm:grid-cols-2">
+          {data.vendhubSignals.map((sig) => (
+            <label key={sig} className="flex items-center gap-2 text-sm text-text-secondary">
+              <input
+                type="checkbox"
+                checked={draft.vendhub.successSignals.includes(sig)}
+                onChange={() => toggleSignal(sig)}
+              />
+              {SIGNAL_LABELS[sig] ?? sig}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <fieldset className="space-y-3">
+        <legend className="text-sm font-medium text-text-primary">SLA targets per step</legend>
+        <p className="text-xs text-text-muted">
+          Hours each step may take; 0 = no target. Targets add up from Date Added, so a lead on
+          Intercom is due by the Close CRM → Intercom total.
+        </p>
+        <div className="grid gap-5 sm:grid-cols-3">
+          {(Object.keys(STEP_NAMES) as StepId[]).map((step) => (
+            <HoursField
+              key={step}
+              label={STEP_NAMES[step]}
+              value={draft.sla.targetHours[step] ?? 0}
+              onChange={(v) => update("sla", { targetHours: { ...draft.sla.targetHours, [step]: v } })}
+            />
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-6">
+          <label className="flex items-center gap-2 text-sm text-text-secondary">
+            At risk with
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={Math.round(draft.sla.atRiskFraction * 100)}
+              onChange={(e) => update("sla", { atRiskFraction: Number(e.target.value) / 100 })}
+              className="w-20 rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-sm text-text-primary tabular"
+            />
+            % of the step&apos;s target left
+          </label>
+          <label className="flex items-center gap-2 text-sm text-text-secondary">
+            <input
+              type="checkbox"
+              checked={draft.sla.pauseWhileWaiting}
+              onChange={() => update("sla", { pauseWhileWaiting: !draft.sla.pauseWhileWaiting })}
+            />
+            Pause while waiting on the customer
+          </label>
+        </div>
+      </fieldset>
+
+      <fieldset className="space-y-3">
+        <legend className="text-sm font-medium text-text-primary">Pipeline per program tier</legend>
+        <p className="text-xs text-text-muted">
+          Steps a tier doesn&apos;t get are marked skipped: they never hold the lead back or count
+          as pending, unless an Onboarding Errors row is open for them. The first tier whose name appears in Program Tier Purchased / Membership Level
+          wins; other leads go through every step.
+        </p>
+        {draft.tiers.map((tier, i) => (
+          <div key={i} className="rounded-lg border border-white/10 p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={tier.match}
+                onChange={(e) => updateTier(i, { match: e.target.value })}
+                placeholder="Tier name, e.g. Community"
+                className="flex-1 rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-sm text-text-primary"
+              />
+              <button
+                type="button"
+                onClick={() => setTiers(draft.tiers.filter((_, j) => j !== i))}
+                className="text-text-muted hover:text-danger-light"
+                aria-label="Remove tier"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {(Object.keys(STEP_NAMES) as StepId[]).map((step) => (
+                <label key={step} className="flex items-center gap-2 text-xs text-text-secondary">
+                  <input
+                    type="checkbox"
+                    checked={tier.skipSteps.includes(step)}
+                    onChange={() =>
+                      updateTier(i, {
+                        skipSteps: tier.skipSteps.includes(step)
+                          ? tier.skipSteps.filter((s) => s !== step)
+                          : [...tier.skipSteps, step],
+                      })
+                    }
+                  />
+                  Skip {STEP_NAMES[step]}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setTiers([...draft.tiers, { match: "", skipSteps: [] }])}
+          className="inline-flex items-center gap-1.5 text-xs text-text-secondary hover:text-text-primary"
+        >
+          <Plus className="w-3.5 h-3.5" /> Add tier
+        </button>
+      </fieldset>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex-1 min-w-[240px] flex flex-col gap-1">
+          <span className="text-sm font-medium text-text-primary">Change note</span>
+          <input
+            type="text"
+            value={note}
+            maxLength={500}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Why are these rules changing?"
+            className="rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-sm text-text-primary"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={save}
+          disabled={saving || !data.editable}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-[#F4C71A]/10 text-[#FFD94D] border border-[#F4C71A]/30 hover:bg-[#F4C71A]/20 transition-colors text-sm font-semibold disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Save as new version
+        </button>
+        <button
+          type="button"
+          onClick={previewImpact}
+          disabled={previewing}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-xl border border-white/10 text-text-secondary hover:text-text-primary transition-colors text-sm font-semibold disabled:opacity-50"
+        >
+          {previewing ? <Loader2 className="w-4 h-4 animate-spin" /> : <FlaskConical className="w-4 h-4" />}
+          Preview impact
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-danger-light list-disc pl-5 space-y-0.5">
+          {errors.map((e) => (
+            <li key={e}>{e}</li>
+          ))}
+        </ul>
+      )}
+      {message && <p className="text-xs text-success-light">{message}</p>}
+      {preview && <ShadowReportView report={preview} />}
+
+      {data.versions.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="flex items-center gap-1.5 text-sm font-medium text-text-primary">
+            <History className="w-4 h-4" /> History
+          </h3>
+          <ul className="divide-y divide-white/5 text-xs">
+            {data.versions.map((v) => (
+              <li key={v.version} className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <span className="font-semibold text-text-primary">v{v.version}</span>
+                  {v.version === data.active.version && <span className="chip chip-success ml-2">active</span>}
+                  <span className="ml-2 text-text-muted">
+                    {fmtDate(v.createdAt)}
+                    {v.createdBy ? ` · ${v.createdBy}` : ""}
+                  </span>
+                  {v.note && <p className="text-text-secondary truncate">{v.note}</p>}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => { setDraft(stripVersion(v.rules)); setPreview(null); }}
+                  className="shrink-0 text-text-secondary hover:text-text-primary"
+                >
+                  Load into editor
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FlaskConical, Loader2 } from "lucide-react";
+import type { ClassificationRulesVersion } from "@/lib/classification-rules";
+import type { ShadowReport } from "@/lib/shadow-classifier";
+import { ShadowReportView } from "./ShadowReportView";
+
+interface ClassifierOption {
+  name: string;
+  label: string;
+  description: string;
+}
+
+/**
+ * Settings → Classifier shadow run. Picks a saved rules version and/or a
+ * registered candidate classifier and compares it with the live one.
+ */
+export function ClassifierShadowPanel() {
+  const [versions, setVersions] = useState<ClassificationRulesVersion[]>([]);
+  const [activeVersion, setActiveVersion] = useState<number | null>(null);
+  const [classifiers, setClassifiers] = useState<ClassifierOption[]>([]);
+  const [version, setVersion] = useState<string>("0");
+  const [classifier, setClassifier] = useState("live");
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<ShadowReport | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      fetch("/api/settings/classification-rules", { cache: "no-store" }).then((r) => r.json()),
+      fetch("/api/settings/classifier-shadow", { cache: "no-store" }).then((r) => r.json()),
+    ])
+      .then(([rules, shadow]) => {
+        setVersions(rules.versions ?? []);
+        setActiveVersion(rules.active?.version ?? null);
+        setClassifiers(shadow.classifiers ?? []);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load options"));
+  }, []);
+
+  const run = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const qs = new URLSearchParams({ version, classifier });
+      const res = await fetch(`/api/settings/classifier-shadow?${qs}`, { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.detail || json.error || `HTTP ${res.status}`);
+      setReport(json as ShadowReport);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Shadow run failed");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <section className="surface p-6 space-y-5">
+      <header>
+        <h2 className="text-lg font-semibold text-text-primary">Candidate</h2>
+        <p className="text-xs text-text-muted">
+          Compared against the live classifier with the active rules
+          {activeVersion !== null ? ` (version ${activeVersion})` : ""}, on one Airtable snapshot.
+        </p>
+      </header>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1">
+          <span className="text-sm font-medium text-text-primary">Rules version</span>
+          <select
+            value={version}
+            onChange={(e) => setVersion(e.target.value)}
+            className="w-60 rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-sm text-text-primary"
+          >
+            <option value="0" className="bg-canvas">Built-in defaults (v0)</option>
+            {versions.map((v) => (
+              <option key={v.version} value={String(v.version)} className="bg-canvas">
+                v{v.version}
+                {v.version === activeVersion ? " (active)" : ""}
+                {v.note ? ` — ${v.note.slice(0, 40)}` : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-sm font-medium text-text-primary">Classifier</span>
+          <select
+            value={classifier}
+            onChange={(e) => setClassifier(e.target.value)}
+            className="w-60 rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-sm text-text-primary"
+          >
+            {classifiers.map((c) => (
+              <option key={c.name} value={c.name} className="bg-canvas" title={c.description}>
+                {c.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={run}
+          disabled={running}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-[#F4C71A]/10 text-[#FFD94D] border border-[#F4C71A]/30 hover:bg-[#F4C71A]/20 transition-colors text-sm font-semibold disabled:opacity-50"
+        >
+          {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <FlaskConical className="w-4 h-4" />}
+          Run comparison
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-danger-light">{error}</p>}
+      {report && <ShadowReportView report={report} />}
+    </section>
+  );
+}
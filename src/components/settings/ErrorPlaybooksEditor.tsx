@@ -0,0 +1,370 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, History, Loader2, Plus, RotateCcw, Save, Trash2 } from "lucide-react";
+import type {
+  Playbook,
+  PlaybookAction,
+  PlaybookCatalog,
+  PlaybookCatalogVersion,
+  PlaybookLink,
+} from "@/lib/playbooks";
+
+interface PlaybooksResponse {
+  active: PlaybookCatalog;
+  versions: PlaybookCatalogVersion[];
+  defaults: PlaybookCatalog;
+  actions: PlaybookAction[];
+  editable: boolean;
+}
+
+const ACTION_LABELS: Record<PlaybookAction, string> = {
+  retry: "Retry",
+  fix_in_close: "Fix data in Close",
+  contact_customer: "Contact the customer",
+  investigate: "Investigate",
+};
+
+const PATTERN_FIELDS: { key: keyof Playbook["match"]; label: string; placeholder: string }[] = [
+  { key: "errorType", label: "Error Type", placeholder: "^Intercom" },
+  { key: "node", label: "Error Node", placeholder: "Create Contact" },
+  { key: "message", label: "Error Message", placeholder: "409|already exists" },
+];
+
+const INPUT = "rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-sm text-text-primary";
+
+function fmtDate(iso?: string): string {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? iso : d.toLocaleString();
+}
+
+function blankPlaybook(n: number): Playbook {
+  return {
+    id: `playbook-${n}`,
+    title: "",
+    match: {},
+    explanation: "",
+    cause: "",
+    action: "investigate",
+    links: [],
+  };
+}
+
+/**
+ * Settings → Error playbooks. Edits a draft of the active catalog and
+ * saves it as a new version; order matters because the first matching
+ * playbook wins. Older versions can be loaded back and re-saved.
+ */
+export function ErrorPlaybooksEditor() {
+  const [data, setData] = useState<PlaybooksResponse | null>(null);
+  const [draft, setDraft] = useState<Playbook[] | null>(null);
+  const [open, setOpen] = useState<number | null>(null);
+  const [note, setNote] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/settings/error-playbooks", { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.detail || json.error || `HTTP ${res.status}`);
+      setData(json as PlaybooksResponse);
+      setDraft((json as PlaybooksResponse).active.playbooks);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : "Failed to load playbooks"]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const save = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setErrors([]);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/settings/error-playbooks", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ playbooks: draft, note: note.trim() || undefined }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setErrors(json.errors ?? [json.detail || json.error || `HTTP ${res.status}`]);
+        return;
+      }
+      setMessage(`Saved as version ${json.saved.version}. The dashboard picks it up within 30 seconds.`);
+      setNote("");
+      await load();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const update = (index: number, patch: Partial<Playbook>) => {
+    setDraft((d) => (d ? d.map((p, i) => (i === index ? { ...p, ...patch } : p)) : d));
+  };
+
+  const move = (index: number, by: -1 | 1) => {
+    setDraft((d) => {
+      if (!d || index + by < 0 || index + by >= d.length) return d;
+      const next = d.slice();
+      [next[index], next[index + by]] = [next[index + by], next[index]];
+      return next;
+    });
+    setOpen((o) => (o === index ? index + by : o));
+  };
+
+  const updateLink = (index: number, linkIndex: number, patch: Partial<PlaybookLink>) => {
+    if (!draft) return;
+    update(index, { links: draft[index].links.map((l, j) => (j === linkIndex ? { ...l, ...patch } : l)) });
+  };
+
+  if (loading && !data) {
+    return (
+      <div className="surface p-6 flex items-center gap-2 text-sm text-text-muted">
+        <Loader2 className="w-4 h-4 animate-spin" /> Loading error playbooks…
+      </div>
+    );
+  }
+
+  if (!data || !draft) {
+    return (
+      <div className="surface p-6 text-sm text-danger-light">
+        {errors[0] ?? "Error playbooks unavailable"}
+      </div>
+    );
+  }
+
+  return (
+    <section className="surface p-6 space-y-6">
+      <header className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-text-primary">Error playbooks</h2>
+          <p className="text-xs text-text-muted">
+            Active: {data.active.version === 0 ? "built-in catalog (version 0)" : `version ${data.active.version}`}
+            {" · "}shown on errors in the lead drawer and the New Errors view
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setDraft(data.defaults.playbooks)}
+          className="inline-flex items-center gap-1.5 text-xs text-text-secondary hover:text-text-primary"
+        >
+          <RotateCcw className="w-3.5 h-3.5" /> Load defaults
+        </button>
+      </header>
+
+      {!data.editable && (
+        <p className="text-xs text-warning-light">
+          Supabase isn&apos;t configured, so playbooks can&apos;t be saved — the built-in catalog is in use.
+        </p>
+      )}
+
+      <p className="text-xs text-text-muted">
+        Patterns are case-insensitive regular expressions; every pattern a playbook sets must match
+        and empty ones match anything. Playbooks are tried top to bottom and the first match wins.
+      </p>
+
+      <ol className="space-y-2">
+        {draft.map((p, i) => (
+          <li key={i} className="rounded-lg border border-white/10">
+            <div className="flex items-center gap-2 px-3 py-2">
+              <button
+                type="button"
+                onClick={() => setOpen(open === i ? null : i)}
+                className="flex-1 min-w-0 text-left"
+              >
+                <span className="text-sm font-medium text-text-primary">{p.title || "(untitled)"}</span>
+                <span className="ml-2 text-xs text-text-muted">
+                  {ACTION_LABELS[p.action]} ·{" "}
+                  {PATTERN_FIELDS.filter((f) => p.match[f.key]).map((f) => `${f.label} /${p.match[f.key]}/`).join(" · ") ||
+                    "no patterns"}
+                </span>
+              </button>
+              <button type="button" onClick={() => move(i, -1)} disabled={i === 0} className="text-text-muted hover:text-text-primary disabled:opacity-30" aria-label="Move up">
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button type="button" onClick={() => move(i, 1)} disabled={i === draft.length - 1} className="text-text-muted hover:text-text-primary disabled:opacity-30" aria-label="Move down">
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => { setDraft(draft.filter((_, j) => j !== i)); setOpen(null); }}
+                className="text-text-muted hover:text-danger-light"
+                aria-label="Remove playbook"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            {open === i && (
+              <div className="border-t border-white/10 p-3 space-y-3">
+                <div className="grid gap-3 sm:grid-cols-3">
+                  <label className="flex flex-col gap-1">
+                    <span className="text-xs font-medium text-text-primary">Id</span>
+                    <input type="text" value={p.id} onChange={(e) => update(i, { id: e.target.value })} className={INPUT} />
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    <span className="text-xs font-medium text-text-primary">Title</span>
+                    <input type="text" value={p.title} onChange={(e) => update(i, { title: e.target.value })} className={INPUT} />
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    <span className="text-xs font-medium text-text-primary">Recommended action</span>
+                    <select
+                      value={p.action}
+                      onChange={(e) => update(i, { action: e.target.value as PlaybookAction })}
+                      className={INPUT}
+                    >
+                      {data.actions.map((a) => (
+                        <option key={a} value={a} className="bg-canvas">
+                          {ACTION_LABELS[a] ?? a}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+                <div className="grid gap-3 sm:grid-cols-3">
+                  {PATTERN_FIELDS.map((f) => (
+                    <label key={f.key} className="flex flex-col gap-1">
+                      <span className="text-xs font-medium text-text-primary">{f.label} pattern</span>
+                      <input
+                        type="text"
+                        value={p.match[f.key] ?? ""}
+                        placeholder={f.placeholder}
+                        onChange={(e) => update(i, { match: { ...p.match, [f.key]: e.target.value } })}
+                        className={`${INPUT} font-mono`}
+                      />
+                    </label>
+                  ))}
+                </div>
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs font-medium text-text-primary">What happened</span>
+                  <textarea rows={2} value={p.explanation} onChange={(e) => update(i, { explanation: e.target.value })} className={INPUT} />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs font-medium text-text-primary">Likely cause</span>
+                  <textarea rows={2} value={p.cause} onChange={(e) => update(i, { cause: e.target.value })} className={INPUT} />
+                </label>
+                <div className="space-y-2">
+                  <span className="text-xs font-medium text-text-primary">Links</span>
+                  {p.links.map((l, j) => (
+                    <div key={j} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={l.label}
+                        placeholder="Label"
+                        onChange={(e) => updateLink(i, j, { label: e.target.value })}
+                        className={`${INPUT} w-48`}
+                      />
+                      <input
+                        type="url"
+                        value={l.url}
+                        placeholder="https://…"
+                        onChange={(e) => updateLink(i, j, { url: e.target.value })}
+                        className={`${INPUT} flex-1`}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => update(i, { links: p.links.filter((_, k) => k !== j) })}
+                        className="text-text-muted hover:text-danger-light"
+                        aria-label="Remove link"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => update(i, { links: [...p.links, { label: "", url: "" }] })}
+                    className="inline-flex items-center gap-1.5 text-xs text-text-secondary hover:text-text-primary"
+                  >
+                    <Plus className="w-3.5 h-3.5" /> Add link
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+      <button
+        type="button"
+        onClick={() => { setDraft([...draft, blankPlaybook(draft.length + 1)]); setOpen(draft.length); }}
+        className="inline-flex items-center gap-1.5 text-xs text-text-secondary hover:text-text-primary"
+      >
+        <Plus className="w-3.5 h-3.5" /> Add playbook
+      </button>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex-1 min-w-[240px] flex flex-col gap-1">
+          <span className="text-sm font-medium text-text-primary">Change note</span>
+          <input
+            type="text"
+            value={note}
+            maxLength={500}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="What changed in the catalog?"
+            className={INPUT}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={save}
+          disabled={saving || !data.editable}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-[#F4C71A]/10 text-[#FFD94D] border border-[#F4C71A]/30 hover:bg-[#F4C71A]/20 transition-colors text-sm font-semibold disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Save as new version
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-danger-light list-disc pl-5 space-y-0.5">
+          {errors.map((e) => (
+            <li key={e}>{e}</li>
+          ))}
+        </ul>
+      )}
+      {message && <p className="text-xs text-success-light">{message}</p>}
+
+      {data.versions.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="flex items-center gap-1.5 text-sm font-medium text-text-primary">
+            <History className="w-4 h-4" /> History
+          </h3>
+          <ul className="divide-y divide-white/5 text-xs">
+            {data.versions.map((v) => (
+              <li key={v.version} className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <span className="font-semibold text-text-primary">v{v.version}</span>
+                  {v.version === data.active.version && <span className="chip chip-success ml-2">active</span>}
+                  <span className="ml-2 text-text-muted">
+                    {fmtDate(v.createdAt)}
+                    {v.createdBy ? ` · ${v.createdBy}` : ""}
+                    {` · ${v.catalog.playbooks.length} playbooks`}
+                  </span>
+                  {v.note && <p className="text-text-secondary truncate">{v.note}</p>}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => { setDraft(v.catalog.playbooks); setOpen(null); }}
+                  className="shrink-0 text-text-secondary hover:text-text-primary"
+                >
+                  Load into editor
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
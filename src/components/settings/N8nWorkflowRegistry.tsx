@@ -0,0 +1,145 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, RefreshCw } from "lucide-react";
+import type { WorkflowHealth, WorkflowRegistry } from "@/lib/n8n";
+import { timeAgo } from "@/lib/format";
+
+const HEALTH_CHIPS: Record<WorkflowHealth, { label: string; chip: string }> = {
+  ok: { label: "Active", chip: "chip-success" },
+  inactive: { label: "Inactive", chip: "chip-danger" },
+  missing: { label: "Missing", chip: "chip-danger" },
+  path_mismatch: { label: "Path mismatch", chip: "chip-warning" },
+  unknown: { label: "Unknown", chip: "chip-info" },
+};
+
+const N8N_EDITOR_URL = "https://n8n.aimanagingservices.com";
+
+/**
+ * Every n8n workflow the dashboard calls, checked against the live
+ * instance. A deactivated or re-pathed workflow makes every retry for its
+ * step fail with a 404, so this is the first place to look.
+ */
+export function N8nWorkflowRegistry() {
+  const [registry, setRegistry] = useState<WorkflowRegistry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/settings/n8n-workflows", { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.detail || json.error || `HTTP ${res.status}`);
+      setRegistry(json as WorkflowRegistry);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to check n8n workflows");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const problems = registry?.workflows.filter((w) => w.health !== "ok" && w.health !== "unknown").length ?? 0;
+
+  return (
+    <section className="surface p-6 space-y-4">
+      <header className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-text-primary">n8n workflows</h2>
+          <p className="text-xs text-text-muted">
+            {registry
+              ? `${registry.workflows.length} workflows the dashboard calls · checked ${timeAgo(registry.checkedAt)}`
+              : "Workflows the dashboard calls"}
+            {problems > 0 && <span className="text-danger-light"> · {problems} need attention</span>}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={load}
+          className="inline-flex items-center gap-1.5 text-xs text-text-secondary hover:text-text-primary"
+        >
+          {loading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+          Check again
+        </button>
+      </header>
+
+      {error && <p className="text-xs text-danger-light">{error}</p>}
+      {registry && !registry.apiConfigured && (
+        <p className="text-xs text-warning-light">
+          N8N_API_KEY isn&apos;t set, so deployment status can&apos;t be checked — showing the expected workflows only.
+        </p>
+      )}
+      {registry?.error && <p className="text-xs text-danger-light">{registry.error}</p>}
+
+      {registry && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="text-left text-text-muted">
+              <tr>
+                <th className="py-2 pr-3 font-medium">Workflow</th>
+                <th className="py-2 pr-3 font-medium">Webhook path</th>
+                <th className="py-2 pr-3 font-medium">Status</th>
+                <th className="py-2 pr-3 font-medium">Last execution</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {registry.workflows.map((w) => {
+                const chip = HEALTH_CHIPS[w.health];
+                return (
+                  <tr key={w.key} className="align-top">
+                    <td className="py-2 pr-3">
+                      <div className="text-text-primary">{w.label}</div>
+                      <div className="text-text-muted">{w.usedBy}</div>
+                      {w.workflow && (
+                        <a
+                          href={`${N8N_EDITOR_URL}/workflow/${w.workflow.id}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-text-secondary hover:text-text-primary"
+                        >
+                          {w.workflow.name} ↗
+                        </a>
+                      )}
+                      {!w.workflow && w.exportFile && (
+                        <div className="text-text-muted">Import scripts/n8n/{w.exportFile}</div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 font-mono break-all">
+                      <div className="text-text-secondary">{w.path}</div>
+                      {w.health === "path_mismatch" && (
+                        <div className="text-warning-light">
+                          deployed: {w.deployedPaths.length ? w.deployedPaths.join(", ") : "no webhook node"}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 whitespace-nowrap">
+                      <span className={`chip ${chip.chip}`}>{chip.label}</span>
+                    </td>
+                    <td className="py-2 pr-3 text-text-secondary whitespace-nowrap">
+                      {w.lastExecution ? (
+                        <>
+                          <span className={w.lastExecution.status === "error" || w.lastExecution.status === "crashed" ? "text-danger-light" : ""}>
+                            {w.lastExecution.status}
+                          </span>
+                          {" · "}
+                          {timeAgo(w.lastExecution.stoppedAt || w.lastExecution.startedAt)}
+                        </>
+                      ) : (
+                        <span className="text-text-muted">{w.workflow ? "never run" : "—"}</span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import type { ShadowReport, ShadowStatus } from "@/lib/shadow-classifier";
+
+const STATUS_CLASS: Partial<Record<ShadowStatus, string>> = {
+  success: "text-success-light",
+  error: "text-danger-light",
+  waiting_for_customer: "text-warning-light",
+};
+
+function versionLabel(v: number): string {
+  if (v === 0) return "defaults (v0)";
+  if (v < 0) return "unsaved draft";
+  return `v${v}`;
+}
+
+function Status({ s }: { s: ShadowStatus }) {
+  return <span className={STATUS_CLASS[s] ?? "text-text-secondary"}>{s}</span>;
+}
+
+function Transition({ from, to }: { from: ShadowStatus; to: ShadowStatus }) {
+  return (
+    <span className="font-mono text-xs">
+      <Status s={from} /> → <Status s={to} />
+    </span>
+  );
+}
+
+/**
+ * Renders a shadow comparison: transition counts (overall and per step)
+ * and the changed leads, each expandable to its per-step diff.
+ */
+export function ShadowReportView({ report }: { report: ShadowReport }) {
+  const [open, setOpen] = useState<Set<string>>(new Set());
+  const toggle = (id: string) =>
+    setOpen((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  return (
+    <div className="space-y-5">
+      <p className="text-xs text-text-muted">
+        Live: {report.live.classifier} · {versionLabel(report.live.rulesVersion)} — Candidate:{" "}
+        {report.candidate.classifier} · {versionLabel(report.candidate.rulesVersion)} — snapshot{" "}
+        {new Date(report.snapshotAt).toLocaleString()}
+      </p>
+
+      <div className="grid gap-3 sm:grid-cols-4 text-sm">
+        {[
+          ["Leads compared", report.totals.leads],
+          ["Leads changed", report.totals.changed],
+          ["Overall status changed", report.totals.overallChanged],
+          ["Step changes", report.totals.stepsChanged],
+        ].map(([label, value]) => (
+          <div key={label} className="rounded-lg border border-white/10 bg-white/5 px-3 py-2">
+            <div className="text-xs text-text-muted">{label}</div>
+            <div className="text-lg font-semibold text-text-primary tabular">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      {report.totals.changed === 0 ? (
+        <p className="text-sm text-success-light">No lead would change classification.</p>
+      ) : (
+        <>
+          <div className="grid gap-5 sm:grid-cols-2">
+            <div>
+              <h3 className="text-sm font-medium text-text-primary mb-2">Overall status transitions</h3>
+              {report.overallTransitions.length === 0 ? (
+                <p className="text-xs text-text-muted">None — only individual steps change.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {report.overallTransitions.map((t) => (
+                    <li key={`${t.from}-${t.to}`} className="flex items-center justify-between gap-3">
+                      <Transition from={t.from} to={t.to} />
+                      <span className="text-sm font-semibold text-text-primary tabular">{t.count}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <div>
+              <h3 className="text-sm font-medium text-text-primary mb-2">Step transitions</h3>
+              <ul className="space-y-1">
+                {report.stepTransitions.map((t) => (
+                  <li key={`${t.stepId}-${t.from}-${t.to}`} className="flex items-center justify-between gap-3">
+                    <span className="text-xs text-text-secondary">
+                      {t.stepId} · <Transition from={t.from} to={t.to} />
+                    </span>
+                    <span className="text-sm font-semibold text-text-primary tabular">{t.count}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-text-primary mb-2">Changed leads</h3>
+            <table className="w-full text-xs">
+              <thead className="text-text-muted text-left">
+                <tr>
+                  <th className="py-1.5 font-medium">Lead</th>
+                  <th className="py-1.5 font-medium">Overall</th>
+                  <th className="py-1.5 font-medium text-right">Steps changed</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {report.leads.map((l) => (
+                  <Fragment key={l.id}>
+                    <tr className="cursor-pointer hover:bg-white/5" onClick={() => toggle(l.id)}>
+                      <td className="py-1.5">
+                        <span className="inline-flex items-center gap-1 text-text-primary">
+                          {open.has(l.id) ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                          {l.fullName || l.id}
+                        </span>
+                        <span className="ml-5 block text-text-muted">{l.email}</span>
+                      </td>
+                      <td className="py-1.5">
+                        {l.overall ? <Transition from={l.overall.from} to={l.overall.to} /> : <span className="text-text-muted">unchanged</span>}
+                      </td>
+                      <td className="py-1.5 text-right tabular text-text-secondary">{l.steps.length}</td>
+                    </tr>
+                    {open.has(l.id) && (
+                      <tr>
+                        <td colSpan={3} className="pb-3 pl-5">
+                          <ul className="space-y-2">
+                            {l.steps.map((s) => (
+                              <li key={s.stepId}>
+                                <div className="text-text-primary">
+                                  {s.label}: <Transition from={s.from} to={s.to} />
+                                </div>
+                                <div className="text-text-muted">
+                                  Live: {s.fromRule ?? "—"}
+                                  {s.fromDetail ? ` (${s.fromDetail})` : ""}
+                                </div>
+                                <div className="text-text-muted">
+                                  Candidate: {s.toRule ?? "—"}
+                                  {s.toDetail ? ` (${s.toDetail})` : ""}
+                                </div>
+                              </li>
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
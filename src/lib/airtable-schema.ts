@@ -0,0 +1,273 @@
+/**
+ * Airtable schema registry.
+ *
+ * Knows the field names, types and select options of every table in the
+ * base, so fetchTable can drop field names Airtable would reject with
+ * UNKNOWN_FIELD_NAME instead of failing the whole request (and with it the
+ * whole dashboard).
+ *
+ * Sources, in order:
+ *   1. Live — Airtable metadata API (needs the `schema.bases:read` scope on
+ *      AIRTABLE_PAT). Cached for SCHEMA_TTL_MS.
+ *   2. Snapshot — airtable-schema.snapshot.json, checked in. Regenerate by
+ *      saving the output of GET /api/airtable/schema?format=snapshot.
+ * A table found in neither is not validated. That is never quiet: an empty
+ * snapshot is logged as an error when the live schema is unavailable, and
+ * GET /api/airtable/schema answers 500 while the snapshot is missing any
+ * table in TABLE_IDS.
+ *
+ * diffSchemas() compares the two so drift in the live base (renamed
+ * columns, removed select options) shows up before the classifier breaks.
+ */
+
+import { cache } from "./cache";
+import snapshotJson from "./airtable-schema.snapshot.json";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AirtableFieldSchema {
+  id?: string;
+  name: string;
+  /** Airtable field type, e.g. "singleLineText", "checkbox", "singleSelect". */
+  type: string;
+  /** Choice names for singleSelect / multipleSelects fields. */
+  options?: string[];
+}
+
+export interface AirtableTableSchema {
+  name: string;
+  fields: AirtableFieldSchema[];
+}
+
+export interface AirtableSchemaSnapshot {
+  baseId: string | null;
+  generatedAt: string | null;
+  /** Keyed by table ID (tblXXX). */
+  tables: Record<string, AirtableTableSchema>;
+}
+
+export type SchemaSource = "live" | "snapshot" | "none";
+
+export interface SchemaFieldChange {
+  field: string;
+  change: "added" | "removed" | "type_changed" | "options_changed";
+  snapshot?: AirtableFieldSchema;
+  live?: AirtableFieldSchema;
+  /** options_changed only. */
+  addedOptions?: string[];
+  removedOptions?: string[];
+}
+
+export interface SchemaTableDiff {
+  tableId: string;
+  tableName: string;
+  /** "missing_live": in the snapshot but not the base; "missing_snapshot": the reverse. */
+  status: "unchanged" | "changed" | "missing_live" | "missing_snapshot";
+  changes: SchemaFieldChange[];
+}
+
+interface AirtableMetaTablesResponse {
+  tables: {
+    id: string;
+    name: string;
+    fields: {
+      id: string;
+      name: string;
+      type: string;
+      options?: { choices?: { name: string }[] };
+    }[];
+  }[];
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+const AIRTABLE_PAT = process.env.AIRTABLE_PAT || "";
+const AIRTABLE_BASE_ID = process.env.AIRTABLE_BASE_ID || "";
+
+// Columns change rarely; one metadata call per 10 minutes is plenty.
+const SCHEMA_TTL_MS = 10 * 60 * 1000;
+const SCHEMA_CACHE_KEY = "airtable:meta:schema";
+
+const snapshot = snapshotJson as AirtableSchemaSnapshot;
+
+// Warn once per (table, field) per process — fetchTable runs on every poll.
+const warned = new Set<string>();
+let reportedNoSchema = false;
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/** The checked-in snapshot. */
+export function getSnapshotSchema(): AirtableSchemaSnapshot {
+  return snapshot;
+}
+
+/** The tables in `tableIds` the snapshot doesn't cover — all of them while it's empty. */
+export function snapshotGaps(tableIds: string[]): string[] {
+  return tableIds.filter((id) => !snapshot.tables[id]);
+}
+
+/**
+ * Fetch the live schema from the metadata API. Throws on failure —
+ * callers that only need "best available" should use getSchema().
+ */
+export async function fetchLiveSchema(): Promise<AirtableSchemaSnapshot> {
+  if (!AIRTABLE_PAT || !AIRTABLE_BASE_ID) {
+    throw new Error("AIRTABLE_PAT / AIRTABLE_BASE_ID not set");
+  }
+  const res = await fetch(`https://api.airtable.com/v0/meta/bases/${AIRTABLE_BASE_ID}/tables`, {
+    headers: { Authorization: `Bearer ${AIRTABLE_PAT}` },
+    cache: "no-store",
+  });
+  if (!res.ok) {
+    const body = await res.text().catch(() => "");
+    throw new Error(`Airtable metadata API ${res.status}: ${body.slice(0, 200)}`);
+  }
+  const data = (await res.json()) as AirtableMetaTablesResponse;
+  const tables: Record<string, AirtableTableSchema> = {};
+  for (const t of data.tables) {
+    tables[t.id] = {
+      name: t.name,
+      fields: t.fields.map((f) => ({
+        id: f.id,
+        name: f.name,
+        type: f.type,
+        ...(f.options?.choices ? { options: f.options.choices.map((c) => c.name) } : {}),
+      })),
+    };
+  }
+  return { baseId: AIRTABLE_BASE_ID, generatedAt: new Date().toISOString(), tables };
+}
+
+/**
+ * Best available schema: live if the metadata API answers, otherwise the
+ * snapshot. A failed live fetch is cached too so a PAT without the
+ * metadata scope doesn't cost an extra request per poll.
+ */
+export async function getSchema(): Promise<{ source: SchemaSource; schema: AirtableSchemaSnapshot }> {
+  const live = await cache.getOrLoad<AirtableSchemaSnapshot | null>(
+    SCHEMA_CACHE_KEY,
+    async () => {
+      try {
+        return await fetchLiveSchema();
+      } catch (err) {
+        console.warn("[airtable-schema] Live schema unavailable, using snapshot:", err instanceof Error ? err.message : err);
+        return null;
+      }
+    },
+    SCHEMA_TTL_MS
+  );
+  if (live) return { source: "live", schema: live };
+  if (Object.keys(snapshot.tables).length > 0) return { source: "snapshot", schema: snapshot };
+  if (!reportedNoSchema) {
+    reportedNoSchema = true;
+    console.error(
+      "[airtable-schema] No schema: the live metadata API is unavailable and airtable-schema.snapshot.json is empty, " +
+        "so field names go unvalidated. Save GET /api/airtable/schema?format=snapshot as the snapshot."
+    );
+  }
+  return { source: "none", schema: snapshot };
+}
+
+/** Schema for one table, or undefined when no source knows it. */
+export async function getTableSchema(tableId: string): Promise<AirtableTableSchema | undefined> {
+  const { schema } = await getSchema();
+  return schema.tables[tableId];
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Split requested field names into ones the table has and ones it doesn't.
+ * Unknown names are logged once per process. Without a schema for the
+ * table every name is treated as known.
+ */
+export async function partitionFields(
+  tableId: string,
+  fields: string[]
+): Promise<{ known: string[]; unknown: string[] }> {
+  const table = await getTableSchema(tableId);
+  if (!table) return { known: fields, unknown: [] };
+
+  const names = new Set(table.fields.map((f) => f.name));
+  const known: string[] = [];
+  const unknown: string[] = [];
+  for (const field of fields) {
+    if (names.has(field)) {
+      known.push(field);
+      continue;
+    }
+    unknown.push(field);
+    const warnKey = `${tableId}|${field}`;
+    if (!warned.has(warnKey)) {
+      warned.add(warnKey);
+      console.warn(`[airtable-schema] Dropping unknown field "${field}" on ${table.name} (${tableId})`);
+    }
+  }
+  return { known, unknown };
+}
+
+// ---------------------------------------------------------------------------
+// Drift report
+// ---------------------------------------------------------------------------
+
+function diffTable(tableId: string, snap: AirtableTableSchema, live: AirtableTableSchema): SchemaTableDiff {
+  const changes: SchemaFieldChange[] = [];
+  const liveByName = new Map(live.fields.map((f) => [f.name, f]));
+  const snapByName = new Map(snap.fields.map((f) => [f.name, f]));
+
+  for (const s of snap.fields) {
+    const l = liveByName.get(s.name);
+    if (!l) {
+      changes.push({ field: s.name, change: "removed", snapshot: s });
+      continue;
+    }
+    if (l.type !== s.type) {
+      changes.push({ field: s.name, change: "type_changed", snapshot: s, live: l });
+      continue;
+    }
+    const before = new Set(s.options ?? []);
+    const after = new Set(l.options ?? []);
+    const addedOptions = Array.from(after).filter((o) => !before.has(o));
+    const removedOptions = Array.from(before).filter((o) => !after.has(o));
+    if (addedOptions.length || removedOptions.length) {
+      changes.push({ field: s.name, change: "options_changed", snapshot: s, live: l, addedOptions, removedOptions });
+    }
+  }
+  for (const l of live.fields) {
+    if (!snapByName.has(l.name)) changes.push({ field: l.name, change: "added", live: l });
+  }
+
+  return {
+    tableId,
+    tableName: live.name,
+    status: changes.length ? "changed" : "unchanged",
+    changes,
+  };
+}
+
+/**
+ * Compare the snapshot with the live base, limited to `tableIds` when
+ * given (the dashboard only cares about the tables in TABLE_IDS).
+ */
+export function diffSchemas(
+  snap: AirtableSchemaSnapshot,
+  live: AirtableSchemaSnapshot,
+  tableIds?: string[]
+): SchemaTableDiff[] {
+  const ids = tableIds ?? Array.from(new Set([...Object.keys(snap.tables), ...Object.keys(live.tables)]));
+  return ids.map((tableId) => {
+    const s = snap.tables[tableId];
+    const l = live.tables[tableId];
+    if (s && l) return diffTable(tableId, s, l);
+    if (l) return { tableId, tableName: l.name, status: "missing_snapshot" as const, changes: [] };
+    return { tableId, tableName: s?.name ?? tableId, status: "missing_live" as const, changes: [] };
+  });
+}
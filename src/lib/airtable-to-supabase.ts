@@ -8,21 +8,11 @@
  */
 
 import type { AirtableRecord } from "./airtable";
+import { ClientRecord, coalesceEmail, decodeClient, isTruthy } from "./records";
 
 const SUPA_URL = (process.env.SUPABASE_URL || "").replace(/\/$/, "");
 const SUPA_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || "";
 
-function truthy(v: unknown): boolean {
-  if (v === undefined || v === null || v === "") return false;
-  if (typeof v === "boolean") return v;
-  if (typeof v === "string") {
-    const s = v.trim().toLowerCase();
-    return !["0", "no", "false", "n", "not sent"].includes(s);
-  }
-  if (typeof v === "number") return v !== 0;
-  return Boolean(v);
-}
-
 type PresenceRow = {
   lead_id: string;
   platform: "close" | "airtable" | "mighty" | "intercom" | "vendhub";
@@ -66,42 +56,27 @@ function buildRowsFromAirtable(records: AirtableRecord[]): {
   let skipped = 0;
   for (const r of records) {
     const f = r.fields as Record<string, unknown>;
-    // Coalesce email across the four columns the Clients table uses.
-    // Falls back to "Best Email" for any leftover Student Onboarding rows.
-    const email = ((
-      (f["Personal Email"] as string) ||
-      (f["Email"] as string) ||
-      (f["Business Email"] as string) ||
-      (f["vendhub_email"] as string) ||
-      (f["Best Email"] as string) ||
-      ""
-    ) || "").trim().toLowerCase();
+    // Same email coalescing as the classifier (see EMAIL_FIELDS).
+    const email = coalesceEmail(f).toLowerCase();
     if (!email) {
       skipped++;
       continue;
     }
-    const cidRaw = (f["Client ID"] ?? f["Client ID*"]);
-    const cidStr = cidRaw !== undefined && cidRaw !== null ? String(cidRaw) : "";
+    const c = decodeClient(r);
     const row = {
       email,
-      full_name: (f["Full Name"] as string) || null,
-      program_tier:
-        (f["Program Tier Purchased"] as string) ||
-        (f["Membership Level (Text)"] as string) ||
-        (f["Membership Level"] as string) ||
-        null,
-      sales_rep: (f["Sales Rep"] as string) || null,
+      full_name: c.fullName || null,
+      program_tier: c.programTier ?? null,
+      sales_rep: c.salesRep ?? null,
       // Only the legacy Student Onboarding shape carries Close lead_* ids.
       // The Clients table now also has a dedicated Close Lead ID column.
-      close_lead_id:
-        ((f["Close Lead ID"] as string) || "").trim() ||
-        (cidStr.startsWith("lead_") ? cidStr : null),
+      close_lead_id: c.closeLeadId ?? null,
       airtable_id: r.id,
-      mn_invite_id: f["MN Invite ID"] ? String(f["MN Invite ID"]) : null,
-      mn_member_id: f["MN Member ID"] ? String(f["MN Member ID"]) : null,
-      intercom_contact_id: (f["Intercom Contact ID"] as string) || null,
-      vendhub_user_id: (f["VendHub User ID"] as string) || null,
-      vendhub_org: (f["VendHub Organization"] as string) || null,
+      mn_invite_id: c.mnInviteId ?? null,
+      mn_member_id: c.mnMemberId ?? null,
+      intercom_contact_id: c.intercomContactId ?? null,
+      vendhub_user_id: c.vendhubUserId ?? null,
+      vendhub_org: c.vendhubOrganization ?? null,
       _raw: f,
       _airtable_id: r.id,
     };
@@ -116,11 +91,8 @@ function buildRowsFromAirtable(records: AirtableRecord[]): {
   return { leads: byEmail, skippedNoEmail: skipped };
 }
 
-function presenceRowsFor(
-  leadId: string,
-  f: Record<string, unknown>,
-  airtableId: string
-): PresenceRow[] {
+function presenceRowsFor(leadId: string, c: ClientRecord): PresenceRow[] {
+  const airtableId = c.id;
   const out: PresenceRow[] = [];
   const make = (
     platform: PresenceRow["platform"],
@@ -138,20 +110,20 @@ function presenceRowsFor(
 
   // Airtable presence — the row exists, so they're tracked.
   out.push(
-    make("airtable", truthy(f["Archived"]) ? "missing" : "member", {
+    make("airtable", c.archived ? "missing" : "member", {
       external_id: airtableId,
-      joined_at: (f["Date Added"] as string) || (f["Create Date"] as string) || null,
+      joined_at: c.createdAt ?? null,
     })
   );
 
   // Close — populate when the legacy lead_* prefix is present, otherwise
   // treat membership as implied by being a paying client (the Clients
   // table only contains closed deals).
-  const cid = (f["Client ID"] as string) || "";
-  const hubspotDealId = (f["Hubspot Deal ID"] as number | undefined) || 0;
+  const cid = c.clientId || "";
+  const hubspotDealId = c.hubspotDealId || 0;
   if (cid.startsWith("lead_")) {
     out.push(make("close", "member", { external_id: cid }));
-  } else if (hubspotDealId && Number(hubspotDealId) > 0) {
+  } else if (hubspotDealId > 0) {
     out.push(make("close", "member", { external_id: `hs_${hubspotDealId}` }));
   } else {
     out.push(make("close", "member", { external_id: airtableId }));
@@ -160,16 +132,16 @@ function presenceRowsFor(
   // Mighty Networks — real source of truth is On Mighty Networks/MN Member ID
   // populated by /api/verify/mighty-networks. Skool is a separate platform
   // and is NOT used as a proxy.
-  const onMN = ((f["On Mighty Networks"] as string) || "").toLowerCase();
-  const mnMemberId = f["MN Member ID"] ? String(f["MN Member ID"]) : null;
-  const mnJoinDate = (f["MN Join Date"] as string) || null;
-  const mnVerifiedLegacy = ((f["MN Verified"] as string) || "").toLowerCase();
+  const onMN = (c.onMightyNetworks || "").toLowerCase();
+  const mnMemberId = c.mnMemberId ?? null;
+  const mnJoinDate = c.mnJoinDate ?? null;
+  const mnVerifiedLegacy = (c.mnVerified || "").toLowerCase();
   let mnStatus: PresenceRow["status"] | null = null;
   if (onMN === "verified" || onMN === "yes" || mnMemberId) {
     mnStatus = "member";
   } else if (["member", "joined", "active"].includes(mnVerifiedLegacy)) {
     mnStatus = "member";
-  } else if (onMN === "waiting" || truthy(f["MN Invite Granted"]) || truthy(f["MN Invite ID"])) {
+  } else if (onMN === "waiting" || c.mnInviteGranted || isTruthy(c.mnInviteId)) {
     mnStatus = "invited";
   } else if (onMN === "not imported" || onMN === "no") {
     mnStatus = "missing";
@@ -178,7 +150,7 @@ function presenceRowsFor(
     out.push(
       make("mighty", mnStatus, {
         // Real MN member id from API takes priority over the invite id.
-        external_id: mnMemberId || (f["MN Invite ID"] ? String(f["MN Invite ID"]) : null),
+        external_id: mnMemberId || c.mnInviteId || null,
         joined_at: mnJoinDate,
       })
     );
@@ -186,10 +158,10 @@ function presenceRowsFor(
 
   // Intercom — real source of truth is Intercom Synced + Intercom Contact ID
   // populated by /api/verify/intercom.
-  const icSynced = ((f["Intercom Synced"] as string) || "").toLowerCase();
-  const icContactId = (f["Intercom Contact ID"] as string) || null;
-  const icVerifiedAt = (f["Intercom Verified At"] as string) || null;
-  const icVerifiedLegacy = (f["Intercom Verified"] as string) || "";
+  const icSynced = (c.intercomSynced || "").toLowerCase();
+  const icContactId = c.intercomContactId ?? null;
+  const icVerifiedAt = c.intercomVerifiedAt ?? null;
+  const icVerifiedLegacy = c.intercomVerified || "";
   let icStatus: PresenceRow["status"] | null = null;
   if (icSynced === "verified" || icSynced === "yes" || icContactId) {
     icStatus = "member";
@@ -199,7 +171,7 @@ function presenceRowsFor(
     icStatus = "invited";
   } else if (icSynced === "not imported" || icSynced === "no") {
     icStatus = "missing";
-  } else if (truthy(f["Intercome Failed?"])) {
+  } else if (c.intercomFailed) {
     icStatus = "failed";
   }
   if (icStatus) {
@@ -213,23 +185,22 @@ function presenceRowsFor(
 
   // VendHub — Clients table uses On Vendstack / in_vendhub / Has Machine
   // formula instead of the Status enum.
-  const vh = ((f["VendHub Status"] as string) || "").toUpperCase();
+  const vh = (c.vendhubStatus || "").toUpperCase();
   const vhMap: Record<string, PresenceRow["status"]> = {
     ACTIVE: "member",
     PENDING: "invited",
     CANCELED: "failed",
     "NOT FOUND": "missing",
   };
-  const onVendstack = ((f["On Vendstack"] as string) || "").toLowerCase() === "yes";
-  const inVendhubFlag = truthy(f["in_vendhub"]);
-  const hasMachine = ((f["Has Machine"] as string) || "").toLowerCase() === "yes";
-  const invitedToVH = truthy(f["Invited to VendHUB"]) || truthy(f["invited_to_vendhub"]);
-  const machinesPlaced = Number(f["Machines Placed"]) || 0;
-  const participation = Number(f["Vendhub Participation"]) || 0;
-  const dataSyncLinks = f["VendHub Data Sync"];
-  const hasDataSyncLink = Array.isArray(dataSyncLinks) && dataSyncLinks.length > 0;
+  const onVendstack = c.onVendstack;
+  const inVendhubFlag = c.inVendhub;
+  const hasMachine = c.hasMachine;
+  const invitedToVH = c.invitedToVendhub;
+  const machinesPlaced = c.machinesPlaced;
+  const participation = c.vendhubParticipation;
+  const hasDataSyncLink = c.vendhubDataSyncIds.length > 0;
   if (vhMap[vh]) {
-    out.push(make("vendhub", vhMap[vh], { external_id: (f["VendHub User ID"] as string) || null }));
+    out.push(make("vendhub", vhMap[vh], { external_id: c.vendhubUserId ?? null }));
   } else if (
     onVendstack ||
     inVendhubFlag ||
@@ -238,17 +209,13 @@ function presenceRowsFor(
     participation > 0 ||
     hasDataSyncLink
   ) {
-    out.push(make("vendhub", "member", { external_id: (f["VendHub User ID"] as string) || null }));
+    out.push(make("vendhub", "member", { external_id: c.vendhubUserId ?? null }));
   } else if (invitedToVH) {
     out.push(make("vendhub", "invited", { external_id: null }));
   }
   return out;
 }
 
-function isTruthy(v: unknown): boolean {
-  return truthy(v);
-}
-
 async function supaBulkUpsert(
   table: string,
   onConflict: string,
@@ -314,7 +281,7 @@ export async function syncRecordsToSupabase(
   for (const [email, row] of leads) {
     const leadId = idByEmail[email];
     if (!leadId) continue;
-    presences.push(...presenceRowsFor(leadId, row._raw, row._airtable_id));
+    presences.push(...presenceRowsFor(leadId, decodeClient({ id: row._airtable_id, fields: row._raw })));
   }
 
   // 4. Bulk upsert presences
@@ -1,9 +1,12 @@
 /**
  * Airtable API client with caching, auto-pagination, and rate-limit handling.
  * All table fetches are cached for 5 minutes via the in-memory cache.
+ * Writes (create / update / upsert) are batched and share the same retry
+ * logic, and invalidate only the written table's cache entries.
  */
 
-import { cache, DEFAULT_TTL_MS } from "./cache";
+import { partitionFields } from "./airtable-schema";
+import { cache, DEFAULT_STALE_MS, DEFAULT_TTL_MS } from "./cache";
 
 // ---------------------------------------------------------------------------
 // Configuration
@@ -17,6 +20,11 @@ const AIRTABLE_API_URL = "https://api.airtable.com/v0";
 const MAX_RETRIES = 5;
 const INITIAL_RETRY_DELAY_MS = 1000;
 
+// Airtable accepts at most 10 records per create/update request and 5
+// requests per second per base.
+const WRITE_BATCH_SIZE = 10;
+const WRITE_BATCH_DELAY_MS = 200;
+
 // ---------------------------------------------------------------------------
 // Table ID map  (human-readable name -> Airtable table ID)
 // ---------------------------------------------------------------------------
@@ -57,6 +65,14 @@ export function resolveTableId(tableNameOrId: string): string {
 // Types
 // ---------------------------------------------------------------------------
 
+/** Thrown when Airtable answers with a non-2xx status we don't retry. */
+export class AirtableApiError extends Error {
+  constructor(public status: number, body: string) {
+    super(`Airtable API error ${status}: ${body}`);
+    this.name = "AirtableApiError";
+  }
+}
+
 export interface AirtableRecord {
   id: string;
   fields: Record<string, unknown>;
@@ -68,6 +84,41 @@ interface AirtableListResponse {
   offset?: string;
 }
 
+export interface AirtableWriteRecord {
+  /** Required for updates; omitted for creates and upserts. */
+  id?: string;
+  fields: Record<string, unknown>;
+}
+
+interface AirtableWriteResponse {
+  records: AirtableRecord[];
+  createdRecords?: string[];
+  updatedRecords?: string[];
+}
+
+export interface AirtableWriteOptions {
+  /** Let Airtable coerce strings into select options, dates, etc. */
+  typecast?: boolean;
+}
+
+export interface AirtableUpsertOptions extends AirtableWriteOptions {
+  /** Fields Airtable matches existing records on (performUpsert). */
+  fieldsToMergeOn: string[];
+}
+
+export interface AirtableWriteResult {
+  /** Records Airtable returned for every batch that succeeded. */
+  records: AirtableRecord[];
+  /**
+   * Batches that still failed after retries. `ids` holds "" for records
+   * without an id (creates / upserts). `status` is 0 on network errors.
+   */
+  failures: { ids: string[]; status: number; error: string }[];
+  /** Upserts only: ids of records Airtable created vs updated. */
+  createdRecords?: string[];
+  updatedRecords?: string[];
+}
+
 export interface FetchTableOptions {
   fields?: string[];
   filterByFormula?: string;
@@ -76,6 +127,11 @@ export interface FetchTableOptions {
   view?: string;
   /** Override default cache TTL (ms). Set to 0 to bypass cache. */
   cacheTtl?: number;
+  /**
+   * How long (ms) past the TTL a cached result may be served while a
+   * background refresh runs. Defaults to DEFAULT_STALE_MS; 0 disables.
+   */
+  staleTtl?: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -95,6 +151,13 @@ function buildCacheKey(tableId: string, options?: FetchTableOptions): string {
   return parts.join("|");
 }
 
+/**
+ * Cache tag shared by every fetchTable entry for one table.
+ */
+function tableCacheTag(tableId: string): string {
+  return `table:${tableId}`;
+}
+
 /**
  * Sleep helper for retry back-off.
  */
@@ -103,16 +166,29 @@ function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Make a single GET request to the Airtable API with retry-on-429 logic.
+ * Make a single request to the Airtable API with retry-on-429 logic.
+ * Shared by reads and writes so every call backs off the same way.
+ *
+ * Server errors (5xx) are retried too unless `retryServerErrors` is false —
+ * record creation opts out, since a 5xx there may still have written rows.
  */
-async function airtableGet(url: string): Promise<AirtableListResponse> {
+async function airtableRequest<T>(
+  url: string,
+  init?: { method?: string; body?: unknown; retryServerErrors?: boolean }
+): Promise<T> {
   let lastError: Error | null = null;
+  const retryServerErrors = init?.retryServerErrors ?? true;
 
   for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${AIRTABLE_PAT}`,
+    };
+    if (init?.body !== undefined) headers["Content-Type"] = "application/json";
+
     const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${AIRTABLE_PAT}`,
-      },
+      method: init?.method ?? "GET",
+      headers,
+      body: init?.body !== undefined ? JSON.stringify(init.body) : undefined,
     });
 
     // Rate limited -- back off and retry
@@ -121,36 +197,92 @@ async function airtableGet(url: string): Promise<AirtableListResponse> {
       const delayMs = retryAfter
         ? parseInt(retryAfter, 10) * 1000
         : INITIAL_RETRY_DELAY_MS * Math.pow(2, attempt);
+      lastError = new AirtableApiError(429, "rate limited");
       await sleep(delayMs);
       continue;
     }
 
     if (!response.ok) {
       const body = await response.text().catch(() => "");
-      lastError = new Error(
-        `Airtable API error ${response.status}: ${body}`
-      );
+      lastError = new AirtableApiError(response.status, body);
       // For server errors, retry; for client errors, bail immediately
-      if (response.status >= 500) {
+      if (response.status >= 500 && retryServerErrors) {
         await sleep(INITIAL_RETRY_DELAY_MS * Math.pow(2, attempt));
         continue;
       }
       throw lastError;
     }
 
-    return (await response.json()) as AirtableListResponse;
+    return (await response.json()) as T;
   }
 
   throw lastError ?? new Error("Airtable request failed after max retries");
 }
 
+/**
+ * Make a single GET request to the Airtable API with retry-on-429 logic.
+ */
+async function airtableGet(url: string): Promise<AirtableListResponse> {
+  return airtableRequest<AirtableListResponse>(url);
+}
+
+/**
+ * Send `records` to the table in batches of 10 (Airtable's per-request cap),
+ * pacing batches to stay under the 5 req/s base limit. A batch that still
+ * fails after retries is reported in `failures`; the remaining batches are
+ * still attempted. The table's cache entries are invalidated afterwards.
+ */
+async function writeInBatches(
+  tableNameOrId: string,
+  method: "POST" | "PATCH",
+  records: AirtableWriteRecord[],
+  extraBody: Record<string, unknown>
+): Promise<AirtableWriteResult> {
+  const tableId = resolveTableId(tableNameOrId);
+  const url = `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/${tableId}`;
+  const result: AirtableWriteResult = { records: [], failures: [] };
+  if (records.length === 0) return result;
+
+  for (let i = 0; i < records.length; i += WRITE_BATCH_SIZE) {
+    const chunk = records.slice(i, i + WRITE_BATCH_SIZE);
+    try {
+      const data = await airtableRequest<AirtableWriteResponse>(url, {
+        method,
+        body: { records: chunk, ...extraBody },
+        retryServerErrors: method === "PATCH",
+      });
+      result.records.push(...data.records);
+      if (data.createdRecords) {
+        result.createdRecords = [...(result.createdRecords ?? []), ...data.createdRecords];
+      }
+      if (data.updatedRecords) {
+        result.updatedRecords = [...(result.updatedRecords ?? []), ...data.updatedRecords];
+      }
+    } catch (err) {
+      result.failures.push({
+        ids: chunk.map((r) => r.id ?? ""),
+        status: err instanceof AirtableApiError ? err.status : 0,
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+    }
+    if (i + WRITE_BATCH_SIZE < records.length) await sleep(WRITE_BATCH_DELAY_MS);
+  }
+
+  await invalidateTableCache(tableId);
+  return result;
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
 
 /**
  * Fetch records from an Airtable table with automatic pagination.
- * Results are cached for 5 minutes by default.
+ * Results are cached for DEFAULT_TTL_MS and tagged by table.
+ *
+ * Requested `fields` and `sort` fields are checked against the schema
+ * registry first; names the table doesn't have are dropped with a warning
+ * rather than letting Airtable reject the request with UNKNOWN_FIELD_NAME.
  *
  * @param tableNameOrId - Human-readable name (e.g. "clients") or raw table ID
  * @param options - Optional fields, filter, maxRecords, sort, view, cacheTtl
@@ -162,14 +294,49 @@ export async function fetchTable(
 ): Promise<AirtableRecord[]> {
   const tableId = resolveTableId(tableNameOrId);
   const ttl = options?.cacheTtl ?? DEFAULT_TTL_MS;
-  const cacheKey = buildCacheKey(tableId, options);
+  options = await dropUnknownFields(tableId, options);
+
+  if (ttl <= 0) return fetchTableUncached(tableId, options);
+
+  // Concurrent polls for the same key share one Airtable request, and an
+  // entry just past its TTL is served while it refreshes in the background.
+  // The table tag lets invalidateTableCache drop only this table's entries.
+  return cache.getOrLoad(
+    buildCacheKey(tableId, options),
+    () => fetchTableUncached(tableId, options),
+    ttl,
+    { tags: [tableCacheTag(tableId)], staleMs: options?.staleTtl ?? DEFAULT_STALE_MS }
+  );
+}
 
-  // Check cache first (unless ttl is 0)
-  if (ttl > 0) {
-    const cached = cache.get<AirtableRecord[]>(cacheKey);
-    if (cached) return cached;
-  }
+/**
+ * Remove field names the schema registry says the table doesn't have.
+ */
+async function dropUnknownFields(
+  tableId: string,
+  options?: FetchTableOptions
+): Promise<FetchTableOptions | undefined> {
+  if (!options?.fields?.length && !options?.sort?.length) return options;
+
+  const requested = [...(options.fields ?? []), ...(options.sort ?? []).map((s) => s.field)];
+  const { unknown } = await partitionFields(tableId, requested);
+  if (unknown.length === 0) return options;
+
+  const drop = new Set(unknown);
+  return {
+    ...options,
+    fields: options.fields?.filter((f) => !drop.has(f)),
+    sort: options.sort?.filter((s) => !drop.has(s.field)),
+  };
+}
 
+/**
+ * Page through a table on the Airtable API. No caching.
+ */
+async function fetchTableUncached(
+  tableId: string,
+  options?: FetchTableOptions
+): Promise<AirtableRecord[]> {
   // Build the base URL
   const baseUrl = `${AIRTABLE_API_URL}/${AIRTABLE_BASE_ID}/${tableId}`;
   const allRecords: AirtableRecord[] = [];
@@ -218,17 +385,9 @@ export async function fetchTable(
   } while (offset);
 
   // Trim to maxRecords if we over-fetched on the last page
-  const result =
-    options?.maxRecords && allRecords.length > options.maxRecords
-      ? allRecords.slice(0, options.maxRecords)
-      : allRecords;
-
-  // Cache the result
-  if (ttl > 0) {
-    cache.set(cacheKey, result, ttl);
-  }
-
-  return result;
+  return options?.maxRecords && allRecords.length > options.maxRecords
+    ? allRecords.slice(0, options.maxRecords)
+    : allRecords;
 }
 
 /**
@@ -243,18 +402,74 @@ export async function fetchAllRecords(
   return fetchTable(tableNameOrId, { fields, filterByFormula });
 }
 
+/**
+ * Create records in batches of 10.
+ *
+ * @param tableNameOrId - Human-readable name (e.g. "clients") or raw table ID
+ * @param records - Field maps for the new records
+ * @param options - typecast
+ */
+export async function createRecords(
+  tableNameOrId: string,
+  records: { fields: Record<string, unknown> }[],
+  options?: AirtableWriteOptions
+): Promise<AirtableWriteResult> {
+  return writeInBatches(
+    tableNameOrId,
+    "POST",
+    records.map((r) => ({ fields: r.fields })),
+    { typecast: options?.typecast ?? false }
+  );
+}
+
+/**
+ * Update existing records (PATCH — only the given fields change) in
+ * batches of 10. A batch that hits a 429 backs off and retries, so one
+ * rate-limited batch doesn't drop its rows; see writeInBatches.
+ */
+export async function updateRecords(
+  tableNameOrId: string,
+  records: { id: string; fields: Record<string, unknown> }[],
+  options?: AirtableWriteOptions
+): Promise<AirtableWriteResult> {
+  return writeInBatches(tableNameOrId, "PATCH", records, {
+    typecast: options?.typecast ?? false,
+  });
+}
+
+/**
+ * Update-or-create records matched on `fieldsToMergeOn` (Airtable's
+ * performUpsert), in batches of 10.
+ */
+export async function upsertRecords(
+  tableNameOrId: string,
+  records: { fields: Record<string, unknown> }[],
+  options: AirtableUpsertOptions
+): Promise<AirtableWriteResult> {
+  return writeInBatches(
+    tableNameOrId,
+    "PATCH",
+    records.map((r) => ({ fields: r.fields })),
+    {
+      typecast: options.typecast ?? false,
+      performUpsert: { fieldsToMergeOn: options.fieldsToMergeOn },
+    }
+  );
+}
+
 /**
  * Invalidate the cache for a specific table (all option combinations).
- * Useful after a write operation that changes the data.
+ * Called automatically by the write helpers above; routes call it directly
+ * when some other system (n8n, a webhook) changed the data.
  */
-export function invalidateTableCache(tableNameOrId: string): void {
+export async function invalidateTableCache(tableNameOrId: string): Promise<void> {
   const tableId = resolveTableId(tableNameOrId);
-  // Since we cannot enumerate keys matching a prefix in Map efficiently,
-  // we clear the entire cache. This is acceptable because the cache is
-  // only used for short-lived dashboard queries.
-  cache.clear();
+  // Only this table's entries go — other tables and the /api/stats
+  // aggregate stay warm. With the shared backend this reaches every
+  // instance, not just this one.
+  const removed = await cache.invalidateTag(tableCacheTag(tableId));
   // Log for observability in development
   if (process.env.NODE_ENV === "development") {
-    console.log(`[airtable] Cache cleared after invalidation for ${tableId}`);
+    console.log(`[airtable] Invalidated ${removed} cache entries for ${tableId}`);
   }
 }
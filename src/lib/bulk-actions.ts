@@ -0,0 +1,362 @@
+/**
+ * Bulk actions over a selection of leads: resubmit a step, resolve
+ * errors, snooze. Backs POST /api/onboarding/bulk.
+ *
+ * Resubmit and resolve go through the same routes as the per-lead
+ * buttons (/api/onboarding/resubmit, /errors/resolve), so retry history,
+ * Close id backfill and idempotency all apply. Calls run a few at a time;
+ * when a route answers 429 / 503 or n8n reports a rate limit, every
+ * worker pauses for Retry-After (or a backoff) before trying again.
+ * Past RUN_DEADLINE_MS no new lead is started, so the run always ends
+ * with a summary inside the route's maxDuration; leads it didn't reach
+ * are reported as skipped. A bulk resolve is one undoable batch
+ * (src/lib/resolve-batches.ts).
+ */
+
+import { canResubmit, RESUBMIT_STEPS } from "./design-adapter";
+import { fetchPipeline, type LeadPipeline, type StepId } from "./pipeline";
+import { newBatchId } from "./resolve-batches";
+import { snoozeLeads } from "./snooze";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type BulkAction = "resubmit" | "resolve" | "snooze";
+
+export interface BulkRequest {
+  action: BulkAction;
+  /** Dashboard lead ids (LeadPipeline.id). */
+  leadIds: string[];
+  /** resubmit: the step to retry, or "failed" for each lead's errored steps. */
+  step?: StepId | "failed";
+  /** snooze: hours from now. */
+  snoozeHours?: number;
+}
+
+export type BulkItemStatus = "running" | "ok" | "failed" | "skipped";
+
+export interface BulkItem {
+  leadId: string;
+  label: string;
+  status: BulkItemStatus;
+  message?: string;
+  /** Steps the action touched for this lead. */
+  steps?: StepId[];
+  /** Calls made, counting rate-limit retries. */
+  attempts?: number;
+}
+
+export interface BulkSummary {
+  action: BulkAction;
+  total: number;
+  ok: number;
+  failed: number;
+  skipped: number;
+  durationMs: number;
+  /** Times the run paused for a rate limit. */
+  throttled: number;
+  /** Leads skipped because the run ran out of time (counted in `skipped`). */
+  notStarted: number;
+  /** resolve: the batch to pass to /api/onboarding/resolve-all/undo. */
+  batchId?: string;
+}
+
+/** One line of the NDJSON stream. */
+export type BulkEvent =
+  | { type: "start"; action: BulkAction; total: number }
+  | { type: "item"; item: BulkItem }
+  | { type: "summary"; summary: BulkSummary; items: BulkItem[] }
+  | { type: "error"; message: string };
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Largest selection one request accepts. */
+export const BULK_MAX_LEADS = 200;
+const CONCURRENCY = 4;
+/** Calls per lead step, counting retries after a rate limit. */
+const MAX_ATTEMPTS = 3;
+const CALL_TIMEOUT_MS = 30 * 1000;
+const BACKOFF_BASE_MS = 2 * 1000;
+const BACKOFF_MAX_MS = 30 * 1000;
+/**
+ * No lead or step starts after this. /api/onboarding/bulk allows 300s; the
+ * rest covers calls already in flight (CALL_TIMEOUT_MS each, plus retries).
+ */
+const RUN_DEADLINE_MS = 200 * 1000;
+const OUT_OF_TIME = "Not started: the run ran out of time";
+/** Recorded as the actor in each lead's retry history. */
+const ACTOR = "bulk";
+
+interface CallResult {
+  ok: boolean;
+  status: number;
+  message: string;
+  /** How long to wait before trying again, set only when the call was rate limited. */
+  retryAfterMs?: number;
+}
+
+/** Pauses every worker while a rate limit is in force. */
+class Throttle {
+  private until = 0;
+  count = 0;
+
+  hold(ms: number) {
+    const until = Date.now() + ms;
+    if (until > this.until) {
+      this.until = until;
+      this.count++;
+    }
+  }
+
+  async wait() {
+    for (let ms = this.until - Date.now(); ms > 0; ms = this.until - Date.now()) {
+      await new Promise((r) => setTimeout(r, ms));
+    }
+  }
+}
+
+function backoffMs(attempt: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempt - 1), BACKOFF_MAX_MS);
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(header);
+  return Number.isFinite(at) ? Math.max(0, at - Date.now()) : undefined;
+}
+
+/**
+ * 429 / 503 from the route, or n8n's own 429 passed through. A 409 (the
+ * same resubmit already running, see idempotency.ts) is not retried: the
+ * other call is doing the work.
+ */
+function isThrottled(status: number, body: { status?: number }): boolean {
+  return status === 429 || status === 503 || body.status === 429;
+}
+
+async function post(origin: string, path: string, payload: unknown): Promise<CallResult> {
+  let res: Response;
+  try {
+    res = await fetch(`${origin}${path}`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "Idempotency-Key": crypto.randomUUID(),
+        "x-actor": ACTOR,
+      },
+      body: JSON.stringify(payload),
+      cache: "no-store",
+      signal: AbortSignal.timeout(CALL_TIMEOUT_MS),
+    });
+  } catch (err) {
+    return { ok: false, status: 0, message: err instanceof Error ? err.message : "request failed" };
+  }
+  const body = (await res.json().catch(() => ({}))) as { success?: boolean; message?: string; status?: number };
+  const ok = res.ok && body.success !== false;
+  return {
+    ok,
+    status: res.status,
+    message: body.message || (ok ? "OK" : `HTTP ${res.status}`),
+    retryAfterMs: !ok && isThrottled(res.status, body) ? parseRetryAfter(res.headers.get("retry-after")) ?? 0 : undefined,
+  };
+}
+
+/** POST with rate-limit retries; returns the last answer and the number of calls made. */
+async function postWithRetry(
+  origin: string,
+  path: string,
+  payload: unknown,
+  throttle: Throttle
+): Promise<CallResult & { attempts: number }> {
+  let result: CallResult = { ok: false, status: 0, message: "not attempted" };
+  let attempt = 0;
+  while (attempt < MAX_ATTEMPTS) {
+    attempt++;
+    await throttle.wait();
+    result = await post(origin, path, payload);
+    if (result.ok || result.retryAfterMs === undefined) break;
+    if (attempt < MAX_ATTEMPTS) throttle.hold(Math.max(result.retryAfterMs, backoffMs(attempt)));
+  }
+  return { ...result, attempts: attempt };
+}
+
+function errorSteps(lead: LeadPipeline): StepId[] {
+  return lead.steps.filter((s) => s.status === "error").map((s) => s.id);
+}
+
+function labelOf(lead: LeadPipeline): string {
+  return lead.fullName || lead.email || lead.id;
+}
+
+/** Same body the board's Retry button sends. */
+function resubmitBody(lead: LeadPipeline, step: StepId) {
+  return {
+    leadRecordId: lead.id,
+    step,
+    errorRecordId: lead.steps.find((s) => s.id === step)?.errorRecordId,
+    context: {
+      fullName: lead.fullName,
+      email: lead.email,
+      clientId: lead.clientId,
+      programTier: lead.programTier,
+    },
+  };
+}
+
+/** Same body the per-lead "Mark resolved" button sends, tagged with the run's batch. */
+function resolveBody(lead: LeadPipeline, step: StepId, batchId: string) {
+  return {
+    batchId,
+    leadRecordId: lead.id,
+    email: lead.email,
+    leadId: lead.clientId,
+    step,
+    errorRecordId: lead.steps.find((s) => s.id === step)?.errorRecordId,
+    note: `Resolved in bulk from dashboard at ${new Date().toISOString()}`,
+  };
+}
+
+/** Run the action's route calls for one lead, one step at a time. */
+async function runLead(
+  origin: string,
+  action: Exclude<BulkAction, "snooze">,
+  lead: LeadPipeline,
+  step: StepId | "failed",
+  throttle: Throttle,
+  batchId: string,
+  deadline: number
+): Promise<BulkItem> {
+  const base = { leadId: lead.id, label: labelOf(lead) };
+  // "failed" retries only the errored steps that have a resubmit workflow.
+  const steps =
+    action === "resolve" ? errorSteps(lead) : step === "failed" ? errorSteps(lead).filter(canResubmit) : [step];
+  if (steps.length === 0) {
+    return { ...base, status: "skipped", message: action === "resolve" ? "No open errors" : "No open errors to resubmit" };
+  }
+
+  const path = action === "resubmit" ? "/api/onboarding/resubmit" : "/api/onboarding/errors/resolve";
+  const failures: string[] = [];
+  let attempts = 0;
+  for (const s of steps) {
+    if (Date.now() > deadline) {
+      failures.push(`${s}: ${OUT_OF_TIME}`);
+      continue;
+    }
+    const payload = action === "resubmit" ? resubmitBody(lead, s) : resolveBody(lead, s, batchId);
+    const result = await postWithRetry(origin, path, payload, throttle);
+    attempts += result.attempts;
+    if (!result.ok) failures.push(`${s}: ${result.message}`);
+  }
+  return {
+    ...base,
+    status: failures.length ? "failed" : "ok",
+    message: failures.length ? failures.join(" · ") : undefined,
+    steps,
+    attempts,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Why a request can't run, or null when it's valid. */
+export function validateBulkRequest(body: Partial<BulkRequest>): string | null {
+  if (body.action !== "resubmit" && body.action !== "resolve" && body.action !== "snooze") {
+    return "action must be one of: resubmit, resolve, snooze";
+  }
+  if (!Array.isArray(body.leadIds) || body.leadIds.length === 0) return "leadIds must be a non-empty array";
+  if (body.leadIds.length > BULK_MAX_LEADS) return `At most ${BULK_MAX_LEADS} leads per bulk action`;
+  if (body.action === "resubmit" && body.step !== "failed" && !canResubmit(body.step)) {
+    return `resubmit needs a step (one of: failed, ${[...RESUBMIT_STEPS].join(", ")})`;
+  }
+  if (body.action === "snooze" && !(Number(body.snoozeHours) > 0)) return "snooze needs snoozeHours > 0";
+  return null;
+}
+
+/**
+ * Run a bulk action, reporting each lead as it starts and finishes.
+ * Resolves with the summary (also emitted as the last event).
+ */
+export async function runBulkAction(
+  origin: string,
+  request: BulkRequest,
+  emit: (event: BulkEvent) => void
+): Promise<BulkSummary> {
+  const started = Date.now();
+  const deadline = started + RUN_DEADLINE_MS;
+  const ids = Array.from(new Set(request.leadIds));
+  emit({ type: "start", action: request.action, total: ids.length });
+
+  const items: BulkItem[] = [];
+  const finish = (item: BulkItem) => {
+    items.push(item);
+    emit({ type: "item", item });
+  };
+
+  const throttle = new Throttle();
+  const batchId = newBatchId();
+  const pipeline = await fetchPipeline();
+  const byId = new Map(pipeline.map((l) => [l.id, l]));
+  let notStarted = 0;
+
+  if (request.action === "snooze") {
+    const known = ids.filter((id) => byId.has(id));
+    for (const id of ids) if (!byId.has(id)) finish({ leadId: id, label: id, status: "skipped", message: "Lead not found" });
+    if (known.length) {
+      try {
+        const until = await snoozeLeads(known, Number(request.snoozeHours), { by: ACTOR });
+        const message = `Snoozed until ${until}`;
+        for (const id of known) finish({ leadId: id, label: labelOf(byId.get(id)!), status: "ok", message });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Snooze failed";
+        for (const id of known) finish({ leadId: id, label: labelOf(byId.get(id)!), status: "failed", message });
+      }
+    }
+  } else {
+    const action = request.action;
+    const step = request.step ?? "failed";
+    let next = 0;
+    const worker = async () => {
+      while (next < ids.length) {
+        const id = ids[next++];
+        const lead = byId.get(id);
+        if (!lead) {
+          finish({ leadId: id, label: id, status: "skipped", message: "Lead not found" });
+          continue;
+        }
+        if (Date.now() > deadline) {
+          notStarted++;
+          finish({ leadId: id, label: labelOf(lead), status: "skipped", message: OUT_OF_TIME });
+          continue;
+        }
+        emit({ type: "item", item: { leadId: id, label: labelOf(lead), status: "running" } });
+        try {
+          finish(await runLead(origin, action, lead, step, throttle, batchId, deadline));
+        } catch (err) {
+          finish({ leadId: id, label: labelOf(lead), status: "failed", message: err instanceof Error ? err.message : "failed" });
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, ids.length) }, worker));
+  }
+
+  const summary: BulkSummary = {
+    action: request.action,
+    total: ids.length,
+    ok: items.filter((i) => i.status === "ok").length,
+    failed: items.filter((i) => i.status === "failed").length,
+    skipped: items.filter((i) => i.status === "skipped").length,
+    durationMs: Date.now() - started,
+    throttled: throttle.count,
+    notStarted,
+    batchId: request.action === "resolve" ? batchId : undefined,
+  };
+  emit({ type: "summary", summary, items });
+  return summary;
+}
@@ -0,0 +1,104 @@
+/**
+ * Shared cache backend on Supabase (Postgres) — see
+ * scripts/supabase/002_cache.sql for the `cache_entries` table.
+ *
+ * Every serverless instance reads and writes the same rows, so a tag
+ * invalidation after an Airtable write is visible everywhere on the next
+ * read. Failures are logged and treated as cache misses: a Supabase outage
+ * makes the dashboard slower, not broken.
+ */
+
+import type { CacheBackend, CacheEntry } from "./cache";
+import { supaDelete, supaSelect, supaUpsert } from "./supabase";
+
+const TABLE = "cache_entries";
+
+interface CacheRow {
+  key: string;
+  value: unknown;
+  tags: string[];
+  expires_at: string;
+  stale_until: string;
+}
+
+/** Quote a tag for a PostgREST array literal, e.g. {"table:tblXXX"}. */
+function arrayLiteral(tag: string): string {
+  return `{"${tag.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"}`;
+}
+
+export class SupabaseCacheBackend implements CacheBackend {
+  readonly name = "supabase";
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      const { rows } = await supaSelect<CacheRow>({
+        path: TABLE,
+        query: {
+          key: `eq.${key}`,
+          // Rows past their stale window are dead; let the sweep remove them.
+          stale_until: `gt.${new Date().toISOString()}`,
+          select: "key,value,tags,expires_at,stale_until",
+          limit: 1,
+        },
+      });
+      const row = rows[0];
+      if (!row) return undefined;
+      return {
+        value: row.value as T,
+        expiresAt: Date.parse(row.expires_at),
+        staleUntil: Date.parse(row.stale_until),
+        tags: row.tags ?? [],
+      };
+    } catch (err) {
+      console.warn(`[cache:supabase] get ${key} failed:`, err);
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    try {
+      await supaUpsert(
+        TABLE,
+        [
+          {
+            key,
+            value: entry.value,
+            tags: entry.tags,
+            expires_at: new Date(entry.expiresAt).toISOString(),
+            stale_until: new Date(entry.staleUntil).toISOString(),
+          },
+        ],
+        { onConflict: "key" }
+      );
+    } catch (err) {
+      console.warn(`[cache:supabase] set ${key} failed:`, err);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      return (await supaDelete(TABLE, { key: `eq.${key}`, select: "key" })) > 0;
+    } catch (err) {
+      console.warn(`[cache:supabase] delete ${key} failed:`, err);
+      return false;
+    }
+  }
+
+  async deleteByTag(tag: string): Promise<number> {
+    try {
+      return await supaDelete(TABLE, { tags: `cs.${arrayLiteral(tag)}`, select: "key" });
+    } catch (err) {
+      console.warn(`[cache:supabase] deleteByTag ${tag} failed:`, err);
+      return 0;
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      // PostgREST refuses an unfiltered DELETE; match every row instead.
+      await supaDelete(TABLE, { key: "not.is.null", select: "key" });
+    } catch (err) {
+      console.warn("[cache:supabase] clear failed:", err);
+    }
+  }
+}
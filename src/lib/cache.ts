@@ -1,11 +1,61 @@
 /**
- * Simple in-memory cache with configurable TTL (Time To Live).
+ * Cache with configurable TTL (Time To Live) and a pluggable storage backend.
  * Used to cache Airtable responses and computed dashboard stats.
+ *
+ * Entries can carry tags (e.g. `table:tblXXX`) so a write can invalidate
+ * exactly the entries derived from one table. `getOrLoad` adds single-flight
+ * loading and stale-while-revalidate on top of get/set.
+ *
+ * Backends (CACHE_BACKEND env):
+ *   memory   — per-process Map (default). Invalidations only reach the
+ *              serverless instance that handled the request.
+ *   supabase — shared `cache_entries` table (scripts/supabase/002_cache.sql)
+ *              via PostgREST, so an invalidation on one instance is seen by
+ *              every other instance on its next read.
+ *
+ * The single-flight de-dupe is per instance with either backend: concurrent
+ * misses on different serverless instances each run their own loader.
  */
 
+import { SupabaseCacheBackend } from "./cache-supabase";
+import { isSupabaseConfigured } from "./supabase";
+
 interface CacheEntry<T> {
   value: T;
   expiresAt: number;
+  /** Past expiresAt but before this, getOrLoad serves the value while refreshing. */
+  staleUntil: number;
+  tags: string[];
+}
+
+/**
+ * Storage behind the cache. Backends store entries as given — TTL and
+ * stale-window decisions are made by the Cache wrapper. Shared backends
+ * should degrade to a miss (not throw) when their store is unreachable.
+ */
+export interface CacheBackend {
+  readonly name: string;
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  /** Delete every entry carrying `tag`; returns how many were removed. */
+  deleteByTag(tag: string): Promise<number>;
+  clear(): Promise<void>;
+}
+
+export interface CacheSetOptions {
+  /** Tags used by invalidateTag() to find this entry. */
+  tags?: string[];
+  /**
+   * Extra time (ms) after the TTL during which getOrLoad may serve the old
+   * value while a background refresh runs. Default 0 (no stale serving).
+   */
+  staleMs?: number;
+}
+
+interface InFlight {
+  promise: Promise<unknown>;
+  tags: string[];
 }
 
 // Short TTL so the dashboard feels near-real-time. Each Airtable read is
@@ -14,22 +64,112 @@ interface CacheEntry<T> {
 // /api/onboarding/notify to invalidate caches between polls.
 const DEFAULT_TTL_MS = 8 * 1000; // 8 seconds — matches dashboard poll interval
 
-class MemoryCache {
+// How long past the TTL an Airtable read may still be served while a
+// refresh runs in the background. Invalidated entries are never served.
+const DEFAULT_STALE_MS = 60 * 1000;
+
+// The memory backend sweeps out dead entries once per this many sets
+// rather than scanning the whole Map on every write.
+const PRUNE_EVERY_SETS = 100;
+
+/**
+ * Per-process backend: a Map plus a tag -> keys index.
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = "memory";
   private store: Map<string, CacheEntry<unknown>> = new Map();
+  private tagIndex: Map<string, Set<string>> = new Map();
+  private setsSincePrune = 0;
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    return this.store.get(key) as CacheEntry<T> | undefined;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.remove(key);
+    this.store.set(key, entry);
+    for (const tag of entry.tags) {
+      let keys = this.tagIndex.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.tagIndex.set(tag, keys);
+      }
+      keys.add(key);
+    }
+    if (++this.setsSincePrune >= PRUNE_EVERY_SETS) this.prune();
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.remove(key);
+  }
+
+  async deleteByTag(tag: string): Promise<number> {
+    const keys = this.tagIndex.get(tag);
+    if (!keys) return 0;
+    let removed = 0;
+    for (const key of Array.from(keys)) {
+      if (this.remove(key)) removed++;
+    }
+    this.tagIndex.delete(tag);
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    this.store.clear();
+    this.tagIndex.clear();
+  }
 
   /**
-   * Get a cached value by key.
-   * Returns undefined if the key does not exist or has expired.
+   * Get the number of entries currently stored (including expired).
    */
-  get<T>(key: string): T | undefined {
-    const entry = this.store.get(key) as CacheEntry<T> | undefined;
-    if (!entry) return undefined;
+  get size(): number {
+    return this.store.size;
+  }
 
-    if (Date.now() > entry.expiresAt) {
-      this.store.delete(key);
-      return undefined;
+  /**
+   * Remove all entries that are past both their TTL and stale window.
+   */
+  prune(): void {
+    this.setsSincePrune = 0;
+    const now = Date.now();
+    for (const [key, entry] of Array.from(this.store.entries())) {
+      if (now > entry.staleUntil) this.remove(key);
     }
+  }
 
+  /** Remove one entry and its tag-index references. */
+  private remove(key: string): boolean {
+    const entry = this.store.get(key);
+    if (!entry) return false;
+    this.store.delete(key);
+    for (const tag of entry.tags) {
+      const keys = this.tagIndex.get(tag);
+      if (!keys) continue;
+      keys.delete(key);
+      if (keys.size === 0) this.tagIndex.delete(tag);
+    }
+    return true;
+  }
+}
+
+class Cache {
+  /** key -> load currently running for it in this instance (single-flight, not shared across instances) */
+  private inFlight: Map<string, InFlight> = new Map();
+
+  constructor(private backend: CacheBackend) {}
+
+  /** Which backend is active — surfaced by diagnostics endpoints. */
+  get backendName(): string {
+    return this.backend.name;
+  }
+
+  /**
+   * Get a cached value by key.
+   * Returns undefined if the key does not exist or has expired.
+   */
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = await this.backend.get<T>(key);
+    if (!entry || Date.now() > entry.expiresAt) return undefined;
     return entry.value;
   }
 
@@ -37,66 +177,138 @@ class MemoryCache {
    * Set a value in cache with optional TTL override.
    * @param key - Cache key
    * @param value - Value to cache
-   * @param ttlMs - Time to live in milliseconds (default: 5 minutes)
+   * @param ttlMs - Time to live in milliseconds (default: 8 seconds)
+   * @param options - Tags and stale window
    */
-  set<T>(key: string, value: T, ttlMs: number = DEFAULT_TTL_MS): void {
-    this.store.set(key, {
+  async set<T>(
+    key: string,
+    value: T,
+    ttlMs: number = DEFAULT_TTL_MS,
+    options?: CacheSetOptions
+  ): Promise<void> {
+    const expiresAt = Date.now() + ttlMs;
+    await this.backend.set(key, {
       value,
-      expiresAt: Date.now() + ttlMs,
+      expiresAt,
+      staleUntil: expiresAt + (options?.staleMs ?? 0),
+      tags: options?.tags ?? [],
     });
   }
 
   /**
-   * Invalidate (remove) a specific key from the cache.
+   * Return the cached value, or run `loader` to produce it.
+   *
+   * - Concurrent callers in this instance share one loader call; other
+   *   instances run their own, even with the shared backend.
+   * - An expired entry still inside its stale window is returned at once
+   *   and refreshed in the background; a failed refresh keeps the old value.
    */
-  invalidate(key: string): boolean {
-    return this.store.delete(key);
+  async getOrLoad<T>(
+    key: string,
+    loader: () => Promise<T>,
+    ttlMs: number = DEFAULT_TTL_MS,
+    options?: CacheSetOptions
+  ): Promise<T> {
+    const running = this.inFlight.get(key);
+    if (running) return running.promise as Promise<T>;
+
+    const entry = await this.backend.get<T>(key);
+    const now = Date.now();
+
+    if (entry && now <= entry.expiresAt) return entry.value;
+
+    if (entry && now <= entry.staleUntil) {
+      this.load(key, loader, ttlMs, options).catch((err) => {
+        console.warn(`[cache] Background refresh failed for ${key}:`, err);
+      });
+      return entry.value;
+    }
+
+    return this.load(key, loader, ttlMs, options);
   }
 
   /**
-   * Clear all entries from the cache.
+   * Run (or join) the single in-flight load for `key` and cache its result.
+   * If the key or one of its tags is invalidated while the load is running,
+   * the result is returned to callers but not cached — it may predate the
+   * write that triggered the invalidation.
    */
-  clear(): void {
-    this.store.clear();
+  private load<T>(
+    key: string,
+    loader: () => Promise<T>,
+    ttlMs: number,
+    options?: CacheSetOptions
+  ): Promise<T> {
+    const running = this.inFlight.get(key);
+    if (running) return running.promise as Promise<T>;
+
+    const record: InFlight = { promise: Promise.resolve(), tags: options?.tags ?? [] };
+    const promise = (async () => {
+      try {
+        const value = await loader();
+        if (this.inFlight.get(key) === record) await this.set(key, value, ttlMs, options);
+        return value;
+      } finally {
+        if (this.inFlight.get(key) === record) this.inFlight.delete(key);
+      }
+    })();
+    record.promise = promise;
+    this.inFlight.set(key, record);
+    return promise;
   }
 
   /**
-   * Check if a key exists and has not expired.
+   * Invalidate (remove) a specific key from the cache.
    */
-  has(key: string): boolean {
-    const entry = this.store.get(key);
-    if (!entry) return false;
+  async invalidate(key: string): Promise<boolean> {
+    this.inFlight.delete(key);
+    return this.backend.delete(key);
+  }
 
-    if (Date.now() > entry.expiresAt) {
-      this.store.delete(key);
-      return false;
+  /**
+   * Invalidate every entry carrying `tag`, and detach any in-flight load
+   * for it so a result fetched before the invalidation isn't cached.
+   * Returns the number of entries removed.
+   */
+  async invalidateTag(tag: string): Promise<number> {
+    for (const [key, running] of Array.from(this.inFlight.entries())) {
+      if (running.tags.includes(tag)) this.inFlight.delete(key);
     }
-
-    return true;
+    return this.backend.deleteByTag(tag);
   }
 
   /**
-   * Get the number of entries currently in the cache (including expired).
-   * Call prune() first for an accurate count of live entries.
+   * Clear all entries from the cache.
    */
-  get size(): number {
-    return this.store.size;
+  async clear(): Promise<void> {
+    this.inFlight.clear();
+    await this.backend.clear();
   }
 
   /**
-   * Remove all expired entries from the cache.
+   * Check if a key exists and has not expired.
    */
-  prune(): void {
-    const now = Date.now();
-    for (const [key, entry] of this.store.entries()) {
-      if (now > entry.expiresAt) {
-        this.store.delete(key);
-      }
-    }
+  async has(key: string): Promise<boolean> {
+    return (await this.get(key)) !== undefined;
+  }
+}
+
+/**
+ * Pick the backend from CACHE_BACKEND. Falls back to memory (with a
+ * warning) when the shared backend is requested but not configured.
+ */
+function createBackend(): CacheBackend {
+  const requested = (process.env.CACHE_BACKEND || "memory").toLowerCase();
+  if (requested === "supabase") {
+    if (isSupabaseConfigured()) return new SupabaseCacheBackend();
+    console.warn("[cache] CACHE_BACKEND=supabase but Supabase is not configured — using memory");
+  } else if (requested !== "memory") {
+    console.warn(`[cache] Unknown CACHE_BACKEND "${requested}" — using memory`);
   }
+  return new MemoryCacheBackend();
 }
 
 // Singleton instance shared across the application
-export const cache = new MemoryCache();
-export { DEFAULT_TTL_MS };
+export const cache = new Cache(createBackend());
+export { DEFAULT_TTL_MS, DEFAULT_STALE_MS };
 export type { CacheEntry };
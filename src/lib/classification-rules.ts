@@ -0,0 +1,330 @@
+/**
+ * Onboarding classification rules — the policy knobs derivePipeline uses
+ * (grace windows, which signals count as "on VendHub", whether a confirmed
+ * miss is our error or the customer's move, per-step SLA targets, which
+ * steps each program tier goes through).
+ *
+ * Rules are versioned rows in Supabase (`classification_rules`, see
+ * scripts/supabase/003_classification_rules.sql) and edited from the
+ * Settings page. Saving never updates a row — it appends a new version, so
+ * every LeadPipeline can say which version classified it and older
+ * versions stay available to restore. Version 0 is the built-in
+ * DEFAULT_RULES, used until something is saved or when Supabase is down.
+ */
+
+import { cache } from "./cache";
+import type { StepId } from "./pipeline";
+import { isSupabaseConfigured, supaSelect, supaUpsert } from "./supabase";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** VendHub signals that can each mark the VendHub step successful. */
+export type VendhubSignal =
+  | "on_vendstack"
+  | "in_vendhub"
+  | "has_machine"
+  | "machines_placed"
+  | "participation"
+  | "data_sync"
+  | "app_access";
+
+/** How a confirmed "not on the platform" answer is classified. */
+export type MissOutcome = "error" | "waiting_for_customer";
+
+/** A program tier whose pipeline leaves some steps out. */
+export interface TierPipeline {
+  /** Case-insensitive substring of the lead's program tier (Program Tier Purchased / Membership Level). */
+  match: string;
+  /** Steps the tier doesn't get — classified "skipped". */
+  skipSteps: StepId[];
+}
+
+export interface ClassificationRules {
+  /** 0 = built-in defaults; saved versions start at 1; -1 = unsaved draft. */
+  version: number;
+  mightyNetworks: {
+    /** Hours after signup a confirmed MN miss stays "waiting" before it's an error. */
+    graceHours: number;
+  };
+  email: {
+    /** Hours after signup a lead with no email at all becomes an error. */
+    missingErrorAfterHours: number;
+  };
+  intercom: {
+    /** Intercom Synced = "Not imported" / "No". */
+    notImported: MissOutcome;
+    /** Legacy Intercom Verified = "Not Found": pending until this, then an error. */
+    notFoundErrorAfterHours: number;
+  };
+  vendhub: {
+    successSignals: VendhubSignal[];
+    /** VendHub Status = "NOT FOUND". */
+    notFound: MissOutcome;
+  };
+  activeStatus: {
+    /** Rows younger than this without `⚙️ Active Client?` = Yes are "new_waiting". */
+    newWaitingHours: number;
+  };
+  sla: {
+    /**
+     * Hours each step may take, 0 = no target. Budgets add up along the
+     * pipeline from Date Added: a lead at step N is due by Date Added +
+     * the targets of steps 1..N.
+     */
+    targetHours: Record<StepId, number>;
+    /** At risk once less than this fraction of the current step's target is left. */
+    atRiskFraction: number;
+    /** Don't evaluate the SLA while the current step is waiting on the customer. */
+    pauseWhileWaiting: boolean;
+  };
+  /**
+   * Per-tier pipeline definitions, first match wins. Leads whose tier
+   * matches nothing go through every step.
+   */
+  tiers: TierPipeline[];
+}
+
+/** Rules minus the version — what an editor submits. */
+export type ClassificationRulesInput = Omit<ClassificationRules, "version">;
+
+export interface ClassificationRulesVersion {
+  version: number;
+  rules: ClassificationRules;
+  note?: string;
+  createdBy?: string;
+  createdAt?: string;
+}
+
+interface RulesRow {
+  version: number;
+  rules: Partial<ClassificationRulesInput>;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// ---------------------------------------------------------------------------
+// Defaults
+// ---------------------------------------------------------------------------
+
+export const VENDHUB_SIGNALS: VendhubSignal[] = [
+  "on_vendstack",
+  "in_vendhub",
+  "has_machine",
+  "machines_placed",
+  "participation",
+  "data_sync",
+  "app_access",
+];
+
+/** The rules derivePipeline shipped with before they became editable. */
+export const DEFAULT_RULES: ClassificationRules = {
+  version: 0,
+  mightyNetworks: { graceHours: 14 * 24 },
+  email: { missingErrorAfterHours: 24 },
+  intercom: { notImported: "error", notFoundErrorAfterHours: 48 },
+  vendhub: { successSignals: [...VENDHUB_SIGNALS], notFound: "waiting_for_customer" },
+  activeStatus: { newWaitingHours: 72 },
+  sla: {
+    targetHours: {
+      close_crm: 1,
+      email_validation: 1,
+      airtable_record: 1,
+      welcome_email: 24,
+      mighty_networks: 24,
+      intercom: 24,
+      vendhub: 72,
+      kickoff_call: 168,
+    },
+    atRiskFraction: 0.25,
+    pauseWhileWaiting: true,
+  },
+  tiers: [],
+};
+
+/** Version stamped on rules that haven't been saved (shadow comparisons). */
+export const DRAFT_RULES_VERSION = -1;
+
+const TABLE = "classification_rules";
+const RULES_CACHE_KEY = "classification:rules:active";
+const RULES_CACHE_TAG = "classification-rules";
+// Short enough that a save on one instance reaches the others quickly
+// even with the memory cache backend.
+const RULES_TTL_MS = 30 * 1000;
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+const MISS_OUTCOMES: MissOutcome[] = ["error", "waiting_for_customer"];
+
+function hours(value: unknown, path: string, errors: string[]): number {
+  const n = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(n) || n < 0 || n > 24 * 365) {
+    errors.push(`${path} must be a number of hours between 0 and 8760`);
+    return 0;
+  }
+  return n;
+}
+
+function fraction(value: unknown, path: string, errors: string[]): number {
+  const n = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(n) || n < 0 || n > 1) {
+    errors.push(`${path} must be a number between 0 and 1`);
+    return 0;
+  }
+  return n;
+}
+
+function tierPipelines(value: unknown, errors: string[]): TierPipeline[] {
+  if (!Array.isArray(value)) {
+    errors.push("tiers must be a list");
+    return [];
+  }
+  const steps = Object.keys(DEFAULT_RULES.sla.targetHours) as StepId[];
+  return value.map((t, i) => {
+    const match = typeof t?.match === "string" ? t.match.trim() : "";
+    if (!match) errors.push(`tiers[${i}].match must be a non-empty tier name`);
+    const skip: unknown[] = Array.isArray(t?.skipSteps) ? t.skipSteps : [];
+    const unknown = skip.filter((s) => !steps.includes(s as StepId));
+    if (unknown.length) errors.push(`tiers[${i}].skipSteps has unknown steps: ${unknown.join(", ")}`);
+    if (skip.length >= steps.length) errors.push(`tiers[${i}] can't skip every step`);
+    return { match, skipSteps: steps.filter((s) => skip.includes(s)) };
+  });
+}
+
+function outcome(value: unknown, path: string, errors: string[]): MissOutcome {
+  if (MISS_OUTCOMES.includes(value as MissOutcome)) return value as MissOutcome;
+  errors.push(`${path} must be one of ${MISS_OUTCOMES.join(", ")}`);
+  return "error";
+}
+
+/**
+ * Validate an editor submission. Missing sections fall back to the
+ * defaults so older clients can't save a half-empty rule set.
+ */
+export function validateRules(input: unknown): { rules?: ClassificationRulesInput; errors: string[] } {
+  if (!input || typeof input !== "object") return { errors: ["rules must be an object"] };
+  const r = withDefaults(input as Partial<ClassificationRulesInput>);
+  const errors: string[] = [];
+
+  const signals = Array.isArray(r.vendhub.successSignals) ? r.vendhub.successSignals : [];
+  const unknown = signals.filter((s) => !VENDHUB_SIGNALS.includes(s));
+  if (unknown.length) errors.push(`vendhub.successSignals has unknown signals: ${unknown.join(", ")}`);
+  if (signals.length === 0) errors.push("vendhub.successSignals needs at least one signal");
+
+  const rules: ClassificationRulesInput = {
+    mightyNetworks: { graceHours: hours(r.mightyNetworks.graceHours, "mightyNetworks.graceHours", errors) },
+    email: { missingErrorAfterHours: hours(r.email.missingErrorAfterHours, "email.missingErrorAfterHours", errors) },
+    intercom: {
+      notImported: outcome(r.intercom.notImported, "intercom.notImported", errors),
+      notFoundErrorAfterHours: hours(r.intercom.notFoundErrorAfterHours, "intercom.notFoundErrorAfterHours", errors),
+    },
+    vendhub: {
+      successSignals: Array.from(new Set(signals)),
+      notFound: outcome(r.vendhub.notFound, "vendhub.notFound", errors),
+    },
+    activeStatus: { newWaitingHours: hours(r.activeStatus.newWaitingHours, "activeStatus.newWaitingHours", errors) },
+    sla: {
+      targetHours: Object.fromEntries(
+        (Object.keys(DEFAULT_RULES.sla.targetHours) as StepId[]).map((step) => [
+          step,
+          hours(r.sla.targetHours[step], `sla.targetHours.${step}`, errors),
+        ])
+      ) as Record<StepId, number>,
+      atRiskFraction: fraction(r.sla.atRiskFraction, "sla.atRiskFraction", errors),
+      pauseWhileWaiting: r.sla.pauseWhileWaiting !== false,
+    },
+    tiers: tierPipelines(r.tiers, errors),
+  };
+  return errors.length ? { errors } : { rules, errors };
+}
+
+/** Fill sections a stored version predates with the current defaults. */
+function withDefaults(r: Partial<ClassificationRulesInput>): ClassificationRulesInput {
+  return {
+    mightyNetworks: { ...DEFAULT_RULES.mightyNetworks, ...r.mightyNetworks },
+    email: { ...DEFAULT_RULES.email, ...r.email },
+    intercom: { ...DEFAULT_RULES.intercom, ...r.intercom },
+    vendhub: { ...DEFAULT_RULES.vendhub, ...r.vendhub },
+    activeStatus: { ...DEFAULT_RULES.activeStatus, ...r.activeStatus },
+    sla: {
+      ...DEFAULT_RULES.sla,
+      ...r.sla,
+      targetHours: { ...DEFAULT_RULES.sla.targetHours, ...r.sla?.targetHours },
+    },
+    tiers: r.tiers ?? DEFAULT_RULES.tiers,
+  };
+}
+
+function fromRow(row: RulesRow): ClassificationRulesVersion {
+  return {
+    version: row.version,
+    rules: { ...withDefaults(row.rules ?? {}), version: row.version },
+    note: row.note ?? undefined,
+    createdBy: row.created_by ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+/**
+ * The rules new classifications should use: the latest saved version, or
+ * DEFAULT_RULES when nothing is saved / Supabase is unavailable.
+ */
+export async function getActiveRules(): Promise<ClassificationRules> {
+  if (!isSupabaseConfigured()) return DEFAULT_RULES;
+  return cache.getOrLoad(
+    RULES_CACHE_KEY,
+    async () => {
+      try {
+        const [latest] = await listRuleVersions(1);
+        return latest?.rules ?? DEFAULT_RULES;
+      } catch (err) {
+        console.warn("[classification-rules] Falling back to defaults:", err instanceof Error ? err.message : err);
+        return DEFAULT_RULES;
+      }
+    },
+    RULES_TTL_MS,
+    { tags: [RULES_CACHE_TAG] }
+  );
+}
+
+/** Saved versions, newest first. */
+export async function listRuleVersions(limit = 20): Promise<ClassificationRulesVersion[]> {
+  const { rows } = await supaSelect<RulesRow>({
+    path: TABLE,
+    query: { select: "version,rules,note,created_by,created_at", order: "version.desc", limit },
+  });
+  return rows.map(fromRow);
+}
+
+/** One saved version, or undefined. Version 0 returns the defaults. */
+export async function getRuleVersion(version: number): Promise<ClassificationRules | undefined> {
+  if (version === 0) return DEFAULT_RULES;
+  const { rows } = await supaSelect<RulesRow>({
+    path: TABLE,
+    query: { select: "version,rules,note,created_by,created_at", version: `eq.${version}`, limit: 1 },
+  });
+  return rows[0] ? fromRow(rows[0]).rules : undefined;
+}
+
+/** Append a new version and make it active. */
+export async function saveRules(
+  rules: ClassificationRulesInput,
+  meta?: { note?: string; actor?: string }
+): Promise<ClassificationRulesVersion> {
+  const [row] = await supaUpsert<RulesRow>(
+    TABLE,
+    [{ rules, note: meta?.note || null, created_by: meta?.actor || null }],
+    { returning: true }
+  );
+  if (!row) throw new Error("Supabase did not return the saved rules version");
+  await cache.invalidateTag(RULES_CACHE_TAG);
+  return fromRow(row);
+}
@@ -9,6 +9,8 @@
  * operations don't have to repeat the lookup.
  */
 
+import { updateRecords } from "./airtable";
+
 const CLOSE_API_KEY = process.env.CLOSE_API_KEY || "";
 const AIRTABLE_PAT = process.env.AIRTABLE_PAT || "";
 const AIRTABLE_BASE = process.env.AIRTABLE_BASE_ID || "";
@@ -137,26 +139,11 @@ export async function backfillCloseLeadId(
       id,
       fields: { "Close Lead ID": closeLeadId },
     }));
-    const res = await fetch(
-      `https://api.airtable.com/v0/${AIRTABLE_BASE}/${tableId}`,
-      {
-        method: "PATCH",
-        headers: {
-          Authorization: `Bearer ${AIRTABLE_PAT}`,
-          "content-type": "application/json",
-        },
-        body: JSON.stringify({ records, typecast: true }),
-      }
-    );
-    if (!res.ok) {
-      failures.push({
-        table: tableId,
-        status: res.status,
-        body: (await res.text()).slice(0, 200),
-      });
-      return 0;
+    const result = await updateRecords(tableId, records, { typecast: true });
+    for (const f of result.failures) {
+      failures.push({ table: tableId, status: f.status, body: f.error.slice(0, 200) });
     }
-    return ids.length;
+    return result.records.length;
   };
 
   const [clientIds, studentIds] = await Promise.all([
@@ -4,7 +4,8 @@
  * design while letting every piece of the backend stay unchanged.
  */
 
-import type { LeadPipeline, StepId } from "./pipeline";
+import type { LeadPipeline, LeadSla, StepId, StepTrace } from "./pipeline";
+import type { PlaybookMatch } from "./playbooks";
 import { timeAgo } from "./format";
 import type { PlatformId } from "@/components/design/PlatformLogos";
 
@@ -22,20 +23,41 @@ export const DESIGN_STAGES: DesignStage[] = [
   { id: "close",    num: "01", title: "Close CRM",        role: "Lead won",         platform: "close",    stepId: "close_crm" },
   { id: "email",    num: "02", title: "Email validation", role: "Verified",         platform: "email",    stepId: "email_validation" },
   { id: "airtable", num: "03", title: "Airtable",         role: "Student + Client", platform: "airtable", stepId: "airtable_record" },
-  { id: "mighty",   num: "04", title: "Mighty Networks",  role: "Community invite", platform: "mighty",   stepId: "mighty_networks" },
-  { id: "intercom", num: "05", title: "Intercom",         role: "Contact synced",   platform: "intercom", stepId: "intercom" },
-  { id: "vendhub",  num: "06", title: "VendHub",          role: "Operator live",    platform: "vendhub",  stepId: "vendhub" },
+  { id: "welcome",  num: "04", title: "Welcome email",    role: "Sent",             platform: "welcome",  stepId: "welcome_email" },
+  { id: "mighty",   num: "05", title: "Mighty Networks",  role: "Community invite", platform: "mighty",   stepId: "mighty_networks" },
+  { id: "intercom", num: "06", title: "Intercom",         role: "Contact synced",   platform: "intercom", stepId: "intercom" },
+  { id: "vendhub",  num: "07", title: "VendHub",          role: "Operator live",    platform: "vendhub",  stepId: "vendhub" },
+  { id: "kickoff",  num: "08", title: "Kickoff call",     role: "Call held",        platform: "kickoff",  stepId: "kickoff_call" },
 ];
 
-export type DesignTimelineStatus = "done" | "current" | "error" | "pending";
+/**
+ * Steps /api/onboarding/resubmit can retry — the ones with a per-step n8n
+ * resubmit workflow. Welcome email and kickoff call have none and VendHub's
+ * isn't wired up yet, so they get no Retry button.
+ */
+export const RESUBMIT_STEPS: ReadonlySet<StepId> = new Set<StepId>([
+  "close_crm",
+  "email_validation",
+  "mighty_networks",
+  "intercom",
+]);
+
+export function canResubmit(step: StepId | undefined): boolean {
+  return step !== undefined && RESUBMIT_STEPS.has(step);
+}
+
+/** "skipped" = the step isn't part of the lead's program tier. */
+export type DesignTimelineStatus = "done" | "current" | "error" | "pending" | "skipped";
 
 export interface DesignTimelineEntry {
   stage: PlatformId;
   stepId: StepId;
   status: DesignTimelineStatus;
   at: string;         // timeAgo string
-  error?: { code: string; msg: string; node?: string; executionId?: string; errorRecordId?: string };
+  error?: { code: string; msg: string; node?: string; executionId?: string; errorRecordId?: string; playbook?: PlaybookMatch };
   detail?: string;
+  /** Classifier explanation for the drawer's "Why is this step in this state?" panel. */
+  trace?: StepTrace;
 }
 
 export type DesignStatus = "processing" | "error" | "done" | "waiting";
@@ -53,16 +75,20 @@ export interface DesignLead {
   realSalesRep?: string;      // full name of the sales rep for drawer detail
 
   // Pipeline state
-  currentStage: number;       // 0-5 (index into DESIGN_STAGES)
+  currentStage: number;       // index into DESIGN_STAGES
   status: DesignStatus;
-  statusError: { code: string; msg: string; node?: string; executionId?: string; errorRecordId?: string } | null;
+  statusError: { code: string; msg: string; node?: string; executionId?: string; errorRecordId?: string; playbook?: PlaybookMatch } | null;
 
   // Per-stage timeline
   timeline: DesignTimelineEntry[];
 
   createdAt: string;          // "3h ago" style
   createdAtRaw?: string;      // raw ISO — used for bucketing in Analytics
+  /** Recorded resubmits for this lead (see src/lib/retry-history.ts). */
   retries: number;
+  lastRetryAt?: string;
+  /** Set while the lead is snoozed (see src/lib/snooze.ts). */
+  snoozedUntil?: string;
 
   // Waiting-on-customer flags so the UI can filter / badge / count.
   waitingOnMN?: boolean;
@@ -86,6 +112,10 @@ export interface DesignLead {
   _airtableRecordId?: string;
   /** Active client lifecycle from Clients table — used by the Active filter. */
   activeStatus: "active" | "new_waiting" | "inactive";
+  /** Classification rules version that produced the timeline. */
+  rulesVersion?: number;
+  /** Current-step SLA standing, when the step has a target. */
+  sla?: LeadSla;
 }
 
 function initialsOf(name: string): string {
@@ -135,6 +165,16 @@ export function adaptLead(lead: LeadPipeline): DesignLead {
     if (!step) {
       return { stage: stage.id, stepId: stage.stepId, status: "pending", at: "Waiting" };
     }
+    if (step.status === "skipped") {
+      return {
+        stage: stage.id,
+        stepId: stage.stepId,
+        status: "skipped",
+        at: "Not in tier",
+        detail: step.detail,
+        trace: step.trace,
+      };
+    }
     let tlStatus: DesignTimelineStatus;
     if (step.status === "success") tlStatus = "done";
     else if (step.status === "error") {
@@ -159,7 +199,7 @@ export function adaptLead(lead: LeadPipeline): DesignLead {
         : step.status === "waiting_for_customer"
         ? "Waiting on customer"
         : step.status === "in_progress"
-        ? "Running"
+        ? step.detail || "Running"
         : "Waiting",
       error: step.status === "error" && step.errorMessage
         ? {
@@ -168,15 +208,21 @@ export function adaptLead(lead: LeadPipeline): DesignLead {
             node: step.error?.node,
             executionId: step.error?.executionId,
             errorRecordId: step.errorRecordId,
+            playbook: step.error?.playbook,
           }
         : undefined,
       detail: step.detail,
+      trace: step.trace,
     };
   });
 
   // currentStage = the step the lead is "stuck at" for UI placement.
-  // Priority: first errored step > first non-success step > last step.
-  if (firstNonDone === -1) firstNonDone = stages.length - 1;
+  // Priority: first errored step > first non-success step > last step
+  // the lead's tier actually goes through.
+  if (firstNonDone === -1) {
+    firstNonDone = stages.length - 1;
+    while (firstNonDone > 0 && timeline[firstNonDone].status === "skipped") firstNonDone--;
+  }
   firstNonDone = firstErrorIdx >= 0 ? firstErrorIdx : firstNonDone;
 
   // Overall status
@@ -195,6 +241,7 @@ export function adaptLead(lead: LeadPipeline): DesignLead {
         node: firstError.error?.node,
         executionId: firstError.error?.executionId,
         errorRecordId: firstError.errorRecordId,
+        playbook: firstError.error?.playbook,
       }
     : null;
 
@@ -214,7 +261,9 @@ export function adaptLead(lead: LeadPipeline): DesignLead {
     timeline,
     createdAt: timeAgo(lead.createdAt),
     createdAtRaw: lead.createdAt,
-    retries: 0,
+    retries: lead.retries ?? 0,
+    lastRetryAt: lead.lastRetryAt,
+    snoozedUntil: lead.snoozedUntil,
     waitingOnMN: lead.waitingOnMN,
     waitingOnIntercom: lead.waitingOnIntercom,
     waitingOnVendhub: lead.waitingOnVendhub,
@@ -229,6 +278,8 @@ export function adaptLead(lead: LeadPipeline): DesignLead {
     _vendHubUserId: lead.vendHubUserId,
     _airtableRecordId: lead.airtableRecordId,
     activeStatus: lead.activeStatus,
+    rulesVersion: lead.rulesVersion,
+    sla: lead.sla,
   };
 }
 
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { NextRequest, NextResponse } from "next/server";
+import { withIdempotency, type IdempotencyOptions } from "./idempotency";
+
+// No SUPABASE_URL here, so claims use the in-memory store. Each test uses
+// its own locks and keys because that store is shared by the module.
+
+function request(key?: string): NextRequest {
+  return new NextRequest("http://localhost/api/onboarding/resubmit", {
+    method: "POST",
+    headers: key ? { "Idempotency-Key": key } : {},
+  });
+}
+
+function options(lock: string): IdempotencyOptions {
+  return { route: "resubmit", lock, windowMs: 30_000 };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("withIdempotency", () => {
+  it("replays the original response for a repeated key", async () => {
+    const handler = vi.fn(async () => NextResponse.json({ success: true, run: 1 }));
+
+    const first = await withIdempotency(request("key-replay"), options("lock:replay"), handler);
+    const second = await withIdempotency(request("key-replay"), options("lock:replay"), handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(first.headers.get("Idempotent-Replayed")).toBeNull();
+    expect(second.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(await second.json()).toEqual({ success: true, run: 1 });
+  });
+
+  it("rejects a key reused for a different lock", async () => {
+    const handler = async () => NextResponse.json({ success: true });
+    await withIdempotency(request("key-reused"), options("lock:a"), handler);
+
+    const res = await withIdempotency(request("key-reused"), options("lock:b"), handler);
+    expect(res.status).toBe(422);
+  });
+
+  it("runs concurrent requests for one lock once and gives both the response", async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    const handler = vi.fn(async () => {
+      await gate;
+      return NextResponse.json({ success: true });
+    });
+
+    const first = withIdempotency(request(), options("lock:concurrent"), handler);
+    const second = withIdempotency(request(), options("lock:concurrent"), handler);
+    release();
+    const [a, b] = await Promise.all([first, second]);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(a.status).toBe(200);
+    expect(b.status).toBe(200);
+    expect(b.headers.get("Idempotent-Replayed")).toBe("true");
+  });
+
+  it("releases the lock after a failed run", async () => {
+    const handler = vi
+      .fn()
+      .mockResolvedValueOnce(NextResponse.json({ success: false, message: "n8n down" }, { status: 502 }))
+      .mockResolvedValueOnce(NextResponse.json({ success: true }));
+
+    const failed = await withIdempotency(request(), options("lock:failed"), handler);
+    const retried = await withIdempotency(request(), options("lock:failed"), handler);
+
+    expect(failed.status).toBe(502);
+    expect(retried.status).toBe(200);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("releases the lock when the handler throws", async () => {
+    const handler = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("boom"))
+      .mockResolvedValueOnce(NextResponse.json({ success: true }));
+
+    await expect(withIdempotency(request(), options("lock:threw"), handler)).rejects.toThrow("boom");
+    const retried = await withIdempotency(request(), options("lock:threw"), handler);
+
+    expect(retried.status).toBe(200);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("lets a replay take over a claim whose run died", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const dead = vi.fn(() => new Promise<NextResponse>(() => {}));
+    void withIdempotency(request("key-dead"), options("lock:dead"), dead);
+    await vi.waitFor(() => expect(dead).toHaveBeenCalled());
+
+    vi.setSystemTime(Date.now() + 3 * 60 * 1000);
+    const handler = vi.fn(async () => NextResponse.json({ success: true }));
+    const res = await withIdempotency(request("key-dead"), options("lock:dead"), handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Idempotent-Replayed")).toBeNull();
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Idempotent POST handling for the routes that fire n8n or write Airtable
+ * on an operator's click: /api/onboarding/resubmit, /resubmit-all and
+ * /errors/resolve.
+ *
+ * Each request claims a lock for its (lead, step) before doing any work:
+ *   - a repeated Idempotency-Key header gets the original response back;
+ *   - a request for a lock that is already running waits for that run and
+ *     gets its response (two tabs, two operators, a double click);
+ *   - within the dedupe window after a successful run, the same lock gets
+ *     that run's response instead of firing n8n again.
+ * Failed runs release the lock so a genuine retry goes through. A claim
+ * is a lease of STALE_MS: if the run dies without finishing, the next
+ * request for its lock — or a replay of its key — takes it over.
+ *
+ * Claims live in Supabase (scripts/supabase/008_idempotency.sql) so they
+ * hold across serverless instances. Without Supabase — or if the claim
+ * call fails — they fall back to this instance's memory.
+ * Replayed responses carry an `Idempotent-Replayed: true` header.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isSupabaseConfigured, supaRpc, supaSelect } from "./supabase";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type IdempotentRoute = "resubmit" | "resubmit_all" | "errors_resolve";
+
+export interface IdempotencyOptions {
+  route: IdempotentRoute;
+  /** What may only run once at a time, e.g. "resubmit:recXXX:intercom". */
+  lock: string;
+  /** How long a successful run keeps answering for its lock. */
+  windowMs: number;
+}
+
+type RequestStatus = "in_progress" | "done" | "failed";
+
+interface StoredResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+type Claim =
+  | { outcome: "claimed"; id: number }
+  | { outcome: "existing"; id: number; status: RequestStatus; response?: StoredResponse }
+  | { outcome: "key_reused" };
+
+interface ClaimRow {
+  outcome: "claimed" | "existing" | "key_reused";
+  request_id: number;
+  status: RequestStatus;
+  status_code: number | null;
+  response: unknown;
+}
+
+interface Store {
+  claim(key: string | null, options: IdempotencyOptions): Promise<Claim>;
+  finish(id: number, ok: boolean, response: StoredResponse): Promise<void>;
+  get(id: number): Promise<{ status: RequestStatus; response?: StoredResponse } | null>;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const KEY_HEADER = "idempotency-key";
+const KEY_MAX_CHARS = 200;
+/** An in-progress claim older than this belongs to a function that died. */
+const STALE_MS = 2 * 60 * 1000;
+/** How long a duplicate waits for the running request before giving up with 409. */
+const WAIT_MS = 20 * 1000;
+const POLL_MS = 500;
+/** Memory entries are kept this long for key replays. */
+const MEMORY_KEEP_MS = 24 * 60 * 60 * 1000;
+
+interface MemoryEntry {
+  id: number;
+  key: string | null;
+  lock: string;
+  status: RequestStatus;
+  response?: StoredResponse;
+  createdAt: number;
+  finishedAt?: number;
+}
+
+class MemoryStore implements Store {
+  private entries = new Map<number, MemoryEntry>();
+  private nextId = 1;
+
+  private prune(now: number) {
+    for (const [id, e] of this.entries) {
+      if (now - e.createdAt > MEMORY_KEEP_MS) this.entries.delete(id);
+    }
+  }
+
+  async claim(key: string | null, options: IdempotencyOptions): Promise<Claim> {
+    const now = Date.now();
+    this.prune(now);
+    const all = Array.from(this.entries.values());
+    const byKey = key ? all.find((e) => e.key === key) : undefined;
+    if (byKey) {
+      if (byKey.lock !== options.lock) return { outcome: "key_reused" };
+      if (byKey.status !== "in_progress" || now - byKey.createdAt < STALE_MS) {
+        return { outcome: "existing", id: byKey.id, status: byKey.status, response: byKey.response };
+      }
+      // Its run died: claim it again below unless another request holds the lock.
+    }
+    const holder = all
+      .filter(
+        (e) =>
+          e.lock === options.lock &&
+          ((e.status === "in_progress" && now - e.createdAt < STALE_MS) ||
+            (e.status === "done" && now - (e.finishedAt ?? 0) < options.windowMs))
+      )
+      .sort((a, b) => b.createdAt - a.createdAt)[0];
+    if (holder) return { outcome: "existing", id: holder.id, status: holder.status, response: holder.response };
+
+    if (byKey) {
+      byKey.createdAt = now;
+      return { outcome: "claimed", id: byKey.id };
+    }
+    const id = this.nextId++;
+    this.entries.set(id, { id, key, lock: options.lock, status: "in_progress", createdAt: now });
+    return { outcome: "claimed", id };
+  }
+
+  async finish(id: number, ok: boolean, response: StoredResponse): Promise<void> {
+    const e = this.entries.get(id);
+    if (!e) return;
+    e.status = ok ? "done" : "failed";
+    e.response = response;
+    e.finishedAt = Date.now();
+  }
+
+  async get(id: number) {
+    const e = this.entries.get(id);
+    return e ? { status: e.status, response: e.response } : null;
+  }
+}
+
+function toStored(statusCode: number | null, body: unknown): StoredResponse | undefined {
+  return statusCode === null ? undefined : { statusCode, body };
+}
+
+class SupabaseStore implements Store {
+  async claim(key: string | null, options: IdempotencyOptions): Promise<Claim> {
+    const [row] = await supaRpc<ClaimRow[]>("claim_idempotent_request", {
+      p_key: key,
+      p_route: options.route,
+      p_lock: options.lock,
+      p_window: `${Math.round(options.windowMs / 1000)} seconds`,
+      p_stale: `${Math.round(STALE_MS / 1000)} seconds`,
+    });
+    if (!row) throw new Error("claim_idempotent_request returned nothing");
+    if (row.outcome === "claimed") return { outcome: "claimed", id: row.request_id };
+    if (row.outcome === "key_reused") return { outcome: "key_reused" };
+    return { outcome: "existing", id: row.request_id, status: row.status, response: toStored(row.status_code, row.response) };
+  }
+
+  async finish(id: number, ok: boolean, response: StoredResponse): Promise<void> {
+    await supaRpc("finish_idempotent_request", {
+      p_id: id,
+      p_ok: ok,
+      p_status_code: response.statusCode,
+      p_response: response.body ?? null,
+    });
+  }
+
+  async get(id: number) {
+    const { rows } = await supaSelect<{ status: RequestStatus; status_code: number | null; response: unknown }>({
+      path: "idempotent_requests",
+      query: { select: "status,status_code,response", id: `eq.${id}` },
+    });
+    const row = rows[0];
+    return row ? { status: row.status, response: toStored(row.status_code, row.response) } : null;
+  }
+}
+
+const memoryStore = new MemoryStore();
+const supabaseStore = new SupabaseStore();
+
+function replay(response: StoredResponse, key: string | null): NextResponse {
+  const headers: Record<string, string> = { "Idempotent-Replayed": "true" };
+  if (key) headers["Idempotency-Key"] = key;
+  return NextResponse.json(response.body, { status: response.statusCode, headers });
+}
+
+/** Wait for a running request to finish; null if it's still running after WAIT_MS. */
+async function waitFor(store: Store, id: number): Promise<StoredResponse | null> {
+  const deadline = Date.now() + WAIT_MS;
+  while (Date.now() < deadline) {
+    await new Promise((r) => setTimeout(r, POLL_MS));
+    const current = await store.get(id);
+    if (current && current.status !== "in_progress" && current.response) return current.response;
+  }
+  return null;
+}
+
+/** A response the lock should hold on to: 2xx and not `success: false`. */
+function isSuccess(statusCode: number, body: unknown): boolean {
+  if (statusCode < 200 || statusCode >= 300) return false;
+  return !(body && typeof body === "object" && (body as { success?: unknown }).success === false);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** The request's Idempotency-Key header, if any. */
+export function idempotencyKey(req: NextRequest): string | null {
+  return req.headers.get(KEY_HEADER)?.trim().slice(0, KEY_MAX_CHARS) || null;
+}
+
+/**
+ * Run `handler` at most once per Idempotency-Key and once at a time per
+ * `options.lock`; duplicates get the original response. `handler` must
+ * answer with JSON. Validate the body before building `options.lock` from
+ * it, so a malformed request gets its 400 without claiming a lock.
+ */
+export async function withIdempotency(
+  req: NextRequest,
+  options: IdempotencyOptions,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = idempotencyKey(req);
+
+  let store: Store = isSupabaseConfigured() ? supabaseStore : memoryStore;
+  let claim: Claim;
+  try {
+    claim = await store.claim(key, options);
+  } catch (err) {
+    console.warn("[idempotency] Supabase claim failed, using memory:", err instanceof Error ? err.message : err);
+    store = memoryStore;
+    claim = await store.claim(key, options);
+  }
+
+  if (claim.outcome === "key_reused") {
+    return NextResponse.json(
+      { success: false, message: "Idempotency-Key was already used for a different request" },
+      { status: 422 }
+    );
+  }
+
+  if (claim.outcome === "existing") {
+    const response = claim.response ?? (await waitFor(store, claim.id));
+    if (response) return replay(response, key);
+    return NextResponse.json(
+      { success: false, inProgress: true, message: "The same request is already running for this lead — try again shortly" },
+      { status: 409, headers: { "Retry-After": "5" } }
+    );
+  }
+
+  let res: NextResponse;
+  try {
+    res = await handler();
+  } catch (err) {
+    await store
+      .finish(claim.id, false, { statusCode: 500, body: { success: false, message: "Request failed" } })
+      .catch(() => undefined);
+    throw err;
+  }
+
+  const body = await res.clone().json().catch(() => null);
+  try {
+    await store.finish(claim.id, isSuccess(res.status, body), { statusCode: res.status, body });
+  } catch (err) {
+    console.warn("[idempotency] Could not record the response:", err instanceof Error ? err.message : err);
+  }
+  if (key) res.headers.set("Idempotency-Key", key);
+  return res;
+}
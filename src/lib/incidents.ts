@@ -0,0 +1,237 @@
+/**
+ * Incidents: open Onboarding Errors rows grouped by root cause.
+ *
+ * One Intercom outage leaves dozens of rows that differ only in the
+ * lead's email or a record id. Rows are grouped by a signature — Error
+ * Type + Error Node + the message with emails, ids, URLs, numbers and
+ * quoted values stripped — so the team can retry or resolve the whole
+ * outage at once.
+ *
+ * Incident notes are appended to every open row's Resolution Notes as
+ * "[note <ISO>] text", so they travel with the rows in Airtable.
+ */
+
+import { createHash } from "crypto";
+import { fetchTable, invalidateTableCache, updateRecords, type AirtableRecord } from "./airtable";
+import { fetchPipeline, stepForErrorType, type LeadPipeline, type StepId } from "./pipeline";
+import { decodeOnboardingError, type OnboardingErrorRecord } from "./records";
+import { resolveRowsAsBatch, type BatchResolveResult } from "./resolve-batches";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface IncidentRow {
+  errorRecordId: string;
+  leadName: string;
+  email: string;
+  status: string;
+  timestamp?: string;
+  /** The dashboard lead this row shows up on, when it could be matched. */
+  pipelineLeadId?: string;
+}
+
+export interface IncidentNote {
+  at: string;
+  text: string;
+}
+
+export interface Incident {
+  /** "inc-" + hash of the signature; stable while the wording is. */
+  id: string;
+  errorType: string;
+  errorNode?: string;
+  step: StepId;
+  /** The normalized message the rows share. */
+  signature: string;
+  /** One row's message as logged. */
+  sampleMessage: string;
+  rows: IncidentRow[];
+  leadCount: number;
+  /** Dashboard lead ids, for bulk retry. */
+  pipelineLeadIds: string[];
+  firstSeen?: string;
+  lastSeen?: string;
+  notes: IncidentNote[];
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const FIELDS = [
+  "Lead Name", "Lead ID", "Email",
+  "Error Type", "Error Message", "Error Node",
+  "Timestamp", "Status", "Resolution Notes",
+];
+
+const SIGNATURE_MAX_CHARS = 300;
+const NOTE_MAX_CHARS = 500;
+const NOTE_LINE = /^\[note ([^\]]+)\] (.+)$/gm;
+
+/** Order matters: whole tokens (emails, URLs) before the ids inside them. */
+const NORMALIZERS: [RegExp, string][] = [
+  [/[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/g, "<email>"],
+  [/https?:\/\/\S+/g, "<url>"],
+  [/"[^"]{0,120}"|'[^']{0,120}'|`[^`]{0,120}`/g, "<value>"],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/g, "<id>"],
+  // Airtable record / table / field ids
+  [/\b(rec|tbl|fld|app|viw)[a-z0-9]{14}\b/g, "<id>"],
+  // Close (lead_…, cont_…), Stripe-style and other prefixed ids
+  [/\b[a-z]{2,6}_[a-z0-9]{8,}\b/g, "<id>"],
+  [/\b[0-9a-f]{16,}\b/g, "<id>"],
+  // Long numbers (execution ids, timestamps); short ones like HTTP statuses stay
+  [/\b\d{5,}\b/g, "<n>"],
+  [/\d{4}-\d{2}-\d{2}t[\d:.]+z?/g, "<time>"],
+];
+
+function isOpen(status: string): boolean {
+  return status === "New" || status === "Investigating";
+}
+
+function incidentId(key: string): string {
+  return `inc-${createHash("sha1").update(key).digest("hex").slice(0, 10)}`;
+}
+
+function parseNotes(notes: string | undefined): IncidentNote[] {
+  if (!notes) return [];
+  return Array.from(notes.matchAll(NOTE_LINE), (m) => ({ at: m[1], text: m[2] }));
+}
+
+/** Map each error row to the dashboard lead it appears on. */
+function leadMatcher(pipeline: LeadPipeline[]): (err: OnboardingErrorRecord) => string | undefined {
+  const byErrorRecord = new Map<string, string>();
+  const byEmail = new Map<string, string>();
+  const byClientId = new Map<string, string>();
+  for (const lead of pipeline) {
+    for (const s of lead.steps) if (s.errorRecordId) byErrorRecord.set(s.errorRecordId, lead.id);
+    if (lead.email) byEmail.set(lead.email.toLowerCase().trim(), lead.id);
+    if (lead.clientId) byClientId.set(lead.clientId, lead.id);
+  }
+  return (err) =>
+    byErrorRecord.get(err.id) ??
+    (err.email ? byEmail.get(err.email.toLowerCase().trim()) : undefined) ??
+    (err.leadId ? byClientId.get(err.leadId) : undefined);
+}
+
+interface Group {
+  incident: Incident;
+  records: AirtableRecord[];
+}
+
+async function loadGroups(fresh: boolean): Promise<Map<string, Group>> {
+  const [records, pipeline] = await Promise.all([
+    fetchTable("onboardingErrors", { fields: FIELDS, cacheTtl: fresh ? 0 : undefined }),
+    fetchPipeline(),
+  ]);
+  const matchLead = leadMatcher(pipeline);
+
+  const groups = new Map<string, Group>();
+  for (const record of records) {
+    const err = decodeOnboardingError(record);
+    if (!isOpen(err.status)) continue;
+    const signature = normalizeErrorMessage(err.errorMessage);
+    const id = incidentId(`${err.errorType}|${err.errorNode ?? ""}|${signature}`);
+
+    let group = groups.get(id);
+    if (!group) {
+      group = {
+        incident: {
+          id,
+          errorType: err.errorType || "Unknown",
+          errorNode: err.errorNode,
+          step: stepForErrorType(err.errorType),
+          signature,
+          sampleMessage: err.errorMessage,
+          rows: [],
+          leadCount: 0,
+          pipelineLeadIds: [],
+          notes: [],
+        },
+        records: [],
+      };
+      groups.set(id, group);
+    }
+    const { incident } = group;
+    group.records.push(record);
+    incident.rows.push({
+      errorRecordId: err.id,
+      leadName: err.leadName,
+      email: err.email,
+      status: err.status,
+      timestamp: err.timestamp,
+      pipelineLeadId: matchLead(err),
+    });
+    if (err.timestamp) {
+      if (!incident.firstSeen || err.timestamp < incident.firstSeen) incident.firstSeen = err.timestamp;
+      if (!incident.lastSeen || err.timestamp > incident.lastSeen) incident.lastSeen = err.timestamp;
+    }
+    for (const note of parseNotes(err.resolutionNotes)) {
+      if (!incident.notes.some((n) => n.at === note.at && n.text === note.text)) incident.notes.push(note);
+    }
+  }
+
+  for (const { incident } of groups.values()) {
+    incident.leadCount = new Set(
+      incident.rows.map((r) => r.pipelineLeadId || r.email.toLowerCase() || r.errorRecordId)
+    ).size;
+    incident.pipelineLeadIds = Array.from(
+      new Set(incident.rows.flatMap((r) => (r.pipelineLeadId ? [r.pipelineLeadId] : [])))
+    );
+    incident.rows.sort((a, b) => (b.timestamp ?? "").localeCompare(a.timestamp ?? ""));
+    incident.notes.sort((a, b) => b.at.localeCompare(a.at));
+  }
+  return groups;
+}
+
+async function findGroup(id: string): Promise<Group | null> {
+  return (await loadGroups(true)).get(id) ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** An error message with the per-lead parts (emails, ids, names, numbers) replaced. */
+export function normalizeErrorMessage(message: string): string {
+  let out = message.toLowerCase();
+  for (const [pattern, token] of NORMALIZERS) out = out.replace(pattern, token);
+  return out.replace(/\s+/g, " ").trim().slice(0, SIGNATURE_MAX_CHARS);
+}
+
+/** Open errors grouped into incidents, most leads affected first. */
+export async function listIncidents(options?: { minLeads?: number; fresh?: boolean }): Promise<Incident[]> {
+  const groups = await loadGroups(Boolean(options?.fresh));
+  return Array.from(groups.values(), (g) => g.incident)
+    .filter((i) => i.leadCount >= (options?.minLeads ?? 1))
+    .sort((a, b) => b.leadCount - a.leadCount || (b.lastSeen ?? "").localeCompare(a.lastSeen ?? ""));
+}
+
+/** Resolve every open row of an incident as one undoable batch; null if it no longer exists. */
+export async function resolveIncident(id: string, note?: string): Promise<BatchResolveResult | null> {
+  const group = await findGroup(id);
+  if (!group) return null;
+  const text = `Resolved with incident ${id} from dashboard at ${new Date().toISOString()}${note ? ` — ${note}` : ""}`;
+  const result = await resolveRowsAsBatch(group.records, text);
+  await invalidateTableCache("onboardingErrors");
+  await invalidateTableCache("clients");
+  return result;
+}
+
+/** Append a note to every open row of an incident; null if it no longer exists. */
+export async function addIncidentNote(id: string, text: string): Promise<{ updated: number; note: IncidentNote } | null> {
+  const group = await findGroup(id);
+  if (!group) return null;
+  const note = { at: new Date().toISOString(), text: text.replace(/\s+/g, " ").trim().slice(0, NOTE_MAX_CHARS) };
+  const line = `[note ${note.at}] ${note.text}`;
+  const result = await updateRecords(
+    "onboardingErrors",
+    group.records.map((r) => {
+      const existing = ((r.fields["Resolution Notes"] as string | undefined) || "").trim();
+      return { id: r.id, fields: { "Resolution Notes": existing ? `${existing}\n${line}` : line } };
+    }),
+    { typecast: true }
+  );
+  await invalidateTableCache("onboardingErrors");
+  return { updated: result.records.length, note };
+}
@@ -0,0 +1,296 @@
+/**
+ * Integration health for the Integrations view.
+ *
+ * Per pipeline step: daily error counts from Onboarding Errors
+ * timestamps, daily lookup success rates for the steps with a verifier
+ * (Close, Intercom, Mighty Networks, VendHub) and the last time the step
+ * succeeded. Verifier runs and step successes come from Supabase (see
+ * scripts/supabase/007_integration_health.sql); without it the view
+ * still gets the error counts.
+ */
+
+import { fetchTable } from "./airtable";
+import { STEP_ORDER, stepForErrorType, type StepId } from "./pipeline";
+import { decodeOnboardingError, type OnboardingErrorRecord } from "./records";
+import { isSupabaseConfigured, supaSelect, supaUpsert } from "./supabase";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Steps with a verifier route that records its runs. */
+export type VerifiedStep = Extract<StepId, "close_crm" | "intercom" | "mighty_networks" | "vendhub">;
+
+export const VERIFIED_STEPS: VerifiedStep[] = ["close_crm", "intercom", "mighty_networks", "vendhub"];
+
+export interface VerifierRun {
+  checked: number;
+  found: number;
+  missing: number;
+  apiErrors: number;
+  writeFailures: number;
+  singleEmail: boolean;
+  durationMs: number;
+}
+
+export interface HealthDay {
+  /** UTC date, YYYY-MM-DD. */
+  day: string;
+  errors: number;
+  /** Verifier lookups that day (verified steps only). */
+  checks?: number;
+  /** Share of those lookups the platform API answered, 0–1; null when none ran. */
+  successRate?: number | null;
+}
+
+export interface StepHealth {
+  step: StepId;
+  days: HealthDay[];
+  errorsInWindow: number;
+  openErrors: number;
+  /** Days in the window with no new Onboarding Errors row. */
+  errorFreeDays: number;
+  lastErrorAt?: string;
+  /** Last recorded transition of any lead into "success" on this step. */
+  lastSuccessAt?: string;
+  verifier?: {
+    lastRunAt?: string;
+    /** Last run with no API errors and no failed write-backs. */
+    lastSuccessfulRunAt?: string;
+    checks: number;
+    successRate: number | null;
+  };
+}
+
+export interface IntegrationHealth {
+  generatedAt: string;
+  windowDays: number;
+  steps: Record<StepId, StepHealth>;
+  /** False when Supabase isn't configured: no verifier or success history. */
+  historyRecorded: boolean;
+}
+
+export interface ErrorLogEntry {
+  id: string;
+  step: StepId;
+  leadName: string;
+  email: string;
+  errorType: string;
+  errorMessage: string;
+  errorNode?: string;
+  executionId?: string;
+  status: string;
+  timestamp?: string;
+}
+
+interface VerifierDailyRow {
+  step_id: VerifiedStep;
+  day: string;
+  runs: number;
+  checked: number;
+  api_errors: number;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_WINDOW_DAYS = 90;
+
+/** Same fields the pipeline reads, so both share one cached fetch. */
+const ERROR_FIELDS = [
+  "Lead Name", "Lead ID", "Email",
+  "Error Type", "Error Message", "Error Node",
+  "Timestamp", "Status", "Execution ID",
+  "Raw Error Data",
+];
+
+function utcDay(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+/** The last `days` UTC dates, oldest first, ending today. */
+function windowDays(days: number, now: number): string[] {
+  return Array.from({ length: days }, (_, i) => utcDay(now - (days - 1 - i) * DAY_MS));
+}
+
+function isOpen(err: OnboardingErrorRecord): boolean {
+  return err.status === "New" || err.status === "Investigating";
+}
+
+function clampDays(days: number): number {
+  return Math.min(MAX_WINDOW_DAYS, Math.max(1, Math.floor(days) || 1));
+}
+
+async function fetchErrors(): Promise<OnboardingErrorRecord[]> {
+  const rows = await fetchTable("onboardingErrors", { fields: ERROR_FIELDS });
+  return rows.map(decodeOnboardingError);
+}
+
+async function fetchVerifierHistory(since: string): Promise<{
+  daily: VerifierDailyRow[];
+  lastRun: Map<string, string>;
+  lastSuccessfulRun: Map<string, string>;
+  lastSuccess: Map<string, string>;
+}> {
+  const [{ rows: daily }, { rows: lastSuccessRows }, runs] = await Promise.all([
+    supaSelect<VerifierDailyRow>({
+      path: "vw_verifier_daily",
+      query: { select: "step_id,day,runs,checked,api_errors", day: `gte.${since}` },
+    }),
+    supaSelect<{ step_id: string; last_success_at: string }>({
+      path: "vw_step_last_success",
+      query: { select: "step_id,last_success_at" },
+    }),
+    Promise.all(
+      VERIFIED_STEPS.map(async (step) => {
+        const base = { select: "started_at", step_id: `eq.${step}`, order: "started_at.desc", limit: 1 };
+        const [last, lastOk] = await Promise.all([
+          supaSelect<{ started_at: string }>({ path: "verifier_runs", query: base }),
+          supaSelect<{ started_at: string }>({
+            path: "verifier_runs",
+            query: { ...base, api_errors: "eq.0", write_failures: "eq.0" },
+          }),
+        ]);
+        return { step, last: last.rows[0]?.started_at, lastOk: lastOk.rows[0]?.started_at };
+      })
+    ),
+  ]);
+
+  const lastRun = new Map<string, string>();
+  const lastSuccessfulRun = new Map<string, string>();
+  for (const r of runs) {
+    if (r.last) lastRun.set(r.step, r.last);
+    if (r.lastOk) lastSuccessfulRun.set(r.step, r.lastOk);
+  }
+  return {
+    daily,
+    lastRun,
+    lastSuccessfulRun,
+    lastSuccess: new Map(lastSuccessRows.map((r) => [r.step_id, r.last_success_at])),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Record one verifier run. Never throws — a lost row only thins the health chart. */
+export async function recordVerifierRun(step: VerifiedStep, run: VerifierRun): Promise<void> {
+  if (!isSupabaseConfigured()) return;
+  try {
+    await supaUpsert("verifier_runs", [
+      {
+        step_id: step,
+        started_at: new Date(Date.now() - run.durationMs).toISOString(),
+        duration_ms: run.durationMs,
+        checked: run.checked,
+        found: run.found,
+        missing: run.missing,
+        api_errors: run.apiErrors,
+        write_failures: run.writeFailures,
+        single_email: run.singleEmail,
+      },
+    ]);
+  } catch (err) {
+    console.warn("[integration-health] Could not record verifier run:", err instanceof Error ? err.message : err);
+  }
+}
+
+/** Health of every pipeline step over the last `days` days (UTC). */
+export async function getIntegrationHealth(days = 14): Promise<IntegrationHealth> {
+  const window = clampDays(days);
+  const now = Date.now();
+  const dayList = windowDays(window, now);
+  const since = dayList[0];
+
+  const [errors, history] = await Promise.all([
+    fetchErrors(),
+    isSupabaseConfigured() ? fetchVerifierHistory(since) : Promise.resolve(null),
+  ]);
+
+  const steps = {} as Record<StepId, StepHealth>;
+  for (const step of STEP_ORDER) {
+    steps[step] = {
+      step,
+      days: dayList.map((day) => ({ day, errors: 0 })),
+      errorsInWindow: 0,
+      openErrors: 0,
+      errorFreeDays: window,
+      lastSuccessAt: history?.lastSuccess.get(step),
+    };
+  }
+
+  const dayIndex = new Map(dayList.map((d, i) => [d, i]));
+  for (const err of errors) {
+    const health = steps[stepForErrorType(err.errorType)];
+    if (isOpen(err)) health.openErrors++;
+    const ts = err.timestamp ? new Date(err.timestamp).getTime() : NaN;
+    if (!isFinite(ts)) continue;
+    if (!health.lastErrorAt || ts > new Date(health.lastErrorAt).getTime()) health.lastErrorAt = err.timestamp;
+    const i = dayIndex.get(utcDay(ts));
+    if (i === undefined) continue;
+    health.days[i].errors++;
+    health.errorsInWindow++;
+  }
+  for (const health of Object.values(steps)) {
+    health.errorFreeDays = health.days.filter((d) => d.errors === 0).length;
+  }
+
+  if (history) {
+    for (const step of VERIFIED_STEPS) {
+      const health = steps[step];
+      let checks = 0;
+      let answered = 0;
+      for (const d of health.days) {
+        const rows = history.daily.filter((r) => r.step_id === step && r.day === d.day);
+        const checked = rows.reduce((n, r) => n + r.checked, 0);
+        const apiErrors = rows.reduce((n, r) => n + r.api_errors, 0);
+        d.checks = checked;
+        d.successRate = checked > 0 ? (checked - apiErrors) / checked : null;
+        checks += checked;
+        answered += checked - apiErrors;
+      }
+      health.verifier = {
+        lastRunAt: history.lastRun.get(step),
+        lastSuccessfulRunAt: history.lastSuccessfulRun.get(step),
+        checks,
+        successRate: checks > 0 ? answered / checks : null,
+      };
+    }
+  }
+
+  return {
+    generatedAt: new Date(now).toISOString(),
+    windowDays: window,
+    steps,
+    historyRecorded: Boolean(history),
+  };
+}
+
+/**
+ * Onboarding Errors rows, newest first, optionally for one step and/or
+ * the last `days` days. Includes resolved rows — this is the history.
+ */
+export async function listErrorLog(options?: { step?: StepId; days?: number; limit?: number }): Promise<ErrorLogEntry[]> {
+  const errors = await fetchErrors();
+  const since = options?.days ? Date.now() - clampDays(options.days) * DAY_MS : null;
+  return errors
+    .map((err) => ({ err, step: stepForErrorType(err.errorType), ts: new Date(err.timestamp || 0).getTime() }))
+    .filter(({ step, ts }) => (!options?.step || step === options.step) && (since === null || ts >= since))
+    .sort((a, b) => b.ts - a.ts)
+    .slice(0, options?.limit ?? 200)
+    .map(({ err, step }) => ({
+      id: err.id,
+      step,
+      leadName: err.leadName,
+      email: err.email,
+      errorType: err.errorType,
+      errorMessage: err.errorMessage,
+      errorNode: err.errorNode,
+      executionId: err.executionId,
+      status: err.status,
+      timestamp: err.timestamp,
+    }));
+}
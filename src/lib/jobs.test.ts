@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  /** What each claim_jobs call hands out, in order; [] = nothing due. */
+  claims: [] as unknown[][],
+  /** run_at of the next queued job, per nextRunAt() read. */
+  nextRunAt: [] as (string | null)[],
+  finished: [] as Record<string, unknown>[],
+}));
+
+vi.mock("./supabase", () => ({
+  isSupabaseConfigured: () => true,
+  supaRpc: vi.fn(async (fn: string, args: Record<string, unknown>) => {
+    if (fn === "claim_jobs") return db.claims.shift() ?? [];
+    if (fn === "finish_job") db.finished.push(args);
+    return [];
+  }),
+  supaSelect: vi.fn(async () => {
+    const next = db.nextRunAt.length ? db.nextRunAt.shift() : null;
+    return { rows: next ? [{ run_at: next }] : [] };
+  }),
+  supaUpsert: vi.fn(),
+}));
+
+import { backoffMs, processDueJobs } from "./jobs";
+
+function jobRow(id: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    kind: "resubmit_step",
+    payload: { leadRecordId: "recLead", step: "intercom" },
+    status: "running",
+    attempts: 1,
+    max_attempts: 5,
+    run_at: new Date().toISOString(),
+    locked_by: "worker-test",
+    last_error: null,
+    result: null,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    finished_at: null,
+    ...overrides,
+  };
+}
+
+function respond(status: number, body: unknown) {
+  return vi.fn(async () => new Response(JSON.stringify(body), { status }));
+}
+
+const run = (limit?: number) =>
+  processDueJobs({ origin: "http://localhost:3000", worker: "worker-test", limit, deadlineMs: 200_000 });
+
+beforeEach(() => {
+  db.claims = [];
+  db.nextRunAt = [];
+  db.finished = [];
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("backoffMs", () => {
+  it("doubles from 30s and caps at an hour", () => {
+    expect([1, 2, 3, 4].map(backoffMs)).toEqual([30_000, 60_000, 120_000, 240_000]);
+    expect(backoffMs(20)).toBe(60 * 60 * 1000);
+  });
+});
+
+describe("processDueJobs", () => {
+  it("posts the payload to the job's route and records the result", async () => {
+    const fetchMock = respond(200, { success: true, triggered: true });
+    vi.stubGlobal("fetch", fetchMock);
+    db.claims = [[jobRow(1)]];
+
+    const result = await run();
+
+    expect(result).toMatchObject({ claimed: 1, done: 1, retried: 0, failed: 0 });
+    expect(fetchMock).toHaveBeenCalledWith(
+      "http://localhost:3000/api/onboarding/resubmit",
+      expect.objectContaining({ method: "POST", body: JSON.stringify({ leadRecordId: "recLead", step: "intercom" }) })
+    );
+    expect(db.finished).toEqual([{ p_id: 1, p_result: { success: true, triggered: true } }]);
+  });
+
+  it("retries a 5xx after the backoff for its attempt", async () => {
+    vi.stubGlobal("fetch", respond(503, { error: "down" }));
+    db.claims = [[jobRow(2, { attempts: 2 })]];
+
+    const before = Date.now();
+    const result = await run();
+
+    expect(result).toMatchObject({ retried: 1, failed: 0 });
+    const retryAt = new Date(db.finished[0].p_retry_at as string).getTime();
+    expect(retryAt - before).toBeGreaterThanOrEqual(backoffMs(2));
+    expect(retryAt - before).toBeLessThan(backoffMs(2) + 5_000);
+  });
+
+  it("retries a 200 that reports success: false", async () => {
+    vi.stubGlobal("fetch", respond(200, { success: false, message: "n8n 500" }));
+    db.claims = [[jobRow(3)]];
+
+    expect(await run()).toMatchObject({ retried: 1 });
+    expect(db.finished[0].p_error).toContain("n8n 500");
+  });
+
+  it("fails a client error without retrying", async () => {
+    vi.stubGlobal("fetch", respond(400, { message: "Missing required field: leadRecordId" }));
+    db.claims = [[jobRow(4)]];
+
+    expect(await run()).toMatchObject({ retried: 0, failed: 1 });
+    expect(db.finished[0].p_retry_at).toBeNull();
+  });
+
+  it("fails a job that has used its last attempt", async () => {
+    vi.stubGlobal("fetch", respond(503, { error: "down" }));
+    db.claims = [[jobRow(5, { attempts: 5, max_attempts: 5 })]];
+
+    expect(await run()).toMatchObject({ retried: 0, failed: 1 });
+  });
+
+  it("stops at the limit", async () => {
+    vi.stubGlobal("fetch", respond(200, { success: true }));
+    db.claims = [[jobRow(6)], [jobRow(7)], [jobRow(8)]];
+
+    expect(await run(2)).toMatchObject({ claimed: 2, done: 2 });
+    expect(db.claims).toHaveLength(1);
+  });
+
+  it("waits for a retry that comes due before the deadline", async () => {
+    vi.stubGlobal("fetch", respond(200, { success: true }));
+    const dueSoon = new Date(Date.now() + 50).toISOString();
+    db.claims = [[], [jobRow(9)]];
+    db.nextRunAt = [dueSoon, null];
+
+    const result = await run();
+
+    expect(result).toMatchObject({ claimed: 1, done: 1 });
+    expect(result.nextRunAt).toBeUndefined();
+  });
+
+  it("leaves a retry due after the deadline for the next run", async () => {
+    const later = new Date(Date.now() + 10 * 60 * 1000).toISOString();
+    db.nextRunAt = [later, later];
+
+    const result = await run();
+
+    expect(result).toMatchObject({ claimed: 0, nextRunAt: later });
+  });
+});
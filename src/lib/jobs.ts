@@ -0,0 +1,362 @@
+/**
+ * Durable background job queue (Supabase `jobs`, see
+ * scripts/supabase/005_jobs.sql).
+ *
+ * Routes enqueue follow-up work — verifier sweeps, single-lead Supabase
+ * resyncs, n8n resubmits — instead of firing un-awaited fetches that a
+ * serverless instance can drop after the response is sent. The worker
+ * (/api/jobs/worker, cron + kicked after each enqueue) claims due jobs one
+ * at a time, runs each against the route that already implements it and
+ * retries failures with exponential backoff. A kick that gets dropped
+ * only delays the job until the next worker run.
+ *
+ * Retries come due on their own: a worker run waits for one that is due
+ * before its time budget runs out, and later ones are picked up by the
+ * minutely kick in scripts/supabase/005_jobs.sql, which calls
+ * the worker whenever a queued job is due. Without it they wait for the
+ * next enqueue or cron run.
+ *
+ * When Supabase isn't configured, dispatchJob() still runs the job once
+ * after the response, with no retries — the old fire-and-forget behaviour.
+ */
+
+import { after } from "next/server";
+import type { StepId } from "./pipeline";
+import { isSupabaseConfigured, supaRpc, supaSelect, supaUpsert } from "./supabase";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type JobStatus = "queued" | "running" | "failed" | "done";
+
+export interface JobPayloads {
+  /** Body of POST /api/onboarding/resubmit. */
+  resubmit_step: {
+    leadRecordId: string;
+    step: StepId;
+    errorRecordId?: string;
+    context?: Record<string, unknown>;
+  };
+  /** Body of POST /api/onboarding/resubmit-all. */
+  resubmit_all: { errorRecordId: string; email?: string; leadName?: string; leadId?: string };
+  /** One email, or the newest N Clients rows (POST /api/verify/sweep). */
+  verify_email: { email: string } | { newestN: number };
+  /** Body of POST /api/supabase/sync-lead. */
+  sync_lead: { email: string } | { airtableId: string };
+  /** Next step of a resumable verifier pass (POST /api/verify/passes); `step` = the pass's step count when queued. */
+  verify_pass: { continuation: string; step?: number };
+}
+
+export type JobKind = keyof JobPayloads;
+
+export const JOB_KINDS: JobKind[] = ["resubmit_step", "resubmit_all", "verify_email", "sync_lead", "verify_pass"];
+
+export interface Job<K extends JobKind = JobKind> {
+  id: number;
+  kind: K;
+  payload: JobPayloads[K];
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lockedBy?: string;
+  lastError?: string;
+  result?: unknown;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+export type JobCounts = Record<JobStatus, number>;
+
+export interface WorkerResult {
+  claimed: number;
+  done: number;
+  retried: number;
+  failed: number;
+  durationMs: number;
+  /** When the next queued job comes due, if any is left. */
+  nextRunAt?: string;
+}
+
+interface JobRow {
+  id: number;
+  kind: JobKind;
+  payload: JobPayloads[JobKind];
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_by: string | null;
+  last_error: string | null;
+  result: unknown;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const TABLE = "jobs";
+const JOB_STATUSES: JobStatus[] = ["queued", "running", "failed", "done"];
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+/**
+ * Per-job request timeout: the target route's maxDuration plus slack, so
+ * the platform ends the call (a retryable 504) before the worker gives up
+ * on a request that may still be running.
+ */
+const JOB_TIMEOUTS_MS: Record<JobKind, number> = {
+  resubmit_step: 35 * 1000,
+  resubmit_all: 65 * 1000,
+  verify_email: 65 * 1000,
+  sync_lead: 35 * 1000,
+  verify_pass: 65 * 1000,
+};
+/** The worker stops claiming when less than the longest job timeout is left. */
+const MAX_JOB_TIMEOUT_MS = Math.max(...Object.values(JOB_TIMEOUTS_MS));
+/** Worker time budget — keep under /api/jobs/worker's maxDuration. */
+const WORKER_DEADLINE_MS = 110 * 1000;
+const RESULT_MAX_CHARS = 2000;
+
+/** What each kind runs: the route that already implements the work. */
+const JOB_ROUTES: Record<JobKind, string> = {
+  resubmit_step: "/api/onboarding/resubmit",
+  resubmit_all: "/api/onboarding/resubmit-all",
+  verify_email: "/api/verify/sweep",
+  sync_lead: "/api/supabase/sync-lead",
+  verify_pass: "/api/verify/passes",
+};
+
+/** Retry delay after the given (1-based) failed attempt: 30s, 1m, 2m, … capped at 1h. */
+export function backoffMs(attempt: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempt - 1), BACKOFF_MAX_MS);
+}
+
+function fromRow(row: JobRow): Job {
+  return {
+    id: row.id,
+    kind: row.kind,
+    payload: row.payload,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAt: row.run_at,
+    lockedBy: row.locked_by ?? undefined,
+    lastError: row.last_error ?? undefined,
+    result: row.result ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at ?? undefined,
+  };
+}
+
+/**
+ * Client errors won't change on retry; timeouts, rate limits and 409s
+ * (the same resubmit already running, see idempotency.ts) will.
+ */
+function isRetryable(status: number): boolean {
+  return status >= 500 || status === 408 || status === 409 || status === 429;
+}
+
+class JobFailure extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+  }
+}
+
+/** Run one job against its route. Resolves with the response body, throws JobFailure. */
+async function executeJob(job: Pick<Job, "kind" | "payload"> & { id?: number }, origin: string): Promise<unknown> {
+  let res: Response;
+  try {
+    res = await fetch(`${origin}${JOB_ROUTES[job.kind]}`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "x-cron-secret": process.env.CRON_SECRET || "",
+        // Shows up as the actor in the lead's retry history.
+        "x-actor": job.id ? `job:${job.id}` : "job",
+      },
+      body: JSON.stringify(job.payload),
+      cache: "no-store",
+      signal: AbortSignal.timeout(JOB_TIMEOUTS_MS[job.kind]),
+    });
+  } catch (err) {
+    throw new JobFailure(err instanceof Error ? err.message : "request failed", true);
+  }
+  const text = await res.text().catch(() => "");
+  let body: unknown = text.slice(0, RESULT_MAX_CHARS);
+  try {
+    body = JSON.parse(text);
+  } catch {
+    /* keep the text */
+  }
+  if (!res.ok) {
+    throw new JobFailure(`${JOB_ROUTES[job.kind]} ${res.status}: ${text.slice(0, 300)}`, isRetryable(res.status));
+  }
+  // resubmit routes answer 200 with success:false for some n8n failures.
+  if (body && typeof body === "object" && (body as { success?: unknown }).success === false) {
+    const message = (body as { message?: string }).message || "success: false";
+    throw new JobFailure(`${JOB_ROUTES[job.kind]}: ${message}`, true);
+  }
+  return body;
+}
+
+/** run_at of the next queued job, or null when the queue is empty. */
+async function nextRunAt(): Promise<string | null> {
+  const { rows } = await supaSelect<Pick<JobRow, "run_at">>({
+    path: TABLE,
+    query: { select: "run_at", status: "eq.queued", order: "run_at.asc", limit: 1 },
+  });
+  return rows[0]?.run_at ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Add a job to the queue. Throws when Supabase isn't configured. */
+export async function enqueueJob<K extends JobKind>(
+  kind: K,
+  payload: JobPayloads[K],
+  options?: { runAt?: Date; maxAttempts?: number }
+): Promise<Job<K>> {
+  const [row] = await supaUpsert<JobRow>(
+    TABLE,
+    [
+      {
+        kind,
+        payload,
+        max_attempts: options?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        run_at: (options?.runAt ?? new Date()).toISOString(),
+      },
+    ],
+    { returning: true }
+  );
+  if (!row) throw new Error("Supabase did not return the queued job");
+  return fromRow(row) as Job<K>;
+}
+
+/**
+ * Queue a job and kick the worker once the response has been sent. Use
+ * from route handlers in place of a fire-and-forget fetch. Never throws —
+ * if the queue is unavailable the job runs once, unqueued.
+ */
+export async function dispatchJob<K extends JobKind>(
+  origin: string,
+  kind: K,
+  payload: JobPayloads[K]
+): Promise<Job<K> | null> {
+  if (isSupabaseConfigured()) {
+    try {
+      const job = await enqueueJob(kind, payload);
+      scheduleWorkerRun(origin);
+      return job;
+    } catch (err) {
+      console.warn("[jobs] enqueue failed, running unqueued:", err instanceof Error ? err.message : err);
+    }
+  }
+  after(() => executeJob({ kind, payload }, origin).catch(() => undefined));
+  return null;
+}
+
+/**
+ * Once the response has been sent, start a worker run on its own
+ * invocation so it gets the worker's full time budget.
+ */
+export function scheduleWorkerRun(origin: string): void {
+  after(() =>
+    fetch(`${origin}/api/jobs/worker`, {
+      method: "POST",
+      headers: { "x-cron-secret": process.env.CRON_SECRET || "" },
+      cache: "no-store",
+    }).catch(() => undefined)
+  );
+}
+
+/**
+ * Claim and run due jobs one at a time until the queue is empty, `limit`
+ * jobs have run or `deadlineMs` has passed. A queued job (a retry) that
+ * comes due while there's still time to run it is waited for.
+ */
+export async function processDueJobs(options: {
+  origin: string;
+  worker: string;
+  limit?: number;
+  deadlineMs?: number;
+}): Promise<WorkerResult> {
+  const started = Date.now();
+  const limit = options.limit ?? 25;
+  const deadline = started + (options.deadlineMs ?? WORKER_DEADLINE_MS);
+  const result: WorkerResult = { claimed: 0, done: 0, retried: 0, failed: 0, durationMs: 0 };
+
+  while (result.claimed < limit && Date.now() + MAX_JOB_TIMEOUT_MS < deadline) {
+    const [row] = await supaRpc<JobRow[]>("claim_jobs", { p_worker: options.worker, p_limit: 1 });
+    if (!row) {
+      const next = await nextRunAt();
+      const dueAt = next ? new Date(next).getTime() : Infinity;
+      if (dueAt + MAX_JOB_TIMEOUT_MS >= deadline) break;
+      await new Promise((resolve) => setTimeout(resolve, Math.max(0, dueAt - Date.now()) + 100));
+      continue;
+    }
+    result.claimed++;
+    const job = fromRow(row);
+    try {
+      const body = await executeJob(job, options.origin);
+      await supaRpc("finish_job", { p_id: job.id, p_result: body ?? null });
+      result.done++;
+    } catch (err) {
+      const failure = err instanceof JobFailure ? err : new JobFailure(String(err), true);
+      const retry = failure.retryable && job.attempts < job.maxAttempts;
+      await supaRpc("finish_job", {
+        p_id: job.id,
+        p_error: failure.message.slice(0, RESULT_MAX_CHARS),
+        p_retry_at: retry ? new Date(Date.now() + backoffMs(job.attempts)).toISOString() : null,
+      });
+      if (retry) result.retried++;
+      else result.failed++;
+    }
+  }
+
+  result.nextRunAt = (await nextRunAt()) ?? undefined;
+  result.durationMs = Date.now() - started;
+  return result;
+}
+
+/** Jobs, most recently updated first, optionally filtered by status / kind. */
+export async function listJobs(options?: { status?: JobStatus; kind?: JobKind; limit?: number }): Promise<Job[]> {
+  const query: Record<string, string | number> = {
+    select: "*",
+    order: "updated_at.desc,id.desc",
+    limit: options?.limit ?? 100,
+  };
+  if (options?.status) query.status = `eq.${options.status}`;
+  if (options?.kind) query.kind = `eq.${options.kind}`;
+  const { rows } = await supaSelect<JobRow>({ path: TABLE, query });
+  return rows.map(fromRow);
+}
+
+/** Number of jobs in each status. */
+export async function countJobs(): Promise<JobCounts> {
+  const entries = await Promise.all(
+    JOB_STATUSES.map(async (status) => {
+      const { total } = await supaSelect({
+        path: TABLE,
+        query: { select: "id", status: `eq.${status}`, limit: 0 },
+        prefer: "count=exact",
+      });
+      return [status, total ?? 0] as const;
+    })
+  );
+  return Object.fromEntries(entries) as JobCounts;
+}
+
+/** Queue a failed or finished job again with a fresh set of attempts. */
+export async function requeueJob(id: number): Promise<Job | null> {
+  const row = await supaRpc<JobRow | null>("requeue_job", { p_id: id });
+  return row?.id ? fromRow(row) : null;
+}
@@ -1,12 +1,24 @@
 /**
  * n8n webhook client for triggering automations.
- * Supports resubmit-onboarding, per-step resubmits, and CRM audit workflows.
+ * Supports resubmit-onboarding, per-step resubmits, and CRM audit workflows,
+ * plus a read-only REST API client for inspecting failed executions and
+ * checking that the workflows the dashboard calls are deployed and active.
  */
 
+import { promises as fs } from "fs";
+import path from "path";
+import { redact } from "./redact";
+
 const N8N_BASE_URL =
   process.env.N8N_BASE_URL || "https://n8n.aimanagingservices.com";
 const N8N_API_KEY = process.env.N8N_API_KEY || "";
 const N8N_WEBHOOK_SECRET = process.env.N8N_WEBHOOK_SECRET || "";
+/**
+ * Development stand-in for the REST API: a directory of recorded
+ * executions, one `<executionId>.json` per execution (the body of
+ * GET /api/v1/executions/:id?includeData=true). See scripts/n8n/fixtures/.
+ */
+const N8N_EXECUTION_FIXTURES_DIR = process.env.N8N_EXECUTION_FIXTURES_DIR || "";
 
 export interface N8nResponse {
   success: boolean;
@@ -34,6 +46,18 @@ const STEP_WEBHOOK_PATHS: Record<string, string> = {
   vendhub: "/webhook/ma-resubmit-vendhub",
 };
 
+/** Workflow names in the scripts/n8n/ exports, for finding a workflow whose path drifted. */
+const STEP_WORKFLOW_EXPORTS: Record<string, { name: string; file: string }> = {
+  close_crm: { name: "MA — Resubmit: Close CRM", file: "ma-resubmit-close.json" },
+  email_validation: { name: "MA — Resubmit: Email Validation", file: "ma-resubmit-email.json" },
+  mighty_networks: { name: "MA — Resubmit: Mighty Networks", file: "ma-resubmit-mn.json" },
+  intercom: { name: "MA — Resubmit: Intercom", file: "ma-resubmit-intercom.json" },
+  vendhub: { name: "MA — Resubmit: VendHub (PLACEHOLDER)", file: "ma-resubmit-vendhub.json" },
+};
+
+const RESUBMIT_ONBOARDING_PATH = "/webhook/resubmit-onboarding";
+const CRM_AUDIT_PATH = "/webhook/crm-audit-trigger-55b555d3";
+
 /**
  * Generic helper to POST to an n8n webhook endpoint.
  */
@@ -124,7 +148,7 @@ async function postWebhook(
 export async function triggerResubmit(
   payload: ResubmitPayload
 ): Promise<N8nResponse> {
-  return postWebhook("/webhook/resubmit-onboarding", payload);
+  return postWebhook(RESUBMIT_ONBOARDING_PATH, payload);
 }
 
 /**
@@ -148,5 +172,345 @@ export async function triggerStepResubmit(
  * Trigger the CRM audit workflow.
  */
 export async function triggerAudit(): Promise<N8nResponse> {
-  return postWebhook("/webhook/crm-audit-trigger-55b555d3");
+  return postWebhook(CRM_AUDIT_PATH);
+}
+
+// ---------------------------------------------------------------------------
+// Execution inspector (n8n public REST API)
+// ---------------------------------------------------------------------------
+
+/** One failed (or finished) execution, trimmed to what the lead drawer shows. */
+export interface ExecutionInspection {
+  executionId: string;
+  workflowId?: string;
+  workflowName?: string;
+  status: string;
+  mode?: string;
+  startedAt?: string;
+  stoppedAt?: string;
+  /** The node that failed — n8n's own answer, else the node we were asked about, else the last one run. */
+  node?: string;
+  /** Items the node received: the output of the node that fed it. */
+  input: unknown;
+  /** Items the node produced, when it got that far. */
+  output: unknown;
+  error?: { message: string; description?: string; stack?: string; httpCode?: string };
+  /** Nodes in run order, so the drawer can show where the run stopped. */
+  nodesRun: string[];
+  /** "api" for the live instance, "fixture" for a recorded execution. */
+  source: "api" | "fixture";
+}
+
+/** A failed n8n REST API call, with the HTTP status a route should answer with. */
+export class N8nApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+interface N8nNodeError {
+  message?: string;
+  description?: string;
+  stack?: string;
+  httpCode?: string;
+  node?: { name?: string };
+}
+
+interface N8nTaskData {
+  startTime?: number;
+  executionStatus?: string;
+  source?: ({ previousNode?: string; previousNodeOutput?: number; previousNodeRun?: number } | null)[];
+  data?: { main?: ({ json?: unknown }[] | null)[] };
+  error?: N8nNodeError;
+}
+
+interface N8nExecution {
+  id: string | number;
+  status?: string;
+  finished?: boolean;
+  mode?: string;
+  startedAt?: string;
+  stoppedAt?: string;
+  workflowId?: string | number;
+  workflowData?: { name?: string };
+  data?: {
+    resultData?: {
+      runData?: Record<string, N8nTaskData[]>;
+      lastNodeExecuted?: string;
+      error?: N8nNodeError;
+    };
+  };
+}
+
+export function isExecutionInspectorConfigured(): boolean {
+  return Boolean(N8N_API_KEY || N8N_EXECUTION_FIXTURES_DIR);
+}
+
+/** The `json` of every item on every output of one node run. */
+function itemsOf(task: N8nTaskData | undefined, output?: number): unknown[] {
+  const outputs = task?.data?.main ?? [];
+  const picked = output === undefined ? outputs : [outputs[output] ?? []];
+  return picked.flatMap((items) => (items ?? []).map((item) => item?.json ?? item));
+}
+
+/** GET from the n8n public REST API (/api/v1). Throws N8nApiError. */
+async function apiGet<T>(path: string): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${N8N_BASE_URL}/api/v1${path}`, {
+      headers: { "X-N8N-API-KEY": N8N_API_KEY, Accept: "application/json" },
+      cache: "no-store",
+      signal: AbortSignal.timeout(15_000),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error occurred";
+    throw new N8nApiError(`Failed to reach n8n: ${message}`, 502);
+  }
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => "")).slice(0, 300);
+    throw new N8nApiError(
+      `n8n API ${path.split("?")[0]} — HTTP ${response.status}${detail ? `: ${detail}` : ""}`,
+      response.status === 404 ? 404 : 502
+    );
+  }
+  return (await response.json()) as T;
+}
+
+async function loadExecution(executionId: string): Promise<{ execution: N8nExecution; source: "api" | "fixture" }> {
+  if (N8N_EXECUTION_FIXTURES_DIR) {
+    const file = path.join(N8N_EXECUTION_FIXTURES_DIR, `${executionId}.json`);
+    try {
+      return { execution: JSON.parse(await fs.readFile(file, "utf8")) as N8nExecution, source: "fixture" };
+    } catch (err) {
+      // Fall through to the live API when one is configured.
+      if (!N8N_API_KEY) {
+        const missing = (err as NodeJS.ErrnoException).code === "ENOENT";
+        throw new N8nApiError(
+          missing ? `No recorded execution ${executionId}` : `Could not read ${file}`,
+          missing ? 404 : 500
+        );
+      }
+    }
+  }
+
+  const execution = await apiGet<N8nExecution>(`/executions/${encodeURIComponent(executionId)}?includeData=true`);
+  return { execution, source: "api" };
+}
+
+/**
+ * Fetch one execution and pull out the failing node's input, output and
+ * error. Everything returned has been through redact(). Throws
+ * N8nApiError (with an HTTP status for the route to pass on).
+ */
+export async function inspectExecution(executionId: string, nodeHint?: string): Promise<ExecutionInspection> {
+  const { execution, source } = await loadExecution(executionId);
+  const result = execution.data?.resultData ?? {};
+  const runData = result.runData ?? {};
+
+  const nodesRun = Object.entries(runData)
+    .map(([name, runs]) => ({ name, start: runs[0]?.startTime ?? 0 }))
+    .sort((a, b) => a.start - b.start)
+    .map((n) => n.name);
+
+  const failedByRun = nodesRun.find((name) => runData[name]?.some((t) => t.error));
+  const node =
+    result.error?.node?.name ||
+    failedByRun ||
+    (nodeHint && runData[nodeHint] ? nodeHint : undefined) ||
+    result.lastNodeExecuted;
+
+  const runs = node ? runData[node] ?? [] : [];
+  const task = runs.find((t) => t.error) ?? runs[runs.length - 1];
+  const from = task?.source?.[0];
+  const feeder = from?.previousNode ? runData[from.previousNode] : undefined;
+  const input = feeder ? itemsOf(feeder[from?.previousNodeRun ?? feeder.length - 1], from?.previousNodeOutput ?? 0) : [];
+
+  const err = task?.error ?? result.error;
+  return {
+    executionId: String(execution.id ?? executionId),
+    workflowId: execution.workflowId !== undefined ? String(execution.workflowId) : undefined,
+    workflowName: execution.workflowData?.name,
+    status: execution.status ?? (execution.finished ? "success" : "unknown"),
+    mode: execution.mode,
+    startedAt: execution.startedAt,
+    stoppedAt: execution.stoppedAt,
+    node,
+    input: redact(input),
+    output: redact(itemsOf(task)),
+    error: err
+      ? (redact({
+          message: err.message || "Unknown error",
+          description: err.description || undefined,
+          stack: err.stack || undefined,
+          httpCode: err.httpCode || undefined,
+        }) as ExecutionInspection["error"])
+      : undefined,
+    nodesRun,
+    source,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Workflow registry (n8n public REST API)
+// ---------------------------------------------------------------------------
+
+/** A workflow the dashboard calls, and where. */
+export interface ExpectedWorkflow {
+  key: string;
+  label: string;
+  /** Webhook path the dashboard POSTs to, e.g. "/webhook/ma-resubmit-close". */
+  path: string;
+  /** Workflow name in the scripts/n8n/ export, when there is one. */
+  exportName?: string;
+  exportFile?: string;
+  usedBy: string;
+}
+
+export type WorkflowHealth = "ok" | "inactive" | "missing" | "path_mismatch" | "unknown";
+
+export interface WorkflowStatus extends ExpectedWorkflow {
+  health: WorkflowHealth;
+  workflow?: { id: string; name: string; active: boolean; updatedAt?: string };
+  /** Webhook paths the deployed workflow actually listens on. */
+  deployedPaths: string[];
+  lastExecution?: { id: string; status: string; startedAt?: string; stoppedAt?: string };
+}
+
+export interface WorkflowRegistry {
+  checkedAt: string;
+  /** False without N8N_API_KEY: the expected list only, every health "unknown". */
+  apiConfigured: boolean;
+  workflows: WorkflowStatus[];
+  error?: string;
+}
+
+/** Every workflow the dashboard depends on. */
+export const EXPECTED_WORKFLOWS: ExpectedWorkflow[] = [
+  {
+    key: "resubmit_onboarding",
+    label: "Resubmit onboarding (full)",
+    path: RESUBMIT_ONBOARDING_PATH,
+    exportName: "Resubmit Student Onboarding (with mighty network)",
+    usedBy: "Resubmit all, and the fallback when a per-step retry fails",
+  },
+  ...Object.entries(STEP_WEBHOOK_PATHS).map(([step, path]) => ({
+    key: step,
+    label: STEP_WORKFLOW_EXPORTS[step]?.name.replace(/^MA — /, "") ?? step,
+    path,
+    exportName: STEP_WORKFLOW_EXPORTS[step]?.name,
+    exportFile: STEP_WORKFLOW_EXPORTS[step]?.file,
+    usedBy: `Retry on the ${step} step`,
+  })),
+  {
+    key: "crm_audit",
+    label: "CRM audit",
+    path: CRM_AUDIT_PATH,
+    usedBy: "Actions → Run CRM audit",
+  },
+];
+
+interface N8nWorkflow {
+  id: string;
+  name: string;
+  active: boolean;
+  updatedAt?: string;
+  nodes?: { type?: string; parameters?: { path?: string } }[];
+}
+
+interface N8nExecutionSummary {
+  id: string | number;
+  status?: string;
+  finished?: boolean;
+  startedAt?: string;
+  stoppedAt?: string;
+}
+
+const WORKFLOW_PAGE_LIMIT = 250;
+const WORKFLOW_MAX_PAGES = 10;
+
+function webhookPaths(workflow: N8nWorkflow): string[] {
+  return (workflow.nodes ?? [])
+    .filter((n) => n.type === "n8n-nodes-base.webhook" && n.parameters?.path)
+    .map((n) => `/webhook/${String(n.parameters?.path).replace(/^\/+/, "")}`);
+}
+
+async function listWorkflows(): Promise<N8nWorkflow[]> {
+  const all: N8nWorkflow[] = [];
+  let cursor: string | undefined;
+  for (let page = 0; page < WORKFLOW_MAX_PAGES; page++) {
+    const query = new URLSearchParams({ limit: String(WORKFLOW_PAGE_LIMIT) });
+    if (cursor) query.set("cursor", cursor);
+    const res = await apiGet<{ data: N8nWorkflow[]; nextCursor?: string | null }>(`/workflows?${query}`);
+    all.push(...(res.data ?? []));
+    if (!res.nextCursor) break;
+    cursor = res.nextCursor;
+  }
+  return all;
+}
+
+async function lastExecutionOf(workflowId: string): Promise<WorkflowStatus["lastExecution"]> {
+  const res = await apiGet<{ data: N8nExecutionSummary[] }>(
+    `/executions?workflowId=${encodeURIComponent(workflowId)}&limit=1`
+  );
+  const e = res.data?.[0];
+  if (!e) return undefined;
+  return {
+    id: String(e.id),
+    status: e.status ?? (e.finished ? "success" : "unknown"),
+    startedAt: e.startedAt,
+    stoppedAt: e.stoppedAt,
+  };
+}
+
+/**
+ * Check every EXPECTED_WORKFLOWS entry against the live instance: is a
+ * workflow listening on its webhook path (or, failing that, one with the
+ * exported name), is it active, and how did its last execution go.
+ * Never throws — API failures come back as `error` with health "unknown".
+ */
+export async function checkWorkflowRegistry(): Promise<WorkflowRegistry> {
+  const checkedAt = new Date().toISOString();
+  const unknown = (error?: string): WorkflowRegistry => ({
+    checkedAt,
+    apiConfigured: Boolean(N8N_API_KEY),
+    workflows: EXPECTED_WORKFLOWS.map((w) => ({ ...w, health: "unknown", deployedPaths: [] })),
+    error,
+  });
+  if (!N8N_API_KEY) return unknown();
+
+  let deployed: N8nWorkflow[];
+  try {
+    deployed = await listWorkflows();
+  } catch (err) {
+    return unknown(err instanceof Error ? err.message : "Could not list n8n workflows");
+  }
+
+  const workflows = await Promise.all(
+    EXPECTED_WORKFLOWS.map(async (expected): Promise<WorkflowStatus> => {
+      const byPath = deployed.filter((w) => webhookPaths(w).includes(expected.path));
+      // Prefer an active workflow when an old copy still claims the path.
+      const match =
+        byPath.find((w) => w.active) ??
+        byPath[0] ??
+        (expected.exportName ? deployed.find((w) => w.name === expected.exportName) : undefined);
+      if (!match) return { ...expected, health: "missing", deployedPaths: [] };
+
+      const deployedPaths = webhookPaths(match);
+      let lastExecution: WorkflowStatus["lastExecution"];
+      try {
+        lastExecution = await lastExecutionOf(match.id);
+      } catch {
+        lastExecution = undefined;
+      }
+      return {
+        ...expected,
+        health: !deployedPaths.includes(expected.path) ? "path_mismatch" : match.active ? "ok" : "inactive",
+        workflow: { id: match.id, name: match.name, active: match.active, updatedAt: match.updatedAt },
+        deployedPaths,
+        lastExecution,
+      };
+    })
+  );
+
+  return { checkedAt, apiConfigured: true, workflows };
 }
@@ -0,0 +1,374 @@
+/**
+ * Pipeline snapshot history and step-transition tracking.
+ *
+ * recordPipelineSnapshot() stores a compact copy of every LeadPipeline's
+ * statuses in Supabase (`pipeline_snapshots`), diffs it against the
+ * previous snapshot and writes one `events` row per step / overall status
+ * change (see scripts/supabase/004_pipeline_history.sql). Transitions are
+ * timestamped with the snapshot time, so they're accurate to the snapshot
+ * interval (six hours on the Vercel cron). getLeadStepHistory() reads them
+ * back as per-step durations.
+ *
+ * The first snapshot is a baseline and writes no events — there's nothing
+ * to diff it against. Every other snapshot names the one it was diffed
+ * against, and only one may (a unique index on previous_id): a run that
+ * overlaps another gets SnapshotBusyError instead of writing the same
+ * transitions twice.
+ */
+
+import { STEP_LABELS, STEP_ORDER, type LeadPipeline, type StepId, type StepStatus } from "./pipeline";
+import { supaRpc, supaSelect, supaUpsert } from "./supabase";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Compact per-lead statuses as stored in pipeline_snapshots.states. */
+type SnapshotStates = Record<string, { o: StepStatus; s: Partial<Record<StepId, StepStatus>> }>;
+
+interface SnapshotRow {
+  id: number;
+  taken_at: string;
+  rules_version: number | null;
+  lead_count: number;
+  transitions: number;
+  duration_ms: number | null;
+  previous_id?: number | null;
+  states?: SnapshotStates;
+}
+
+interface EventRow {
+  id: number;
+  lead_id: string | null;
+  pipeline_lead_id: string;
+  platform: string | null;
+  event_type: string;
+  step_id: StepId | null;
+  from_step_status: StepStatus | null;
+  to_step_status: StepStatus;
+  actor: string | null;
+  payload: { detail?: string; rulesVersion?: number; fullName?: string } | null;
+  snapshot_id: number | null;
+  created_at: string;
+}
+
+export interface SnapshotSummary {
+  id: number;
+  takenAt: string;
+  rulesVersion: number | null;
+  leadCount: number;
+  transitions: number;
+  durationMs: number | null;
+}
+
+export interface SnapshotResult extends SnapshotSummary {
+  /** True when there was no previous snapshot to diff against. */
+  baseline: boolean;
+  /** Leads seen for the first time (their initial statuses are recorded). */
+  newLeads: number;
+}
+
+/** Thrown by recordPipelineSnapshot when another run already diffed against the same snapshot. */
+export class SnapshotBusyError extends Error {
+  constructor(readonly previousId: number) {
+    super(`Another run already recorded the transitions since snapshot ${previousId}`);
+    this.name = "SnapshotBusyError";
+  }
+}
+
+export interface StepTransition {
+  leadId: string;
+  /** null = the lead's overall status. */
+  stepId: StepId | null;
+  /** null = first time this lead was seen. */
+  from: StepStatus | null;
+  to: StepStatus;
+  at: string;
+  detail?: string;
+  rulesVersion?: number;
+}
+
+export interface StatusSegment {
+  status: StepStatus;
+  /** null when the status predates the recorded history. */
+  enteredAt: string | null;
+  /** null while it's still the current status. */
+  leftAt: string | null;
+  /** Elapsed time in this status (up to now for the current one); null when enteredAt is unknown. */
+  durationMs: number | null;
+}
+
+export interface StepDuration {
+  stepId: StepId;
+  label: string;
+  currentStatus: StepStatus | null;
+  /** First recorded status for the step: the lead's first sighting, or its first change after the baseline. */
+  startedAt: string | null;
+  /** Last recorded move into "success". */
+  completedAt: string | null;
+  /** completedAt − startedAt; null until both are known. */
+  durationMs: number | null;
+  segments: StatusSegment[];
+}
+
+export interface LeadStepHistory {
+  leadId: string;
+  overall: StatusSegment[];
+  steps: StepDuration[];
+  transitions: StepTransition[];
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const SNAPSHOTS = "pipeline_snapshots";
+const EVENTS = "events";
+const EVENT_TYPE_STEP = "step_transition";
+const EVENT_TYPE_OVERALL = "overall_transition";
+const EVENT_BATCH = 500;
+const LEAD_LOOKUP_BATCH = 100;
+
+/** Steps that map onto a platform_t value in the events table. */
+const STEP_PLATFORM: Partial<Record<StepId, string>> = {
+  close_crm: "close",
+  airtable_record: "airtable",
+  mighty_networks: "mighty",
+  intercom: "intercom",
+  vendhub: "vendhub",
+};
+
+function toSummary(row: SnapshotRow): SnapshotSummary {
+  return {
+    id: row.id,
+    takenAt: row.taken_at,
+    rulesVersion: row.rules_version,
+    leadCount: row.lead_count,
+    transitions: row.transitions,
+    durationMs: row.duration_ms,
+  };
+}
+
+function compactStates(leads: LeadPipeline[]): SnapshotStates {
+  const states: SnapshotStates = {};
+  for (const lead of leads) {
+    const s: Partial<Record<StepId, StepStatus>> = {};
+    for (const step of lead.steps) s[step.id] = step.status;
+    states[lead.id] = { o: lead.overallStatus, s };
+  }
+  return states;
+}
+
+function diffStates(
+  prev: SnapshotStates,
+  leads: LeadPipeline[],
+  takenAt: string
+): { transitions: StepTransition[]; newLeads: number } {
+  const transitions: StepTransition[] = [];
+  let newLeads = 0;
+  for (const lead of leads) {
+    const before = prev[lead.id];
+    if (!before) newLeads++;
+    const base = { leadId: lead.id, at: takenAt, rulesVersion: lead.rulesVersion };
+    if (before?.o !== lead.overallStatus) {
+      transitions.push({ ...base, stepId: null, from: before?.o ?? null, to: lead.overallStatus });
+    }
+    for (const step of lead.steps) {
+      const was = before?.s[step.id];
+      if (was === step.status) continue;
+      transitions.push({ ...base, stepId: step.id, from: was ?? null, to: step.status, detail: step.detail });
+    }
+  }
+  return { transitions, newLeads };
+}
+
+/** Map Airtable record ids to `leads.id` where the Supabase sync has a row. */
+async function resolveLeadUuids(airtableIds: string[]): Promise<Map<string, string>> {
+  const out = new Map<string, string>();
+  for (let i = 0; i < airtableIds.length; i += LEAD_LOOKUP_BATCH) {
+    const chunk = airtableIds.slice(i, i + LEAD_LOOKUP_BATCH);
+    const { rows } = await supaSelect<{ id: string; airtable_id: string }>({
+      path: "leads",
+      query: { select: "id,airtable_id", airtable_id: `in.(${chunk.join(",")})` },
+    });
+    for (const r of rows) out.set(r.airtable_id, r.id);
+  }
+  return out;
+}
+
+function fromEventRow(row: EventRow): StepTransition {
+  return {
+    leadId: row.pipeline_lead_id,
+    stepId: row.step_id,
+    from: row.from_step_status,
+    to: row.to_step_status,
+    at: row.created_at,
+    detail: row.payload?.detail,
+    rulesVersion: row.payload?.rulesVersion,
+  };
+}
+
+function buildSegments(transitions: StepTransition[], now: number): StatusSegment[] {
+  const segments: StatusSegment[] = [];
+  const first = transitions[0];
+  if (first?.from) {
+    segments.push({ status: first.from, enteredAt: null, leftAt: first.at, durationMs: null });
+  }
+  transitions.forEach((t, i) => {
+    const leftAt = transitions[i + 1]?.at ?? null;
+    const end = leftAt ? new Date(leftAt).getTime() : now;
+    segments.push({ status: t.to, enteredAt: t.at, leftAt, durationMs: end - new Date(t.at).getTime() });
+  });
+  return segments;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Most recent snapshots, newest first (without the stored states). */
+export async function listSnapshots(limit = 20): Promise<SnapshotSummary[]> {
+  const { rows } = await supaSelect<SnapshotRow>({
+    path: SNAPSHOTS,
+    query: {
+      select: "id,taken_at,rules_version,lead_count,transitions,duration_ms",
+      order: "id.desc",
+      limit,
+    },
+  });
+  return rows.map(toSummary);
+}
+
+/**
+ * Save a snapshot of `leads`, diff it against the previous one and record
+ * each status change as an `events` row. Throws SnapshotBusyError when an
+ * overlapping run got there first.
+ */
+export async function recordPipelineSnapshot(leads: LeadPipeline[]): Promise<SnapshotResult> {
+  const started = Date.now();
+  const takenAt = new Date().toISOString();
+
+  const { rows: prevRows } = await supaSelect<SnapshotRow>({
+    path: SNAPSHOTS,
+    query: { select: "id,taken_at,states", order: "id.desc", limit: 1 },
+  });
+  const prev = prevRows[0];
+  const { transitions, newLeads } = prev
+    ? diffStates(prev.states ?? {}, leads, takenAt)
+    : { transitions: [], newLeads: leads.length };
+
+  let snapshot: SnapshotRow | undefined;
+  try {
+    [snapshot] = await supaUpsert<SnapshotRow>(
+      SNAPSHOTS,
+      [
+        {
+          taken_at: takenAt,
+          rules_version: leads[0]?.rulesVersion ?? null,
+          lead_count: leads.length,
+          transitions: transitions.length,
+          duration_ms: Date.now() - started,
+          previous_id: prev?.id ?? null,
+          states: compactStates(leads),
+        },
+      ],
+      { returning: true }
+    );
+  } catch (err) {
+    // The unique previous_id: another run saved its snapshot (and events) first.
+    if (prev && err instanceof Error && / 409: /.test(err.message)) throw new SnapshotBusyError(prev.id);
+    throw err;
+  }
+  if (!snapshot) throw new Error("Supabase did not return the saved snapshot");
+
+  if (transitions.length > 0) {
+    const changedIds = Array.from(new Set(transitions.map((t) => t.leadId)));
+    const leadUuids = await resolveLeadUuids(changedIds);
+    const names = new Map(leads.map((l) => [l.id, l.fullName]));
+    const rows = transitions.map((t) => ({
+      lead_id: leadUuids.get(t.leadId) ?? null,
+      pipeline_lead_id: t.leadId,
+      platform: t.stepId ? STEP_PLATFORM[t.stepId] ?? null : null,
+      event_type: t.stepId ? EVENT_TYPE_STEP : EVENT_TYPE_OVERALL,
+      step_id: t.stepId,
+      from_step_status: t.from,
+      to_step_status: t.to,
+      actor: "snapshot",
+      payload: { detail: t.detail, rulesVersion: t.rulesVersion, fullName: names.get(t.leadId) },
+      snapshot_id: snapshot.id,
+      created_at: t.at,
+    }));
+    for (let i = 0; i < rows.length; i += EVENT_BATCH) {
+      await supaUpsert(EVENTS, rows.slice(i, i + EVENT_BATCH));
+    }
+  }
+
+  try {
+    await supaRpc("prune_pipeline_snapshots", {});
+  } catch (err) {
+    console.warn("[pipeline-history] prune failed:", err instanceof Error ? err.message : err);
+  }
+
+  return {
+    ...toSummary(snapshot),
+    durationMs: Date.now() - started,
+    baseline: !prev,
+    newLeads: prev ? newLeads : 0,
+  };
+}
+
+/** Recorded transitions across all leads, newest first. */
+export async function listRecentTransitions(limit = 100): Promise<StepTransition[]> {
+  const { rows } = await supaSelect<EventRow>({
+    path: EVENTS,
+    query: {
+      select: "*",
+      event_type: `in.(${EVENT_TYPE_STEP},${EVENT_TYPE_OVERALL})`,
+      order: "created_at.desc",
+      limit,
+    },
+  });
+  return rows.map(fromEventRow);
+}
+
+/** Every recorded transition for one lead, as per-step status segments and durations. */
+export async function getLeadStepHistory(leadId: string): Promise<LeadStepHistory> {
+  const { rows } = await supaSelect<EventRow>({
+    path: EVENTS,
+    query: {
+      select: "*",
+      pipeline_lead_id: `eq.${leadId}`,
+      event_type: `in.(${EVENT_TYPE_STEP},${EVENT_TYPE_OVERALL})`,
+      order: "created_at.asc,id.asc",
+    },
+  });
+  const transitions = rows.map(fromEventRow);
+  const now = Date.now();
+
+  const steps: StepDuration[] = STEP_ORDER.map((stepId) => {
+    const forStep = transitions.filter((t) => t.stepId === stepId);
+    const completed = forStep.filter((t) => t.to === "success").pop();
+    const startedAt = forStep[0]?.at ?? null;
+    const completedAt = completed?.at ?? null;
+    return {
+      stepId,
+      label: STEP_LABELS[stepId],
+      currentStatus: forStep[forStep.length - 1]?.to ?? null,
+      startedAt,
+      completedAt,
+      durationMs:
+        startedAt && completedAt ? Math.max(0, new Date(completedAt).getTime() - new Date(startedAt).getTime()) : null,
+      segments: buildSegments(forStep, now),
+    };
+  });
+
+  return {
+    leadId,
+    overall: buildSegments(
+      transitions.filter((t) => t.stepId === null),
+      now
+    ),
+    steps,
+    transitions,
+  };
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_RULES, validateRules, type ClassificationRules } from "./classification-rules";
+import { derivePipeline, type StepId } from "./pipeline";
+import { decodeClient, decodeOnboardingError } from "./records";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function client(fields: Record<string, unknown>) {
+  return decodeClient({
+    id: "recClient",
+    fields: {
+      "Full Name": "Ada Lovelace",
+      Email: "ada@example.com",
+      "Client ID": "lead_abc123",
+      "Date Added": new Date(Date.now() - 10 * DAY_MS).toISOString(),
+      ...fields,
+    },
+  });
+}
+
+function openError(errorType: string) {
+  return decodeOnboardingError({
+    id: "recError",
+    fields: {
+      "Error Type": errorType,
+      "Error Message": "Contact create failed",
+      Email: "ada@example.com",
+      Status: "New",
+      Timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+function rules(overrides: Partial<ClassificationRules>): ClassificationRules {
+  return { ...DEFAULT_RULES, ...overrides };
+}
+
+function step(lead: ReturnType<typeof derivePipeline>, id: StepId) {
+  const s = lead.steps.find((st) => st.id === id);
+  if (!s) throw new Error(`no ${id} step`);
+  return s;
+}
+
+describe("derivePipeline rules", () => {
+  it("stamps the rules version on the lead", () => {
+    const lead = derivePipeline(client({}), [], rules({ version: 7 }));
+    expect(lead.rulesVersion).toBe(7);
+  });
+
+  it("treats an Intercom miss as an error by default", () => {
+    const lead = derivePipeline(client({ "Intercom Synced": "Not imported" }), []);
+    expect(step(lead, "intercom").status).toBe("error");
+  });
+
+  it("treats an Intercom miss as waiting when the rules say so", () => {
+    const lead = derivePipeline(
+      client({ "Intercom Synced": "Not imported" }),
+      [],
+      rules({ intercom: { ...DEFAULT_RULES.intercom, notImported: "waiting_for_customer" } })
+    );
+    expect(step(lead, "intercom").status).toBe("waiting_for_customer");
+    expect(lead.waitingOnIntercom).toBe(true);
+  });
+
+  it("prefers an open Intercom error over the waiting rule", () => {
+    const lead = derivePipeline(
+      client({ "Intercom Synced": "Not imported" }),
+      [openError("Intercom Contact")],
+      rules({ intercom: { ...DEFAULT_RULES.intercom, notImported: "waiting_for_customer" } })
+    );
+    const intercom = step(lead, "intercom");
+    expect(intercom.status).toBe("error");
+    expect(intercom.errorRecordId).toBe("recError");
+  });
+});
+
+describe("validateRules", () => {
+  it("accepts the defaults", () => {
+    const { rules: valid, errors } = validateRules(DEFAULT_RULES);
+    expect(errors).toEqual([]);
+    expect(valid?.intercom).toEqual(DEFAULT_RULES.intercom);
+  });
+
+  it("fills missing sections with the defaults", () => {
+    const { rules: valid, errors } = validateRules({ mightyNetworks: { graceHours: 48 } });
+    expect(errors).toEqual([]);
+    expect(valid?.mightyNetworks.graceHours).toBe(48);
+    expect(valid?.email).toEqual(DEFAULT_RULES.email);
+  });
+
+  it("rejects out-of-range hours and unknown outcomes", () => {
+    const { rules: valid, errors } = validateRules({
+      mightyNetworks: { graceHours: -1 },
+      intercom: { notImported: "ignore", notFoundErrorAfterHours: 48 },
+    });
+    expect(valid).toBeUndefined();
+    expect(errors).toEqual([
+      "mightyNetworks.graceHours must be a number of hours between 0 and 8760",
+      "intercom.notImported must be one of error, waiting_for_customer",
+    ]);
+  });
+
+  it("rejects unknown VendHub signals", () => {
+    const { errors } = validateRules({ vendhub: { successSignals: ["psychic"], notFound: "error" } });
+    expect(errors).toContain("vendhub.successSignals has unknown signals: psychic");
+  });
+});
+
+describe("SLA", () => {
+  const HOUR_MS = 60 * 60 * 1000;
+  const sla = rules({
+    sla: { ...DEFAULT_RULES.sla, targetHours: { ...DEFAULT_RULES.sla.targetHours, close_crm: 10 }, atRiskFraction: 0.25 },
+  });
+  // No Client ID: the lead sits on its first step, so the budget is that step's target.
+  const waitingForClose = (ageHours: number) =>
+    client({ "Client ID": undefined, "Date Added": new Date(Date.now() - ageHours * HOUR_MS).toISOString() });
+
+  it("is on track with more than the at-risk fraction of the budget left", () => {
+    const lead = derivePipeline(waitingForClose(5), [], sla);
+    expect(lead.sla).toMatchObject({ stepId: "close_crm", status: "on_track", targetHours: 10, budgetHours: 10 });
+    expect(lead.sla?.remainingHours).toBeCloseTo(5, 0);
+  });
+
+  it("is at risk inside the last quarter of the budget", () => {
+    expect(derivePipeline(waitingForClose(8), [], sla).sla?.status).toBe("at_risk");
+  });
+
+  it("is breached once the budget is spent", () => {
+    const lead = derivePipeline(waitingForClose(12), [], sla);
+    expect(lead.sla?.status).toBe("breached");
+    expect(lead.sla?.remainingHours).toBeLessThan(0);
+  });
+
+  it("has no SLA without a Date Added", () => {
+    const lead = derivePipeline(client({ "Client ID": undefined, "Date Added": undefined }), [], sla);
+    expect(lead.sla).toBeUndefined();
+  });
+});
+
+describe("tier pipelines", () => {
+  const silverSkipsIntercom = rules({ tiers: [{ match: "Silver", skipSteps: ["intercom"] }] });
+
+  it("skips nothing with the default rules", () => {
+    const lead = derivePipeline(client({ "Program Tier Purchased": "Silver Membership" }), []);
+    expect(lead.steps.some((s) => s.status === "skipped")).toBe(false);
+  });
+
+  it("skips the steps the matching tier leaves out", () => {
+    const lead = derivePipeline(client({ "Program Tier Purchased": "Silver Membership" }), [], silverSkipsIntercom);
+    expect(step(lead, "intercom").status).toBe("skipped");
+    expect(step(lead, "close_crm").status).toBe("success");
+  });
+
+  it("still shows an open error on a skipped step", () => {
+    const lead = derivePipeline(
+      client({ "Program Tier Purchased": "Silver Membership" }),
+      [openError("Intercom Contact")],
+      silverSkipsIntercom
+    );
+    expect(step(lead, "intercom").status).toBe("error");
+  });
+});
@@ -5,20 +5,39 @@
  * Steps:
  *   1. Close CRM         — lead imported/updated in Close
  *   2. Email Validated   — email address passed validation
- *   3. Mighty Networks   — invitation sent / granted
- *   4. Intercom          — contact created / synced
- *   5. VendHub           — placeholder (details coming later)
+ *   3. Airtable          — Clients row exists
+ *   4. Welcome Email     — "Welcome Email Sent: " set
+ *   5. Mighty Networks   — invitation sent / granted
+ *   6. Intercom          — contact created / synced
+ *   7. VendHub           — activated on VendHub
+ *   8. Kickoff Call      — pending → scheduled → completed, from the
+ *                          lead's Student Onboarding "Kickoff Scheduled"
+ *                          and "Kickoff Attended"
  */
 
-import { AirtableRecord, fetchTable } from "./airtable";
+import { fetchTable } from "./airtable";
+import { ClassificationRules, DEFAULT_RULES, getActiveRules, VendhubSignal } from "./classification-rules";
+import type { PlaybookMatch } from "./playbooks";
+import {
+  ClientRecord,
+  decodeClient,
+  decodeOnboardingError,
+  isTruthy,
+  OnboardingErrorRecord,
+  decodeStudentOnboarding,
+  reportDecodeIssues,
+  StudentOnboardingRecord,
+} from "./records";
 
 export type StepId =
   | "close_crm"
   | "email_validation"
   | "airtable_record"
+  | "welcome_email"
   | "mighty_networks"
   | "intercom"
-  | "vendhub";
+  | "vendhub"
+  | "kickoff_call";
 
 export type StepStatus =
   | "success"
@@ -43,6 +62,8 @@ export interface ErrorMeta {
   raw?: string;
   /** Did we humanize the message because Airtable had no real text? */
   humanized?: boolean;
+  /** Matching remediation playbook, attached by the pipeline route (src/lib/playbooks.ts). */
+  playbook?: PlaybookMatch;
 }
 
 export interface StepState {
@@ -63,6 +84,50 @@ export interface StepState {
    * Used to reclassify overall status from "error" to "waiting_for_customer".
    */
   waitingOnCustomer?: boolean;
+  /** Why derivePipeline picked this status. Rendered in the lead drawer. */
+  trace?: StepTrace;
+}
+
+/** One field derivePipeline read while classifying a step. */
+export interface TraceSignal {
+  field: string;
+  value: string | number | boolean | null;
+  /** e.g. "not counted" when the field was read but ignored by the rules. */
+  note?: string;
+}
+
+/** A classification-rules window the step's status depends on. */
+export interface GraceWindowTrace {
+  /** Rules path, e.g. "mightyNetworks.graceHours". */
+  rule: string;
+  windowHours: number;
+  /** Null when the row has no usable Date Added. */
+  elapsedHours: number | null;
+  /** 0 once the window has passed. */
+  remainingHours: number;
+}
+
+export interface StepTrace {
+  /** The branch that decided the status, in plain words. */
+  rule: string;
+  signals: TraceSignal[];
+  grace?: GraceWindowTrace;
+}
+
+export type SlaStatus = "on_track" | "at_risk" | "breached";
+
+/** SLA standing of the lead's current step (see ClassificationRules.sla). */
+export interface LeadSla {
+  stepId: StepId;
+  status: SlaStatus;
+  /** The current step's own target. */
+  targetHours: number;
+  /** Targets of every step up to and including the current one. */
+  budgetHours: number;
+  elapsedHours: number;
+  /** Negative once breached. */
+  remainingHours: number;
+  dueAt: string;
 }
 
 export interface LeadPipeline {
@@ -77,7 +142,7 @@ export interface LeadPipeline {
   steps: StepState[];
   /** Highest-priority open issue across all steps. */
   overallStatus: StepStatus;
-  /** Index of first non-success step (what they're currently on). */
+  /** Index of first non-success, non-skipped step (what they're currently on). */
   currentStepIndex: number;
   /** Platform identifiers for cross-platform deep links. */
   mnInviteId?: string;
@@ -110,6 +175,19 @@ export interface LeadPipeline {
   waitingOnMN?: boolean;
   waitingOnIntercom?: boolean;
   waitingOnVendhub?: boolean;
+  /** ClassificationRules version that produced this classification (0 = built-in defaults). */
+  rulesVersion: number;
+  /**
+   * SLA for the current step. Absent when the lead is done, the step has
+   * no target, there's no Date Added, or the step is waiting on the
+   * customer (with rules.sla.pauseWhileWaiting).
+   */
+  sla?: LeadSla;
+  /** Recorded resubmits (src/lib/retry-history.ts); filled in by the pipeline route. */
+  retries?: number;
+  lastRetryAt?: string;
+  /** Errors hidden from the error views until then (src/lib/snooze.ts); filled in by the pipeline route. */
+  snoozedUntil?: string;
 }
 
 /**
@@ -125,15 +203,27 @@ const ERROR_TYPE_TO_STEP: Record<string, StepId> = {
   "Mighty Networks invite": "mighty_networks",
   "Skool Invite": "mighty_networks", // legacy — Skool has been replaced by MN
   "Intercom Contact": "intercom",
+  "Welcome Email": "welcome_email",
+  "Kickoff Call": "kickoff_call",
 };
 
-const STEP_LABELS: Record<StepId, string> = {
+/**
+ * The step an Onboarding Errors row belongs to. Unknown Error Types
+ * (typos, "Unknown") land on close_crm, the catch-all first step.
+ */
+export function stepForErrorType(errorType: string): StepId {
+  return ERROR_TYPE_TO_STEP[errorType] || "close_crm";
+}
+
+export const STEP_LABELS: Record<StepId, string> = {
   close_crm: "Lead Won in Close CRM",
   email_validation: "Email Validated",
   airtable_record: "Added to Airtable",
+  welcome_email: "Welcome Email Sent",
   mighty_networks: "Added to Mighty Networks",
   intercom: "Added to Intercom",
   vendhub: "Added to VendHub",
+  kickoff_call: "Kickoff Call Held",
 };
 
 /**
@@ -144,9 +234,11 @@ const DEFAULT_ERROR_COPY: Record<StepId, string> = {
   close_crm: "CRM setup incomplete — needs manual review",
   email_validation: "Address failed deliverability check",
   airtable_record: "Client or Student Airtable record could not be created",
+  welcome_email: "Welcome email did not send",
   mighty_networks: "Plan invite did not send",
   intercom: "Sync attempted — contact could not be created",
   vendhub: "Activation not yet confirmed",
+  kickoff_call: "Kickoff call could not be booked",
 };
 
 function isPlaceholder(s: string): boolean {
@@ -166,19 +258,18 @@ function isPlaceholder(s: string): boolean {
  * Keeps real error messages intact; only falls back to the humanized copy
  * when Airtable truly had no information.
  */
-function buildErrorMeta(step: StepId, err: AirtableRecord): ErrorMeta {
-  const f = err.fields;
-  const raw = typeof f["Error Message"] === "string" ? (f["Error Message"] as string).trim() : "";
+function buildErrorMeta(step: StepId, err: OnboardingErrorRecord): ErrorMeta {
+  const raw = err.errorMessage;
   const humanized = isPlaceholder(raw);
   const message = humanized ? DEFAULT_ERROR_COPY[step] : raw;
   return {
     message,
     humanized,
-    type: (f["Error Type"] as string) || undefined,
-    node: (f["Error Node"] as string) || undefined,
-    executionId: (f["Execution ID"] as string) || undefined,
-    timestamp: (f["Timestamp"] as string) || undefined,
-    raw: (f["Raw Error Data"] as string) || undefined,
+    type: err.errorType || undefined,
+    node: err.errorNode,
+    executionId: err.executionId,
+    timestamp: err.timestamp,
+    raw: err.rawErrorData,
   };
 }
 
@@ -190,38 +281,81 @@ function hoursSince(iso?: string): number {
   return (Date.now() - t) / 3_600_000;
 }
 
+function graceWindow(rule: string, windowHours: number, ageHours: number): GraceWindowTrace {
+  const known = Number.isFinite(ageHours);
+  return {
+    rule,
+    windowHours,
+    elapsedHours: known ? Math.round(ageHours * 10) / 10 : null,
+    remainingHours: known ? Math.max(0, Math.round((windowHours - ageHours) * 10) / 10) : 0,
+  };
+}
+
+function evaluateSla(
+  steps: StepState[],
+  currentStepIndex: number,
+  createdAtIso: string | undefined,
+  sla: ClassificationRules["sla"]
+): LeadSla | undefined {
+  const current = steps[currentStepIndex];
+  if (!current || current.status === "success") return undefined;
+  if (sla.pauseWhileWaiting && current.status === "waiting_for_customer") return undefined;
+  const targetHours = sla.targetHours[current.id] ?? 0;
+  const elapsed = hoursSince(createdAtIso);
+  if (!targetHours || !createdAtIso || !Number.isFinite(elapsed)) return undefined;
+
+  const budgetHours = steps
+    .slice(0, currentStepIndex + 1)
+    .filter((s) => s.status !== "skipped")
+    .reduce((sum, s) => sum + (sla.targetHours[s.id] ?? 0), 0);
+  const remaining = budgetHours - elapsed;
+  const status: SlaStatus =
+    remaining < 0 ? "breached" : remaining <= targetHours * sla.atRiskFraction ? "at_risk" : "on_track";
+  return {
+    stepId: current.id,
+    status,
+    targetHours,
+    budgetHours,
+    elapsedHours: Math.round(elapsed * 10) / 10,
+    remainingHours: Math.round(remaining * 10) / 10,
+    dueAt: new Date(new Date(createdAtIso).getTime() + budgetHours * 3_600_000).toISOString(),
+  };
+}
+
+/** The first tier pipeline whose `match` appears in the lead's program tier. */
+export function tierPipelineFor(
+  programTier: string | undefined,
+  tiers: ClassificationRules["tiers"]
+): ClassificationRules["tiers"][number] | undefined {
+  const tier = (programTier || "").toLowerCase();
+  if (!tier) return undefined;
+  return tiers.find((t) => t.match && tier.includes(t.match.toLowerCase()));
+}
+
 export const STEP_ORDER: StepId[] = [
   "close_crm",
   "email_validation",
   "airtable_record",
+  "welcome_email",
   "mighty_networks",
   "intercom",
   "vendhub",
+  "kickoff_call",
 ];
 
-function isTruthy(v: unknown): boolean {
-  if (v === undefined || v === null || v === "") return false;
-  if (typeof v === "boolean") return v;
-  if (typeof v === "string") {
-    const s = v.trim().toLowerCase();
-    if (s === "0" || s === "no" || s === "false" || s === "n" || s === "not sent")
-      return false;
-    return true;
-  }
-  if (typeof v === "number") return v !== 0;
-  if (Array.isArray(v)) return v.length > 0;
-  return Boolean(v);
-}
-
 /**
  * Look at the lead's fields + related error records and decide what's
- * happening at each step.
+ * happening at each step. Policy knobs (grace windows, VendHub signals,
+ * miss handling) come from `rules`. `onboarding` is the lead's Student
+ * Onboarding row (matched by email), which carries the kickoff date.
  */
 export function derivePipeline(
-  student: AirtableRecord,
-  errorsForLead: AirtableRecord[]
+  client: ClientRecord,
+  errorsForLead: OnboardingErrorRecord[],
+  rules: ClassificationRules = DEFAULT_RULES,
+  onboarding?: StudentOnboardingRecord
 ): LeadPipeline {
-  const f = student.fields as Record<string, unknown>;
+  const c = client;
 
   // Open (unresolved) errors, most recent first.
   // Errors older than 14 days are treated as stale — they don't block the lead
@@ -233,48 +367,36 @@ export function derivePipeline(
   // should always surface on the dashboard, regardless of age. The Errors
   // tab has a Bulk Resolve button for clearing genuine backlog.
   const openErrors = errorsForLead
-    .filter((r) => {
-      const s = (r.fields["Status"] as string) || "";
-      return s === "New" || s === "Investigating";
-    })
+    .filter((r) => r.status === "New" || r.status === "Investigating")
     .sort((a, b) => {
-      const at = new Date((a.fields["Timestamp"] as string) || 0).getTime();
-      const bt = new Date((b.fields["Timestamp"] as string) || 0).getTime();
+      const at = new Date(a.timestamp || 0).getTime();
+      const bt = new Date(b.timestamp || 0).getTime();
       return bt - at;
     });
 
   // Group latest open error by step
-  const latestErrorByStep: Partial<Record<StepId, AirtableRecord>> = {};
+  const latestErrorByStep: Partial<Record<StepId, OnboardingErrorRecord>> = {};
   for (const err of openErrors) {
-    const type = (err.fields["Error Type"] as string) || "";
+    const type = err.errorType;
     // When the Error Type doesn't match any known mapping (e.g. "Unknown"),
     // attribute it to close_crm as the catch-all "something went wrong before
     // we got into the pipeline" step. This guarantees every open error row
     // surfaces on the dashboard with an actionable errorRecordId — instead
     // of being silently swallowed because of a typo in Error Type.
-    const step = ERROR_TYPE_TO_STEP[type] || "close_crm";
+    const step = stepForErrorType(type);
     if (!latestErrorByStep[step]) latestErrorByStep[step] = err;
   }
 
   // Clients table uses "Date Added" (createdTime field). Older Student
-  // Onboarding rows used "Create Date". Read whichever is present.
-  const createdAtIso =
-    (f["Date Added"] as string | undefined) ||
-    (f["Create Date"] as string | undefined);
+  // Onboarding rows used "Create Date". decodeClient reads whichever is present.
+  const createdAtIso = c.createdAt;
   const ageHours = hoursSince(createdAtIso);
 
-  // Resolve email from any of the Clients table's email fields. Order matters —
-  // Personal Email is the primary contact email; vendhub_email is for the
-  // operator app sync. Falls back to legacy "Best Email" for any leftover
-  // Student Onboarding rows.
-  const resolvedEmail = (
-    (f["Personal Email"] as string) ||
-    (f["Email"] as string) ||
-    (f["Business Email"] as string) ||
-    (f["vendhub_email"] as string) ||
-    (f["Best Email"] as string) ||
-    ""
-  ).trim();
+  // Email coalesced across the Clients email columns (see EMAIL_FIELDS).
+  const resolvedEmail = c.email;
+
+  // Steps this lead's program tier doesn't get (rules.tiers).
+  const tier = tierPipelineFor(c.programTier, rules.tiers);
 
   // Per-step inference
   const steps: StepState[] = STEP_ORDER.map((id) => {
@@ -282,6 +404,16 @@ export function derivePipeline(
     const openError = latestErrorByStep[id];
     const base: StepState = { id, label, status: "pending" };
 
+    // Fields this step looked at — each branch adds its own, and explain()
+    // attaches them to the returned state with the rule that decided it.
+    const signals: TraceSignal[] = openError
+      ? [{ field: "Onboarding Errors (open)", value: `${openError.errorType || "Unknown"} · ${openError.id}` }]
+      : [];
+    const explain = (state: StepState, rule: string, grace?: GraceWindowTrace): StepState => ({
+      ...state,
+      trace: { rule, signals, ...(grace ? { grace } : {}) },
+    });
+
     const errorFromOpen = openError
       ? {
           status: "error" as const,
@@ -291,41 +423,69 @@ export function derivePipeline(
         }
       : null;
 
+    if (tier?.skipSteps.includes(id)) {
+      signals.push({ field: "Program Tier Purchased / Membership Level", value: c.programTier ?? null });
+      // An open error still shows: something ran for this step anyway.
+      if (errorFromOpen) {
+        return explain(
+          { ...base, ...errorFromOpen },
+          `Tier pipeline "${tier.match}" skips this step, but it has an open Onboarding Errors row`
+        );
+      }
+      return explain(
+        { ...base, status: "skipped", detail: `Not part of ${c.programTier}` },
+        `Tier pipeline "${tier.match}" skips this step`
+      );
+    }
+
     if (id === "close_crm") {
       // Clients table uses "Client ID*" (autoNumber). Student Onboarding
       // table used "Client ID" (text containing the Close lead_* id).
       // Per user direction: classify success ONLY when Client ID is present.
       // Hubspot Deal ID alone does NOT count.
+      signals.push(
+        { field: "Client ID / Client ID*", value: c.clientId ?? null },
+        { field: "Hubspot Deal ID", value: c.hubspotDealId ?? null, note: "not counted" }
+      );
       if (errorFromOpen) {
-        return { ...base, ...errorFromOpen, detail: errorFromOpen.error.type };
+        return explain({ ...base, ...errorFromOpen, detail: errorFromOpen.error.type }, "Open Onboarding Errors row for this step");
       }
-      const clientIdAny = (f["Client ID"] ?? f["Client ID*"]) as string | number | undefined;
-      const clientIdStr = clientIdAny !== undefined && clientIdAny !== null ? String(clientIdAny) : "";
+      const clientIdStr = c.clientId || "";
       if (clientIdStr.startsWith("lead_")) {
-        return { ...base, status: "success", detail: clientIdStr };
+        return explain({ ...base, status: "success", detail: clientIdStr }, "Client ID is a Close lead_* id");
       }
       if (clientIdStr) {
-        return { ...base, status: "success", detail: `Client #${clientIdStr}` };
+        return explain({ ...base, status: "success", detail: `Client #${clientIdStr}` }, "Client ID present");
       }
-      return { ...base, status: "pending" };
+      return explain({ ...base, status: "pending" }, "No Client ID yet");
     }
 
     if (id === "email_validation") {
+      signals.push(
+        { field: "Email (first non-empty email column)", value: resolvedEmail || null },
+        { field: "MN Invite Granted", value: c.mnInviteGranted },
+        { field: "MN Invite ID", value: c.mnInviteId ?? null },
+        { field: "On Mighty Networks", value: c.onMightyNetworks ?? null },
+        { field: "Intercom Synced", value: c.intercomSynced ?? null },
+        { field: "Sent Email File", value: c.sentEmailFile },
+        { field: "Date Added", value: createdAtIso ?? null }
+      );
+      const emailGrace = graceWindow("email.missingErrorAfterHours", rules.email.missingErrorAfterHours, ageHours);
       if (errorFromOpen) {
-        return { ...base, ...errorFromOpen };
+        return explain({ ...base, ...errorFromOpen }, "Open Onboarding Errors row for this step");
       }
       // Downstream success implies email was validated upstream.
-      const mnOk = isTruthy(f["MN Invite Granted"]) || isTruthy(f["MN Invite ID"]) || isTruthy(f["On Mighty Networks"]);
-      const intercomOk = isTruthy(f["Intercom Synced"]);
-      if (resolvedEmail && (mnOk || intercomOk || isTruthy(f["Sent Email File"]))) {
-        return { ...base, status: "success", detail: resolvedEmail };
+      const mnOk = c.mnInviteGranted || isTruthy(c.mnInviteId) || isTruthy(c.onMightyNetworks);
+      const intercomOk = isTruthy(c.intercomSynced);
+      if (resolvedEmail && (mnOk || intercomOk || c.sentEmailFile)) {
+        return explain({ ...base, status: "success", detail: resolvedEmail }, "Email present and a downstream step (MN / Intercom / email file) progressed");
       }
       if (resolvedEmail) {
-        return { ...base, status: "success", detail: resolvedEmail };
+        return explain({ ...base, status: "success", detail: resolvedEmail }, "Email present");
       }
       // No email anywhere — Personal / Business / Email / vendhub_email / Best Email all empty.
-      if (!resolvedEmail && ageHours > 24) {
-        return {
+      if (!resolvedEmail && ageHours > rules.email.missingErrorAfterHours) {
+        return explain({
           ...base,
           status: "error",
           errorMessage: "No email on record — every email field is empty, blocks downstream steps",
@@ -336,23 +496,75 @@ export function derivePipeline(
             node: "Source CRM — should populate Personal Email or Business Email",
           },
           detail: "Blocked — no email",
-        };
+        }, "Every email column empty past the missing-email window", emailGrace);
       }
-      return { ...base, status: "pending" };
+      return explain({ ...base, status: "pending" }, "Every email column empty, still inside the missing-email window", emailGrace);
     }
 
     if (id === "airtable_record") {
+      signals.push({ field: "Clients record", value: c.id });
       if (errorFromOpen) {
-        return { ...base, ...errorFromOpen, detail: errorFromOpen.error.type };
+        return explain({ ...base, ...errorFromOpen, detail: errorFromOpen.error.type }, "Open Onboarding Errors row for this step");
       }
       // We're reading the Clients table — the row's existence is the success
       // signal. (When the source was Student Onboarding, we additionally checked
       // for a linked Clients record. Now we ARE the Client.)
-      return {
+      return explain({
         ...base,
         status: "success",
         detail: "Client record present",
-      };
+      }, "Clients row exists");
+    }
+
+    if (id === "welcome_email") {
+      signals.push({ field: "Welcome Email Sent: ", value: c.welcomeEmailSentAt ?? c.welcomeEmailSent });
+      if (errorFromOpen) {
+        return explain({ ...base, ...errorFromOpen }, "Open Onboarding Errors row for this step");
+      }
+      if (c.welcomeEmailSent) {
+        return explain({
+          ...base,
+          status: "success",
+          detail: c.welcomeEmailSentAt ? `Sent ${c.welcomeEmailSentAt.split("T")[0]}` : "Welcome email sent",
+        }, "Welcome Email Sent: is set");
+      }
+      return explain({ ...base, status: "pending" }, "Welcome Email Sent: is empty");
+    }
+
+    if (id === "kickoff_call") {
+      // Completed only once "Kickoff Attended" is checked: a date in the
+      // past may be a no-show or a reschedule nobody recorded, so it stays
+      // in_progress ("scheduled") until someone marks the call held.
+      const scheduled = onboarding?.kickoffScheduled;
+      const attended = Boolean(onboarding?.kickoffAttended);
+      signals.push(
+        { field: "Student Onboarding row", value: onboarding?.id ?? null },
+        { field: "Kickoff Scheduled", value: scheduled ?? null },
+        { field: "Kickoff Attended", value: attended }
+      );
+      if (errorFromOpen) {
+        return explain({ ...base, ...errorFromOpen }, "Open Onboarding Errors row for this step");
+      }
+      if (attended) {
+        return explain(
+          { ...base, status: "success", detail: scheduled ? `Held ${scheduled.split("T")[0]}` : "Kickoff held" },
+          "Kickoff Attended is checked"
+        );
+      }
+      if (scheduled) {
+        const day = scheduled.split("T")[0];
+        if (new Date(scheduled).getTime() <= Date.now()) {
+          return explain(
+            { ...base, status: "in_progress", detail: `Was scheduled ${day} · not marked held` },
+            "Kickoff Scheduled has passed but Kickoff Attended isn't checked"
+          );
+        }
+        return explain({ ...base, status: "in_progress", detail: `Scheduled ${day}` }, "Kickoff Scheduled is in the future");
+      }
+      return explain(
+        { ...base, status: "pending", detail: onboarding ? "Not scheduled" : "No Student Onboarding row" },
+        "No Kickoff Scheduled date"
+      );
     }
 
     if (id === "mighty_networks") {
@@ -360,19 +572,28 @@ export function derivePipeline(
       // deprecated. We do NOT infer MN membership from Skool fields.
       // Source of truth: "On Mighty Networks" + "MN Join Date" + "MN Member ID"
       // (populated by the MA — Verify Mighty Networks Direct n8n workflow).
-      const onMN = ((f["On Mighty Networks"] as string) || "").toLowerCase();
-      const mnJoinDate = (f["MN Join Date"] as string) || undefined;
-      const mnMemberId = (f["MN Member ID"] as string) || undefined;
+      const onMN = (c.onMightyNetworks || "").toLowerCase();
+      const mnJoinDate = c.mnJoinDate;
+      const mnMemberId = c.mnMemberId;
 
       // Legacy: still honor MN Verified column on Student Onboarding rows.
-      const mnVerified = ((f["MN Verified"] as string) || "").trim();
-      const mnVerifiedAt = (f["MN Verified At"] as string) || undefined;
-      const granted = f["MN Invite Granted"] as string | undefined;
-      const mnInviteId = f["MN Invite ID"] as string | undefined;
+      const mnVerified = c.mnVerified || "";
+      const mnVerifiedAt = c.mnVerifiedAt;
+      const granted = c.mnInviteGranted;
+      const mnInviteId = c.mnInviteId;
+      signals.push(
+        { field: "On Mighty Networks", value: c.onMightyNetworks ?? null },
+        { field: "MN Join Date", value: mnJoinDate ?? null },
+        { field: "MN Member ID", value: mnMemberId ?? null },
+        { field: "MN Verified", value: c.mnVerified ?? null },
+        { field: "MN Invite Granted", value: granted },
+        { field: "MN Invite ID", value: mnInviteId ?? null },
+        { field: "Date Added", value: createdAtIso ?? null }
+      );
 
       // Verified-as-member (real check via MN Admin API) wins
       if (onMN === "verified" || onMN === "yes" || mnJoinDate || isTruthy(mnMemberId)) {
-        return {
+        return explain({
           ...base,
           status: "success",
           detail: mnJoinDate
@@ -380,27 +601,28 @@ export function derivePipeline(
             : mnMemberId
               ? `MN member #${mnMemberId}`
               : "On Mighty Networks",
-        };
+        }, "On Mighty Networks is Verified/Yes, or MN Join Date / MN Member ID set");
       }
       if (mnVerified === "Member" || mnVerified === "Joined" || mnVerified === "Active") {
-        return {
+        return explain({
           ...base,
           status: "success",
           detail: mnVerifiedAt ? `Member since ${mnVerifiedAt.split("T")[0]}` : "Verified member",
-        };
+        }, "Legacy MN Verified is Member / Joined / Active");
       }
 
       // Confirmed "not in MN" by the API.
-      // 14-day grace window: brand-new active clients haven't had time to
-      // accept their invite yet, so don't classify as error. After 14 days
-      // it becomes a real onboarding gap (system never invited OR customer
-      // ghosted) and gets escalated to error.
-      const MN_GRACE_HOURS = 14 * 24;
+      // Grace window (rules.mightyNetworks.graceHours, 14 days by default):
+      // brand-new active clients haven't had time to accept their invite
+      // yet, so don't classify as error. After it, it becomes a real
+      // onboarding gap (system never invited OR customer ghosted) and gets
+      // escalated to error.
       if (onMN === "not imported" || onMN === "no" || onMN === "waiting") {
-        const explicitlyInvited = onMN === "waiting" || isTruthy(granted) || isTruthy(mnInviteId);
-        const withinGrace = ageHours < MN_GRACE_HOURS;
+        const explicitlyInvited = onMN === "waiting" || granted || isTruthy(mnInviteId);
+        const withinGrace = ageHours < rules.mightyNetworks.graceHours;
+        const mnGrace = graceWindow("mightyNetworks.graceHours", rules.mightyNetworks.graceHours, ageHours);
         if (explicitlyInvited || withinGrace) {
-          return {
+          return explain({
             ...base,
             status: "waiting_for_customer",
             waitingOnCustomer: true,
@@ -409,16 +631,16 @@ export function derivePipeline(
               : explicitlyInvited
                 ? "Invite sent · waiting to join"
                 : `New signup · ${Math.max(1, Math.round(ageHours))}h since added`,
-          };
+          }, explicitlyInvited ? "MN miss, but an invite was sent" : "MN miss inside the grace window", mnGrace);
         }
         // If there's an open Onboarding Errors row for this lead/step, prefer
         // it over the synthetic verifier error — that way the New Errors view
         // (which filters by `errorRecordId`) actually surfaces these and the
         // "Resubmit all platforms" button can fire the n8n retry path.
         if (errorFromOpen) {
-          return { ...base, ...errorFromOpen };
+          return explain({ ...base, ...errorFromOpen }, "MN miss past the grace window — open Onboarding Errors row", mnGrace);
         }
-        return {
+        return explain({
           ...base,
           status: "error",
           errorMessage: "Not in Mighty Networks",
@@ -428,42 +650,55 @@ export function derivePipeline(
             type: "MN verification miss",
             node: "MA — Verify Mighty Networks Direct (Vercel)",
           },
-        };
+        }, "MN miss past the grace window", mnGrace);
       }
 
       // Invite sent on legacy Student Onboarding row but no live MN check yet.
-      if (isTruthy(granted) || isTruthy(mnInviteId)) {
-        return {
+      if (granted || isTruthy(mnInviteId)) {
+        return explain({
           ...base,
           status: "waiting_for_customer",
           waitingOnCustomer: true,
           detail: mnInviteId ? `Invite sent · waiting to join (#${mnInviteId})` : "Invite sent · waiting to join",
-        };
+        }, "Invite sent (MN Invite Granted / MN Invite ID), not verified yet");
       }
 
       if (errorFromOpen) {
-        return { ...base, ...errorFromOpen };
+        return explain({ ...base, ...errorFromOpen }, "Open Onboarding Errors row for this step");
       }
-      return { ...base, status: "pending" };
+      return explain({ ...base, status: "pending" }, "No Mighty Networks signals yet");
     }
 
     if (id === "intercom") {
-      const verified = (f["Intercom Verified"] as string) || "";
-      const syncedAt = f["Intercom Synced At"] as string | undefined;
+      const verified = c.intercomVerified || "";
       // Clients table uses "Intercom Synced" (text). Either column counts.
-      const intercomSynced = isTruthy(f["Intercom Synced"]) || isTruthy(syncedAt);
-      const hardFailed = isTruthy(f["Intercome Failed?"]);
+      const intercomSynced = isTruthy(c.intercomSynced) || isTruthy(c.intercomSyncedAt);
+      const hardFailed = c.intercomFailed;
+      signals.push(
+        { field: "Email (first non-empty email column)", value: resolvedEmail || null },
+        { field: "Intercom Synced", value: c.intercomSynced ?? null },
+        { field: "Intercom Synced At", value: c.intercomSyncedAt ?? null },
+        { field: "Intercom Verified", value: c.intercomVerified ?? null },
+        { field: "Intercom Verified At", value: c.intercomVerifiedAt ?? null },
+        { field: "Intercom Contact ID", value: c.intercomContactId ?? null },
+        { field: "Intercome Failed?", value: hardFailed },
+        { field: "MN Invite Granted", value: c.mnInviteGranted },
+        { field: "Skool Granted", value: c.skoolGranted },
+        { field: "Was Email sent", value: c.wasEmailSent },
+        { field: "Sent Email File", value: c.sentEmailFile },
+        { field: "Date Added", value: createdAtIso ?? null }
+      );
 
       if (!resolvedEmail) {
-        return { ...base, status: "pending", detail: "Blocked — no email" };
+        return explain({ ...base, status: "pending", detail: "Blocked — no email" }, "No email on record — blocked");
       }
 
       if (verified === "Verified") {
-        return {
+        return explain({
           ...base,
           status: "success",
-          detail: `Verified ${((f["Intercom Verified At"] as string) || "").split("T")[0]}`,
-        };
+          detail: `Verified ${(c.intercomVerifiedAt || "").split("T")[0]}`,
+        }, "Legacy Intercom Verified = Verified");
       }
 
       // Real-data check: Intercom Synced is populated by /api/verify/intercom
@@ -472,16 +707,16 @@ export function derivePipeline(
       //   "Not imported"  = email not found in Intercom (real onboarding gap)
       //   "Waiting"       = legacy: synced but not verified yet
       //   blank           = not yet checked
-      const intercomSyncedFlag = ((f["Intercom Synced"] as string) || "").toLowerCase();
-      const intercomVerifiedAt = (f["Intercom Verified At"] as string) || undefined;
-      const intercomContactId = (f["Intercom Contact ID"] as string) || undefined;
+      const intercomSyncedFlag = (c.intercomSynced || "").toLowerCase();
+      const intercomVerifiedAt = c.intercomVerifiedAt;
+      const intercomContactId = c.intercomContactId;
       if (
         intercomSyncedFlag === "verified" ||
         intercomSyncedFlag === "yes" ||
         intercomSyncedFlag === "true" ||
         intercomContactId
       ) {
-        return {
+        return explain({
           ...base,
           status: "success",
           detail: intercomContactId
@@ -489,24 +724,33 @@ export function derivePipeline(
             : intercomVerifiedAt
               ? `Verified ${intercomVerifiedAt.split("T")[0]}`
               : "Verified in Intercom",
-        };
+        }, "Intercom Synced is Verified / Yes, or Intercom Contact ID set");
       }
       if (intercomSyncedFlag === "waiting") {
-        return {
+        return explain({
           ...base,
           status: "waiting_for_customer",
           waitingOnCustomer: true,
           detail: "Invited · waiting to be imported",
-        };
+        }, "Intercom Synced = Waiting");
       }
       if (intercomSyncedFlag === "not imported" || intercomSyncedFlag === "no" || intercomSyncedFlag === "false") {
         // Same logic as the MN branch — when there's an open Onboarding Error
-        // row for this lead at the intercom step, prefer it so the New Errors
-        // view can attach the Resubmit button to it.
+        // row for this lead at the intercom step, prefer it (whatever the
+        // rules say about a plain miss) so the New Errors view can attach
+        // the Resubmit button to it.
         if (errorFromOpen) {
-          return { ...base, ...errorFromOpen };
+          return explain({ ...base, ...errorFromOpen }, "Intercom Synced = Not imported — open Onboarding Errors row");
         }
-        return {
+        if (rules.intercom.notImported === "waiting_for_customer") {
+          return explain({
+            ...base,
+            status: "waiting_for_customer",
+            waitingOnCustomer: true,
+            detail: "Not in Intercom yet · waiting on customer",
+          }, "Intercom Synced = Not imported; rules treat the miss as waiting on the customer");
+        }
+        return explain({
           ...base,
           status: "error",
           errorMessage: "Contact not in Intercom",
@@ -516,11 +760,11 @@ export function derivePipeline(
             type: "Intercom verification miss",
             node: "MA — Verify Intercom (Vercel)",
           },
-        };
+        }, "Intercom Synced = Not imported; rules treat the miss as an error");
       }
 
       if (hardFailed && !intercomSynced && openError) {
-        return {
+        return explain({
           ...base,
           status: "error",
           errorMessage: "Intercom sync flagged as failed in Airtable",
@@ -530,62 +774,64 @@ export function derivePipeline(
             type: "Airtable flag",
             node: "Intercom sync node",
           },
-        };
+        }, "Intercome Failed? flagged and an error row is open");
       }
 
       const upstreamProgressed =
         intercomSynced ||
-        isTruthy(f["MN Invite Granted"]) ||
-        isTruthy(f["MN Invite ID"]) ||
-        isTruthy(f["Skool Granted"]) ||
-        isTruthy(f["Was Email sent"]) ||
-        isTruthy(f["Sent Email File"]);
+        c.mnInviteGranted ||
+        isTruthy(c.mnInviteId) ||
+        c.skoolGranted ||
+        c.wasEmailSent ||
+        c.sentEmailFile;
 
       if (upstreamProgressed) {
-        return {
+        return explain({
           ...base,
           status: "waiting_for_customer",
           waitingOnCustomer: true,
           detail: verified === "Not Found"
             ? "Synced · waiting for lead to confirm"
             : intercomSynced ? "Synced · awaiting Intercom verification" : "Awaiting Intercom verification",
-        };
+        }, "Upstream steps progressed — waiting on Intercom verification");
       }
 
-      if (verified === "Not Found" && ageHours < 48) {
-        return { ...base, status: "pending", detail: "Awaiting Intercom sync" };
+      const notFoundAfter = rules.intercom.notFoundErrorAfterHours;
+      const notFoundGrace = graceWindow("intercom.notFoundErrorAfterHours", notFoundAfter, ageHours);
+      if (verified === "Not Found" && ageHours < notFoundAfter) {
+        return explain({ ...base, status: "pending", detail: "Awaiting Intercom sync" }, "Intercom Verified = Not Found, inside the window", notFoundGrace);
       }
 
       if (errorFromOpen) {
-        return { ...base, ...errorFromOpen };
+        return explain({ ...base, ...errorFromOpen }, "Open Onboarding Errors row for this step");
       }
 
-      if (verified === "Not Found" && ageHours >= 48) {
-        return {
+      if (verified === "Not Found" && ageHours >= notFoundAfter) {
+        return explain({
           ...base,
           status: "error",
-          errorMessage: "Contact missing from Intercom after 48h",
+          errorMessage: `Contact missing from Intercom after ${notFoundAfter}h`,
           error: {
-            message: "Contact missing from Intercom after 48h",
+            message: `Contact missing from Intercom after ${notFoundAfter}h`,
             humanized: false,
             type: "Intercom verification miss",
             node: "MA — Verify: Intercom All (n8n)",
-            timestamp: (f["Intercom Verified At"] as string) || undefined,
+            timestamp: c.intercomVerifiedAt,
           },
-        };
+        }, "Intercom Verified = Not Found, past the window", notFoundGrace);
       }
 
-      return { ...base, status: "pending", detail: "Awaiting verification" };
+      return explain({ ...base, status: "pending", detail: "Awaiting verification" }, "No Intercom signals yet");
     }
 
     if (id === "vendhub") {
       if (errorFromOpen) {
-        return { ...base, ...errorFromOpen };
+        return explain({ ...base, ...errorFromOpen }, "Open Onboarding Errors row for this step");
       }
       // Live-verified from the VendHub Activated Users Google Sheet (via MA Verify: VendHub All)
-      const vhStatus = ((f["VendHub Status"] as string) || "").toUpperCase();
-      const org = (f["VendHub Organization"] as string) || undefined;
-      const userId = (f["VendHub User ID"] as string) || undefined;
+      const vhStatus = (c.vendhubStatus || "").toUpperCase();
+      const org = c.vendhubOrganization;
+      const userId = c.vendhubUserId;
       // Every signal Airtable carries that says "this customer is on VendHub":
       //  - `On Vendstack` (singleSelect Yes/No)  → manually flipped by team
       //  - `in_vendhub`   (checkbox)             → set by Google Sheet sync flow
@@ -595,29 +841,37 @@ export function derivePipeline(
       //  - `VendHub Data Sync` (linked records)  → at least one matching row in the
       //                                            VendHub data-sync table = on VendHub
       //  - "Should have access to App?" lookup   → from data-sync table
-      const onVendstack = ((f["On Vendstack"] as string) || "").toLowerCase() === "yes";
-      const inVendhub = isTruthy(f["in_vendhub"]);
-      const hasMachine = ((f["Has Machine"] as string) || "").toLowerCase() === "yes";
-      const invitedToVendhub = isTruthy(f["Invited to VendHUB"]) || isTruthy(f["invited_to_vendhub"]);
-      const machinesPlaced = Number(f["Machines Placed"]) || Number(f["Total Number of Machines"]) || 0;
-      const participation = Number(f["Vendhub Participation"]) || 0;
-      const dataSyncLinks = f["VendHub Data Sync"];
-      const hasDataSyncLink = Array.isArray(dataSyncLinks) && dataSyncLinks.length > 0;
-      const accessLookup = f["Should have access to App? (Number) (from VendHub Data Sync)"];
-      const hasAccessFlag = Array.isArray(accessLookup)
-        ? accessLookup.some((v) => Number(v) > 0 || v === true)
-        : Number(accessLookup) > 0;
+      // Which of these count is rules.vendhub.successSignals.
+      const invitedToVendhub = c.invitedToVendhub;
+      const machinesPlaced = c.machinesPlaced;
+      const hasDataSyncLink = c.vendhubDataSyncIds.length > 0;
+      const vhSignals: Record<VendhubSignal, boolean> = {
+        on_vendstack: c.onVendstack,
+        in_vendhub: c.inVendhub,
+        has_machine: c.hasMachine,
+        machines_placed: machinesPlaced > 0,
+        participation: c.vendhubParticipation > 0,
+        data_sync: hasDataSyncLink,
+        app_access: c.hasAppAccess,
+      };
 
-      if (
-        onVendstack ||
-        inVendhub ||
-        hasMachine ||
-        machinesPlaced > 0 ||
-        participation > 0 ||
-        hasDataSyncLink ||
-        hasAccessFlag
-      ) {
-        return {
+      const counted = rules.vendhub.successSignals.filter((sig) => vhSignals[sig]);
+      const uncounted = (sig: VendhubSignal) =>
+        rules.vendhub.successSignals.includes(sig) ? undefined : "not counted by these rules";
+      signals.push(
+        { field: "VendHub Status", value: c.vendhubStatus ?? null },
+        { field: "On Vendstack", value: c.onVendstack, note: uncounted("on_vendstack") },
+        { field: "in_vendhub", value: c.inVendhub, note: uncounted("in_vendhub") },
+        { field: "Has Machine", value: c.hasMachine, note: uncounted("has_machine") },
+        { field: "Machines Placed", value: machinesPlaced, note: uncounted("machines_placed") },
+        { field: "Vendhub Participation", value: c.vendhubParticipation, note: uncounted("participation") },
+        { field: "VendHub Data Sync (linked rows)", value: c.vendhubDataSyncIds.length, note: uncounted("data_sync") },
+        { field: "Should have access to App?", value: c.hasAppAccess, note: uncounted("app_access") },
+        { field: "invited_to_vendhub", value: invitedToVendhub }
+      );
+
+      if (counted.length > 0) {
+        return explain({
           ...base,
           status: "success",
           detail: machinesPlaced > 0
@@ -625,35 +879,35 @@ export function derivePipeline(
             : hasDataSyncLink
               ? "On VendHub (data sync)"
               : "On VendHub",
-        };
+        }, `VendHub signal counted by the rules: ${counted.join(", ")}`);
       }
       if (invitedToVendhub) {
-        return {
+        return explain({
           ...base,
           status: "waiting_for_customer",
           waitingOnCustomer: true,
           detail: "Invited · waiting to activate",
-        };
+        }, "Invited to VendHub, not activated yet");
       }
       if (vhStatus === "ACTIVE") {
-        return {
+        return explain({
           ...base,
           status: "success",
           detail: org ? `${org}` : userId ? `User ${userId}` : "Active subscription",
-        };
+        }, "VendHub Status = ACTIVE");
       }
       if (vhStatus === "PENDING") {
-        return {
+        return explain({
           ...base,
           status: "waiting_for_customer",
           waitingOnCustomer: true,
           detail: org ? `${org} · pending activation` : "Pending activation",
-        };
+        }, "VendHub Status = PENDING");
       }
       if (vhStatus === "CANCELED") {
         // Real subscription cancellation — this is a customer churn signal,
         // not a waiting state. Keep as error.
-        return {
+        return explain({
           ...base,
           status: "error",
           errorMessage: "VendHub subscription canceled",
@@ -663,33 +917,51 @@ export function derivePipeline(
             humanized: false,
             type: "Subscription cancellation",
             node: "VendHub Activated Users sheet",
-            timestamp: (f["VendHub Verified At"] as string) || undefined,
+            timestamp: c.vendhubVerifiedAt,
           },
-        };
+        }, "VendHub Status = CANCELED");
       }
       if (vhStatus === "NOT FOUND") {
-        // Regardless of age, this is waiting on the customer to sign up on
-        // VendHub — the invite / onboarding email has gone out, they
-        // haven't acted yet. Not an ops error.
+        // By default (rules.vendhub.notFound) this is waiting on the
+        // customer to sign up on VendHub — the invite / onboarding email
+        // has gone out, they haven't acted yet. Not an ops error.
+        if (rules.vendhub.notFound === "error") {
+          return explain({
+            ...base,
+            status: "error",
+            errorMessage: "Not found in VendHub",
+            error: {
+              message: "Customer not found in VendHub",
+              humanized: false,
+              type: "VendHub verification miss",
+              node: "VendHub Activated Users sheet",
+              timestamp: c.vendhubVerifiedAt,
+            },
+          }, "VendHub Status = NOT FOUND; rules treat the miss as an error");
+        }
         const detail = ageHours < 7 * 24
           ? "Not yet activated in VendHub"
           : `Not yet activated · ${Math.round(ageHours / 24)} days since signup`;
-        return {
+        return explain({
           ...base,
           status: "waiting_for_customer",
           waitingOnCustomer: true,
           detail,
-        };
+        }, "VendHub Status = NOT FOUND; rules treat it as waiting on the customer");
       }
-      return { ...base, status: "pending", detail: "Awaiting verification" };
+      return explain({ ...base, status: "pending", detail: "Awaiting verification" }, "No VendHub signals yet");
     }
 
     return base;
   });
 
-  // Compute overall
-  let currentStepIndex = steps.findIndex((s) => s.status !== "success");
-  if (currentStepIndex < 0) currentStepIndex = steps.length - 1;
+  // Compute overall. Skipped steps don't apply to this lead's tier, so
+  // they never become the current step and never hold the lead back.
+  let currentStepIndex = steps.findIndex((s) => s.status !== "success" && s.status !== "skipped");
+  if (currentStepIndex < 0) {
+    currentStepIndex = steps.length - 1;
+    while (currentStepIndex > 0 && steps[currentStepIndex].status === "skipped") currentStepIndex--;
+  }
 
   // Per-platform customer-wait flags, used for the sub-breakdown on the
   // "Waiting for customer" KPI.
@@ -709,62 +981,55 @@ export function derivePipeline(
     overallStatus = "waiting_for_customer";
   } else if (steps.some((s) => s.status === "pending" || s.status === "in_progress")) {
     overallStatus = "in_progress";
-  } else if (steps.every((s) => s.status === "success")) {
+  } else if (steps.every((s) => s.status === "success" || s.status === "skipped")) {
     overallStatus = "success";
   }
 
   // Map Clients-table fields onto our canonical LeadPipeline shape. Where
   // the Clients table doesn't carry an exact equivalent (e.g. it uses
-  // "Membership Level" instead of "Program Tier Purchased"), we substitute
-  // the closest field. resolvedEmail was already coalesced above.
-  const clientIdRaw = f["Client ID"] ?? f["Client ID*"];
-  const clientIdStr = clientIdRaw !== undefined && clientIdRaw !== null ? String(clientIdRaw) : undefined;
+  // "Membership Level" instead of "Program Tier Purchased"), decodeClient
+  // substitutes the closest field.
   return {
-    id: student.id,
-    fullName: (f["Full Name"] as string) || "",
+    id: c.id,
+    fullName: c.fullName,
     email: resolvedEmail,
-    clientId: clientIdStr,
-    programTier:
-      (f["Program Tier Purchased"] as string) ||
-      (f["Membership Level (Text)"] as string) ||
-      (f["Membership Level"] as string) ||
-      undefined,
-    salesRep: (f["Sales Rep"] as string) || undefined,
+    clientId: c.clientId,
+    programTier: c.programTier,
+    salesRep: c.salesRep,
     createdAt: createdAtIso,
-    lastUpdatedAt:
-      (f["Last Modified Time (All Fields)"] as string) ||
-      (f["Wins Last Updated"] as string) ||
-      undefined,
+    lastUpdatedAt: c.lastUpdatedAt,
     steps,
     overallStatus,
     currentStepIndex,
-    mnInviteId: (f["MN Invite ID"] as string) || undefined,
-    mnMemberId: (f["MN Member ID"] as string) || undefined,
-    intercomContactId: (f["Intercom Contact ID"] as string) || undefined,
-    closeLeadId:
-      ((f["Close Lead ID"] as string) || "").trim() ||
-      (clientIdStr && clientIdStr.startsWith("lead_") ? clientIdStr : undefined),
-    vendHubOrganization: (f["VendHub Organization"] as string) || undefined,
-    vendHubUserId: (f["VendHub User ID"] as string) || undefined,
-    airtableRecordId: student.id,
+    mnInviteId: c.mnInviteId,
+    mnMemberId: c.mnMemberId,
+    intercomContactId: c.intercomContactId,
+    closeLeadId: c.closeLeadId,
+    vendHubOrganization: c.vendhubOrganization,
+    vendHubUserId: c.vendhubUserId,
+    airtableRecordId: c.id,
     activeStatus: (() => {
       // The Clients table has `⚙️ Active Client?` (formula → "Yes"/"No").
       // The Account Status singleSelect (Active/Cancelled/Waiting) overrides
-      // when set. Fresh rows (< 3 days old) get a 3-day grace period as
-      // "new_waiting" so newly imported leads are still visible to the team.
-      const acctStatus = ((f["Account Status"] as string) || "").toLowerCase();
+      // when set. Fresh rows (younger than rules.activeStatus.newWaitingHours,
+      // 3 days by default) are "new_waiting" so newly imported leads are
+      // still visible to the team.
+      const acctStatus = (c.accountStatus || "").toLowerCase();
       if (acctStatus === "cancelled") return "inactive" as const;
       if (acctStatus === "waiting") return "new_waiting" as const;
       if (acctStatus === "active") return "active" as const;
-      const activeClient = ((f["⚙️ Active Client?"] as string) || "").toLowerCase();
-      if (activeClient === "yes") return "active" as const;
-      // 3-day grace period for fresh rows
-      if (createdAtIso && hoursSince(createdAtIso) < 72) return "new_waiting" as const;
+      if (c.activeClient) return "active" as const;
+      // Grace period for fresh rows
+      if (createdAtIso && hoursSince(createdAtIso) < rules.activeStatus.newWaitingHours) {
+        return "new_waiting" as const;
+      }
       return "inactive" as const;
     })(),
     waitingOnMN,
     waitingOnIntercom,
     waitingOnVendhub,
+    rulesVersion: rules.version,
+    sla: evaluateSla(steps, currentStepIndex, createdAtIso, rules.sla),
   };
 }
 
@@ -778,11 +1043,37 @@ export function derivePipeline(
 export async function fetchPipeline(options?: {
   max?: number;
   cacheTtl?: number;
+  /** Classify with these rules instead of the active saved version. */
+  rules?: ClassificationRules;
 }): Promise<LeadPipeline[]> {
+  const [rules, snapshot] = await Promise.all([
+    options?.rules ?? getActiveRules(),
+    fetchPipelineSnapshot({ max: options?.max, cacheTtl: options?.cacheTtl }),
+  ]);
+  return classifyPipeline(snapshot, rules);
+}
+
+/** The decoded Airtable rows a classification run reads. */
+export interface PipelineSnapshot {
+  clients: ClientRecord[];
+  errors: OnboardingErrorRecord[];
+  /** Legacy Student Onboarding rows — the kickoff call lives there. */
+  onboarding: StudentOnboardingRecord[];
+  fetchedAt: string;
+}
+
+/**
+ * Fetch and decode the Clients + Onboarding Errors rows once, so several
+ * classifiers (live vs. shadow) can run against the exact same data.
+ */
+export async function fetchPipelineSnapshot(options?: {
+  max?: number;
+  cacheTtl?: number;
+}): Promise<PipelineSnapshot> {
   const max = options?.max;
   const cacheTtl = options?.cacheTtl;
 
-  const [students, errors] = await Promise.all([
+  const [clientRows, errorRows, onboardingRows] = await Promise.all([
     fetchTable("clients", {
       fields: [
         // Identity (only fields that ACTUALLY exist on Clients table tblwDucKYAsPDVBA2)
@@ -815,8 +1106,10 @@ export async function fetchPipeline(options?: {
         "MN Invite Granted",
         // Intercom (real source of truth, populated by /api/verify/intercom).
         // Only the fields that actually exist as columns on the Clients
-        // table — adding non-existent ones makes Airtable reject the
-        // entire fields[] request with UNKNOWN_FIELD_NAME.
+        // table — Airtable rejects the entire fields[] request with
+        // UNKNOWN_FIELD_NAME otherwise. fetchTable now drops names the
+        // schema registry doesn't know (with a warning), but only when it
+        // has a schema for the table, so keep this list accurate.
         "Intercom Synced",
         "Intercom Verified At",
         "Intercom Contact ID",
@@ -831,11 +1124,15 @@ export async function fetchPipeline(options?: {
         // on Machines Placed.
         "On Vendstack",
         "in_vendhub",
+        // Written by the clerk-vendhub webhook and /api/verify/vendhub.
+        "VendHub User ID",
+        "VendHub Verified At",
         // Note: only the lowercase `invited_to_vendhub` column exists on
         // Clients — there is no capital-V "Invited to VendHUB" field
         // there, even though the classifier was historically checking
         // for both. Reading the missing field name in fields[] causes
-        // Airtable to reject the entire request with UNKNOWN_FIELD_NAME.
+        // Airtable to reject the entire request with UNKNOWN_FIELD_NAME
+        // (see the schema registry note above).
         "invited_to_vendhub",
         "Has Machine",
         "Machines Placed",
@@ -859,16 +1156,45 @@ export async function fetchPipeline(options?: {
       ],
       cacheTtl,
     }),
+    fetchTable("studentOnboarding", {
+      fields: ["Best Email", "Kickoff Scheduled", "Kickoff Attended"],
+      cacheTtl,
+    }),
   ]);
 
+  const clients = clientRows.map(decodeClient);
+  const errors = errorRows.map(decodeOnboardingError);
+  const onboarding = onboardingRows.map(decodeStudentOnboarding);
+  reportDecodeIssues("Clients", clients);
+  reportDecodeIssues("Onboarding Errors", errors);
+  reportDecodeIssues("Student Onboarding", onboarding);
+  return { clients, errors, onboarding, fetchedAt: new Date().toISOString() };
+}
+
+/** Classify a snapshot: one LeadPipeline per Clients row, plus ghost leads. */
+export function classifyPipeline(snapshot: PipelineSnapshot, rules: ClassificationRules): LeadPipeline[] {
+  const { clients: students, errors } = snapshot;
+
+  // Student Onboarding rows by email. A lead with several rows keeps the
+  // one with a kickoff date, latest first.
+  const onboardingByEmail = new Map<string, StudentOnboardingRecord>();
+  for (const o of snapshot.onboarding) {
+    const email = o.email.toLowerCase();
+    if (!email) continue;
+    const existing = onboardingByEmail.get(email);
+    if (!existing || (o.kickoffScheduled || "") > (existing.kickoffScheduled || "")) {
+      onboardingByEmail.set(email, o);
+    }
+  }
+
   // Index errors by lead id (the Close lead_... id stored in "Lead ID")
   // and by lowercased email as a fallback.
-  const errorsByLeadId = new Map<string, AirtableRecord[]>();
-  const errorsByEmail = new Map<string, AirtableRecord[]>();
+  const errorsByLeadId = new Map<string, OnboardingErrorRecord[]>();
+  const errorsByEmail = new Map<string, OnboardingErrorRecord[]>();
 
   for (const e of errors) {
-    const leadId = (e.fields["Lead ID"] as string) || "";
-    const email = ((e.fields["Email"] as string) || "").toLowerCase().trim();
+    const leadId = e.leadId;
+    const email = e.email.toLowerCase();
     if (leadId) {
       const arr = errorsByLeadId.get(leadId) || [];
       arr.push(e);
@@ -886,19 +1212,11 @@ export async function fetchPipeline(options?: {
   const matchedErrorIds = new Set<string>();
 
   const fromClients = students.map((s) => {
-    const f = s.fields as Record<string, unknown>;
-    // Resolve the Client's email from any of the four email columns.
-    const email = ((
-      (f["Personal Email"] as string) ||
-      (f["Email"] as string) ||
-      (f["Business Email"] as string) ||
-      (f["vendhub_email"] as string) ||
-      ""
-    ) || "").toLowerCase().trim();
+    const email = s.email.toLowerCase();
     // Clients carry a `Hubspot Deal ID` not a Close `lead_*`, so try both
     // when looking up errors. Most matches will come through email.
-    const hubspotDealId = String(f["Hubspot Deal ID"] ?? "");
-    const clientNum = String((f["Client ID*"] ?? f["Client ID"]) ?? "");
+    const hubspotDealId = s.hubspotDealId !== undefined ? String(s.hubspotDealId) : "";
+    const clientNum = s.clientId || "";
     const related = [
       ...(email ? errorsByEmail.get(email) || [] : []),
       ...(hubspotDealId && hubspotDealId !== "0" ? errorsByLeadId.get(hubspotDealId) || [] : []),
@@ -911,13 +1229,13 @@ export async function fetchPipeline(options?: {
       return true;
     });
     for (const r of dedup) matchedErrorIds.add(r.id);
-    return derivePipeline(s, dedup);
+    return derivePipeline(s, dedup, rules, email ? onboardingByEmail.get(email) : undefined);
   });
 
   // Ghost-leads: errors in tblaQ6fpHGhRs56sH that have no matching Clients
   // row. These are pre-Client failures (e.g. Close → Airtable handoff broke,
   // so a Client row was never created). The team needs to see them.
-  const ghosts = buildGhostLeadsFromErrors(errors, matchedErrorIds);
+  const ghosts = buildGhostLeadsFromErrors(errors, matchedErrorIds, rules.version);
   return [...fromClients, ...ghosts];
 }
 
@@ -927,13 +1245,14 @@ export async function fetchPipeline(options?: {
  * board / errors tab as a red card with the Error Type prominently displayed.
  */
 function buildGhostLeadsFromErrors(
-  errors: AirtableRecord[],
-  matchedIds: Set<string>
+  errors: OnboardingErrorRecord[],
+  matchedIds: Set<string>,
+  rulesVersion: number
 ): LeadPipeline[] {
   // Group unmatched open errors by lowercased email (or by error record id
   // when no email is present). One ghost lead per email — multiple errors
   // for the same email collapse to a single card surfacing the latest.
-  type ErrGroup = { email: string; rows: AirtableRecord[] };
+  type ErrGroup = { email: string; rows: OnboardingErrorRecord[] };
   const groups = new Map<string, ErrGroup>();
 
   // Treat these as "no real value" placeholders the n8n workflow occasionally
@@ -945,12 +1264,11 @@ function buildGhostLeadsFromErrors(
 
   for (const e of errors) {
     if (matchedIds.has(e.id)) continue;
-    const status = (e.fields["Status"] as string) || "";
-    if (status !== "New" && status !== "Investigating") continue;
+    if (e.status !== "New" && e.status !== "Investigating") continue;
 
-    const rawEmail = ((e.fields["Email"] as string) || "").trim();
-    const rawName = ((e.fields["Lead Name"] as string) || "").trim();
-    const rawLeadId = ((e.fields["Lead ID"] as string) || "").trim();
+    const rawEmail = e.email;
+    const rawName = e.leadName;
+    const rawLeadId = e.leadId;
 
     // Skip malformed rows — no email AND no name AND no Close lead id means
     // the row carries zero actionable lead context, almost always emitted by
@@ -977,20 +1295,22 @@ function buildGhostLeadsFromErrors(
       .slice()
       .sort(
         (a, b) =>
-          new Date((b.fields["Timestamp"] as string) || 0).getTime() -
-          new Date((a.fields["Timestamp"] as string) || 0).getTime()
+          new Date(b.timestamp || 0).getTime() -
+          new Date(a.timestamp || 0).getTime()
       );
     const latest = sortedRows[0];
-    const lf = latest.fields as Record<string, unknown>;
-    const errType = (lf["Error Type"] as string) || "";
-    const errStep = ERROR_TYPE_TO_STEP[errType] || "close_crm";
+    const errStep = stepForErrorType(latest.errorType);
     const errMeta = buildErrorMeta(errStep, latest);
-    const errTimestamp = (lf["Timestamp"] as string) || undefined;
+    const errTimestamp = latest.timestamp;
 
-    // Build the 6-stage timeline. The errored stage shows the actual error,
-    // earlier stages are pending (we never got past this point), later
-    // stages are pending too.
+    // Build the timeline, one stage per STEP_ORDER step. The errored stage
+    // shows the actual error, earlier stages are pending (we never got past
+    // this point), later stages are pending too.
     const errStepIdx = STEP_ORDER.indexOf(errStep);
+    const errorSignal: TraceSignal = {
+      field: "Onboarding Errors (open)",
+      value: `${latest.errorType || "Unknown"} · ${latest.id}`,
+    };
     const steps: StepState[] = STEP_ORDER.map((id, idx) => {
       const label = STEP_LABELS[id];
       if (idx === errStepIdx) {
@@ -1001,13 +1321,19 @@ function buildGhostLeadsFromErrors(
           errorMessage: errMeta.message,
           error: errMeta,
           errorRecordId: latest.id,
+          trace: { rule: "No Clients row — open Onboarding Errors row maps to this step", signals: [errorSignal] },
         };
       }
-      return { id, label, status: "pending" };
+      return {
+        id,
+        label,
+        status: "pending",
+        trace: { rule: "No Clients row — nothing to classify", signals: [] },
+      };
     });
 
-    const leadId = (lf["Lead ID"] as string) || "";
-    const rawLeadName = ((lf["Lead Name"] as string) || "").trim();
+    const leadId = latest.leadId;
+    const rawLeadName = latest.leadName;
     const cleanLeadName =
       rawLeadName && rawLeadName.toLowerCase() !== "unknown" && rawLeadName !== "—"
         ? rawLeadName
@@ -1038,6 +1364,7 @@ function buildGhostLeadsFromErrors(
       waitingOnMN: false,
       waitingOnIntercom: false,
       waitingOnVendhub: false,
+      rulesVersion,
     });
   }
   return ghosts;
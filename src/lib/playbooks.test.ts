@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PLAYBOOKS, playbookMatcher, validatePlaybooks, type Playbook } from "./playbooks";
+
+function playbook(overrides: Partial<Playbook>): Playbook {
+  return {
+    id: "test-playbook",
+    title: "Test",
+    match: { message: "boom" },
+    explanation: "Something broke.",
+    cause: "",
+    action: "retry",
+    links: [],
+    ...overrides,
+  };
+}
+
+describe("validatePlaybooks", () => {
+  it("accepts the built-in catalog", () => {
+    expect(validatePlaybooks(DEFAULT_PLAYBOOKS.playbooks).errors).toEqual([]);
+  });
+
+  it("rejects duplicate ids, unknown actions and playbooks without a pattern", () => {
+    const { playbooks, errors } = validatePlaybooks([
+      playbook({}),
+      { ...playbook({ match: {} }), action: "panic" },
+    ]);
+    expect(playbooks).toBeUndefined();
+    expect(errors).toEqual([
+      'playbooks[1].id "test-playbook" is used twice',
+      "playbooks[1] needs at least one pattern (errorType, node or message)",
+      "playbooks[1].action must be one of retry, fix_in_close, contact_customer, investigate",
+    ]);
+  });
+
+  it("rejects patterns that don't compile", () => {
+    const { errors } = validatePlaybooks([playbook({ match: { message: "(unclosed" } })]);
+    expect(errors[0]).toMatch(/^playbooks\[0\]\.match\.message is not a valid regex/);
+  });
+
+  it.each(["(a+)+$", "(\\w*\\s?)*x", "(x{2,})*", "(a)\\1"])("rejects %s as a backtracking risk", (source) => {
+    const { errors } = validatePlaybooks([playbook({ match: { errorType: "Intercom", message: source } })]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^playbooks\[0\]\.match\.message could make matching hang/);
+  });
+
+  it.each(["\\b409\\b|conflict", "(foo|bar)+", "[(a+)]+", "a{2}b+"])("accepts %s", (source) => {
+    expect(validatePlaybooks([playbook({ match: { message: source } })]).errors).toEqual([]);
+  });
+});
+
+describe("playbookMatcher", () => {
+  const match = playbookMatcher(DEFAULT_PLAYBOOKS);
+
+  it("picks the first playbook whose patterns all match", () => {
+    expect(match({ type: "Intercom Contact", message: "HTTP 409 Conflict" })?.id).toBe("intercom-409-conflict");
+    expect(match({ type: "Intercom Contact", message: "429 Too Many Requests" })?.id).toBe("intercom-rate-limit");
+    expect(match({ type: "Close CRM Update", message: "ETIMEDOUT" })?.id).toBe("upstream-timeout");
+  });
+
+  it("returns the playbook without its patterns", () => {
+    const found = match({ type: "Close CRM Fields Empty" });
+    expect(found).toBeDefined();
+    expect(found).not.toHaveProperty("match");
+  });
+
+  it("matches nothing when a pattern fails", () => {
+    expect(match({ type: "Welcome Email", message: "bounced" })).toBeUndefined();
+  });
+
+  it("disables a saved playbook whose pattern could backtrack", () => {
+    const risky = playbookMatcher({ version: 3, playbooks: [playbook({ match: { message: "(a+)+$" } })] });
+    expect(risky({ message: "aaaa" })).toBeUndefined();
+  });
+
+  it("only looks at the start of long fields", () => {
+    const late = playbookMatcher({ version: 3, playbooks: [playbook({ match: { message: "needle" } })] });
+    expect(late({ message: `${"x".repeat(600)} needle` })).toBeUndefined();
+    expect(late({ message: `needle ${"x".repeat(600)}` })?.id).toBe("test-playbook");
+  });
+});
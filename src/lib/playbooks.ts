@@ -0,0 +1,409 @@
+/**
+ * Remediation playbooks — what to do about a known error.
+ *
+ * DEFAULT_ERROR_COPY in pipeline.ts only covers rows with no message. A
+ * playbook matches real Onboarding Errors rows by pattern (Error Type,
+ * Error Node and Error Message, each a case-insensitive regex) and says
+ * in plain words what happened, the likely cause, the recommended action
+ * and where to go. The first matching playbook wins. Patterns are edited
+ * by hand and run on every pipeline load, so ones that can backtrack
+ * without end (nested quantifiers, backreferences) are rejected, and
+ * each field is matched on its first MAX_MATCH_INPUT_CHARS only.
+ *
+ * The catalog is versioned like the classification rules: append-only
+ * rows in Supabase (`error_playbooks`, see
+ * scripts/supabase/010_error_playbooks.sql) edited from the Settings
+ * page. Version 0 is the built-in DEFAULT_PLAYBOOKS, used until something
+ * is saved or when Supabase is down. The pipeline route attaches the
+ * match to each errored step as `error.playbook`.
+ */
+
+import { cache } from "./cache";
+import type { LeadPipeline } from "./pipeline";
+import { isSupabaseConfigured, supaSelect, supaUpsert } from "./supabase";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PlaybookAction = "retry" | "fix_in_close" | "contact_customer" | "investigate";
+
+export interface PlaybookLink {
+  label: string;
+  url: string;
+}
+
+export interface Playbook {
+  /** Stable slug, e.g. "intercom-409-conflict". */
+  id: string;
+  title: string;
+  /** Regex sources, matched case-insensitively. Every pattern given must match; at least one is required. */
+  match: {
+    errorType?: string;
+    node?: string;
+    message?: string;
+  };
+  /** What happened, in plain words. */
+  explanation: string;
+  cause: string;
+  action: PlaybookAction;
+  links: PlaybookLink[];
+}
+
+/** A playbook as attached to an error — without its patterns. */
+export type PlaybookMatch = Omit<Playbook, "match">;
+
+export interface PlaybookCatalog {
+  /** 0 = built-in defaults; saved versions start at 1. */
+  version: number;
+  playbooks: Playbook[];
+}
+
+export interface PlaybookCatalogVersion {
+  version: number;
+  catalog: PlaybookCatalog;
+  note?: string;
+  createdBy?: string;
+  createdAt?: string;
+}
+
+interface CatalogRow {
+  version: number;
+  playbooks: Playbook[];
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// ---------------------------------------------------------------------------
+// Defaults
+// ---------------------------------------------------------------------------
+
+export const PLAYBOOK_ACTIONS: PlaybookAction[] = ["retry", "fix_in_close", "contact_customer", "investigate"];
+
+const CLOSE_LINK: PlaybookLink = { label: "Close CRM", url: "https://app.close.com/" };
+const INTERCOM_LINK: PlaybookLink = { label: "Intercom contacts", url: "https://app.intercom.com/" };
+const N8N_LINK: PlaybookLink = { label: "n8n executions", url: "https://n8n.aimanagingservices.com/home/executions" };
+
+/** The catalog shipped with the dashboard, for the errors the team sees most. */
+export const DEFAULT_PLAYBOOKS: PlaybookCatalog = {
+  version: 0,
+  playbooks: [
+    {
+      id: "intercom-409-conflict",
+      title: "Intercom contact already exists",
+      match: { errorType: "^Intercom", message: "\\b409\\b|conflict|already exists" },
+      explanation: "Intercom refused to create the contact because one with this email or external id is already there.",
+      cause: "The lead was imported before (an earlier run, a form, or a manual add), usually as a lead rather than a user.",
+      action: "investigate",
+      links: [INTERCOM_LINK],
+    },
+    {
+      id: "intercom-rate-limit",
+      title: "Intercom rate limit",
+      match: { errorType: "^Intercom", message: "\\b429\\b|rate limit|too many requests" },
+      explanation: "Intercom throttled the request; nothing is wrong with the lead.",
+      cause: "Many contacts were synced in a short burst (a bulk resubmit or an import).",
+      action: "retry",
+      links: [N8N_LINK],
+    },
+    {
+      id: "mn-422-invalid-email",
+      title: "Mighty Networks rejected the email",
+      match: { errorType: "Mighty|Skool", message: "\\b422\\b|invalid.{0,20}email|email.{0,20}invalid" },
+      explanation: "Mighty Networks would not send the plan invite because it considers the address invalid.",
+      cause: "A typo or a non-deliverable address on the Close lead.",
+      action: "fix_in_close",
+      links: [CLOSE_LINK],
+    },
+    {
+      id: "mn-already-member",
+      title: "Already a Mighty Networks member",
+      match: { errorType: "Mighty|Skool", message: "already (a )?member|already invited" },
+      explanation: "The invite failed because this person is already in the network or has a pending invite.",
+      cause: "They joined on their own or were invited by an earlier run.",
+      action: "contact_customer",
+      links: [],
+    },
+    {
+      id: "close-fields-empty",
+      title: "Required Close fields are empty",
+      match: { errorType: "Close CRM Fields Empty" },
+      explanation: "The Close lead is missing fields onboarding needs (email, program tier or sales rep).",
+      cause: "The deal was marked Won before the rep filled in the lead.",
+      action: "fix_in_close",
+      links: [CLOSE_LINK],
+    },
+    {
+      id: "email-undeliverable",
+      title: "Email failed validation",
+      match: { errorType: "^Email Validation" },
+      explanation: "The address didn't pass the deliverability check, so later steps won't reach the customer.",
+      cause: "A typo, a disposable address, or a mailbox that doesn't exist.",
+      action: "contact_customer",
+      links: [CLOSE_LINK],
+    },
+    {
+      id: "upstream-timeout",
+      title: "Upstream timeout or outage",
+      match: { message: "timed? ?out|ETIMEDOUT|ECONNRESET|\\b50[234]\\b|service unavailable" },
+      explanation: "The platform didn't answer in time. The lead's data is probably fine.",
+      cause: "A temporary outage or slow response on the platform's side.",
+      action: "retry",
+      links: [N8N_LINK],
+    },
+  ],
+};
+
+const TABLE = "error_playbooks";
+const CATALOG_CACHE_KEY = "playbooks:catalog:active";
+const CATALOG_CACHE_TAG = "error-playbooks";
+const CATALOG_TTL_MS = 30 * 1000;
+
+const MAX_PLAYBOOKS = 200;
+const MAX_PATTERN_CHARS = 300;
+const MAX_TEXT_CHARS = 1000;
+/** Longest slice of an error field a pattern is run against. */
+const MAX_MATCH_INPUT_CHARS = 500;
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function text(value: unknown, path: string, errors: string[], required = true): string {
+  const s = typeof value === "string" ? value.trim() : "";
+  if (required && !s) errors.push(`${path} is required`);
+  if (s.length > MAX_TEXT_CHARS) errors.push(`${path} must be at most ${MAX_TEXT_CHARS} characters`);
+  return s;
+}
+
+/** Is the token at `i` an unbounded or multi-count repeat: *, + or {n,…}? */
+function repeatsAt(source: string, i: number): boolean {
+  const c = source[i];
+  return c === "*" || c === "+" || (c === "{" && /^\{\d*,/.test(source.slice(i)));
+}
+
+/**
+ * Why a pattern could backtrack catastrophically, or null. Catches the
+ * usual shape — a repeated group that repeats inside, like (a+)+ or
+ * (\w*\s?)* — and backreferences. A heuristic, not a proof.
+ */
+function backtrackRisk(source: string): string | null {
+  // Per open group: does it contain a repeat?
+  const groups: boolean[] = [];
+  let inClass = false;
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i];
+    if (c === "\\") {
+      if (!inClass && /[1-9k]/.test(source[i + 1] ?? "")) return "backreferences aren't allowed";
+      i++;
+    } else if (inClass) {
+      if (c === "]") inClass = false;
+    } else if (c === "[") {
+      inClass = true;
+    } else if (c === "(") {
+      groups.push(false);
+    } else if (c === ")") {
+      const inner = groups.pop() ?? false;
+      if (inner && repeatsAt(source, i + 1)) return "a group with a repeat inside can't itself repeat, e.g. (a+)+";
+      if (inner && groups.length) groups[groups.length - 1] = true;
+    } else if (repeatsAt(source, i) && groups.length) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return null;
+}
+
+function pattern(value: unknown, path: string, errors: string[]): string | undefined {
+  const s = typeof value === "string" ? value.trim() : "";
+  if (!s) return undefined;
+  if (s.length > MAX_PATTERN_CHARS) {
+    errors.push(`${path} must be at most ${MAX_PATTERN_CHARS} characters`);
+    return undefined;
+  }
+  try {
+    new RegExp(s, "i");
+  } catch (err) {
+    errors.push(`${path} is not a valid regex: ${err instanceof Error ? err.message : s}`);
+    return undefined;
+  }
+  const risk = backtrackRisk(s);
+  if (risk) {
+    errors.push(`${path} could make matching hang: ${risk}`);
+    return undefined;
+  }
+  return s;
+}
+
+function links(value: unknown, path: string, errors: string[]): PlaybookLink[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be a list`);
+    return [];
+  }
+  return value.map((l, i) => {
+    const url = typeof l?.url === "string" ? l.url.trim() : "";
+    if (!/^https?:\/\//i.test(url)) errors.push(`${path}[${i}].url must be an http(s) URL`);
+    return { label: text(l?.label, `${path}[${i}].label`, errors), url };
+  });
+}
+
+/** Validate an editor submission: patterns compile, ids are unique, actions are known. */
+export function validatePlaybooks(input: unknown): { playbooks?: Playbook[]; errors: string[] } {
+  if (!Array.isArray(input)) return { errors: ["playbooks must be a list"] };
+  if (input.length > MAX_PLAYBOOKS) return { errors: [`At most ${MAX_PLAYBOOKS} playbooks`] };
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  const playbooks = input.map((p, i): Playbook => {
+    const path = `playbooks[${i}]`;
+    const id = text(p?.id, `${path}.id`, errors);
+    if (id && !/^[a-z0-9][a-z0-9-]*$/.test(id)) errors.push(`${path}.id must be a lowercase slug (a-z, 0-9, -)`);
+    if (seen.has(id)) errors.push(`${path}.id "${id}" is used twice`);
+    seen.add(id);
+
+    const match = {
+      errorType: pattern(p?.match?.errorType, `${path}.match.errorType`, errors),
+      node: pattern(p?.match?.node, `${path}.match.node`, errors),
+      message: pattern(p?.match?.message, `${path}.match.message`, errors),
+    };
+    if (!match.errorType && !match.node && !match.message) {
+      errors.push(`${path} needs at least one pattern (errorType, node or message)`);
+    }
+    const action = PLAYBOOK_ACTIONS.includes(p?.action) ? (p.action as PlaybookAction) : "investigate";
+    if (!PLAYBOOK_ACTIONS.includes(p?.action)) errors.push(`${path}.action must be one of ${PLAYBOOK_ACTIONS.join(", ")}`);
+
+    return {
+      id,
+      title: text(p?.title, `${path}.title`, errors),
+      match: Object.fromEntries(Object.entries(match).filter(([, v]) => v)) as Playbook["match"],
+      explanation: text(p?.explanation, `${path}.explanation`, errors),
+      cause: text(p?.cause, `${path}.cause`, errors, false),
+      action,
+      links: links(p?.links, `${path}.links`, errors),
+    };
+  });
+  return errors.length ? { errors } : { playbooks, errors };
+}
+
+function fromRow(row: CatalogRow): PlaybookCatalogVersion {
+  return {
+    version: row.version,
+    catalog: { version: row.version, playbooks: row.playbooks ?? [] },
+    note: row.note ?? undefined,
+    createdBy: row.created_by ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+function compile(source: string | undefined): RegExp | null | undefined {
+  if (!source) return undefined;
+  // Saved before the check existed: treat it like a pattern that doesn't compile.
+  if (backtrackRisk(source)) return null;
+  try {
+    return new RegExp(source, "i");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A matcher for the catalog: the first playbook whose patterns all match
+ * the error, without its patterns. Patterns compile once per catalog.
+ */
+export function playbookMatcher(
+  catalog: PlaybookCatalog
+): (error: { type?: string; node?: string; message?: string }) => PlaybookMatch | undefined {
+  const compiled = catalog.playbooks.flatMap((p) => {
+    const patterns = [compile(p.match.errorType), compile(p.match.node), compile(p.match.message)];
+    // A saved pattern that no longer compiles disables its playbook rather than matching everything.
+    if (patterns.every((re) => re === undefined) || patterns.includes(null)) return [];
+    const playbook: PlaybookMatch = {
+      id: p.id,
+      title: p.title,
+      explanation: p.explanation,
+      cause: p.cause,
+      action: p.action,
+      links: p.links,
+    };
+    return [{ patterns: patterns as (RegExp | undefined)[], playbook }];
+  });
+  return (error) => {
+    const values = [error.type, error.node, error.message].map((v) => (v ?? "").slice(0, MAX_MATCH_INPUT_CHARS));
+    return compiled.find(({ patterns }) => patterns.every((re, i) => !re || re.test(values[i])))?.playbook;
+  };
+}
+
+/**
+ * Attach the matching playbook to every errored step. Humanized messages
+ * (DEFAULT_ERROR_COPY) are matched on type and node only.
+ */
+export function attachPlaybooks(leads: LeadPipeline[], catalog: PlaybookCatalog): LeadPipeline[] {
+  const match = playbookMatcher(catalog);
+  return leads.map((lead) => {
+    if (!lead.steps.some((s) => s.status === "error" && s.error)) return lead;
+    return {
+      ...lead,
+      steps: lead.steps.map((s) => {
+        if (s.status !== "error" || !s.error) return s;
+        const playbook = match({
+          type: s.error.type,
+          node: s.error.node,
+          message: s.error.humanized ? "" : s.error.message,
+        });
+        return playbook ? { ...s, error: { ...s.error, playbook } } : s;
+      }),
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+/** The latest saved catalog, or DEFAULT_PLAYBOOKS when nothing is saved / Supabase is unavailable. */
+export async function getActivePlaybooks(): Promise<PlaybookCatalog> {
+  if (!isSupabaseConfigured()) return DEFAULT_PLAYBOOKS;
+  return cache.getOrLoad(
+    CATALOG_CACHE_KEY,
+    async () => {
+      try {
+        const [latest] = await listPlaybookVersions(1);
+        return latest?.catalog ?? DEFAULT_PLAYBOOKS;
+      } catch (err) {
+        console.warn("[playbooks] Falling back to defaults:", err instanceof Error ? err.message : err);
+        return DEFAULT_PLAYBOOKS;
+      }
+    },
+    CATALOG_TTL_MS,
+    { tags: [CATALOG_CACHE_TAG] }
+  );
+}
+
+/** Saved catalog versions, newest first. */
+export async function listPlaybookVersions(limit = 20): Promise<PlaybookCatalogVersion[]> {
+  const { rows } = await supaSelect<CatalogRow>({
+    path: TABLE,
+    query: { select: "version,playbooks,note,created_by,created_at", order: "version.desc", limit },
+  });
+  return rows.map(fromRow);
+}
+
+/** Append a new catalog version and make it active. */
+export async function savePlaybooks(
+  playbooks: Playbook[],
+  meta?: { note?: string; actor?: string }
+): Promise<PlaybookCatalogVersion> {
+  const [row] = await supaUpsert<CatalogRow>(
+    TABLE,
+    [{ playbooks, note: meta?.note || null, created_by: meta?.actor || null }],
+    { returning: true }
+  );
+  if (!row) throw new Error("Supabase did not return the saved playbook catalog");
+  await cache.invalidateTag(CATALOG_CACHE_TAG);
+  return fromRow(row);
+}
@@ -0,0 +1,470 @@
+/**
+ * Typed models for the Airtable tables the dashboard reads, plus the
+ * decoders that build them from raw AirtableRecord.fields.
+ *
+ * Airtable hands back whatever the column type produces: singleSelects and
+ * text as strings, checkboxes as true/absent, formulas as string | number |
+ * { error }, lookups and rollups as arrays. The coercers below turn those
+ * into plain strings / numbers / booleans in one place, and record anything
+ * they had to throw away as a DecodeIssue on the decoded record instead of
+ * letting a cast silently produce "[object Object]".
+ *
+ * Also home to the shared truthiness rule (isTruthy) and email coalescing
+ * (coalesceEmail) used by the classifier, the Supabase syncer and /api/stats.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Minimal record shape — matches both lib/airtable and lib/utils. */
+interface RawRecord {
+  id: string;
+  fields: Record<string, unknown>;
+  createdTime?: string;
+}
+
+export interface DecodeIssue {
+  field: string;
+  message: string;
+  value?: unknown;
+}
+
+export interface ClientRecord {
+  id: string;
+  fullName: string;
+  /** First non-empty of EMAIL_FIELDS, trimmed ("" when every column is empty). */
+  email: string;
+  /** "Client ID" (legacy Close lead_* text) or "Client ID*" (autonumber). */
+  clientId?: string;
+  hubspotDealId?: number;
+  /** "Close Lead ID", falling back to a lead_* Client ID. */
+  closeLeadId?: string;
+  /** Program Tier Purchased → Membership Level (Text) → Membership Level. */
+  programTier?: string;
+  salesRep?: string;
+  /** "Date Added" on Clients, "Create Date" on legacy Student Onboarding rows. */
+  createdAt?: string;
+  lastUpdatedAt?: string;
+  status?: string;
+  programStages?: string;
+  accountStatus?: string;
+  /** `⚙️ Active Client?` formula evaluated to "Yes". */
+  activeClient: boolean;
+  archived: boolean;
+
+  // Email validation signals
+  sentEmailFile: boolean;
+  wasEmailSent: boolean;
+  /** "Welcome Email Sent: " (trailing colon + space are in the column name). */
+  welcomeEmailSent: boolean;
+  /** Set when that column holds a send date rather than a flag. */
+  welcomeEmailSentAt?: string;
+
+  // Mighty Networks
+  onMightyNetworks?: string;
+  mnJoinDate?: string;
+  mnMemberId?: string;
+  mnInviteId?: string;
+  mnInviteGranted: boolean;
+  /** Legacy Student Onboarding column. */
+  mnVerified?: string;
+  mnVerifiedAt?: string;
+  skoolGranted: boolean;
+
+  // Intercom
+  intercomSynced?: string;
+  intercomSyncedAt?: string;
+  intercomVerified?: string;
+  intercomVerifiedAt?: string;
+  intercomContactId?: string;
+  /** "Intercome Failed?" — the column name carries the typo. */
+  intercomFailed: boolean;
+
+  // VendHub
+  vendhubStatus?: string;
+  vendhubOrganization?: string;
+  vendhubUserId?: string;
+  vendhubVerifiedAt?: string;
+  /** `On Vendstack` singleSelect is "Yes". */
+  onVendstack: boolean;
+  inVendhub: boolean;
+  /** `Has Machine` formula is "Yes". */
+  hasMachine: boolean;
+  invitedToVendhub: boolean;
+  /** Machines Placed, falling back to Total Number of Machines. */
+  machinesPlaced: number;
+  vendhubParticipation: number;
+  vendhubDataSyncIds: string[];
+  /** Any "Should have access to App?" lookup value from VendHub Data Sync is set. */
+  hasAppAccess: boolean;
+
+  issues: DecodeIssue[];
+}
+
+export interface OnboardingErrorRecord {
+  id: string;
+  leadName: string;
+  /** Close lead_* id, Hubspot deal id or client number — whatever n8n had. */
+  leadId: string;
+  /** Trimmed, original case. */
+  email: string;
+  errorType: string;
+  errorMessage: string;
+  errorNode?: string;
+  executionId?: string;
+  timestamp?: string;
+  /** "New" | "Investigating" | "Resolved" | ... */
+  status: string;
+  rawErrorData?: string;
+  resolutionNotes?: string;
+  issues: DecodeIssue[];
+}
+
+export interface StudentOnboardingRecord {
+  id: string;
+  /** First non-empty of EMAIL_FIELDS (Best Email on this table), trimmed. */
+  email: string;
+  status?: string;
+  createdAt?: string;
+  skoolGranted: boolean;
+  /** "Kickoff Scheduled" — date of the kickoff call. */
+  kickoffScheduled?: string;
+  /** "Kickoff Attended" — checked once the call has actually happened. */
+  kickoffAttended: boolean;
+  issues: DecodeIssue[];
+}
+
+export interface WarmLeadRecord {
+  id: string;
+  status?: string;
+  temperature?: string;
+  finalOutcome?: string;
+  /** "Lead Source", falling back to "Source". */
+  source?: string;
+  leadType?: string;
+  locationType?: string;
+  owner?: string;
+  /** "Lead Date", falling back to "Created". */
+  leadDate?: string;
+  issues: DecodeIssue[];
+}
+
+export interface WarmLeadQARecord {
+  id: string;
+  finalScore?: number;
+  outcomeResult?: string;
+  issues: DecodeIssue[];
+}
+
+export interface ClientLevelLogRecord {
+  id: string;
+  /** "Program Level", falling back to "Level". */
+  programLevel?: string;
+  daysInLevel?: number;
+  issues: DecodeIssue[];
+}
+
+// ---------------------------------------------------------------------------
+// Shared rules
+// ---------------------------------------------------------------------------
+
+/** Email columns in priority order. Personal Email is the primary contact. */
+export const EMAIL_FIELDS = [
+  "Personal Email",
+  "Email",
+  "Business Email",
+  "vendhub_email",
+  "Best Email",
+] as const;
+
+// String values Airtable / n8n use to mean "no".
+const FALSY_STRINGS = new Set(["0", "no", "false", "n", "not sent"]);
+
+/**
+ * The one truthiness rule for Airtable values: empty, "No"-ish strings,
+ * 0 and empty arrays (lookups, linked records) are false.
+ */
+export function isTruthy(v: unknown): boolean {
+  if (v === undefined || v === null || v === "") return false;
+  if (typeof v === "boolean") return v;
+  if (typeof v === "string") return !FALSY_STRINGS.has(v.trim().toLowerCase());
+  if (typeof v === "number") return v !== 0;
+  if (Array.isArray(v)) return v.length > 0;
+  return Boolean(v);
+}
+
+/** First non-empty email column, trimmed. Callers lowercase for matching. */
+export function coalesceEmail(fields: Record<string, unknown>): string {
+  for (const name of EMAIL_FIELDS) {
+    const v = fields[name];
+    if (typeof v === "string" && v.trim()) return v.trim();
+  }
+  return "";
+}
+
+// ---------------------------------------------------------------------------
+// Coercion
+// ---------------------------------------------------------------------------
+
+/**
+ * Reads fields off one record with type coercion, collecting issues.
+ */
+class FieldReader {
+  readonly issues: DecodeIssue[] = [];
+
+  constructor(private fields: Record<string, unknown>) {}
+
+  /** Text, singleSelect, formula or single-value lookup → trimmed string. */
+  str(name: string): string | undefined {
+    const v = this.fields[name];
+    if (v === undefined || v === null) return undefined;
+    if (typeof v === "string") return v.trim() || undefined;
+    if (typeof v === "number" || typeof v === "boolean") return String(v);
+    if (Array.isArray(v)) {
+      // Lookup / rollup — join the scalar values.
+      const parts = v
+        .filter((x) => typeof x === "string" || typeof x === "number")
+        .map((x) => String(x).trim())
+        .filter(Boolean);
+      return parts.length ? parts.join(", ") : undefined;
+    }
+    this.issue(name, v);
+    return undefined;
+  }
+
+  /** First non-empty of several column names (renamed / legacy columns). */
+  firstStr(...names: string[]): string | undefined {
+    for (const name of names) {
+      const s = this.str(name);
+      if (s) return s;
+    }
+    return undefined;
+  }
+
+  num(name: string): number | undefined {
+    const v = this.fields[name];
+    if (v === undefined || v === null || v === "") return undefined;
+    if (typeof v === "number") return Number.isFinite(v) ? v : undefined;
+    if (typeof v === "string") {
+      const n = Number(v);
+      if (!isNaN(n)) return n;
+    }
+    if (Array.isArray(v) && v.length === 1) {
+      const n = Number(v[0]);
+      if (!isNaN(n)) return n;
+    }
+    this.issue(name, v, "expected a number");
+    return undefined;
+  }
+
+  /** Checkbox or yes/no-ish text, via isTruthy. */
+  bool(name: string): boolean {
+    const v = this.fields[name];
+    if (v !== null && typeof v === "object" && !Array.isArray(v)) {
+      this.issue(name, v);
+      return false;
+    }
+    return isTruthy(v);
+  }
+
+  /** singleSelect / formula that is exactly "Yes" (case-insensitive). */
+  yes(name: string): boolean {
+    return (this.str(name) || "").toLowerCase() === "yes";
+  }
+
+  /** ISO date / dateTime string; unparseable values are dropped. */
+  date(name: string): string | undefined {
+    const s = this.str(name);
+    if (!s) return undefined;
+    if (isNaN(new Date(s).getTime())) {
+      this.issue(name, s, "not a valid date");
+      return undefined;
+    }
+    return s;
+  }
+
+  /** Linked records / multipleSelects → string[]. */
+  list(name: string): string[] {
+    const v = this.fields[name];
+    if (v === undefined || v === null || v === "") return [];
+    if (Array.isArray(v)) return v.map((x) => String(x));
+    if (typeof v === "string") return [v];
+    this.issue(name, v, "expected a list");
+    return [];
+  }
+
+  /** Raw value, for the few fields whose shape the caller inspects itself. */
+  raw(name: string): unknown {
+    return this.fields[name];
+  }
+
+  private issue(field: string, value: unknown, message?: string): void {
+    const formulaError =
+      value !== null && typeof value === "object" && "error" in (value as Record<string, unknown>)
+        ? String((value as Record<string, unknown>).error)
+        : undefined;
+    this.issues.push({
+      field,
+      message: message ?? (formulaError ? `formula error ${formulaError}` : "unexpected value type"),
+      value,
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Decoders
+// ---------------------------------------------------------------------------
+
+export function decodeClient(record: RawRecord): ClientRecord {
+  const r = new FieldReader(record.fields);
+
+  const clientId = r.firstStr("Client ID", "Client ID*");
+  const welcome = r.raw("Welcome Email Sent: ");
+  const accessLookup = r.raw("Should have access to App? (Number) (from VendHub Data Sync)");
+
+  return {
+    id: record.id,
+    fullName: r.str("Full Name") || "",
+    email: coalesceEmail(record.fields),
+    clientId,
+    hubspotDealId: r.num("Hubspot Deal ID"),
+    closeLeadId: r.str("Close Lead ID") || (clientId?.startsWith("lead_") ? clientId : undefined),
+    programTier: r.firstStr("Program Tier Purchased", "Membership Level (Text)", "Membership Level"),
+    salesRep: r.str("Sales Rep"),
+    createdAt: r.firstStr("Date Added", "Create Date"),
+    lastUpdatedAt: r.firstStr("Last Modified Time (All Fields)", "Wins Last Updated"),
+    status: r.str("Status"),
+    programStages: r.str("Program Stages"),
+    accountStatus: r.str("Account Status"),
+    activeClient: r.yes("⚙️ Active Client?"),
+    archived: r.bool("Archived"),
+
+    sentEmailFile: r.bool("Sent Email File"),
+    wasEmailSent: r.bool("Was Email sent"),
+    welcomeEmailSent: r.bool("Welcome Email Sent: "),
+    welcomeEmailSentAt: typeof welcome === "string" && !isNaN(Date.parse(welcome)) ? welcome : undefined,
+
+    onMightyNetworks: r.str("On Mighty Networks"),
+    mnJoinDate: r.date("MN Join Date"),
+    mnMemberId: r.str("MN Member ID"),
+    mnInviteId: r.str("MN Invite ID"),
+    mnInviteGranted: r.bool("MN Invite Granted"),
+    mnVerified: r.str("MN Verified"),
+    mnVerifiedAt: r.date("MN Verified At"),
+    skoolGranted: r.bool("Skool Granted"),
+
+    intercomSynced: r.str("Intercom Synced"),
+    intercomSyncedAt: r.str("Intercom Synced At"),
+    intercomVerified: r.str("Intercom Verified"),
+    intercomVerifiedAt: r.date("Intercom Verified At"),
+    intercomContactId: r.str("Intercom Contact ID"),
+    intercomFailed: r.bool("Intercome Failed?"),
+
+    vendhubStatus: r.str("VendHub Status"),
+    vendhubOrganization: r.str("VendHub Organization"),
+    vendhubUserId: r.str("VendHub User ID"),
+    vendhubVerifiedAt: r.date("VendHub Verified At"),
+    onVendstack: r.yes("On Vendstack"),
+    inVendhub: r.bool("in_vendhub"),
+    hasMachine: r.yes("Has Machine"),
+    // Only the lowercase column exists on Clients; the capitalised one is
+    // kept for legacy Student Onboarding rows.
+    invitedToVendhub: r.bool("Invited to VendHUB") || r.bool("invited_to_vendhub"),
+    machinesPlaced: r.num("Machines Placed") || r.num("Total Number of Machines") || 0,
+    vendhubParticipation: r.num("Vendhub Participation") || 0,
+    vendhubDataSyncIds: r.list("VendHub Data Sync"),
+    hasAppAccess: Array.isArray(accessLookup)
+      ? accessLookup.some((v) => Number(v) > 0 || v === true)
+      : Number(accessLookup) > 0,
+
+    issues: r.issues,
+  };
+}
+
+export function decodeOnboardingError(record: RawRecord): OnboardingErrorRecord {
+  const r = new FieldReader(record.fields);
+  return {
+    id: record.id,
+    leadName: r.str("Lead Name") || "",
+    leadId: r.str("Lead ID") || "",
+    email: r.str("Email") || "",
+    errorType: r.str("Error Type") || "",
+    errorMessage: r.str("Error Message") || "",
+    errorNode: r.str("Error Node"),
+    executionId: r.str("Execution ID"),
+    timestamp: r.date("Timestamp"),
+    status: r.str("Status") || "",
+    rawErrorData: r.str("Raw Error Data"),
+    resolutionNotes: r.str("Resolution Notes"),
+    issues: r.issues,
+  };
+}
+
+export function decodeStudentOnboarding(record: RawRecord): StudentOnboardingRecord {
+  const r = new FieldReader(record.fields);
+  return {
+    id: record.id,
+    email: coalesceEmail(record.fields),
+    status: r.str("Status"),
+    createdAt: r.firstStr("Create Date", "Created"),
+    skoolGranted: r.bool("Skool Granted") || r.bool("Skool granted"),
+    kickoffScheduled: r.date("Kickoff Scheduled"),
+    kickoffAttended: r.bool("Kickoff Attended"),
+    issues: r.issues,
+  };
+}
+
+export function decodeWarmLead(record: RawRecord): WarmLeadRecord {
+  const r = new FieldReader(record.fields);
+  return {
+    id: record.id,
+    status: r.str("Status"),
+    temperature: r.str("Lead Temperature"),
+    finalOutcome: r.str("Final Outcome"),
+    source: r.firstStr("Lead Source", "Source"),
+    leadType: r.str("Lead Type"),
+    locationType: r.str("Location Type"),
+    owner: r.str("Lead Owner"),
+    leadDate: r.firstStr("Lead Date", "Created"),
+    issues: r.issues,
+  };
+}
+
+export function decodeWarmLeadQA(record: RawRecord): WarmLeadQARecord {
+  const r = new FieldReader(record.fields);
+  return {
+    id: record.id,
+    finalScore: r.num("Final Score"),
+    outcomeResult: r.str("Outcome Result"),
+    issues: r.issues,
+  };
+}
+
+export function decodeClientLevelLog(record: RawRecord): ClientLevelLogRecord {
+  const r = new FieldReader(record.fields);
+  return {
+    id: record.id,
+    programLevel: r.firstStr("Program Level", "Level"),
+    daysInLevel: r.num("Days Spent in this Level") ?? r.num("Days in Level") ?? r.num("Days"),
+    issues: r.issues,
+  };
+}
+
+/**
+ * Log a one-line summary of decode issues for a batch (development only),
+ * e.g. "[records] Clients: 3 issue(s) — MN Join Date ×2, Status ×1".
+ */
+export function reportDecodeIssues(label: string, decoded: { issues: DecodeIssue[] }[]): void {
+  if (process.env.NODE_ENV !== "development") return;
+  const byField = new Map<string, number>();
+  for (const d of decoded) {
+    for (const issue of d.issues) byField.set(issue.field, (byField.get(issue.field) || 0) + 1);
+  }
+  if (byField.size === 0) return;
+  const total = Array.from(byField.values()).reduce((a, b) => a + b, 0);
+  const detail = Array.from(byField.entries())
+    .map(([field, n]) => `${field} ×${n}`)
+    .join(", ");
+  console.warn(`[records] ${label}: ${total} issue(s) — ${detail}`);
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { redact, redactString, REDACTED } from "./redact";
+
+describe("redactString", () => {
+  it("hides bearer tokens and keeps the rest of the text", () => {
+    expect(redactString("Authorization: Bearer abcdef123456789 sent")).toBe(`Authorization: ${REDACTED} sent`);
+  });
+
+  it("hides query-string keys but keeps the parameter name", () => {
+    expect(redactString("https://api.example.com/x?limit=5&api_key=s3cr3t&page=2")).toBe(
+      `https://api.example.com/x?limit=5&api_key=${REDACTED}&page=2`
+    );
+  });
+
+  it("trims long strings", () => {
+    const out = redactString("a".repeat(5000));
+    expect(out.startsWith("a".repeat(2000))).toBe(true);
+    expect(out).toContain("(5000 chars)");
+  });
+});
+
+describe("redact", () => {
+  it("hides values under secret-looking keys", () => {
+    expect(redact({ "X-Api-Key": "abc", access_token: "t", user: "ada", password: "" })).toEqual({
+      "X-Api-Key": REDACTED,
+      access_token: REDACTED,
+      user: "ada",
+      password: "",
+    });
+  });
+
+  it("trims long arrays", () => {
+    const out = redact(Array.from({ length: 30 }, (_, i) => i)) as unknown[];
+    expect(out).toHaveLength(26);
+    expect(out[25]).toBe("… 5 more");
+  });
+
+  it("copies an object referenced twice instead of calling it circular", () => {
+    const shared = { id: 1 };
+    expect(redact({ a: shared, b: [shared, shared] })).toEqual({ a: { id: 1 }, b: [{ id: 1 }, { id: 1 }] });
+  });
+
+  it("marks a real cycle as circular", () => {
+    const node: Record<string, unknown> = { name: "root" };
+    node.self = node;
+    node.children = [{ parent: node }];
+    expect(redact(node)).toEqual({ name: "root", self: "[circular]", children: [{ parent: "[circular]" }] });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Secret redaction for payloads shown in the dashboard (n8n execution
+ * data, raw webhook bodies). Values under secret-looking keys are replaced
+ * wholesale; strings anywhere are scrubbed of bearer tokens and API-key
+ * shaped values. Large payloads are trimmed so the drawer stays usable.
+ */
+
+export const REDACTED = "[redacted]";
+
+/** Key names whose values are always hidden (matched case-insensitively, ignoring - and _). */
+const SECRET_KEY =
+  /(password|passwd|secret|token|apikey|authorization|cookie|session|credential|privatekey|signature|xapikey)/;
+
+const SECRET_VALUE_PATTERNS: RegExp[] = [
+  // Authorization header values
+  /\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]{8,}/gi,
+  // Stripe / Clerk / OpenAI style keys
+  /\b(sk|pk|rk)_(live|test)_[A-Za-z0-9]{8,}/g,
+  /\bsk-[A-Za-z0-9-_]{16,}/g,
+  // Airtable personal access tokens
+  /\bpat[A-Za-z0-9]{14}\.[A-Za-z0-9]{32,}/g,
+  // JWTs
+  /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  // key=value pairs in query strings
+  /([?&](?:api_?key|token|secret|access_token|key)=)[^&\s"]+/gi,
+];
+
+const MAX_DEPTH = 12;
+const MAX_ARRAY_ITEMS = 25;
+const MAX_STRING_CHARS = 2000;
+
+function isSecretKey(key: string): boolean {
+  return SECRET_KEY.test(key.toLowerCase().replace(/[-_\s]/g, ""));
+}
+
+/** Scrub secret-looking substrings from one string. */
+export function redactString(value: string): string {
+  let out = value;
+  for (const pattern of SECRET_VALUE_PATTERNS) {
+    out = out.replace(pattern, (match, prefix: string) =>
+      typeof prefix === "string" && /^[?&]/.test(prefix) ? `${prefix}${REDACTED}` : REDACTED
+    );
+  }
+  return out.length > MAX_STRING_CHARS ? `${out.slice(0, MAX_STRING_CHARS)}… (${out.length} chars)` : out;
+}
+
+/**
+ * Deep copy of `value` with secrets hidden and long arrays / strings
+ * trimmed. Safe on any JSON-ish input, including cycles: only an object
+ * that contains itself becomes "[circular]" — one referenced twice is
+ * copied twice.
+ */
+export function redact(value: unknown, depth = 0, ancestors = new WeakSet<object>()): unknown {
+  if (typeof value === "string") return redactString(value);
+  if (value === null || typeof value !== "object") return value;
+  if (ancestors.has(value)) return "[circular]";
+  if (depth >= MAX_DEPTH) return "[…]";
+
+  ancestors.add(value);
+  try {
+    if (Array.isArray(value)) {
+      const items = value.slice(0, MAX_ARRAY_ITEMS).map((v) => redact(v, depth + 1, ancestors));
+      if (value.length > MAX_ARRAY_ITEMS) items.push(`… ${value.length - MAX_ARRAY_ITEMS} more`);
+      return items;
+    }
+
+    const out: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+      out[key] = isSecretKey(key) && v !== null && v !== "" ? REDACTED : redact(v, depth + 1, ancestors);
+    }
+    return out;
+  } finally {
+    ancestors.delete(value);
+  }
+}
@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AirtableRecord } from "./airtable";
+
+const airtable = vi.hoisted(() => ({
+  rows: [] as AirtableRecord[],
+  updates: [] as { id: string; fields: Record<string, unknown> }[][],
+}));
+
+vi.mock("./airtable", () => ({
+  fetchTable: vi.fn(async () => airtable.rows),
+  invalidateTableCache: vi.fn(async () => undefined),
+  updateRecords: vi.fn(async (_table: string, records: { id: string; fields: Record<string, unknown> }[]) => {
+    airtable.updates.push(records);
+    return { records: records.map((r) => ({ id: r.id, fields: r.fields })), failures: [] };
+  }),
+}));
+
+import {
+  batchResolutionNote,
+  isBatchId,
+  newBatchId,
+  parseBatchMarker,
+  resolveRowsAsBatch,
+  undoResolveBatch,
+} from "./resolve-batches";
+
+function row(id: string, fields: Record<string, unknown>): AirtableRecord {
+  return { id, createdTime: "2026-10-01T00:00:00.000Z", fields };
+}
+
+/** A row as a bulk resolve leaves it. */
+function resolvedRow(id: string, batchId: string, previousStatus: string, previousNotes = ""): AirtableRecord {
+  return row(id, {
+    Status: "Resolved",
+    "Resolution Notes": batchResolutionNote({ batchId, note: "Bulk-resolved", previousStatus, previousNotes }),
+  });
+}
+
+beforeEach(() => {
+  airtable.rows = [];
+  airtable.updates = [];
+});
+
+describe("batch markers", () => {
+  it("round-trips the previous status and notes", () => {
+    const batchId = newBatchId();
+    expect(isBatchId(batchId)).toBe(true);
+    const notes = batchResolutionNote({
+      batchId,
+      note: "Bulk-resolved",
+      previousStatus: "Investigating",
+      previousNotes: "Called the client\n---\nstill broken",
+    });
+    expect(parseBatchMarker(notes)).toEqual({
+      batchId,
+      previousStatus: "Investigating",
+      previousNotes: "Called the client\n---\nstill broken",
+    });
+  });
+
+  it("records a row without notes as New with empty notes", () => {
+    const notes = batchResolutionNote({ batchId: "rb-abc-1234", note: "Resolved", previousStatus: "" });
+    expect(parseBatchMarker(notes)).toEqual({ batchId: "rb-abc-1234", previousStatus: "New", previousNotes: "" });
+  });
+
+  it("ignores notes without a marker", () => {
+    expect(parseBatchMarker("Resolved by hand")).toBeNull();
+  });
+});
+
+describe("undoResolveBatch", () => {
+  it("puts every still-resolved row of the batch back the way it was", async () => {
+    const batchId = newBatchId();
+    // Reopened by hand since, so undo leaves it alone.
+    const reopened = resolvedRow("rec2", batchId, "Investigating", "Waiting on Close");
+    reopened.fields.Status = "New";
+    airtable.rows = [resolvedRow("rec1", batchId, "New"), reopened, resolvedRow("rec3", "rb-other-0001", "New")];
+
+    const undo = await undoResolveBatch(batchId);
+
+    expect(undo).toMatchObject({ reopened: 1, ids: ["rec1"], skipped: 1, failures: [] });
+    expect(airtable.updates).toEqual([[{ id: "rec1", fields: { Status: "New", "Resolution Notes": "" } }]]);
+  });
+
+  it("restores the previous notes byte for byte", async () => {
+    const batchId = newBatchId();
+    airtable.rows = [resolvedRow("rec4", batchId, "Investigating", "  first line\nsecond  ")];
+
+    await undoResolveBatch(batchId);
+
+    expect(airtable.updates[0][0].fields).toEqual({ Status: "Investigating", "Resolution Notes": "  first line\nsecond  " });
+  });
+
+  it("writes nothing on a dry run", async () => {
+    const batchId = newBatchId();
+    airtable.rows = [resolvedRow("rec5", batchId, "New")];
+
+    const preview = await undoResolveBatch(batchId, { dryRun: true });
+
+    expect(preview).toMatchObject({ reopened: 0, ids: ["rec5"], skipped: 0 });
+    expect(airtable.updates).toEqual([]);
+  });
+});
+
+describe("resolveRowsAsBatch", () => {
+  it("resolves the rows as one batch that undo can reverse", async () => {
+    const { batchId, resolved } = await resolveRowsAsBatch(
+      [row("rec6", { Status: "Investigating", "Resolution Notes": "Waiting on Close" })],
+      "Incident resolved"
+    );
+    expect(resolved).toBe(1);
+    const [update] = airtable.updates[0];
+    expect(update.fields.Status).toBe("Resolved");
+    expect(parseBatchMarker(update.fields["Resolution Notes"] as string)).toEqual({
+      batchId,
+      previousStatus: "Investigating",
+      previousNotes: "Waiting on Close",
+    });
+
+    airtable.rows = [row("rec6", update.fields)];
+    airtable.updates = [];
+    expect(await undoResolveBatch(batchId)).toMatchObject({ reopened: 1, ids: ["rec6"] });
+  });
+});
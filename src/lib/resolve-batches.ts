@@ -0,0 +1,196 @@
+/**
+ * Undoable bulk resolves.
+ *
+ * Every bulk resolve (/api/onboarding/resolve-all, an incident's resolve,
+ * and the bulk bar's resolve through /errors/resolve) gets a batch id.
+ * Each row it resolves keeps its previous Resolution Notes and gets a
+ * marker line appended:
+ *
+ *   <previous notes>
+ *   ---
+ *   Bulk-resolved from dashboard at 2026-10-19T09:30:00.000Z [batch:rb-mgx2k1q0-4f7a was:New]
+ *
+ * so /api/onboarding/resolve-all/undo can put every row of a batch back
+ * to its previous Status and notes — all from Airtable, no extra table.
+ * Rows that changed since (reopened, or resolved again) are left alone.
+ */
+
+import { fetchTable, invalidateTableCache, updateRecords, type AirtableRecord } from "./airtable";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface BatchMarker {
+  batchId: string;
+  previousStatus: string;
+  previousNotes: string;
+}
+
+export interface ResolveBatch {
+  batchId: string;
+  resolvedAt: string | null;
+  /** Rows carrying the batch marker. */
+  rows: number;
+  /** Of those, rows still Resolved — what an undo would reopen. */
+  stillResolved: number;
+  byErrorType: Record<string, number>;
+}
+
+export interface BatchResolveResult {
+  batchId: string;
+  resolved: number;
+  ids: string[];
+  failures: { id: string; error: string }[];
+}
+
+export interface UndoResult {
+  batchId: string;
+  reopened: number;
+  ids: string[];
+  /** Batch rows no longer Resolved, left as they are. */
+  skipped: number;
+  failures: { id: string; error: string }[];
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ERROR_TABLE_ID = "tblaQ6fpHGhRs56sH";
+const SEPARATOR = "\n---\n";
+const MARKER = /\s*\[batch:(rb-[a-z0-9]+-[a-z0-9]+) was:([^\]]*)\]\s*$/;
+const BATCH_ID = /^rb-[a-z0-9]+-[a-z0-9]+$/;
+
+function resolvedAtOf(batchId: string): string | null {
+  const ms = parseInt(batchId.split("-")[1], 36);
+  return Number.isFinite(ms) ? new Date(ms).toISOString() : null;
+}
+
+async function fetchBatchRows(): Promise<{ record: AirtableRecord; marker: BatchMarker }[]> {
+  const rows = await fetchTable("onboardingErrors", {
+    fields: ["Error Type", "Status", "Resolution Notes"],
+    cacheTtl: 0,
+  });
+  return rows.flatMap((record) => {
+    const marker = parseBatchMarker(record.fields["Resolution Notes"] as string | undefined);
+    return marker ? [{ record, marker }] : [];
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** A new batch id: "rb-<base36 ms>-<random>". */
+export function newBatchId(): string {
+  return `rb-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function isBatchId(value: unknown): value is string {
+  return typeof value === "string" && BATCH_ID.test(value);
+}
+
+/** Resolution Notes for a row resolved in `batchId`, keeping what was there. */
+export function batchResolutionNote(options: {
+  batchId: string;
+  note: string;
+  previousStatus: string;
+  previousNotes?: string;
+}): string {
+  const line = `${options.note} [batch:${options.batchId} was:${options.previousStatus || "New"}]`;
+  // Kept byte for byte: undo writes back exactly what was there.
+  const previous = options.previousNotes || "";
+  return previous ? `${previous}${SEPARATOR}${line}` : line;
+}
+
+/** The batch marker at the end of a row's Resolution Notes, if any. */
+export function parseBatchMarker(notes: string | undefined): BatchMarker | null {
+  if (!notes) return null;
+  const m = notes.match(MARKER);
+  if (!m) return null;
+  const before = notes.slice(0, m.index);
+  const cut = before.lastIndexOf(SEPARATOR);
+  return {
+    batchId: m[1],
+    previousStatus: m[2].trim() || "New",
+    previousNotes: cut >= 0 ? before.slice(0, cut) : "",
+  };
+}
+
+/** Bulk-resolve batches still visible in Airtable, newest first. */
+export async function listResolveBatches(limit = 10): Promise<ResolveBatch[]> {
+  const batches = new Map<string, ResolveBatch>();
+  for (const { record, marker } of await fetchBatchRows()) {
+    const batch =
+      batches.get(marker.batchId) ??
+      { batchId: marker.batchId, resolvedAt: resolvedAtOf(marker.batchId), rows: 0, stillResolved: 0, byErrorType: {} };
+    batch.rows++;
+    if (record.fields["Status"] === "Resolved") batch.stillResolved++;
+    const type = (record.fields["Error Type"] as string) || "Unknown";
+    batch.byErrorType[type] = (batch.byErrorType[type] ?? 0) + 1;
+    batches.set(marker.batchId, batch);
+  }
+  return Array.from(batches.values())
+    .sort((a, b) => (b.resolvedAt ?? "").localeCompare(a.resolvedAt ?? ""))
+    .slice(0, limit);
+}
+
+/**
+ * Resolve Onboarding Errors rows as one new batch. `rows` must carry
+ * their current Status and Resolution Notes so undo can restore them.
+ */
+export async function resolveRowsAsBatch(rows: AirtableRecord[], note: string): Promise<BatchResolveResult> {
+  const batchId = newBatchId();
+  if (rows.length === 0) return { batchId, resolved: 0, ids: [], failures: [] };
+  const result = await updateRecords(
+    ERROR_TABLE_ID,
+    rows.map((r) => ({
+      id: r.id,
+      fields: {
+        Status: "Resolved",
+        "Resolution Notes": batchResolutionNote({
+          batchId,
+          note,
+          previousStatus: r.fields["Status"] as string,
+          previousNotes: r.fields["Resolution Notes"] as string | undefined,
+        }),
+      },
+    })),
+    { typecast: true }
+  );
+  return {
+    batchId,
+    resolved: result.records.length,
+    ids: result.records.map((r) => r.id),
+    failures: result.failures.flatMap((f) => f.ids.map((id) => ({ id, error: f.error.slice(0, 160) }))),
+  };
+}
+
+/** Reopen every row of a batch that is still Resolved. */
+export async function undoResolveBatch(batchId: string, options?: { dryRun?: boolean }): Promise<UndoResult> {
+  const rows = (await fetchBatchRows()).filter((r) => r.marker.batchId === batchId);
+  const toReopen = rows.filter((r) => r.record.fields["Status"] === "Resolved");
+  const skipped = rows.length - toReopen.length;
+  if (options?.dryRun || toReopen.length === 0) {
+    return { batchId, reopened: 0, ids: toReopen.map((r) => r.record.id), skipped, failures: [] };
+  }
+
+  const result = await updateRecords(
+    ERROR_TABLE_ID,
+    toReopen.map(({ record, marker }) => ({
+      id: record.id,
+      fields: { Status: marker.previousStatus, "Resolution Notes": marker.previousNotes },
+    })),
+    { typecast: true }
+  );
+  await invalidateTableCache("onboardingErrors");
+  await invalidateTableCache("clients");
+  return {
+    batchId,
+    reopened: result.records.length,
+    ids: result.records.map((r) => r.id),
+    skipped,
+    failures: result.failures.flatMap((f) => f.ids.map((id) => ({ id, error: f.error.slice(0, 160) }))),
+  };
+}
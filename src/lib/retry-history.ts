@@ -0,0 +1,162 @@
+/**
+ * Per-lead retry history.
+ *
+ * /api/onboarding/resubmit and /api/onboarding/resubmit-all record every
+ * call as an `events` row (event_type "resubmit") keyed by the dashboard
+ * lead id — the Clients record id, or the Onboarding Errors record id for
+ * ghost leads. See scripts/supabase/006_retry_history.sql.
+ *
+ * Recording never fails a retry: without Supabase, or when the insert
+ * fails, the attempt just isn't recorded.
+ */
+
+import type { NextRequest } from "next/server";
+import type { N8nResponse } from "./n8n";
+import type { StepId } from "./pipeline";
+import { isSupabaseConfigured, supaSelect, supaUpsert } from "./supabase";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RetryRoute = "resubmit" | "resubmit_all";
+
+export interface RetryAttempt {
+  id: number;
+  leadId: string;
+  /** null for resubmit-all, which reruns the whole onboarding workflow. */
+  step: StepId | null;
+  route: RetryRoute;
+  errorRecordId?: string;
+  success: boolean;
+  /** n8n's HTTP status, when n8n answered. */
+  n8nStatus?: number;
+  message: string;
+  /** First RAW_EXCERPT_CHARS of n8n's response body. */
+  rawExcerpt?: string;
+  /** "dashboard", "job:<id>", or whatever the caller sent as x-actor. */
+  actor: string;
+  at: string;
+}
+
+export interface RetryCount {
+  retries: number;
+  lastRetryAt: string;
+}
+
+interface RetryEventRow {
+  id: number;
+  pipeline_lead_id: string;
+  step_id: StepId | null;
+  actor: string | null;
+  payload: {
+    route?: RetryRoute;
+    errorRecordId?: string;
+    success?: boolean;
+    n8nStatus?: number;
+    message?: string;
+    rawExcerpt?: string;
+  } | null;
+  created_at: string;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const EVENTS = "events";
+const EVENT_TYPE = "resubmit";
+const RAW_EXCERPT_CHARS = 500;
+/** PostgREST caps every response at its max-rows (1000 on Supabase); counts are read a page at a time. */
+const COUNT_PAGE_SIZE = 1000;
+
+function fromRow(row: RetryEventRow): RetryAttempt {
+  const p = row.payload ?? {};
+  return {
+    id: row.id,
+    leadId: row.pipeline_lead_id,
+    step: row.step_id,
+    route: p.route ?? "resubmit",
+    errorRecordId: p.errorRecordId,
+    success: Boolean(p.success),
+    n8nStatus: p.n8nStatus,
+    message: p.message ?? "",
+    rawExcerpt: p.rawExcerpt,
+    actor: row.actor ?? "dashboard",
+    at: row.created_at,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Who triggered a retry: the x-actor header (set by the job worker), else the dashboard. */
+export function retryActor(req: NextRequest): string {
+  return req.headers.get("x-actor")?.trim().slice(0, 100) || "dashboard";
+}
+
+/** Record one resubmit call and n8n's answer. Never throws. */
+export async function recordRetryAttempt(attempt: {
+  leadId: string;
+  step: StepId | null;
+  route: RetryRoute;
+  errorRecordId?: string;
+  response: Pick<N8nResponse, "success" | "message" | "status" | "raw">;
+  actor: string;
+}): Promise<void> {
+  if (!isSupabaseConfigured() || !attempt.leadId) return;
+  try {
+    await supaUpsert(EVENTS, [
+      {
+        pipeline_lead_id: attempt.leadId,
+        event_type: EVENT_TYPE,
+        step_id: attempt.step,
+        actor: attempt.actor,
+        payload: {
+          route: attempt.route,
+          errorRecordId: attempt.errorRecordId,
+          success: attempt.response.success,
+          n8nStatus: attempt.response.status,
+          message: attempt.response.message,
+          rawExcerpt: attempt.response.raw?.slice(0, RAW_EXCERPT_CHARS) || undefined,
+        },
+      },
+    ]);
+  } catch (err) {
+    console.warn("[retry-history] Could not record retry:", err instanceof Error ? err.message : err);
+  }
+}
+
+/** Every recorded retry for one lead, newest first. */
+export async function getLeadRetryHistory(leadId: string, limit = 50): Promise<RetryAttempt[]> {
+  const { rows } = await supaSelect<RetryEventRow>({
+    path: EVENTS,
+    query: {
+      select: "id,pipeline_lead_id,step_id,actor,payload,created_at",
+      pipeline_lead_id: `eq.${leadId}`,
+      event_type: `eq.${EVENT_TYPE}`,
+      order: "created_at.desc,id.desc",
+      limit,
+    },
+  });
+  return rows.map(fromRow);
+}
+
+/** Retry counts for every lead that has been retried at least once. */
+export async function getRetryCounts(): Promise<Map<string, RetryCount>> {
+  const counts = new Map<string, RetryCount>();
+  for (let offset = 0; ; offset += COUNT_PAGE_SIZE) {
+    const { rows } = await supaSelect<{ pipeline_lead_id: string; retries: number; last_retry_at: string }>({
+      path: "vw_lead_retry_counts",
+      query: {
+        select: "pipeline_lead_id,retries,last_retry_at",
+        order: "pipeline_lead_id.asc",
+        limit: COUNT_PAGE_SIZE,
+        offset,
+      },
+    });
+    for (const r of rows) counts.set(r.pipeline_lead_id, { retries: r.retries, lastRetryAt: r.last_retry_at });
+    if (rows.length < COUNT_PAGE_SIZE) return counts;
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Shadow-mode classifier comparison.
+ *
+ * Runs a candidate classifier and/or candidate rules beside the live ones
+ * on the same Airtable snapshot and reports every lead whose overallStatus
+ * or step status would change, with counts per transition
+ * ("error→waiting_for_customer: 37"). Nothing is written — this is the
+ * what-if check to run before saving new rules or changing derivePipeline.
+ */
+
+import {
+  classifyPipeline,
+  fetchPipelineSnapshot,
+  type LeadPipeline,
+  type PipelineSnapshot,
+  type StepId,
+  type StepStatus,
+} from "./pipeline";
+import { getActiveRules, type ClassificationRules } from "./classification-rules";
+
+// ---------------------------------------------------------------------------
+// Classifier registry
+// ---------------------------------------------------------------------------
+
+export type Classifier = (snapshot: PipelineSnapshot, rules: ClassificationRules) => LeadPipeline[];
+
+export interface ClassifierEntry {
+  label: string;
+  description: string;
+  classify: Classifier;
+}
+
+/**
+ * Classifiers a shadow run can use. "live" is what the dashboard runs. To
+ * trial a change to derivePipeline / buildGhostLeadsFromErrors, register
+ * the modified implementation here under a new name and compare it against
+ * "live" before swapping it in.
+ */
+export const CLASSIFIERS: Record<string, ClassifierEntry> = {
+  live: {
+    label: "Live classifier",
+    description: "derivePipeline + ghost leads, as deployed",
+    classify: classifyPipeline,
+  },
+};
+
+export const LIVE_CLASSIFIER = "live";
+
+// ---------------------------------------------------------------------------
+// Report types
+// ---------------------------------------------------------------------------
+
+/** "absent" = the lead only exists on the other side (ghost-lead changes). */
+export type ShadowStatus = StepStatus | "absent";
+
+export interface TransitionCount {
+  from: ShadowStatus;
+  to: ShadowStatus;
+  count: number;
+}
+
+export interface StepTransitionCount extends TransitionCount {
+  stepId: StepId;
+}
+
+export interface StepChange {
+  stepId: StepId;
+  label: string;
+  from: ShadowStatus;
+  to: ShadowStatus;
+  fromRule?: string;
+  toRule?: string;
+  fromDetail?: string;
+  toDetail?: string;
+}
+
+export interface LeadChange {
+  id: string;
+  fullName: string;
+  email: string;
+  overall: { from: ShadowStatus; to: ShadowStatus } | null;
+  steps: StepChange[];
+}
+
+export interface ShadowSide {
+  classifier: string;
+  rulesVersion: number;
+}
+
+export interface ShadowReport {
+  generatedAt: string;
+  snapshotAt: string;
+  live: ShadowSide;
+  candidate: ShadowSide;
+  totals: {
+    leads: number;
+    changed: number;
+    overallChanged: number;
+    stepsChanged: number;
+  };
+  overallTransitions: TransitionCount[];
+  stepTransitions: StepTransitionCount[];
+  /** Every lead with at least one change, overall changes first. */
+  leads: LeadChange[];
+}
+
+// ---------------------------------------------------------------------------
+// Comparison
+// ---------------------------------------------------------------------------
+
+function bump(counts: Map<string, TransitionCount>, from: ShadowStatus, to: ShadowStatus) {
+  const key = `${from}→${to}`;
+  const existing = counts.get(key);
+  if (existing) existing.count++;
+  else counts.set(key, { from, to, count: 1 });
+}
+
+function byCountDesc<T extends TransitionCount>(a: T, b: T): number {
+  return b.count - a.count;
+}
+
+/** Diff two classifications of the same snapshot, keyed by lead id. */
+export function compareClassifications(
+  live: LeadPipeline[],
+  candidate: LeadPipeline[]
+): Pick<ShadowReport, "totals" | "overallTransitions" | "stepTransitions" | "leads"> {
+  const liveById = new Map(live.map((l) => [l.id, l]));
+  const candidateById = new Map(candidate.map((l) => [l.id, l]));
+  const ids = new Set([...liveById.keys(), ...candidateById.keys()]);
+
+  const overallCounts = new Map<string, TransitionCount>();
+  const stepCounts = new Map<StepId, Map<string, TransitionCount>>();
+  const leads: LeadChange[] = [];
+  let stepsChanged = 0;
+
+  for (const id of ids) {
+    const a = liveById.get(id);
+    const b = candidateById.get(id);
+    const from: ShadowStatus = a?.overallStatus ?? "absent";
+    const to: ShadowStatus = b?.overallStatus ?? "absent";
+
+    const steps: StepChange[] = [];
+    const stepIds = new Set([...(a?.steps ?? []), ...(b?.steps ?? [])].map((s) => s.id));
+    for (const stepId of stepIds) {
+      const sa = a?.steps.find((s) => s.id === stepId);
+      const sb = b?.steps.find((s) => s.id === stepId);
+      const stepFrom: ShadowStatus = sa?.status ?? "absent";
+      const stepTo: ShadowStatus = sb?.status ?? "absent";
+      if (stepFrom === stepTo) continue;
+      steps.push({
+        stepId,
+        label: (sa ?? sb)!.label,
+        from: stepFrom,
+        to: stepTo,
+        fromRule: sa?.trace?.rule,
+        toRule: sb?.trace?.rule,
+        fromDetail: sa?.detail,
+        toDetail: sb?.detail,
+      });
+      const perStep = stepCounts.get(stepId) ?? new Map<string, TransitionCount>();
+      bump(perStep, stepFrom, stepTo);
+      stepCounts.set(stepId, perStep);
+    }
+
+    if (from === to && steps.length === 0) continue;
+    if (from !== to) bump(overallCounts, from, to);
+    stepsChanged += steps.length;
+    const lead = (b ?? a)!;
+    leads.push({
+      id,
+      fullName: lead.fullName,
+      email: lead.email,
+      overall: from !== to ? { from, to } : null,
+      steps,
+    });
+  }
+
+  leads.sort((x, y) => Number(!!y.overall) - Number(!!x.overall) || y.steps.length - x.steps.length);
+
+  const stepTransitions: StepTransitionCount[] = [];
+  for (const [stepId, counts] of stepCounts) {
+    for (const t of counts.values()) stepTransitions.push({ stepId, ...t });
+  }
+
+  return {
+    totals: {
+      leads: ids.size,
+      changed: leads.length,
+      overallChanged: leads.filter((l) => l.overall).length,
+      stepsChanged,
+    },
+    overallTransitions: Array.from(overallCounts.values()).sort(byCountDesc),
+    stepTransitions: stepTransitions.sort(byCountDesc),
+    leads,
+  };
+}
+
+/**
+ * Fetch one snapshot, classify it with the live classifier + active rules
+ * and with the candidate, and diff the two.
+ */
+export async function runShadowComparison(options: {
+  candidateRules?: ClassificationRules;
+  candidateClassifier?: string;
+  max?: number;
+  cacheTtl?: number;
+}): Promise<ShadowReport> {
+  const candidateName = options.candidateClassifier ?? LIVE_CLASSIFIER;
+  // Own keys only: "constructor" or "__proto__" must not resolve to Object.prototype's.
+  if (!Object.hasOwn(CLASSIFIERS, candidateName)) throw new Error(`Unknown classifier "${candidateName}"`);
+  const candidate = CLASSIFIERS[candidateName];
+
+  const [activeRules, snapshot] = await Promise.all([
+    getActiveRules(),
+    fetchPipelineSnapshot({ max: options.max, cacheTtl: options.cacheTtl }),
+  ]);
+  const candidateRules = options.candidateRules ?? activeRules;
+
+  const live = CLASSIFIERS[LIVE_CLASSIFIER].classify(snapshot, activeRules);
+  const shadow = candidate.classify(snapshot, candidateRules);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    snapshotAt: snapshot.fetchedAt,
+    live: { classifier: LIVE_CLASSIFIER, rulesVersion: activeRules.version },
+    candidate: { classifier: candidateName, rulesVersion: candidateRules.version },
+    ...compareClassifications(live, shadow),
+  };
+}
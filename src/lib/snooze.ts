@@ -0,0 +1,81 @@
+/**
+ * Snoozed leads.
+ *
+ * A snoozed lead's errors stay out of the error views until the snooze
+ * runs out — for leads the team already knows about (waiting on the
+ * customer, a vendor ticket open) that would otherwise crowd the list.
+ * Snoozes are keyed by the dashboard lead id and live in Supabase
+ * (scripts/supabase/009_lead_snoozes.sql).
+ */
+
+import { isSupabaseConfigured, supaSelect, supaUpsert } from "./supabase";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface LeadSnooze {
+  leadId: string;
+  until: string;
+  note?: string;
+  by?: string;
+}
+
+interface SnoozeRow {
+  pipeline_lead_id: string;
+  snoozed_until: string;
+  note: string | null;
+  snoozed_by: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const TABLE = "lead_snoozes";
+/** Longest snooze the dashboard offers. */
+export const MAX_SNOOZE_HOURS = 24 * 14;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Snoozes that haven't run out yet, by lead id. Empty without Supabase. */
+export async function getActiveSnoozes(): Promise<Map<string, LeadSnooze>> {
+  if (!isSupabaseConfigured()) return new Map();
+  const { rows } = await supaSelect<SnoozeRow>({
+    path: TABLE,
+    query: {
+      select: "pipeline_lead_id,snoozed_until,note,snoozed_by",
+      snoozed_until: `gt.${new Date().toISOString()}`,
+    },
+  });
+  return new Map(
+    rows.map((r) => [
+      r.pipeline_lead_id,
+      { leadId: r.pipeline_lead_id, until: r.snoozed_until, note: r.note ?? undefined, by: r.snoozed_by ?? undefined },
+    ])
+  );
+}
+
+/** Snooze leads for `hours` from now; snoozing again moves the deadline. Throws without Supabase. */
+export async function snoozeLeads(
+  leadIds: string[],
+  hours: number,
+  options?: { note?: string; by?: string }
+): Promise<string> {
+  if (!isSupabaseConfigured()) throw new Error("Supabase not configured (SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY missing)");
+  const until = new Date(Date.now() + Math.min(MAX_SNOOZE_HOURS, Math.max(1, hours)) * 3600 * 1000).toISOString();
+  await supaUpsert(
+    TABLE,
+    leadIds.map((id) => ({
+      pipeline_lead_id: id,
+      snoozed_until: until,
+      note: options?.note ?? null,
+      snoozed_by: options?.by ?? null,
+      created_at: new Date().toISOString(),
+    })),
+    { onConflict: "pipeline_lead_id" }
+  );
+  return until;
+}
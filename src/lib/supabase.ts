@@ -62,6 +62,65 @@ export async function supaRpc<T = unknown>(fn: string, args: Record<string, unkn
   return (await res.json()) as T;
 }
 
+/**
+ * Insert rows, merging on `onConflict` when given (PostgREST upsert).
+ * Returns the written rows when `returning` is true.
+ */
+export async function supaUpsert<T = unknown>(
+  table: string,
+  rows: Record<string, unknown>[],
+  options?: { onConflict?: string; returning?: boolean }
+): Promise<T[]> {
+  if (!URL || !KEY) throw new Error("Supabase not configured");
+  if (rows.length === 0) return [];
+  const params = new URLSearchParams();
+  if (options?.onConflict) params.set("on_conflict", options.onConflict);
+  const prefer = [
+    options?.onConflict ? "resolution=merge-duplicates" : "",
+    options?.returning ? "return=representation" : "return=minimal",
+  ].filter(Boolean).join(",");
+  const res = await fetch(`${URL}/rest/v1/${table}?${params}`, {
+    method: "POST",
+    headers: {
+      apikey: KEY,
+      Authorization: `Bearer ${KEY}`,
+      "Content-Type": "application/json",
+      Prefer: prefer,
+    },
+    body: JSON.stringify(rows),
+    cache: "no-store",
+  });
+  if (!res.ok) {
+    const body = await res.text().catch(() => "");
+    throw new Error(`Supabase upsert ${table} ${res.status}: ${body.slice(0, 200)}`);
+  }
+  return options?.returning ? ((await res.json()) as T[]) : [];
+}
+
+/**
+ * Delete rows matching PostgREST filters, e.g. { key: "eq.abc" }.
+ * Returns the number of rows deleted.
+ */
+export async function supaDelete(table: string, query: Record<string, string>): Promise<number> {
+  if (!URL || !KEY) throw new Error("Supabase not configured");
+  const params = new URLSearchParams(query);
+  const res = await fetch(`${URL}/rest/v1/${table}?${params}`, {
+    method: "DELETE",
+    headers: {
+      apikey: KEY,
+      Authorization: `Bearer ${KEY}`,
+      Prefer: "return=representation",
+    },
+    cache: "no-store",
+  });
+  if (!res.ok) {
+    const body = await res.text().catch(() => "");
+    throw new Error(`Supabase delete ${table} ${res.status}: ${body.slice(0, 200)}`);
+  }
+  const rows = (await res.json()) as unknown[];
+  return rows.length;
+}
+
 export interface LeadFullRow {
   id: string;
   email: string;
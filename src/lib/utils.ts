@@ -41,6 +41,24 @@ export function countByField(
   return counts;
 }
 
+/**
+ * Same as countByField, but over already-decoded records (see lib/records).
+ * Missing values count under "(empty)".
+ *
+ * @example countValues(warmLeads.map(decodeWarmLead), (l) => l.source)
+ */
+export function countValues<T>(
+  items: T[],
+  getValue: (item: T) => string | undefined
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const item of items) {
+    const key = getValue(item) || "(empty)";
+    counts[key] = (counts[key] || 0) + 1;
+  }
+  return counts;
+}
+
 /**
  * Sum all numeric values in a specific field across records.
  * Non-numeric values are skipped.
@@ -0,0 +1,53 @@
+/**
+ * Close CRM verifier — backfills Close Lead IDs.
+ *
+ * For every active client's email, calls
+ *   GET https://api.close.com/api/v1/lead/?query=email_address:<email>&_fields=id
+ * and writes `Close Lead ID` (lead_xxx, or blank when not found) to Clients
+ * and Student Onboarding. Inactive / cancelled clients are skipped — most
+ * never-matched emails belong to them.
+ */
+
+import { verifierFetch, type Verifier } from "./verifier";
+
+const CLOSE_API_KEY = process.env.CLOSE_API_KEY || "";
+
+interface CloseLeadHit {
+  id: string;
+  display_name?: string;
+}
+
+function basicAuth(): string {
+  // Close uses HTTP Basic with the api key as username, no password.
+  const token = Buffer.from(`${CLOSE_API_KEY}:`).toString("base64");
+  return `Basic ${token}`;
+}
+
+const hasCloseLeadId = (f: Record<string, unknown>) => Boolean(((f["Close Lead ID"] as string) || "").trim());
+
+export const closeVerifier: Verifier<CloseLeadHit> = {
+  platform: "close",
+  label: "Close",
+  step: "close_crm",
+  missingConfig: () => (CLOSE_API_KEY ? null : "CLOSE_API_KEY not configured"),
+  clients: { fields: ["Close Lead ID"], verified: hasCloseLeadId },
+  students: { fields: ["Close Lead ID"], verified: hasCloseLeadId },
+  activeClientsOnly: true,
+
+  async lookup(email) {
+    const url = `https://api.close.com/api/v1/lead/?query=${encodeURIComponent("email_address:" + email)}&_fields=id,display_name&_limit=1`;
+    const res = await verifierFetch("Close", url, {
+      headers: { Authorization: basicAuth(), Accept: "application/json" },
+    });
+    const json = (await res.json()) as { data?: CloseLeadHit[] };
+    return Array.isArray(json.data) && json.data.length > 0 ? json.data[0] : null;
+  },
+
+  // Blank when not found, so a stale id is cleared.
+  fieldsToWrite: (hit) => ({ "Close Lead ID": hit?.id || "" }),
+
+  // Close allows ~40 req/sec per org; 50ms = 20/sec is comfortable.
+  intervalMs: 50,
+  budgetMs: 55_000,
+  countKeys: { found: "foundInClose", missing: "notInClose" },
+};
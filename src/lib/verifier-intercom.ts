@@ -0,0 +1,67 @@
+/**
+ * Intercom verifier — is the client a contact in Intercom?
+ *
+ * For every email, calls
+ *   POST https://api.intercom.io/contacts/search
+ * with { query: { field: email, operator: =, value: <email> } } and writes:
+ *   Intercom Synced:        "Verified" | "Not imported"
+ *   Intercom Contact ID:    <contact.id>
+ *   Intercom Verified At:   <ISO now>  (Clients only)
+ */
+
+import { verifierFetch, type Verifier } from "./verifier";
+
+const IC_TOKEN = process.env.INTERCOM_ACCESS_TOKEN || "";
+
+interface IcContact {
+  type: "contact";
+  id: string;
+  email: string;
+  external_id?: string;
+  name?: string;
+}
+
+interface IcSearchResp {
+  type: "list";
+  data?: IcContact[];
+  total_count?: number;
+}
+
+const hasSynced = (f: Record<string, unknown>) => Boolean(f["Intercom Synced"]);
+
+export const intercomVerifier: Verifier<IcContact> = {
+  platform: "intercom",
+  label: "Intercom",
+  step: "intercom",
+  missingConfig: () => (IC_TOKEN ? null : "INTERCOM_ACCESS_TOKEN not configured"),
+  clients: { fields: ["Intercom Synced", "Intercom Contact ID", "Intercom Verified At"], verified: hasSynced },
+  students: { fields: ["Intercom Synced", "Intercom Contact ID"], verified: hasSynced },
+
+  async lookup(email) {
+    const res = await verifierFetch("Intercom", "https://api.intercom.io/contacts/search", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${IC_TOKEN}`,
+        "Intercom-Version": "2.10",
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+      body: JSON.stringify({ query: { field: "email", operator: "=", value: email } }),
+    });
+    const json = (await res.json()) as IcSearchResp;
+    return Array.isArray(json.data) && json.data.length > 0 ? json.data[0] : null;
+  },
+
+  fieldsToWrite(contact, table) {
+    const fields: Record<string, unknown> = { "Intercom Synced": contact ? "Verified" : "Not imported" };
+    if (contact) fields["Intercom Contact ID"] = contact.id;
+    // Student Onboarding doesn't always have Intercom Verified At — writing it 422s.
+    if (table === "clients") fields["Intercom Verified At"] = new Date().toISOString();
+    return fields;
+  },
+
+  // Intercom allows 1000 req/min; 100ms stays polite.
+  intervalMs: 100,
+  budgetMs: 55_000,
+  countKeys: { found: "foundOnIntercom", missing: "notOnIntercom" },
+};
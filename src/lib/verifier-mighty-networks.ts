@@ -0,0 +1,60 @@
+/**
+ * Mighty Networks verifier — is the client a member of the network?
+ *
+ * For every email, calls
+ *   GET https://api.mn.co/admin/v1/networks/{MN_NETWORK_ID}/members/by_email?email=...
+ * and writes:
+ *   On Mighty Networks: "Verified" | "Not imported"
+ *   MN Join Date:       <member.created_at>
+ *   MN Member ID:       <member.id>
+ */
+
+import { verifierFetch, type Verifier } from "./verifier";
+
+const MN_API_KEY = process.env.MN_API_KEY || "";
+const MN_NETWORK_ID = process.env.MN_NETWORK_ID || "";
+
+interface MnMember {
+  id: number;
+  created_at: string;
+  email: string;
+  first_name?: string;
+  last_name?: string;
+}
+
+const hasAnswer = (f: Record<string, unknown>) => Boolean(f["On Mighty Networks"]);
+const FIELDS = ["On Mighty Networks", "MN Join Date", "MN Member ID"];
+
+export const mightyNetworksVerifier: Verifier<MnMember> = {
+  platform: "mighty-networks",
+  label: "Mighty Networks",
+  step: "mighty_networks",
+  missingConfig: () => (MN_API_KEY && MN_NETWORK_ID ? null : "MN_API_KEY / MN_NETWORK_ID not configured"),
+  clients: { fields: FIELDS, verified: hasAnswer },
+  students: { fields: FIELDS, verified: hasAnswer },
+
+  async lookup(email) {
+    const url = `https://api.mn.co/admin/v1/networks/${MN_NETWORK_ID}/members/by_email?email=${encodeURIComponent(email)}`;
+    const res = await verifierFetch("MN API", url, {
+      headers: { Authorization: `Bearer ${MN_API_KEY}`, Accept: "application/json" },
+    });
+    if (res.status === 404) return null;
+    return (await res.json()) as MnMember;
+  },
+
+  // We can't see pending invites from here, so not found = "Not imported".
+  fieldsToWrite: (member) =>
+    member
+      ? {
+          "On Mighty Networks": "Verified",
+          "MN Join Date": member.created_at,
+          "MN Member ID": String(member.id),
+        }
+      : { "On Mighty Networks": "Not imported" },
+
+  // MN allows 100 req/min on standard plans; 700ms keeps well under it.
+  intervalMs: 700,
+  // Bail before the 300s function timeout so the response always goes out.
+  budgetMs: 270_000,
+  countKeys: { found: "foundOnMN", missing: "notOnMN" },
+};
@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { VerifierReport } from "./verifier";
+
+const db = vi.hoisted(() => ({
+  /** verifier_passes rows by id, as Supabase would hold them. */
+  rows: new Map<string, Record<string, unknown>>(),
+  dispatched: [] as { kind: string; payload: unknown }[],
+}));
+
+vi.mock("./supabase", () => ({
+  supaSelect: vi.fn(async ({ query }: { query: Record<string, string | number> }) => {
+    const id = typeof query.id === "string" ? query.id.replace(/^eq\./, "") : undefined;
+    return { rows: [...db.rows.values()].filter((row) => id === undefined || row.id === id) };
+  }),
+  supaUpsert: vi.fn(async (_table: string, rows: Record<string, unknown>[]) => {
+    for (const row of rows) db.rows.set(row.id as string, row);
+    return rows;
+  }),
+  supaRpc: vi.fn(),
+}));
+
+vi.mock("./jobs", () => ({
+  dispatchJob: vi.fn(async (_origin: string, kind: string, payload: unknown) => {
+    db.dispatched.push({ kind, payload });
+  }),
+}));
+
+import {
+  cancelPass,
+  continuationToken,
+  drivePass,
+  getPass,
+  recordPassStep,
+  type VerifierPass,
+} from "./verifier-passes";
+
+const PASS_ID = "7f1c2a9e-3b4d-4e5f-8a6b-9c0d1e2f3a4b";
+
+function seedPass(overrides: Record<string, unknown> = {}): Promise<VerifierPass> {
+  db.rows.set(PASS_ID, {
+    id: PASS_ID,
+    platform: "intercom",
+    step_id: "intercom",
+    force: false,
+    status: "running",
+    cursor: null,
+    total: 0,
+    checked: 0,
+    found: 0,
+    missing: 0,
+    api_errors: 0,
+    steps: 0,
+    locked_until: null,
+    started_by: null,
+    started_at: "2026-10-01T00:00:00.000Z",
+    updated_at: new Date().toISOString(),
+    finished_at: null,
+    ...overrides,
+  });
+  return getPass(PASS_ID) as Promise<VerifierPass>;
+}
+
+function report(overrides: Partial<VerifierReport>): VerifierReport {
+  return {
+    platform: "intercom",
+    step: "intercom",
+    checked: 0,
+    selected: 0,
+    found: 0,
+    missing: 0,
+    remaining: 0,
+    eligible: 0,
+    apiErrors: 0,
+    apiErrorSamples: [],
+    clientsUpdated: 0,
+    studentsUpdated: 0,
+    clientsBatchFailures: [],
+    studentsBatchFailures: [],
+    durationMs: 0,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  db.rows.clear();
+  db.dispatched = [];
+});
+
+describe("getPass", () => {
+  it("returns null for anything that isn't a pass id", async () => {
+    await seedPass();
+    expect(await getPass("not-a-uuid")).toBeNull();
+    expect((await getPass(PASS_ID))?.platform).toBe("intercom");
+  });
+});
+
+describe("recordPassStep", () => {
+  it("adds the step's counts and moves the cursor", async () => {
+    const pass = await seedPass({ checked: 40, found: 30, missing: 10, steps: 2, cursor: "b@example.com" });
+    const next = await recordPassStep(
+      pass,
+      report({ checked: 25, found: 20, missing: 3, apiErrors: 2, eligible: 60, cursor: "m@example.com" })
+    );
+    expect(next).toMatchObject({
+      status: "running",
+      cursor: "m@example.com",
+      total: 100,
+      checked: 65,
+      found: 50,
+      missing: 13,
+      apiErrors: 2,
+      steps: 3,
+    });
+    expect(next.finishedAt).toBeUndefined();
+  });
+
+  it("finishes the pass once the step reaches every eligible email", async () => {
+    const pass = await seedPass({ checked: 40, steps: 2 });
+    const next = await recordPassStep(pass, report({ checked: 10, eligible: 10 }));
+    expect(next.status).toBe("done");
+    expect(next.finishedAt).toBeDefined();
+    expect(continuationToken(next)).toBeNull();
+  });
+
+  it("keeps a cancel that landed while the step ran", async () => {
+    const pass = await seedPass();
+    const cancelled = await cancelPass(PASS_ID);
+    const next = await recordPassStep(pass, report({ checked: 5, found: 5, eligible: 50 }));
+    expect(next).toMatchObject({ status: "cancelled", checked: 5, finishedAt: cancelled?.finishedAt });
+  });
+});
+
+describe("cancelPass", () => {
+  it("leaves a finished pass alone", async () => {
+    await seedPass({ status: "done", finished_at: "2026-10-02T00:00:00.000Z" });
+    expect(await cancelPass(PASS_ID)).toMatchObject({ status: "done", finishedAt: "2026-10-02T00:00:00.000Z" });
+  });
+
+  it("returns null for an unknown pass", async () => {
+    expect(await cancelPass(PASS_ID)).toBeNull();
+  });
+});
+
+describe("drivePass", () => {
+  it("queues the next step with the step count it expects", async () => {
+    const pass = await seedPass({ steps: 4 });
+    await drivePass("http://localhost:3000", pass);
+    expect(db.dispatched).toEqual([{ kind: "verify_pass", payload: { continuation: PASS_ID, step: 4 } }]);
+  });
+
+  it("queues nothing once the pass has finished", async () => {
+    const pass = await seedPass({ status: "done" });
+    await drivePass("http://localhost:3000", pass);
+    expect(db.dispatched).toEqual([]);
+  });
+});
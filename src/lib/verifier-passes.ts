@@ -0,0 +1,271 @@
+/**
+ * Resumable verifier passes.
+ *
+ * A full re-verification of ~2000 Clients rows doesn't fit in one
+ * function invocation. A pass walks one platform's emails in sorted
+ * order, one time-budgeted step at a time (runVerifierPass in
+ * verifier.ts); after each step the last email reached (the cursor) and
+ * the running counts are saved here, so the next step carries on from
+ * there. The pass id is the continuation token: POST it back to
+ * /api/verify/<platform> until the response's continuation is null, or
+ * let /api/verify/passes drive it with verify_pass jobs.
+ *
+ * Stored in Supabase (scripts/supabase/011_verifier_passes.sql); one
+ * running pass per platform.
+ */
+
+import type { VerifiedStep } from "./integration-health";
+import { dispatchJob } from "./jobs";
+import { supaRpc, supaSelect, supaUpsert } from "./supabase";
+import type { Verifier, VerifierReport } from "./verifier";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type VerifierPassStatus = "running" | "done" | "cancelled";
+
+export interface VerifierPass {
+  id: string;
+  platform: string;
+  step: VerifiedStep;
+  force: boolean;
+  status: VerifierPassStatus;
+  /** Last email reached; undefined before the first step. */
+  cursor?: string;
+  /** Emails done plus emails still to check, as of the last step. */
+  total: number;
+  checked: number;
+  found: number;
+  missing: number;
+  apiErrors: number;
+  /** Steps run so far. */
+  steps: number;
+  /** Running, but no step for PASS_STALL_MS — whatever was driving it stopped. */
+  stalled: boolean;
+  startedBy?: string;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+/** A registered verifier, as the Integrations view needs it. */
+export interface PassPlatform {
+  platform: string;
+  step: VerifiedStep;
+  label: string;
+  /** False when its env vars are missing — a pass would 503. */
+  configured: boolean;
+}
+
+interface PassRow {
+  id: string;
+  platform: string;
+  step_id: VerifiedStep;
+  force: boolean;
+  status: VerifierPassStatus;
+  cursor: string | null;
+  total: number;
+  checked: number;
+  found: number;
+  missing: number;
+  api_errors: number;
+  steps: number;
+  locked_until: string | null;
+  started_by: string | null;
+  started_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const TABLE = "verifier_passes";
+/** A running pass untouched this long has lost its driver; starting it again resumes it. */
+const PASS_STALL_MS = 5 * 60 * 1000;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function fromRow(row: PassRow): VerifierPass {
+  const lockedUntil = row.locked_until ? new Date(row.locked_until).getTime() : 0;
+  return {
+    id: row.id,
+    platform: row.platform,
+    step: row.step_id,
+    force: row.force,
+    status: row.status,
+    cursor: row.cursor ?? undefined,
+    total: row.total,
+    checked: row.checked,
+    found: row.found,
+    missing: row.missing,
+    apiErrors: row.api_errors,
+    steps: row.steps,
+    stalled:
+      row.status === "running" &&
+      lockedUntil < Date.now() &&
+      Date.now() - new Date(row.updated_at).getTime() > PASS_STALL_MS,
+    startedBy: row.started_by ?? undefined,
+    startedAt: row.started_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at ?? undefined,
+  };
+}
+
+/** Every column, so an upsert on id never trips the not-null ones. Saving lets go of the lease. */
+function toRow(pass: VerifierPass): Record<string, unknown> {
+  return {
+    id: pass.id,
+    platform: pass.platform,
+    step_id: pass.step,
+    force: pass.force,
+    status: pass.status,
+    cursor: pass.cursor ?? null,
+    total: pass.total,
+    checked: pass.checked,
+    found: pass.found,
+    missing: pass.missing,
+    api_errors: pass.apiErrors,
+    steps: pass.steps,
+    locked_until: null,
+    started_by: pass.startedBy ?? null,
+    started_at: pass.startedAt,
+    updated_at: new Date().toISOString(),
+    finished_at: pass.finishedAt ?? null,
+  };
+}
+
+async function savePass(pass: VerifierPass): Promise<VerifierPass> {
+  const [row] = await supaUpsert<PassRow>(TABLE, [toRow(pass)], { onConflict: "id", returning: true });
+  if (!row) throw new Error("Supabase did not return the verifier pass");
+  return fromRow(row);
+}
+
+async function runningPass(platform: string): Promise<VerifierPass | null> {
+  const { rows } = await supaSelect<PassRow>({
+    path: TABLE,
+    query: { select: "*", platform: `eq.${platform}`, status: "eq.running", limit: 1 },
+  });
+  return rows[0] ? fromRow(rows[0]) : null;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** The token that continues the pass, or null once it has finished. */
+export function continuationToken(pass: VerifierPass): string | null {
+  return pass.status === "running" ? pass.id : null;
+}
+
+/**
+ * Start a pass for the verifier's platform, or return the one already
+ * running (created: false). Throws without Supabase.
+ */
+export async function startPass(
+  verifier: Pick<Verifier, "platform" | "step">,
+  options?: { force?: boolean; by?: string }
+): Promise<{ pass: VerifierPass; created: boolean }> {
+  const existing = await runningPass(verifier.platform);
+  if (existing) return { pass: existing, created: false };
+  try {
+    const [row] = await supaUpsert<PassRow>(
+      TABLE,
+      [{ platform: verifier.platform, step_id: verifier.step, force: Boolean(options?.force), started_by: options?.by ?? null }],
+      { returning: true }
+    );
+    if (!row) throw new Error("Supabase did not return the verifier pass");
+    return { pass: fromRow(row), created: true };
+  } catch (err) {
+    // Lost a race with another start: the unique index allows one running pass.
+    const raced = await runningPass(verifier.platform);
+    if (raced) return { pass: raced, created: false };
+    throw err;
+  }
+}
+
+/** Null for an unknown id — including anything that isn't a pass id at all. */
+export async function getPass(id: string): Promise<VerifierPass | null> {
+  if (!UUID_RE.test(id)) return null;
+  const { rows } = await supaSelect<PassRow>({ path: TABLE, query: { select: "*", id: `eq.${id}`, limit: 1 } });
+  return rows[0] ? fromRow(rows[0]) : null;
+}
+
+/** The most recent pass of each platform. */
+export async function latestPasses(): Promise<VerifierPass[]> {
+  const { rows } = await supaSelect<PassRow>({
+    path: TABLE,
+    query: { select: "*", order: "started_at.desc", limit: 100 },
+  });
+  const byPlatform = new Map<string, VerifierPass>();
+  for (const row of rows) {
+    if (!byPlatform.has(row.platform)) byPlatform.set(row.platform, fromRow(row));
+  }
+  return Array.from(byPlatform.values());
+}
+
+/**
+ * Hold a running pass for one step of up to `leaseMs`. Null when the pass
+ * isn't running or another step holds it.
+ */
+export async function claimPass(id: string, leaseMs: number): Promise<VerifierPass | null> {
+  const rows = await supaRpc<PassRow[]>("claim_verifier_pass", {
+    p_id: id,
+    p_lease: `${Math.ceil(leaseMs / 1000)} seconds`,
+  });
+  return rows[0] ? fromRow(rows[0]) : null;
+}
+
+/** Add a step's report to the pass, move the cursor and let go of it. */
+export async function recordPassStep(pass: VerifierPass, report: VerifierReport): Promise<VerifierPass> {
+  // Cancelled while the step ran: keep the counts, not the status.
+  const current = await getPass(pass.id);
+  const cancelled = current?.status === "cancelled";
+  const finished = report.checked >= report.eligible;
+  return savePass({
+    ...pass,
+    status: cancelled ? "cancelled" : finished ? "done" : "running",
+    cursor: report.cursor ?? pass.cursor,
+    total: pass.checked + report.eligible,
+    checked: pass.checked + report.checked,
+    found: pass.found + report.found,
+    missing: pass.missing + report.missing,
+    apiErrors: pass.apiErrors + report.apiErrors,
+    steps: pass.steps + 1,
+    finishedAt: cancelled ? current?.finishedAt : finished ? new Date().toISOString() : undefined,
+  });
+}
+
+/** Let go of a pass after a step failed, so the next step can claim it. */
+export async function releasePass(id: string): Promise<void> {
+  const current = await getPass(id);
+  if (current) await savePass(current);
+}
+
+/** Stop a running pass. Null when there's no such pass. */
+export async function cancelPass(id: string): Promise<VerifierPass | null> {
+  const pass = await getPass(id);
+  if (!pass || pass.status !== "running") return pass;
+  return savePass({ ...pass, status: "cancelled", finishedAt: new Date().toISOString() });
+}
+
+/**
+ * Queue the pass's next step as a verify_pass job, unless it has
+ * finished. The job carries the step count it expects, so a retried or
+ * duplicated job finds the pass moved on and does nothing — one chain.
+ */
+export async function drivePass(origin: string, pass: VerifierPass): Promise<void> {
+  const continuation = continuationToken(pass);
+  if (continuation) await dispatchJob(origin, "verify_pass", { continuation, step: pass.steps });
+}
+
+/**
+ * Queue the next step of every stalled pass — its job chain broke (the
+ * job ran out of attempts, a kick was dropped). Returns how many.
+ */
+export async function resumeStalledPasses(origin: string): Promise<number> {
+  const stalled = (await latestPasses()).filter((p) => p.stalled);
+  for (const pass of stalled) await drivePass(origin, pass);
+  return stalled.length;
+}
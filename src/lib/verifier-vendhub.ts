@@ -0,0 +1,100 @@
+/**
+ * VendHub verifier — does the client have a VendHub (Clerk) account?
+ *
+ * VendHub signs its users in with Clerk, so for every email this calls the
+ * Clerk Backend API, read-only:
+ *   GET {CLERK_API_URL}/users?email_address=...
+ *   GET {CLERK_API_URL}/users/{user.id}/organization_memberships
+ * and writes:
+ *   in_vendhub:            whether they belong to a VendHub organization
+ *                          (Clients only)
+ *   VendHub User ID:       <user.id>
+ *   VendHub Last Sign In:  <user.last_sign_in_at>  (once they've signed in)
+ *   VendHub Verified At:   <ISO now>
+ *
+ * This backs up the clerk-vendhub webhook: a missed event no longer leaves
+ * the row wrong for good. CLERK_API_URL defaults to Clerk's production API;
+ * point it at scripts/clerk-standin.mjs for local development.
+ */
+
+import { verifierFetch, type Verifier } from "./verifier";
+
+const CLERK_SECRET_KEY = process.env.CLERK_VENDHUB_SECRET_KEY || "";
+const CLERK_API_URL = (process.env.CLERK_API_URL || "https://api.clerk.com/v1").replace(/\/+$/, "");
+
+interface ClerkUser {
+  id: string;
+  /** Epoch ms; null until the first sign-in. */
+  last_sign_in_at: number | null;
+}
+
+interface ClerkMembershipList {
+  data?: { role: string; organization: { id: string } }[];
+}
+
+interface VendhubAccount {
+  user: ClerkUser;
+  /** Organization ids the user is a member of. */
+  organizations: string[];
+}
+
+/** Answers older than this are looked up again, so Last Sign In keeps up. */
+const REVERIFY_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+
+function verifiedRecently(f: Record<string, unknown>): boolean {
+  const at = Date.parse(String(f["VendHub Verified At"] ?? ""));
+  return Number.isFinite(at) && Date.now() - at < REVERIFY_AFTER_MS;
+}
+
+// A miss doesn't count as answered: people often sign up for VendHub, and
+// set up their organization, days after onboarding — so Clients rows count
+// only once in_vendhub is set, Student Onboarding rows once they have a
+// user id. Either way a week-old answer is checked again.
+const clientVerified = (f: Record<string, unknown>) => f["in_vendhub"] === true && verifiedRecently(f);
+const studentVerified = (f: Record<string, unknown>) => Boolean(f["VendHub User ID"]) && verifiedRecently(f);
+
+async function clerkGet<T>(path: string): Promise<T> {
+  const res = await verifierFetch("Clerk", `${CLERK_API_URL}${path}`, {
+    headers: { Authorization: `Bearer ${CLERK_SECRET_KEY}`, Accept: "application/json" },
+  });
+  return (await res.json()) as T;
+}
+
+export const vendhubVerifier: Verifier<VendhubAccount> = {
+  platform: "vendhub",
+  label: "VendHub",
+  step: "vendhub",
+  missingConfig: () => (CLERK_SECRET_KEY ? null : "CLERK_VENDHUB_SECRET_KEY not configured"),
+  clients: { fields: ["in_vendhub", "VendHub User ID", "VendHub Last Sign In", "VendHub Verified At"], verified: clientVerified },
+  students: { fields: ["VendHub User ID", "VendHub Last Sign In", "VendHub Verified At"], verified: studentVerified },
+
+  async lookup(email) {
+    const users = await clerkGet<ClerkUser[]>(`/users?email_address=${encodeURIComponent(email)}&limit=1`);
+    const user = Array.isArray(users) ? users[0] : undefined;
+    if (!user) return null;
+    const memberships = await clerkGet<ClerkMembershipList>(
+      `/users/${encodeURIComponent(user.id)}/organization_memberships?limit=10`
+    );
+    return { user, organizations: (memberships.data ?? []).map((m) => m.organization.id) };
+  },
+
+  fieldsToWrite(account, table) {
+    const fields: Record<string, unknown> = { "VendHub Verified At": new Date().toISOString() };
+    // Not found leaves in_vendhub alone: the Google Sheet sync may have
+    // matched them under their vendhub_email, which we don't look up.
+    if (!account) return fields;
+    fields["VendHub User ID"] = account.user.id;
+    if (account.user.last_sign_in_at) {
+      fields["VendHub Last Sign In"] = new Date(account.user.last_sign_in_at).toISOString();
+    }
+    // A user without an organization signed up but never set their
+    // business up (or left it); Student Onboarding has no in_vendhub column.
+    if (table === "clients") fields["in_vendhub"] = account.organizations.length > 0;
+    return fields;
+  },
+
+  // Clerk allows 100 req/10s per instance on its lowest tier, and each
+  // lookup is two calls: 250ms keeps us at 80.
+  intervalMs: 250,
+  budgetMs: 55_000,
+};
@@ -0,0 +1,516 @@
+/**
+ * Platform verifiers — one framework for /api/verify/*.
+ *
+ * A verifier answers one question per email: is this person on the
+ * platform? It provides `lookup(email)` (the record, or null when absent)
+ * and `fieldsToWrite(result, table)` (what to store on the Airtable row).
+ * Everything else is shared and lives in runVerifier:
+ *
+ *   - selection: Clients rows (and Student Onboarding rows) by email,
+ *     skipping rows the verifier already answered unless `force`, or one
+ *     `email`, capped at `max`
+ *   - pacing: lookups are spaced `intervalMs` apart across `concurrency`
+ *     workers; a 429 (RateLimitedError) pauses every worker and retries
+ *   - a time budget, so a route answers before its maxDuration and the
+ *     next run picks up the rest
+ *   - an optional cursor (`after`): emails in sorted order, so a pass over
+ *     every row can resume where the last run stopped (verifier-passes.ts)
+ *   - write-back to both Clients and Student Onboarding
+ *   - reporting: a VerifierReport for the response and a verifier_runs row
+ *     for the Integrations view (recordVerifierRun)
+ *
+ * Verifiers are registered in src/lib/verifiers.ts; the sweep runs all of
+ * them and each has a thin route built with verifierRoute().
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { fetchTable, updateRecords, type AirtableRecord } from "./airtable";
+import { recordVerifierRun, type VerifiedStep } from "./integration-health";
+import { coalesceEmail } from "./records";
+import { isSupabaseConfigured } from "./supabase";
+import {
+  claimPass,
+  continuationToken,
+  getPass,
+  recordPassStep,
+  releasePass,
+  startPass,
+  type VerifierPass,
+} from "./verifier-passes";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type VerifierTable = "clients" | "students";
+
+export interface VerifierTableSpec {
+  /** Fields to read besides the email columns. */
+  fields: string[];
+  /** Has this verifier already answered for the row? Those rows are skipped unless `force`. */
+  verified: (fields: Record<string, unknown>) => boolean;
+}
+
+export interface Verifier<T = unknown> {
+  /** Route slug: /api/verify/<platform>. */
+  platform: string;
+  /** Platform name for messages ("Close", "Intercom"…). */
+  label: string;
+  step: VerifiedStep;
+  /** The missing env vars' message, or null when the verifier can run. */
+  missingConfig: () => string | null;
+  clients: VerifierTableSpec;
+  students: VerifierTableSpec;
+  /** Only check active Clients rows, and Student Onboarding rows sharing their email. */
+  activeClientsOnly?: boolean;
+  /** The platform's record for the email, or null when they're not on it. Throws on API errors. */
+  lookup(email: string): Promise<T | null>;
+  /** Airtable fields to write for a lookup result (null = not found). */
+  fieldsToWrite(result: T | null, table: VerifierTable): Record<string, unknown>;
+  /** Minimum time between two lookups, across all workers. */
+  intervalMs: number;
+  /** Lookups in flight at once (default 1). */
+  concurrency?: number;
+  /** Stop starting lookups after this long. */
+  budgetMs: number;
+  /**
+   * The route's own names for `found` / `missing` from before the shared
+   * runner (e.g. foundInClose / notInClose), still sent alongside them.
+   */
+  countKeys?: { found: string; missing: string };
+}
+
+export interface VerifierOptions {
+  /** Re-verify rows that already have an answer. */
+  force?: boolean;
+  /** Cap on emails to check this run. */
+  max?: number;
+  /** Verify only this email. */
+  email?: string;
+  /** Override the verifier's time budget (the sweep runs under a shorter one). */
+  budgetMs?: number;
+  /**
+   * Walk the emails in sorted order, starting after this one — the cursor
+   * of a resumable pass (src/lib/verifier-passes.ts). "" starts at the top.
+   */
+  after?: string;
+}
+
+export interface VerifierReport {
+  platform: string;
+  step: VerifiedStep;
+  /**
+   * Emails looked up this run: found + missing + apiErrors. Emails the time
+   * budget didn't reach are in `remaining`, not here.
+   */
+  checked: number;
+  /**
+   * Emails picked for this run (`max` applied), reached or not — what the
+   * per-platform routes reported as `checked` before the shared runner.
+   */
+  selected: number;
+  found: number;
+  missing: number;
+  /** Selected emails the time budget didn't reach — the next run gets them. */
+  remaining: number;
+  /** Emails that needed a check, before `max` and the time budget cut in. */
+  eligible: number;
+  /** With `after`: the last email this run reached, to pass back as `after`. */
+  cursor?: string;
+  apiErrors: number;
+  apiErrorSamples: string[];
+  clientsUpdated: number;
+  studentsUpdated: number;
+  clientsBatchFailures: { status: number; body: string }[];
+  studentsBatchFailures: { status: number; body: string }[];
+  durationMs: number;
+}
+
+/** Thrown by runVerifierPass when another step already holds the pass. */
+export class PassBusyError extends Error {
+  constructor(readonly passId: string) {
+    super("Another step of this verifier pass is running");
+    this.name = "PassBusyError";
+  }
+}
+
+/** Thrown by a lookup when the platform answers 429; the runner waits and retries. */
+export class RateLimitedError extends Error {
+  constructor(label: string, readonly retryAfterMs?: number) {
+    super(`${label} rate limited`);
+    this.name = "RateLimitedError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const CRON_SECRET = process.env.CRON_SECRET || "";
+
+const CLIENTS_TABLE = "tblwDucKYAsPDVBA2";
+const STUDENT_TABLE = "tblMLFYTeoqrtmgXQ";
+
+const CLIENT_EMAIL_FIELDS = ["Personal Email", "Business Email"];
+const MAX_RATE_LIMIT_RETRIES = 4;
+const ERROR_SAMPLES = 5;
+/** One lookup call; a platform that hangs costs an API error, not the run. */
+const LOOKUP_TIMEOUT_MS = 15_000;
+// A pass step's lease covers its budget plus the row fetch.
+const PASS_LEASE_SLACK_MS = 60_000;
+// Airtable takes 10 rows per PATCH, spaced 200ms: with a round trip that's
+// ~50ms a row, and an email can have a Clients and a Student row.
+const WRITE_MS_PER_EMAIL = 100;
+// Fresh rows count as active for three days, before Active Client? settles.
+const NEW_CLIENT_GRACE_HOURS = 72;
+
+interface RowRef {
+  table: VerifierTable;
+  recordId: string;
+  needsCheck: boolean;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+/**
+ * The dashboard's active-only filter: Account Status Active / Waiting,
+ * Active Client? = Yes, or added in the last three days. Cancelled rows
+ * never count.
+ */
+function isActiveClient(f: Record<string, unknown>): boolean {
+  const acct = ((f["Account Status"] as string) || "").toLowerCase();
+  if (acct === "active" || acct === "waiting") return true;
+  if (acct === "cancelled") return false;
+  if (((f["⚙️ Active Client?"] as string) || "").toLowerCase() === "yes") return true;
+  const dateAdded = (f["Date Added"] as string) || "";
+  return Boolean(dateAdded) && (Date.now() - new Date(dateAdded).getTime()) / 36e5 < NEW_CLIENT_GRACE_HOURS;
+}
+
+function groupByEmail(
+  verifier: Verifier,
+  clientRows: AirtableRecord[],
+  studentRows: AirtableRecord[],
+  force: boolean
+): Map<string, RowRef[]> {
+  const byEmail = new Map<string, RowRef[]>();
+  const add = (email: string, ref: RowRef) => byEmail.set(email, [...(byEmail.get(email) ?? []), ref]);
+
+  for (const r of clientRows) {
+    if (verifier.activeClientsOnly && !isActiveClient(r.fields)) continue;
+    const email = coalesceEmail(r.fields).toLowerCase();
+    if (!email) continue;
+    add(email, { table: "clients", recordId: r.id, needsCheck: force || !verifier.clients.verified(r.fields) });
+  }
+  for (const r of studentRows) {
+    const email = ((r.fields["Best Email"] as string) || "").trim().toLowerCase();
+    if (!email) continue;
+    // Don't re-process emails that only belong to inactive clients.
+    if (verifier.activeClientsOnly && !byEmail.has(email)) continue;
+    add(email, { table: "students", recordId: r.id, needsCheck: force || !verifier.students.verified(r.fields) });
+  }
+  return byEmail;
+}
+
+/** Spaces calls `intervalMs` apart across workers; a rate limit pushes every worker back. */
+class Pacer {
+  private next = 0;
+
+  constructor(private readonly intervalMs: number) {}
+
+  async wait(): Promise<void> {
+    const now = Date.now();
+    const at = Math.max(now, this.next);
+    this.next = at + this.intervalMs;
+    if (at > now) await sleep(at - now);
+  }
+
+  pause(ms: number): void {
+    this.next = Math.max(this.next, Date.now() + ms);
+  }
+}
+
+async function lookupPaced<T>(verifier: Verifier<T>, pacer: Pacer, email: string): Promise<T | null> {
+  for (let attempt = 0; ; attempt++) {
+    await pacer.wait();
+    try {
+      return await verifier.lookup(email);
+    } catch (err) {
+      if (!(err instanceof RateLimitedError) || attempt >= MAX_RATE_LIMIT_RETRIES) throw err;
+      pacer.pause(err.retryAfterMs || 5000 * Math.pow(2, attempt)); // 5s, 10s, 20s, 40s
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Cron auth shared by the verifier routes: x-cron-secret or Vercel's cron header. */
+export function cronAuthOk(req: NextRequest): boolean {
+  if (!CRON_SECRET) return true;
+  if (req.headers.get("x-cron-secret") === CRON_SECRET) return true;
+  if (req.headers.get("x-vercel-cron")) return true;
+  return false;
+}
+
+/**
+ * fetch for lookups: 429 throws RateLimitedError (honouring Retry-After),
+ * other non-2xx statuses except 404 throw, and so does a call that takes
+ * longer than LOOKUP_TIMEOUT_MS. 404 is returned so a lookup can treat it
+ * as "not found".
+ */
+export async function verifierFetch(label: string, url: string, init?: RequestInit): Promise<Response> {
+  const res = await fetch(url, {
+    ...init,
+    cache: "no-store",
+    signal: init?.signal ?? AbortSignal.timeout(LOOKUP_TIMEOUT_MS),
+  });
+  if (res.status === 429) {
+    throw new RateLimitedError(label, Number(res.headers.get("retry-after") || 0) * 1000 || undefined);
+  }
+  if (!res.ok && res.status !== 404) {
+    throw new Error(`${label} ${res.status}: ${(await res.text()).slice(0, 200)}`);
+  }
+  return res;
+}
+
+/** Select rows, look every email up, write the answers back and record the run. */
+export async function runVerifier<T>(verifier: Verifier<T>, options: VerifierOptions = {}): Promise<VerifierReport> {
+  const started = Date.now();
+  const force = Boolean(options.force);
+  const singleEmail = options.email?.trim().toLowerCase();
+  const budgetMs = options.budgetMs ?? verifier.budgetMs;
+
+  const [clientRows, studentRows] = await Promise.all([
+    fetchTable("clients", {
+      fields: [
+        ...CLIENT_EMAIL_FIELDS,
+        ...verifier.clients.fields,
+        ...(verifier.activeClientsOnly ? ["⚙️ Active Client?", "Account Status", "Date Added"] : []),
+      ],
+      cacheTtl: 0,
+    }),
+    fetchTable("studentOnboarding", {
+      fields: ["Best Email", ...verifier.students.fields],
+      cacheTtl: 0,
+    }).catch(() => []), // table may have different field names — tolerate
+  ]);
+
+  const byEmail = groupByEmail(verifier, clientRows, studentRows, force);
+  const after = singleEmail ? undefined : options.after;
+  let eligible = singleEmail
+    ? byEmail.has(singleEmail) ? [singleEmail] : []
+    : Array.from(byEmail.entries())
+        .filter(([, refs]) => refs.some((r) => r.needsCheck))
+        .map(([email]) => email);
+  // A pass needs a stable order so the cursor means the same thing next run.
+  if (after !== undefined) eligible = eligible.sort().filter((email) => email > after);
+  const selected = eligible.slice(0, options.max ?? Infinity);
+
+  const patches: Record<VerifierTable, { id: string; fields: Record<string, unknown> }[]> = { clients: [], students: [] };
+  let found = 0;
+  let missing = 0;
+  let apiErrors = 0;
+  const apiErrorSamples: string[] = [];
+
+  const pacer = new Pacer(verifier.intervalMs);
+  const queue = selected.slice();
+  const worker = async () => {
+    for (let email = queue.shift(); email; email = queue.shift()) {
+      if (Date.now() - started >= budgetMs) {
+        queue.unshift(email);
+        return;
+      }
+      let result: T | null;
+      try {
+        result = await lookupPaced(verifier, pacer, email);
+      } catch (err) {
+        apiErrors++;
+        if (apiErrorSamples.length < ERROR_SAMPLES) {
+          apiErrorSamples.push(`${email}: ${err instanceof Error ? err.message : "unknown"}`);
+        }
+        continue;
+      }
+      if (result) found++;
+      else missing++;
+      // Write even when not found, so a stale answer gets replaced.
+      for (const ref of byEmail.get(email) ?? []) {
+        patches[ref.table].push({ id: ref.recordId, fields: verifier.fieldsToWrite(result, ref.table) });
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, verifier.concurrency ?? 1) }, worker));
+
+  const cResult = await updateRecords(CLIENTS_TABLE, patches.clients, { typecast: true });
+  const sResult = await updateRecords(STUDENT_TABLE, patches.students, { typecast: true });
+  const failures = (r: typeof cResult) => r.failures.map((f) => ({ status: f.status, body: f.error.slice(0, 300) }));
+
+  const report: VerifierReport = {
+    platform: verifier.platform,
+    step: verifier.step,
+    checked: found + missing + apiErrors,
+    selected: selected.length,
+    found,
+    missing,
+    remaining: queue.length,
+    eligible: eligible.length,
+    apiErrors,
+    apiErrorSamples,
+    clientsUpdated: cResult.records.length,
+    studentsUpdated: sResult.records.length,
+    clientsBatchFailures: failures(cResult),
+    studentsBatchFailures: failures(sResult),
+    durationMs: Date.now() - started,
+  };
+  if (after !== undefined) {
+    // Workers take emails in order and finish what they start, so
+    // everything before the queue's head has been looked up.
+    const reached = selected.length - queue.length;
+    report.cursor = reached > 0 ? selected[reached - 1] : after;
+  }
+
+  await recordVerifierRun(verifier.step, {
+    checked: report.checked,
+    found,
+    missing,
+    apiErrors,
+    writeFailures: report.clientsBatchFailures.length + report.studentsBatchFailures.length,
+    singleEmail: Boolean(singleEmail),
+    durationMs: report.durationMs,
+  });
+  return report;
+}
+
+/**
+ * One step of a resumable pass (src/lib/verifier-passes.ts): claim it,
+ * verify the emails after its cursor, then save the new cursor and
+ * counts. `budgetMs` covers the lookups and the write-back: the step
+ * takes only as many emails as the verifier's pace allows in it, since a
+ * step killed before it saves would repeat forever. A pass that has
+ * finished — or whose step count isn't `expectedStep`, a duplicate job —
+ * comes back as it is with a null report; one another step holds throws
+ * PassBusyError.
+ */
+export async function runVerifierPass<T>(
+  verifier: Verifier<T>,
+  passId: string,
+  options: { budgetMs?: number; expectedStep?: number } = {}
+): Promise<{ pass: VerifierPass; report: VerifierReport | null }> {
+  const budgetMs = options.budgetMs ?? verifier.budgetMs;
+  const pass = await claimPass(passId, budgetMs + PASS_LEASE_SLACK_MS);
+  if (!pass) {
+    const current = await getPass(passId);
+    if (!current) throw new Error(`Unknown verifier pass ${passId}`);
+    if (current.status === "running") throw new PassBusyError(passId);
+    return { pass: current, report: null };
+  }
+  if (options.expectedStep !== undefined && pass.steps !== options.expectedStep) {
+    await releasePass(pass.id);
+    return { pass, report: null };
+  }
+
+  const perEmailMs = verifier.intervalMs / Math.max(1, verifier.concurrency ?? 1) + WRITE_MS_PER_EMAIL;
+  const max = Math.max(1, Math.floor(budgetMs / perEmailMs));
+  let report: VerifierReport;
+  try {
+    report = await runVerifier(verifier, {
+      force: pass.force,
+      after: pass.cursor ?? "",
+      max,
+      // Stop looking up early enough to leave the write-back its share.
+      budgetMs: Math.max(1000, budgetMs - max * WRITE_MS_PER_EMAIL),
+    });
+  } catch (err) {
+    await releasePass(pass.id).catch(() => undefined);
+    throw err;
+  }
+  return { pass: await recordPassStep(pass, report), report };
+}
+
+/** A report as the routes answer it: with the verifier's old count keys too. */
+function reportBody(verifier: Verifier, report: VerifierReport | null): Record<string, unknown> {
+  if (!report) return {};
+  const body: Record<string, unknown> = { ...report };
+  if (verifier.countKeys) {
+    body[verifier.countKeys.found] = report.found;
+    body[verifier.countKeys.missing] = report.missing;
+  }
+  return body;
+}
+
+/**
+ * The POST handler for /api/verify/<platform>.
+ *
+ * Body: { force?: boolean, max?: number, email?: string }
+ *   or  { resumable: true, force?: boolean }  → start (or resume) a pass over every row
+ *   or  { continuation: string }              → its next step
+ * A pass answers with `continuation`; POST it back until it comes back null.
+ * `checked` counts the emails actually looked up; `selected` those picked,
+ * including any the time budget left in `remaining`.
+ * Auth: x-cron-secret or x-vercel-cron header.
+ */
+export function verifierRoute(verifier: Verifier) {
+  return async function POST(req: NextRequest) {
+    const missingConfig = verifier.missingConfig();
+    if (missingConfig) {
+      return NextResponse.json({ error: missingConfig }, { status: 503 });
+    }
+    if (!cronAuthOk(req)) {
+      return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+    }
+
+    let body: VerifierOptions & { resumable?: boolean; continuation?: string } = {};
+    try {
+      body = await req.json();
+    } catch {
+      /* allow empty body */
+    }
+
+    const continuation = typeof body.continuation === "string" ? body.continuation : undefined;
+    if (body.resumable === true || continuation) {
+      if (!isSupabaseConfigured()) {
+        return NextResponse.json(
+          { error: "Resumable runs need Supabase (scripts/supabase/011_verifier_passes.sql)" },
+          { status: 503 }
+        );
+      }
+      try {
+        const pass = continuation
+          ? await getPass(continuation)
+          : (await startPass(verifier, { force: Boolean(body.force), by: req.headers.get("x-actor") || undefined })).pass;
+        if (!pass || pass.platform !== verifier.platform) {
+          return NextResponse.json({ error: "Unknown continuation token" }, { status: 404 });
+        }
+        const step = await runVerifierPass(verifier, pass.id);
+        return NextResponse.json({
+          success: true,
+          ...reportBody(verifier, step.report),
+          pass: step.pass,
+          continuation: continuationToken(step.pass),
+        });
+      } catch (err) {
+        if (err instanceof PassBusyError) {
+          return NextResponse.json({ error: err.message, continuation: err.passId }, { status: 409 });
+        }
+        console.error(`[verify/${verifier.platform}] Error:`, err);
+        const message = err instanceof Error ? err.message : "unknown";
+        return NextResponse.json({ error: `${verifier.label} verification failed`, detail: message }, { status: 500 });
+      }
+    }
+
+    try {
+      const report = await runVerifier(verifier, {
+        force: Boolean(body.force),
+        max: typeof body.max === "number" ? body.max : undefined,
+        email: typeof body.email === "string" ? body.email : undefined,
+      });
+      return NextResponse.json({ success: true, ...reportBody(verifier, report) });
+    } catch (err) {
+      console.error(`[verify/${verifier.platform}] Error:`, err);
+      const message = err instanceof Error ? err.message : "unknown";
+      return NextResponse.json({ error: `${verifier.label} verification failed`, detail: message }, { status: 500 });
+    }
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * Every platform verifier (see src/lib/verifier.ts), in the order the
+ * sweep reports them. Adding a platform: write its verifier-<platform>.ts,
+ * list it here, and give it a route that exports verifierRoute(it).
+ */
+
+import type { Verifier } from "./verifier";
+import { closeVerifier } from "./verifier-close";
+import { intercomVerifier } from "./verifier-intercom";
+import { mightyNetworksVerifier } from "./verifier-mighty-networks";
+import { vendhubVerifier } from "./verifier-vendhub";
+
+export const VERIFIERS: Verifier[] = [mightyNetworksVerifier, intercomVerifier, closeVerifier, vendhubVerifier];